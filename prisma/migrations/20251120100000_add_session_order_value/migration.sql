@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "orderValue" DOUBLE PRECISION;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TrackingEvent" ADD COLUMN     "clientEventId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackingEvent_siteId_clientEventId_key" ON "TrackingEvent"("siteId", "clientEventId");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "EventOutbox" (
+    "id" TEXT NOT NULL,
+    "siteId" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "clientEventId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "data" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deadLetteredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventOutbox_siteId_clientEventId_key" ON "EventOutbox"("siteId", "clientEventId");
+
+-- CreateIndex
+CREATE INDEX "EventOutbox_deadLetteredAt_nextAttemptAt_idx" ON "EventOutbox"("deadLetteredAt", "nextAttemptAt");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN     "allowedOrigins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lastRejectedOrigin" TEXT,
+ADD COLUMN     "lastRejectedOriginAt" TIMESTAMP(3),
+ADD COLUMN     "rejectedOriginCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: connected Shopify stores allow their myshopify.com storefront
+UPDATE "Business" AS b
+SET "allowedOrigins" = ARRAY['https://' || lower(s."shopDomain")]
+FROM "ShopifyStore" AS s
+WHERE s."businessId" = b."id";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN     "trackingTokenVersion" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN     "showBotTraffic" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "EventOutbox" ADD COLUMN     "botReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "botReason" TEXT,
+ADD COLUMN     "isBot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "TrackingEvent" ADD COLUMN     "botReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Session_siteId_isBot_createdAt_idx" ON "Session"("siteId", "isBot", "createdAt");
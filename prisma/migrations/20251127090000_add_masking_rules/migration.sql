@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN     "maskPatterns" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "maskSelectors" TEXT[] DEFAULT ARRAY[]::TEXT[];
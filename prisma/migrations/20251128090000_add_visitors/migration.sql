@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "EventOutbox" ADD COLUMN     "visitorId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "isReturning" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "visitorId" TEXT;
+
+-- AlterTable
+ALTER TABLE "TrackingEvent" ADD COLUMN     "visitorId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Visitor" (
+    "id" TEXT NOT NULL,
+    "siteId" TEXT NOT NULL,
+    "visitorId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "traits" JSONB,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Visitor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Visitor_siteId_customerId_idx" ON "Visitor"("siteId", "customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Visitor_siteId_visitorId_key" ON "Visitor"("siteId", "visitorId");
+
+-- CreateIndex
+CREATE INDEX "Session_siteId_visitorId_idx" ON "Session"("siteId", "visitorId");
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_siteId_visitorId_fkey" FOREIGN KEY ("siteId", "visitorId") REFERENCES "Visitor"("siteId", "visitorId") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "channel" TEXT,
+ADD COLUMN     "clickIdType" TEXT,
+ADD COLUMN     "referrer" TEXT,
+ADD COLUMN     "utmCampaign" TEXT,
+ADD COLUMN     "utmContent" TEXT,
+ADD COLUMN     "utmMedium" TEXT,
+ADD COLUMN     "utmSource" TEXT,
+ADD COLUMN     "utmTerm" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Session_siteId_channel_createdAt_idx" ON "Session"("siteId", "channel", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Session_siteId_utmCampaign_idx" ON "Session"("siteId", "utmCampaign");
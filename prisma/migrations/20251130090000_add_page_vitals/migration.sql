@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "PageVitals" (
+    "id" TEXT NOT NULL,
+    "siteId" TEXT NOT NULL,
+    "urlTemplate" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "sampleSize" INTEGER NOT NULL,
+    "lcp" DOUBLE PRECISION,
+    "cls" DOUBLE PRECISION,
+    "inp" DOUBLE PRECISION,
+    "ttfb" DOUBLE PRECISION,
+    "fcp" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageVitals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PageVitals_siteId_periodStart_idx" ON "PageVitals"("siteId", "periodStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageVitals_siteId_urlTemplate_periodStart_key" ON "PageVitals"("siteId", "urlTemplate", "periodStart");
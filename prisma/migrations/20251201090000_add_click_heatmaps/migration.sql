@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ClickHeatmap" (
+    "id" TEXT NOT NULL,
+    "siteId" TEXT NOT NULL,
+    "urlTemplate" TEXT NOT NULL,
+    "deviceClass" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "clicks" INTEGER NOT NULL,
+    "sampleUrl" TEXT,
+    "cells" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClickHeatmap_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClickHeatmap_siteId_periodStart_idx" ON "ClickHeatmap"("siteId", "periodStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClickHeatmap_siteId_urlTemplate_deviceClass_periodStart_key" ON "ClickHeatmap"("siteId", "urlTemplate", "deviceClass", "periodStart");
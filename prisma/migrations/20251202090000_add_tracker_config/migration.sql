@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN     "trackerConfig" JSONB NOT NULL DEFAULT '{}';
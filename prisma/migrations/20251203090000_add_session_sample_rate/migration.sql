@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "sampleRate" DOUBLE PRECISION NOT NULL DEFAULT 1;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Business" ADD COLUMN     "trackerVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "TrackerRelease" (
+    "id" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "script" TEXT NOT NULL,
+    "rolloutPercent" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrackerRelease_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackerRelease_version_key" ON "TrackerRelease"("version");
+
+-- CreateIndex
+CREATE INDEX "TrackerRelease_createdAt_idx" ON "TrackerRelease"("createdAt");
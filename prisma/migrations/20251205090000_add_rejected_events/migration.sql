@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "RejectedEvent" (
+    "id" TEXT NOT NULL,
+    "siteId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "eventType" TEXT,
+    "errors" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RejectedEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RejectedEvent_siteId_createdAt_idx" ON "RejectedEvent"("siteId", "createdAt");
@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "TrackingEvent_createdAt_idx" ON "TrackingEvent"("createdAt");
+
+-- CreateTable
+CREATE TABLE "JobCursor" (
+    "id" TEXT NOT NULL,
+    "cursor" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JobCursor_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "TrackingEvent_siteId_visitorId_idx" ON "TrackingEvent"("siteId", "visitorId");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "RejectedEvent_createdAt_idx" ON "RejectedEvent"("createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PageVitals" ADD COLUMN     "histogram" JSONB NOT NULL DEFAULT '{}';
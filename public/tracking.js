@@ -31,10 +31,41 @@
     batchInterval: 5000, // 5 seconds
     sessionTimeout: 30 * 60 * 1000, // 30 minutes
     apiEndpoint: 'https://metricfortune.vercel.app/api/track', // Absolute URL for cross-origin tracking
+    tokenEndpoint: 'https://metricfortune.vercel.app/api/track/token', // Signed session tokens
+    configEndpoint: 'https://metricfortune.vercel.app/api/track/config', // Per-site settings applied over this CONFIG
+    tokenRefreshMargin: 60 * 1000, // Refresh tokens a minute before they expire
+    tokenRetryDelay: 30 * 1000, // Wait before retrying a failed token request
     retryAttempts: 3,
     retryBackoff: 1000, // Start with 1 second
+    maxStoredEvents: 500, // Cap for the persisted offline queue
+    maxStoredAge: 24 * 60 * 60 * 1000, // Drop persisted events older than 24 hours
+    beaconBatchSize: 50, // Keep exit-time beacons well under the 64KB limit
+    visitorLifetimeDays: 365, // Default visitor ID lifetime (init({ visitorLifetimeDays }))
+    maxErrorsPerPage: 10, // Distinct JavaScript errors reported per page
+    rageClickCount: 3, // Clicks on the same element that make a rage click...
+    rageClickWindow: 1000, // ...within this many milliseconds
+    deadClickTimeout: 1000, // Wait for navigation or a DOM change before reporting a dead click
+    selectorDepth: 5, // Ancestors in a click selector path without a stable anchor
+    impressionThreshold: 0.5, // Share of a data-mf-impression element that must be visible...
+    impressionDelay: 1000, // ...for this many milliseconds
+    sampleRate: 1, // Share of sessions tracked (per-site setting)
+    modules: { // Capture modules (per-site setting)
+      clicks: true,
+      forms: true,
+      scroll: true,
+      vitals: true,
+      errors: true,
+      frustration: true,
+      impressions: true,
+    },
+    ctaSelector: '[data-mf-cta], form[action*="/cart/add"] [type="submit"], button[name="add"]', // Add-to-cart area for scroll reach
   };
 
+  // Per-site script (/t/<siteId>.js): the server wraps this file in a
+  // function called with { siteId, config }, so it starts without a
+  // data-site-id attribute or a config request. Undefined for tracking.js.
+  const INLINE = typeof MF_INLINE === 'object' && MF_INLINE ? MF_INLINE : null;
+
   // State
   let state = {
     siteId: null,
@@ -45,11 +76,19 @@
     eventQueue: [],
     batchTimer: null,
     pageLoadStart: null,
+    currentUrl: null,
     initialized: false,
+    requireConsent: false,
+    visitorId: null,
+    visitorLifetimeDays: CONFIG.visitorLifetimeDays,
+    landing: false, // Next full pageview is the session's landing page
   };
 
   // Utility: Generate UUID v4
   function generateUUID() {
+    if (window.crypto && typeof window.crypto.randomUUID === 'function') {
+      return window.crypto.randomUUID();
+    }
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
       const r = Math.random() * 16 | 0;
       const v = c === 'x' ? r : (r & 0x3 | 0x8);
@@ -70,6 +109,327 @@
     }
   }
 
+  // Debug mode (MetricFortune.debug(true)): logs captured, dropped and sent
+  // events to the console; kept for the tab's later pages
+  const DEBUG_KEY = 'mf_debug';
+  let debugMode = false;
+  try {
+    debugMode = window.sessionStorage.getItem(DEBUG_KEY) === '1';
+  } catch (e) {
+    // Storage blocked - off until debug(true)
+  }
+
+  function debugLog(message, detail) {
+    if (debugMode) console.log('[MetricFortune] ' + message, detail === undefined ? '' : detail);
+  }
+
+  function debug(enabled) {
+    debugMode = enabled !== false;
+    const storage = safeStorage('session');
+    if (storage) {
+      if (debugMode) storage.setItem(DEBUG_KEY, '1');
+      else storage.removeItem(DEBUG_KEY);
+    }
+    console.log('[MetricFortune] Debug mode ' + (debugMode ? 'on' : 'off'), {
+      siteId: state.siteId,
+      sessionId: state.sessionId,
+      initialized: state.initialized,
+      consent: consentDecision,
+      sampleRate: CONFIG.sampleRate,
+    });
+  }
+
+  // Consent: 'granted' / 'denied' (persisted), or null while undecided
+  const CONSENT_KEY = 'mf_consent';
+  let consentDecision = null;
+  let pendingConfig = null; // init() config held back until consent
+
+  function readConsent() {
+    try {
+      const storage = safeStorage('local');
+      const stored = storage && storage.getItem(CONSENT_KEY);
+      if (stored === 'granted' || stored === 'denied') consentDecision = stored;
+    } catch (e) {
+      // Keep the in-memory decision
+    }
+    return consentDecision;
+  }
+
+  function writeConsent(decision) {
+    consentDecision = decision;
+    try {
+      const storage = safeStorage('local');
+      if (storage) storage.setItem(CONSENT_KEY, decision);
+    } catch (e) {
+      // Silent fail - decision still applies to this page
+    }
+  }
+
+  // PII masking: data-mf-mask / data-mf-ignore attributes plus the site's
+  // rules (selectors and regexes), delivered with the tracking token and the
+  // site config and cached for the session. The server scrubs anything that
+  // slips through.
+  const MASKING_KEY = 'mf_masking';
+  const REDACTED = '[redacted]';
+  const PII_PATTERNS = [
+    /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, // Email
+    /(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g, // Phone
+    /\b\d(?:[ -]?\d){12,18}\b/g, // Card number
+  ];
+  let masking = { selectors: [], patterns: [] };
+
+  function setMasking(rules) {
+    try {
+      if (!rules) return;
+      masking = {
+        selectors: rules.selectors || [],
+        patterns: (rules.patterns || []).map(function (pattern) {
+          try {
+            return new RegExp(pattern, 'gi');
+          } catch (e) {
+            return null;
+          }
+        }).filter(Boolean),
+      };
+      const storage = safeStorage('session');
+      if (storage) storage.setItem(MASKING_KEY + ':' + state.siteId, JSON.stringify(rules));
+    } catch (e) {
+      // Silent fail - built-in patterns still apply
+    }
+  }
+
+  function restoreMasking() {
+    try {
+      const storage = safeStorage('session');
+      const stored = storage && storage.getItem(MASKING_KEY + ':' + state.siteId);
+      if (stored) setMasking(JSON.parse(stored));
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Remote configuration: the site's settings (sampling, session timeout,
+  // capture modules, masking rules, first-party endpoint) from
+  // configEndpoint, cached for the session and applied over CONFIG.
+  // Until it arrives, or if the request fails, the built-in defaults apply.
+  const CONFIG_KEY = 'mf_config';
+
+  function applyConfig(remote) {
+    try {
+      if (!remote || typeof remote !== 'object') return;
+
+      if (remote.sampleRate > 0 && remote.sampleRate <= 1) CONFIG.sampleRate = remote.sampleRate;
+      if (remote.sessionTimeoutMinutes > 0) CONFIG.sessionTimeout = remote.sessionTimeoutMinutes * 60 * 1000;
+      if (remote.modules) {
+        Object.keys(CONFIG.modules).forEach(function (name) {
+          if (typeof remote.modules[name] === 'boolean') CONFIG.modules[name] = remote.modules[name];
+        });
+      }
+      if (typeof remote.endpoint === 'string' && /^https:\/\//.test(remote.endpoint)) {
+        const base = remote.endpoint.replace(/\/+$/, '');
+        CONFIG.apiEndpoint = base + '/api/track';
+        CONFIG.tokenEndpoint = base + '/api/track/token';
+        CONFIG.configEndpoint = base + '/api/track/config';
+      }
+      if (remote.masking) setMasking(remote.masking);
+
+      // Events captured before the config arrived
+      if (!inSample(state.sessionId)) {
+        state.eventQueue = state.eventQueue.filter(function (event) { return event.sessionId !== state.sessionId; });
+      } else {
+        state.eventQueue.forEach(function (event) {
+          if (event.sessionId === state.sessionId && event.event.type === 'pageview') {
+            setSampleRate(event.event.data);
+          }
+        });
+      }
+      persistQueue();
+    } catch (e) {
+      // Silent fail - defaults still apply
+    }
+  }
+
+  // Sampled sessions report their rate so the server can upscale counts
+  function setSampleRate(data) {
+    if (CONFIG.sampleRate < 1) data.sampleRate = CONFIG.sampleRate;
+    else delete data.sampleRate;
+  }
+
+  function restoreConfig() {
+    try {
+      const storage = safeStorage('session');
+      const stored = storage && storage.getItem(CONFIG_KEY + ':' + state.siteId);
+      if (stored) applyConfig(JSON.parse(stored));
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  function loadConfig() {
+    fetch(CONFIG.configEndpoint + '?siteId=' + encodeURIComponent(state.siteId))
+      .then(function (response) {
+        if (!response.ok) throw new Error('Config request failed');
+        return response.json();
+      })
+      .then(function (body) {
+        if (!body || !body.data) return;
+        applyConfig(body.data);
+        const storage = safeStorage('session');
+        if (storage) storage.setItem(CONFIG_KEY + ':' + state.siteId, JSON.stringify(body.data));
+      })
+      .catch(function () {
+        // Keep the defaults (or the session's cached config)
+      });
+  }
+
+  // Session sampling: deterministic on the session ID (FNV-1a hash), so a
+  // session's events are all kept or all dropped on every page
+  function inSample(sessionId) {
+    if (CONFIG.sampleRate >= 1 || !sessionId) return true;
+
+    let hash = 2166136261;
+    for (let i = 0; i < sessionId.length; i++) {
+      hash ^= sessionId.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    return (hash >>> 0) / 4294967296 < CONFIG.sampleRate;
+  }
+
+  // Redact the site's patterns and emails (plus phone and card numbers
+  // outside URLs, where long numeric IDs are common)
+  function maskText(text, isUrl) {
+    if (!text) return text;
+    let result = String(text);
+    masking.patterns.concat(PII_PATTERNS.slice(0, isUrl ? 1 : 3)).forEach(function (pattern) {
+      result = result.replace(pattern, REDACTED);
+    });
+    return result;
+  }
+
+  function closestMatch(element, selector) {
+    try {
+      return !!(element && element.closest && element.closest(selector));
+    } catch (e) {
+      return false; // Invalid site selector
+    }
+  }
+
+  function isIgnored(element) {
+    return closestMatch(element, '[data-mf-ignore]');
+  }
+
+  function isMasked(element) {
+    return closestMatch(element, '[data-mf-mask]') ||
+      masking.selectors.some(function (selector) { return closestMatch(element, selector); });
+  }
+
+  // Do-Not-Track / Global Privacy Control
+  function hasPrivacySignal() {
+    return navigator.globalPrivacyControl === true ||
+      navigator.doNotTrack === '1' || window.doNotTrack === '1';
+  }
+
+  // An explicit decision wins; otherwise browser privacy signals opt out,
+  // and sites that require consent wait for one
+  function canTrack() {
+    const decision = readConsent();
+    if (decision) return decision === 'granted';
+    return !hasPrivacySignal() && !state.requireConsent;
+  }
+
+  // Drop everything queued or persisted for this site
+  function purgeQueue() {
+    state.eventQueue = [];
+    inflight = [];
+    undelivered = [];
+    try {
+      const storage = safeStorage('local');
+      if (!storage) return;
+      const keys = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key && key.indexOf(QUEUE_KEY_PREFIX) === 0) keys.push(key);
+      }
+      keys.forEach(function (key) {
+        let stored = [];
+        try {
+          stored = JSON.parse(storage.getItem(key)) || [];
+        } catch (e) {
+          // Corrupt entry - discard
+        }
+        const otherSites = stored.filter(function (event) { return event && event.siteId !== state.siteId; });
+        if (otherSites.length > 0) {
+          storage.setItem(key, JSON.stringify(otherSites));
+        } else {
+          storage.removeItem(key);
+        }
+      });
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Visitor identity: a first-party ID that outlives sessions, kept in
+  // localStorage with a cookie fallback. The expiry slides on every page load;
+  // a lifetime of 0 disables the visitor ID.
+  const VISITOR_KEY = 'mf_visitor';
+
+  function readVisitorCookie() {
+    try {
+      const match = document.cookie.match(new RegExp('(?:^|; )' + VISITOR_KEY + '=([^;]*)'));
+      return match ? decodeURIComponent(match[1]) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  function writeVisitor(maxAge) {
+    try {
+      const storage = safeStorage('local');
+      if (storage) {
+        if (maxAge > 0) {
+          storage.setItem(VISITOR_KEY, JSON.stringify({ id: state.visitorId, expiresAt: Date.now() + maxAge }));
+        } else {
+          storage.removeItem(VISITOR_KEY);
+        }
+      }
+    } catch (e) {
+      // Cookie still applies
+    }
+    try {
+      document.cookie = VISITOR_KEY + '=' + encodeURIComponent(state.visitorId || '') +
+        '; max-age=' + Math.max(0, Math.floor(maxAge / 1000)) + '; path=/; SameSite=Lax';
+    } catch (e) {
+      // Silent fail - in-memory visitor ID for this page
+    }
+  }
+
+  function initVisitor() {
+    const lifetime = state.visitorLifetimeDays * 24 * 60 * 60 * 1000;
+    if (!(lifetime > 0)) {
+      clearVisitor();
+      return;
+    }
+
+    let stored = null;
+    try {
+      const storage = safeStorage('local');
+      stored = storage && JSON.parse(storage.getItem(VISITOR_KEY));
+    } catch (e) {
+      // Corrupt entry - fall back to the cookie
+    }
+
+    state.visitorId = stored && stored.id && stored.expiresAt > Date.now()
+      ? stored.id
+      : readVisitorCookie() || generateUUID();
+    writeVisitor(lifetime);
+  }
+
+  function clearVisitor() {
+    state.visitorId = null;
+    writeVisitor(0);
+  }
+
   // Session Management
   function initSession() {
     try {
@@ -89,6 +449,7 @@
       } else {
         // Create new session
         state.sessionId = generateUUID();
+        state.landing = true;
         state.sessionStart = now;
         state.entryPage = window.location.href;
         storage.setItem('mf_session_id', state.sessionId);
@@ -123,22 +484,114 @@
     }
   }
 
+  // Offline queue: unacknowledged events are persisted to localStorage
+  // (one key per tab session) and replayed on the next page load
+  const QUEUE_KEY_PREFIX = 'mf_queue:';
+  let inflight = []; // Events sent with fetch, awaiting a response
+  let undelivered = []; // Events that exhausted retries
+
+  function capQueue() {
+    const excess = state.eventQueue.length - CONFIG.maxStoredEvents;
+    if (excess > 0) state.eventQueue.splice(0, excess);
+  }
+
+  function persistQueue() {
+    try {
+      const storage = safeStorage('local');
+      if (!storage || !state.sessionId) return;
+
+      const key = QUEUE_KEY_PREFIX + state.sessionId;
+      const pending = undelivered.concat(inflight, state.eventQueue).slice(-CONFIG.maxStoredEvents);
+
+      if (pending.length === 0) {
+        storage.removeItem(key);
+      } else {
+        storage.setItem(key, JSON.stringify(pending));
+      }
+    } catch (e) {
+      // Silent fail - quota exceeded or storage blocked
+    }
+  }
+
+  // Load events left behind by previous page loads (any tab) for this site.
+  // Replays may duplicate events another open tab still sends; the server
+  // drops them by clientEventId.
+  function restoreQueue() {
+    try {
+      const storage = safeStorage('local');
+      if (!storage) return;
+
+      const cutoff = Date.now() - CONFIG.maxStoredAge;
+      const keys = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key && key.indexOf(QUEUE_KEY_PREFIX) === 0) keys.push(key);
+      }
+
+      keys.forEach(function (key) {
+        let stored = [];
+        try {
+          stored = JSON.parse(storage.getItem(key)) || [];
+        } catch (e) {
+          // Corrupt entry - discard
+        }
+        const otherSites = [];
+
+        stored.forEach(function (event) {
+          if (!event || !event.event || event.event.timestamp <= cutoff) return;
+          if (event.siteId === state.siteId) {
+            state.eventQueue.push(event);
+          } else {
+            otherSites.push(event);
+          }
+        });
+
+        if (otherSites.length > 0) {
+          storage.setItem(key, JSON.stringify(otherSites));
+        } else {
+          storage.removeItem(key);
+        }
+      });
+
+      capQueue();
+      persistQueue();
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  function removeInflight(batch) {
+    inflight = inflight.filter(function (event) { return batch.indexOf(event) === -1; });
+  }
+
   // Event Queue Management
   function queueEvent(eventType, eventData) {
     try {
+      if (!canTrack() || !inSample(state.sessionId)) {
+        debugLog('Dropped ' + eventType + (canTrack() ? ' (session outside the sample)' : ' (no consent)'));
+        return;
+      }
+
       updateActivity();
 
       const event = {
         siteId: state.siteId,
         sessionId: state.sessionId,
+        clientEventId: generateUUID(),
         event: {
           type: eventType,
           timestamp: Date.now(),
           data: eventData
         }
       };
+      // Lets the server accept events from browsers sending Sec-GPC
+      if (consentDecision === 'granted') event.consent = true;
+      if (state.visitorId) event.visitorId = state.visitorId;
 
       state.eventQueue.push(event);
+      debugLog('Captured ' + eventType, eventData);
+      capQueue();
+      persistQueue();
 
       // Send batch if queue size reached
       if (state.eventQueue.length >= CONFIG.batchSize) {
@@ -149,49 +602,192 @@
     }
   }
 
-  // Send batched events to server
+  // Endpoint URL with the siteId, so CORS preflights can be checked against
+  // the site's allowed origins
+  function endpointUrl() {
+    return CONFIG.apiEndpoint + '?siteId=' + encodeURIComponent(state.siteId || '');
+  }
+
+  // Signed tokens (one per session) authorize batches sent to the API
+  let tokens = {};
+  let tokenRequests = {};
+  let tokenRetryAt = 0;
+
+  function cachedToken(sessionId) {
+    const entry = tokens[sessionId];
+    return entry && entry.expiresAt - CONFIG.tokenRefreshMargin > Date.now() ? entry.token : null;
+  }
+
+  // Fetch a token for a session; resolves to null on failure
+  function requestToken(sessionId) {
+    if (tokenRequests[sessionId]) return tokenRequests[sessionId];
+    if (Date.now() < tokenRetryAt) return Promise.resolve(null);
+
+    const done = function (token) {
+      delete tokenRequests[sessionId];
+      return token;
+    };
+
+    tokenRequests[sessionId] = fetch(
+      CONFIG.tokenEndpoint +
+        '?siteId=' + encodeURIComponent(state.siteId) +
+        '&sessionId=' + encodeURIComponent(sessionId)
+    )
+      .then(function (response) {
+        if (!response.ok) throw new Error('Token request failed');
+        return response.json();
+      })
+      .then(function (body) {
+        tokens[sessionId] = {
+          token: body.data.token,
+          expiresAt: Date.now() + body.data.expiresIn * 1000,
+        };
+        setMasking(body.data.masking);
+        return done(body.data.token);
+      })
+      .catch(function () {
+        tokenRetryAt = Date.now() + CONFIG.tokenRetryDelay;
+        return done(null);
+      });
+
+    return tokenRequests[sessionId];
+  }
+
+  // Request body: events of a single session plus its token
+  function batchBody(batch, token) {
+    return JSON.stringify({ events: batch, token: token, batchId: generateUUID() });
+  }
+
+  // Hand a batch to the browser via sendBeacon (sent as text/plain, no preflight)
+  function sendBeaconBatch(batch, token) {
+    try {
+      return !!(navigator.sendBeacon && navigator.sendBeacon(
+        endpointUrl(),
+        batchBody(batch, token)
+      ));
+    } catch (e) {
+      return false;
+    }
+  }
+
+  // Send batched events to server (one session per request, oldest first).
+  // Routine sends use plain fetch so the response is checked: a batch is only
+  // dropped from the queue once the server has answered it. Large queues (an
+  // offline backlog) go out in beaconBatchSize chunks, one after another.
   function sendBatch(retryCount = 0) {
     try {
       if (state.eventQueue.length === 0) return;
 
-      const batch = state.eventQueue.splice(0, state.eventQueue.length);
+      const sessionId = state.eventQueue[0].sessionId;
+      const token = cachedToken(sessionId);
 
-      // Use sendBeacon if available (best for page unload)
-      if (navigator.sendBeacon && retryCount === 0) {
-        const success = navigator.sendBeacon(
-          CONFIG.apiEndpoint,
-          JSON.stringify({ events: batch })
-        );
-        if (success) return;
+      // Events stay queued (and persisted) until a token arrives
+      if (!token) {
+        requestToken(sessionId).then(function (fetched) {
+          if (fetched) sendBatch(retryCount);
+        });
+        return;
       }
 
-      // Fallback to fetch with retry logic
-      fetch(CONFIG.apiEndpoint, {
+      const batch = state.eventQueue
+        .filter(function (event) { return event.sessionId === sessionId; })
+        .slice(0, CONFIG.beaconBatchSize);
+      state.eventQueue = state.eventQueue.filter(function (event) { return batch.indexOf(event) === -1; });
+
+      // Re-queue events and retry with exponential backoff; once retries are
+      // exhausted the events stay in storage for the next page load
+      const retry = function () {
+        removeInflight(batch);
+        if (retryCount < CONFIG.retryAttempts) {
+          state.eventQueue.unshift(...batch);
+          setTimeout(() => {
+            sendBatch(retryCount + 1);
+          }, CONFIG.retryBackoff * Math.pow(2, retryCount));
+        } else {
+          undelivered = undelivered.concat(batch);
+        }
+        persistQueue();
+      };
+
+      inflight = inflight.concat(batch);
+
+      fetch(endpointUrl(), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ events: batch }),
-        keepalive: true,
+        body: batchBody(batch, token),
       })
         .then(response => {
-          if (!response.ok && retryCount < CONFIG.retryAttempts) {
-            // Re-queue events and retry with exponential backoff
-            state.eventQueue.unshift(...batch);
-            setTimeout(() => {
-              sendBatch(retryCount + 1);
-            }, CONFIG.retryBackoff * Math.pow(2, retryCount));
+          debugLog('Sent ' + batch.length + ' events (HTTP ' + response.status + ')');
+          if (response.status === 400) debugLog('Events rejected - the errors are listed under Live Events in your dashboard');
+          if (response.status === 401) {
+            // Expired or revoked token - retry with a fresh one
+            delete tokens[sessionId];
+            retry();
+          } else if (response.ok || (response.status >= 400 && response.status < 500 && response.status !== 429)) {
+            // 4xx (other than rate limiting) will never succeed - drop the batch
+            removeInflight(batch);
+            persistQueue();
+            sendBatch(); // Next chunk or session, if any
+          } else {
+            retry();
           }
         })
-        .catch(error => {
-          // Network error - re-queue and retry
-          if (retryCount < CONFIG.retryAttempts) {
-            state.eventQueue.unshift(...batch);
-            setTimeout(() => {
-              sendBatch(retryCount + 1);
-            }, CONFIG.retryBackoff * Math.pow(2, retryCount));
-          }
-        });
+        .catch(retry);
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Exit-time flush (pagehide/tab hidden): normal requests are routinely
+  // cancelled here, so only sendBeacon or fetch(keepalive) are used.
+  // Chunks the browser won't take (or without a token yet) stay queued (and persisted).
+  function flushOnExit() {
+    try {
+      checkCtaVisible();
+      captureTimeOnPage();
+      captureVitals();
+
+      const pending = undelivered.concat(state.eventQueue);
+      undelivered = [];
+      state.eventQueue = [];
+
+      const sessions = [];
+      pending.forEach(function (event) {
+        if (sessions.indexOf(event.sessionId) === -1) sessions.push(event.sessionId);
+      });
+
+      sessions.forEach(function (sessionId) {
+        const events = pending.filter(function (event) { return event.sessionId === sessionId; });
+        const token = cachedToken(sessionId);
+
+        if (!token) {
+          state.eventQueue = state.eventQueue.concat(events);
+          return;
+        }
+
+        for (let i = 0; i < events.length; i += CONFIG.beaconBatchSize) {
+          const chunk = events.slice(i, i + CONFIG.beaconBatchSize);
+          if (sendBeaconBatch(chunk, token)) continue;
+
+          // Delivery can't be confirmed during unload - keep the chunk so it
+          // is replayed later (duplicates are dropped server-side)
+          state.eventQueue = state.eventQueue.concat(chunk);
+          fetch(endpointUrl(), {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'text/plain',
+            },
+            body: batchBody(chunk, token),
+            keepalive: true,
+          }).catch(function () {
+            // Ignore - replayed on next page load
+          });
+        }
+      });
+
+      persistQueue();
     } catch (e) {
       // Silent fail
     }
@@ -207,15 +803,99 @@
     }, CONFIG.batchInterval);
   }
 
+  // Campaign attribution: UTM parameters and ad click IDs on the landing page
+  const ATTRIBUTION_PARAMS = {
+    utm_source: 'utmSource',
+    utm_medium: 'utmMedium',
+    utm_campaign: 'utmCampaign',
+    utm_term: 'utmTerm',
+    utm_content: 'utmContent',
+    gclid: 'gclid',
+    fbclid: 'fbclid',
+    msclkid: 'msclkid',
+  };
+
+  function readAttribution() {
+    try {
+      const params = new URL(window.location.href).searchParams;
+      let attribution = null;
+      Object.keys(ATTRIBUTION_PARAMS).forEach(function (param) {
+        const value = params.get(param);
+        if (!value) return;
+        attribution = attribution || {};
+        attribution[ATTRIBUTION_PARAMS[param]] = maskText(value.substring(0, 255));
+      });
+      return attribution;
+    } catch (e) {
+      return null;
+    }
+  }
+
   // Event Capture: Pageview
-  function capturePageview() {
+  // For virtual (SPA) pageviews the previous in-app URL is used as referrer
+  function capturePageview(previousUrl) {
     try {
-      queueEvent('pageview', {
-        url: window.location.href,
-        referrer: document.referrer || null,
-        title: document.title,
+      state.currentUrl = window.location.href;
+      const data = {
+        url: maskText(window.location.href, true),
+        referrer: maskText(previousUrl || document.referrer || null, true),
+        title: maskText(document.title),
         path: window.location.pathname,
+        virtual: !!previousUrl,
+      };
+      // Automated browsers are tagged as bots server-side
+      if (navigator.webdriver) data.webdriver = true;
+      setSampleRate(data);
+      if (!previousUrl && state.landing) {
+        const attribution = readAttribution();
+        if (attribution) data.attribution = attribution;
+        data.landing = true;
+        state.landing = false;
+      }
+      reportedErrors = {};
+      seenImpressions = {};
+      queueEvent('pageview', data);
+      checkCtaVisible(); // Above the fold
+      observeImpressions(true);
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // SPA navigation: close out the previous page and record a virtual pageview
+  function handleRouteChange(force) {
+    try {
+      const previousUrl = state.currentUrl;
+      if (!force && window.location.href === previousUrl) return;
+
+      captureTimeOnPage();
+      maxScrollDepth = 0;
+      ctaSeen = null;
+      state.pageLoadStart = Date.now();
+      capturePageview(previousUrl);
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Wrap history methods so pushState/replaceState route changes are observed
+  function patchHistory() {
+    try {
+      const history = window.history;
+      if (!history || typeof history.pushState !== 'function') return;
+
+      ['pushState', 'replaceState'].forEach(function (method) {
+        const original = history[method];
+        history[method] = function () {
+          const result = original.apply(this, arguments);
+          // Defer so frameworks can update document.title first
+          scheduleIdle(function () { handleRouteChange(false); });
+          return result;
+        };
       });
+
+      window.addEventListener('popstate', function () { handleRouteChange(false); });
+      window.addEventListener('hashchange', function () { handleRouteChange(false); });
     } catch (e) {
       // Silent fail
     }
@@ -228,21 +908,227 @@
     return text.replace(/<[^>]*>/g, '').substring(0, 50).trim();
   }
 
+  // Stable element selectors: the same element gets the same selector on every
+  // pageview, so clicks can be grouped across sessions.
+  // - data-mf-id / data-testid attributes and hand-written ids anchor the path
+  // - otherwise a `tag.class:nth-of-type(n)` path up to CONFIG.selectorDepth
+  // - generated classes (CSS modules, CSS-in-JS hashes) and state classes are dropped
+  const SELECTOR_ATTRIBUTES = ['data-mf-id', 'data-testid'];
+  const GENERATED_CLASS = /^(css|sc|jsx|emotion|svelte)-|(^|[_-])(?=[a-z]*\d)(?=\d*[a-z])[a-z0-9]{5,}$/i;
+  const STATE_CLASS = /^(is-|has-)|^(active|selected|open|focus|focused|hover|disabled|current)$/;
+  const GENERATED_ID = /\d{3,}|:/;
+
+  function cssEscape(value) {
+    return window.CSS && window.CSS.escape ? window.CSS.escape(value) : String(value).replace(/[^\w-]/g, '\\$&');
+  }
+
+  function anchorSelector(node) {
+    for (let i = 0; i < SELECTOR_ATTRIBUTES.length; i++) {
+      const value = node.getAttribute && node.getAttribute(SELECTOR_ATTRIBUTES[i]);
+      if (value) return '[' + SELECTOR_ATTRIBUTES[i] + '="' + String(value).replace(/"/g, '\\"') + '"]';
+    }
+    if (node.id && !GENERATED_ID.test(node.id)) return '#' + cssEscape(node.id);
+    return null;
+  }
+
+  function nodeSelector(node) {
+    let selector = node.tagName.toLowerCase();
+    const classes = typeof node.className === 'string' ? node.className.split(/\s+/) : [];
+    classes.filter(function (name) {
+      return name && !GENERATED_CLASS.test(name) && !STATE_CLASS.test(name);
+    }).slice(0, 2).forEach(function (name) { selector += '.' + cssEscape(name); });
+
+    // Position among siblings of the same tag, when it's ambiguous
+    let index = 1;
+    let shared = false;
+    for (let sibling = node.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.tagName === node.tagName) { index++; shared = true; }
+    }
+    for (let sibling = node.nextElementSibling; sibling && !shared; sibling = sibling.nextElementSibling) {
+      if (sibling.tagName === node.tagName) shared = true;
+    }
+    return shared ? selector + ':nth-of-type(' + index + ')' : selector;
+  }
+
+  function elementSelector(element) {
+    const parts = [];
+    let node = element;
+    for (let depth = 0; node && node.tagName && depth < CONFIG.selectorDepth; depth++) {
+      const anchor = anchorSelector(node);
+      if (anchor) {
+        parts.unshift(anchor);
+        break;
+      }
+      if (node === document.body) break;
+      parts.unshift(nodeSelector(node));
+      node = node.parentElement;
+    }
+    return parts.join(' > ').substring(0, 500);
+  }
+
+  // Page URL template (mirrors the server's toUrlTemplate): path only, with
+  // handles after product/collection segments and ID segments collapsed
+  const HANDLE_PREFIXES = ['products', 'product', 'collections', 'collection', 'categories', 'category', 'p', 'item', 'items'];
+  const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|(?=[a-z]*\d)[0-9a-z]{16,}|[0-9a-f]{10,})$/i;
+
+  function urlTemplate(url) {
+    try {
+      const segments = new URL(url, window.location.href).pathname.split('/').filter(Boolean);
+      return '/' + segments.map(function (segment, i) {
+        if (i > 0 && HANDLE_PREFIXES.indexOf(segments[i - 1].toLowerCase()) !== -1) return ':handle';
+        if (ID_SEGMENT.test(segment)) return ':id';
+        return segment.toLowerCase();
+      }).join('/');
+    } catch (e) {
+      return null;
+    }
+  }
+
   // Event Capture: Click
   function captureClick(event) {
     try {
       const target = event.target;
-      const selector = target.id ? `#${target.id}` :
-        target.className ? `.${target.className.split(' ')[0]}` :
-          target.tagName.toLowerCase();
-
-      queueEvent('click', {
-        selector: selector,
-        tagName: target.tagName,
-        text: sanitizeText(target.innerText),
-        href: target.href || null,
-        x: event.clientX,
-        y: event.clientY,
+      if (isIgnored(target)) return;
+
+      const selector = elementSelector(target);
+
+      if (CONFIG.modules.clicks) {
+        queueEvent('click', {
+          selector: selector,
+          urlTemplate: urlTemplate(state.currentUrl || window.location.href),
+          tagName: target.tagName,
+          text: isMasked(target) ? REDACTED : maskText(sanitizeText(target.innerText)),
+          href: maskText(target.href || null, true),
+          x: event.clientX,
+          y: event.clientY,
+          // Heatmap inputs: document-relative position and the viewport it was clicked in
+          url: maskText(state.currentUrl || window.location.href, true),
+          pageX: Math.round(event.pageX != null ? event.pageX : event.clientX + (window.pageXOffset || 0)),
+          pageY: Math.round(event.pageY != null ? event.pageY : event.clientY + (window.pageYOffset || 0)),
+          vw: window.innerWidth || document.documentElement.clientWidth,
+          vh: window.innerHeight || document.documentElement.clientHeight,
+        });
+      }
+
+      if (CONFIG.modules.frustration) {
+        detectRageClick(target, selector, event);
+        detectDeadClick(target, selector, event);
+      }
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Event Capture: Frustration signals derived from clicks
+  const INTERACTIVE_SELECTOR = 'a, button, input, select, textarea, label, summary, option, video, audio, ' +
+    '[onclick], [role="button"], [role="link"], [role="checkbox"], [role="tab"], [role="menuitem"], ' +
+    '[contenteditable], [tabindex]';
+  let recentClicks = [];
+
+  function frustrationData(target, selector, event) {
+    return {
+      selector: maskText(selector),
+      urlTemplate: urlTemplate(state.currentUrl || window.location.href),
+      tagName: target.tagName,
+      url: maskText(state.currentUrl || window.location.href, true),
+      x: event.clientX,
+      y: event.clientY,
+    };
+  }
+
+  // Rage click: rageClickCount clicks on one element within rageClickWindow,
+  // reported once per burst
+  function detectRageClick(target, selector, event) {
+    const now = Date.now();
+    recentClicks = recentClicks.filter(function (click) {
+      return now - click.time <= CONFIG.rageClickWindow;
+    });
+    recentClicks.push({ target: target, time: now });
+
+    const clicks = recentClicks.filter(function (click) { return click.target === target; }).length;
+    if (clicks === CONFIG.rageClickCount) {
+      const data = frustrationData(target, selector, event);
+      data.clicks = clicks;
+      queueEvent('rage_click', data);
+    }
+  }
+
+  // Dead click: a click on a non-interactive element followed by no navigation
+  // and no DOM change within deadClickTimeout
+  function detectDeadClick(target, selector, event) {
+    if (typeof MutationObserver === 'undefined' || closestMatch(target, INTERACTIVE_SELECTOR)) return;
+
+    const url = window.location.href;
+    let changed = false;
+    const observer = new MutationObserver(function () { changed = true; });
+    observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+
+    setTimeout(function () {
+      observer.disconnect();
+      if (changed || document.hidden || window.location.href !== url) return;
+      queueEvent('dead_click', frustrationData(target, selector, event));
+    }, CONFIG.deadClickTimeout);
+  }
+
+  // Event Capture: Impressions of data-mf-impression elements, reported once
+  // per name per page when impressionThreshold of the element stays visible
+  // for impressionDelay
+  let impressionObserver = null;
+  let impressionTimers = new Map();
+  let seenImpressions = {};
+
+  function observeImpressions(reset) {
+    try {
+      if (!CONFIG.modules.impressions || typeof IntersectionObserver === 'undefined' ||
+        typeof document.querySelectorAll !== 'function') return;
+
+      if (!impressionObserver) {
+        impressionObserver = new IntersectionObserver(handleImpressionEntries, {
+          threshold: CONFIG.impressionThreshold,
+        });
+      } else if (reset) {
+        // Re-observing reports elements still on screen for the new page
+        impressionObserver.disconnect();
+        impressionTimers.forEach(function (timer) { clearTimeout(timer); });
+        impressionTimers = new Map();
+      }
+
+      const elements = document.querySelectorAll('[data-mf-impression]');
+      for (let i = 0; i < elements.length; i++) {
+        if (!isIgnored(elements[i])) impressionObserver.observe(elements[i]);
+      }
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  function handleImpressionEntries(entries) {
+    entries.forEach(function (entry) {
+      const element = entry.target;
+      clearTimeout(impressionTimers.get(element));
+      impressionTimers.delete(element);
+      if (!entry.isIntersecting || entry.intersectionRatio < CONFIG.impressionThreshold) return;
+
+      const url = state.currentUrl;
+      impressionTimers.set(element, setTimeout(function () {
+        impressionTimers.delete(element);
+        if (document.hidden || state.currentUrl !== url) return;
+        captureImpression(element);
+      }, CONFIG.impressionDelay));
+    });
+  }
+
+  function captureImpression(element) {
+    try {
+      const name = String(element.getAttribute('data-mf-impression') || '').trim().slice(0, 100);
+      if (!name || seenImpressions[name]) return;
+      seenImpressions[name] = true;
+
+      queueEvent('impression', {
+        name: name,
+        selector: maskText(elementSelector(element)),
+        urlTemplate: urlTemplate(state.currentUrl || window.location.href),
+        url: maskText(state.currentUrl || window.location.href, true),
       });
     } catch (e) {
       // Silent fail
@@ -253,12 +1139,14 @@
   function captureFormInteraction(event) {
     try {
       const target = event.target;
+      if (!CONFIG.modules.forms || isIgnored(target)) return;
+
       const form = target.form;
       const formId = form ? (form.id || form.name || 'unknown') : 'no-form';
 
       queueEvent('form', {
-        formId: formId,
-        fieldName: target.name || target.id || 'unknown',
+        formId: maskText(formId),
+        fieldName: isMasked(target) ? REDACTED : maskText(target.name || target.id || 'unknown'),
         fieldType: target.type || 'unknown',
         eventType: event.type, // focus, blur, change, submit
       });
@@ -273,12 +1161,16 @@
 
   function captureScrollDepth() {
     try {
+      if (!CONFIG.modules.scroll) return;
       clearTimeout(scrollDebounce);
       scrollDebounce = setTimeout(() => {
         const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
         const scrollHeight = document.documentElement.scrollHeight - document.documentElement.clientHeight;
         const scrollPercent = scrollHeight > 0 ? Math.round((scrollTop / scrollHeight) * 100) : 0;
 
+        checkCtaVisible();
+        observeImpressions(false); // Pick up lazily rendered elements
+
         if (scrollPercent > maxScrollDepth) {
           maxScrollDepth = scrollPercent;
           queueEvent('scroll', {
@@ -293,13 +1185,151 @@
     }
   }
 
-  // Event Capture: Time on Page
+  // Add-to-cart area visibility: null while the page has no CTA element,
+  // then whether it has been inside the viewport since the page loaded
+  let ctaSeen = null;
+
+  function checkCtaVisible() {
+    try {
+      if (ctaSeen || typeof document.querySelector !== 'function') return;
+      const cta = document.querySelector(CONFIG.ctaSelector);
+      if (!cta || typeof cta.getBoundingClientRect !== 'function') return;
+
+      const rect = cta.getBoundingClientRect();
+      const viewportHeight = window.innerHeight || document.documentElement.clientHeight;
+      ctaSeen = rect.height > 0 && rect.top < viewportHeight && rect.bottom > 0;
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Event Capture: Time on Page, with the page's scroll reach
   function captureTimeOnPage() {
     try {
       const duration = Date.now() - state.pageLoadStart;
-      queueEvent('time', {
+      const scrollable = document.documentElement.scrollHeight > document.documentElement.clientHeight;
+      const data = {
         duration: duration,
-        url: window.location.href,
+        url: state.currentUrl || window.location.href,
+      };
+      if (CONFIG.modules.scroll) {
+        data.scrollDepth = scrollable ? maxScrollDepth : 100; // Short pages are seen in full
+        if (ctaSeen !== null) data.ctaSeen = ctaSeen;
+      }
+      queueEvent('time', data);
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Event Capture: Core Web Vitals of the loaded page, reported once on exit.
+  // LCP, FCP, CLS (largest session window) and INP (slowest interaction)
+  // come from PerformanceObserver, TTFB from navigation timing.
+  const vitals = {};
+  let vitalsUrl = null;
+  let vitalsSent = false;
+
+  function observeVitals() {
+    try {
+      if (typeof PerformanceObserver === 'undefined') return;
+      vitalsUrl = maskText(window.location.href, true);
+
+      const observe = function (type, handler, options) {
+        try {
+          new PerformanceObserver(function (list) { list.getEntries().forEach(handler); })
+            .observe(Object.assign({ type: type, buffered: true }, options));
+        } catch (e) {
+          // Entry type not supported by this browser
+        }
+      };
+
+      let shiftWindow = 0, windowStart = 0, lastShift = 0;
+      observe('largest-contentful-paint', function (entry) { vitals.lcp = entry.startTime; });
+      observe('paint', function (entry) {
+        if (entry.name === 'first-contentful-paint') vitals.fcp = entry.startTime;
+      });
+      observe('layout-shift', function (entry) {
+        if (entry.hadRecentInput) return;
+        // Shifts less than 1s apart (within 5s) form one session window
+        if (shiftWindow && entry.startTime - lastShift < 1000 && entry.startTime - windowStart < 5000) {
+          shiftWindow += entry.value;
+        } else {
+          shiftWindow = entry.value;
+          windowStart = entry.startTime;
+        }
+        lastShift = entry.startTime;
+        vitals.cls = Math.max(vitals.cls || 0, shiftWindow);
+      });
+      observe('event', function (entry) {
+        if (entry.interactionId) vitals.inp = Math.max(vitals.inp || 0, entry.duration);
+      }, { durationThreshold: 40 });
+
+      const navigation = performance.getEntriesByType && performance.getEntriesByType('navigation')[0];
+      if (navigation && navigation.responseStart > 0) vitals.ttfb = navigation.responseStart;
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  function captureVitals() {
+    try {
+      if (!CONFIG.modules.vitals || vitalsSent || !vitalsUrl || Object.keys(vitals).length === 0) return;
+      vitalsSent = true;
+
+      const data = { url: vitalsUrl };
+      Object.keys(vitals).forEach(function (metric) {
+        data[metric] = metric === 'cls' ? Math.round(vitals[metric] * 1000) / 1000 : Math.round(vitals[metric]);
+      });
+      queueEvent('performance', data);
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Event Capture: JavaScript errors (uncaught errors and unhandled promise
+  // rejections), each distinct error reported once per page
+  let reportedErrors = {};
+
+  function normalizeStack(stack) {
+    // Top frames only, without query strings (cache busters) or indentation
+    return String(stack).split('\n').slice(0, 10).map(function (frame) {
+      return frame.trim().replace(/\?[^:\s)]*/g, '');
+    }).join('\n');
+  }
+
+  function captureError(kind, message, source, line, column, error) {
+    try {
+      if (!CONFIG.modules.errors) return;
+      message = String(message || 'Unknown error').substring(0, 500);
+      const key = message + '|' + source + '|' + line;
+      if (reportedErrors[key] || Object.keys(reportedErrors).length >= CONFIG.maxErrorsPerPage) return;
+      reportedErrors[key] = true;
+
+      queueEvent('error', {
+        kind: kind,
+        message: maskText(message),
+        source: source ? maskText(String(source).replace(/[?#].*$/, ''), true) : null,
+        line: line || null,
+        column: column || null,
+        stack: error && error.stack ? maskText(normalizeStack(error.stack), true).substring(0, 2000) : null,
+        url: maskText(state.currentUrl || window.location.href, true),
+      });
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Attached at init (not when idle) so early errors are caught
+  function attachErrorListeners() {
+    try {
+      window.addEventListener('error', function (e) {
+        // Failed image/script loads have no message; only script errors are reported
+        if (e && e.message) captureError('error', e.message, e.filename, e.lineno, e.colno, e.error);
+      });
+      window.addEventListener('unhandledrejection', function (e) {
+        const reason = e && e.reason;
+        const message = reason && reason.message ? reason.message : String(reason);
+        captureError('unhandledrejection', message, null, null, null, reason instanceof Error ? reason : null);
       });
     } catch (e) {
       // Silent fail
@@ -334,17 +1364,16 @@
       // Scroll tracking
       window.addEventListener('scroll', captureScrollDepth, { passive: true });
 
+      // Single-page-app route changes
+      patchHistory();
+
       // Time tracking on page exit
-      window.addEventListener('beforeunload', function () {
-        captureTimeOnPage();
-        sendBatch(); // Send any remaining events
-      });
+      window.addEventListener('beforeunload', flushOnExit);
 
       // Visibility change (tab switch)
       document.addEventListener('visibilitychange', function () {
         if (document.hidden) {
-          captureTimeOnPage();
-          sendBatch();
+          flushOnExit();
         }
       });
     } catch (e) {
@@ -371,14 +1400,42 @@
         return;
       }
 
+      // Nothing is stored or sent until consent (data-require-consent,
+      // Do-Not-Track/GPC or an earlier opt-out)
+      state.siteId = config.siteId;
+      state.requireConsent = !!config.requireConsent;
+      if (config.visitorLifetimeDays >= 0) state.visitorLifetimeDays = config.visitorLifetimeDays;
+      if (!canTrack()) {
+        pendingConfig = config;
+        return;
+      }
+      pendingConfig = null;
+
       // Set initialized flag immediately to prevent double initialization
       state.initialized = true;
 
-      state.siteId = config.siteId;
       state.pageLoadStart = Date.now();
 
+      // Settings inlined by the per-site script replace the config request
+      const inlined = !!INLINE && INLINE.siteId === state.siteId;
+
       // Initialize session
       initSession();
+      initVisitor();
+      restoreMasking();
+      if (inlined) applyConfig(INLINE.config);
+      else restoreConfig();
+      observeVitals();
+      attachErrorListeners();
+
+      // Fetch the session's tracking token early so the first batch can go out
+      requestToken(state.sessionId);
+
+      // Fetch the site's settings; CONFIG defaults apply until they arrive
+      if (!inlined) loadConfig();
+
+      // Replay events persisted by previous page loads
+      restoreQueue();
 
       // Start batch timer
       startBatchTimer();
@@ -397,40 +1454,145 @@
       // } else {
       //   setTimeout(capturePageview, 1);
       // }
-      scheduleIdle(capturePageview);
+      scheduleIdle(function () { capturePageview(); });
     } catch (e) {
       console.error('MetricFortune: Initialization failed', e);
     }
   }
 
+  // Manual pageview (for routers that don't go through the History API)
+  function page() {
+    if (!state.initialized) return;
+    handleRouteChange(true);
+  }
+
+  // E-commerce helpers (product_view, add_to_cart, remove_from_cart,
+  // begin_checkout, add_payment_info, purchase)
+  function commerceEvent(type) {
+    return function (data) {
+      try {
+        if (!state.initialized) return;
+        queueEvent(type, data || {});
+        // Purchases usually happen right before a redirect - send immediately
+        if (type === 'purchase') sendBatch();
+      } catch (e) {
+        // Silent fail
+      }
+    };
+  }
+
+  // Custom events: MetricFortune.track('coupon_applied', { code: 'SAVE10' })
+  // Properties must be flat string/number/boolean values (validated server-side)
+  function track(name, properties) {
+    try {
+      if (!state.initialized || typeof name !== 'string' || !name) return;
+      queueEvent('custom', { name: name, properties: properties || {} });
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Identity: MetricFortune.identify('customer-42', { plan: 'pro' }) links the
+  // visitor to a known customer (traits follow the custom event limits)
+  function identify(customerId, traits) {
+    try {
+      if (!state.initialized || typeof customerId !== 'string' || !customerId) return;
+      queueEvent('identify', { customerId: customerId, traits: traits || {} });
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Consent: MetricFortune.consent({ analytics: true|false }) from the site's
+  // consent banner. Granting starts a deferred init(); withdrawing opts out.
+  function consent(options) {
+    try {
+      if (!options || !options.analytics) {
+        optOut();
+        return;
+      }
+      writeConsent('granted');
+      if (!state.initialized) {
+        if (pendingConfig) init(pendingConfig);
+      } else if (!state.batchTimer) {
+        startBatchTimer();
+      }
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Opt out: persisted, and everything not yet sent is discarded
+  function optOut() {
+    try {
+      writeConsent('denied');
+      purgeQueue();
+      clearVisitor();
+      if (state.batchTimer) clearInterval(state.batchTimer);
+      state.batchTimer = null;
+    } catch (e) {
+      // Silent fail
+    }
+  }
+
+  // Current session ID, for sites that forward it to their backend so
+  // server-side events (POST /api/v1/events) join the browser session
+  function getSessionId() {
+    return state.initialized ? state.sessionId : null;
+  }
+
+  // Current visitor ID, for backends sending server-side events by visitorId
+  function getVisitorId() {
+    return state.initialized ? state.visitorId : null;
+  }
+
   // Public API
   window.MetricFortune = window.MetricFortune || {
     init: init,
-    version: '1.0.0',
+    page: page,
+    track: track,
+    identify: identify,
+    consent: consent,
+    optOut: optOut,
+    getSessionId: getSessionId,
+    getVisitorId: getVisitorId,
+    debug: debug,
+    productView: commerceEvent('product_view'),
+    addToCart: commerceEvent('add_to_cart'),
+    removeFromCart: commerceEvent('remove_from_cart'),
+    beginCheckout: commerceEvent('begin_checkout'),
+    addPaymentInfo: commerceEvent('add_payment_info'),
+    purchase: commerceEvent('purchase'),
+    version: '1.22.0',
   };
 
-  // Auto-initialization: Check for data-site-id attribute on script tag
+  // Auto-initialization: the per-site script's siteId, or data-site-id on the script tag
   (function autoInit() {
     try {
-      // Find the current script tag
-      const scripts = document.getElementsByTagName('script');
-      let currentScript = null;
+      // Find the current script tag (the per-site script is the one running)
+      let currentScript = INLINE ? document.currentScript || null : null;
 
       // Try to find our script by looking for tracking.js
-      for (let i = 0; i < scripts.length; i++) {
-        if (scripts[i].src && scripts[i].src.indexOf('tracking.js') > -1) {
-          currentScript = scripts[i];
-          break;
+      if (!INLINE) {
+        const scripts = document.getElementsByTagName('script');
+        for (let i = 0; i < scripts.length; i++) {
+          if (scripts[i].src && scripts[i].src.indexOf('tracking.js') > -1) {
+            currentScript = scripts[i];
+            break;
+          }
         }
       }
 
-      // If script tag has data-site-id, auto-initialize
-      if (currentScript && currentScript.hasAttribute('data-site-id')) {
-        const siteId = currentScript.getAttribute('data-site-id');
-        if (siteId) {
-          console.log('[MetricFortune] Auto-initializing with siteId:', siteId);
-          init({ siteId: siteId });
-        }
+      // The per-site script knows its site; tracking.js needs data-site-id
+      const siteId = INLINE ? INLINE.siteId : currentScript && currentScript.getAttribute('data-site-id');
+      if (siteId) {
+        console.log('[MetricFortune] Auto-initializing with siteId:', siteId);
+        const lifetime = currentScript ? currentScript.getAttribute('data-visitor-lifetime') : null;
+        init({
+          siteId: siteId,
+          requireConsent: !!currentScript && currentScript.hasAttribute('data-require-consent'),
+          visitorLifetimeDays: lifetime === null ? undefined : parseFloat(lifetime),
+        });
       }
     } catch (e) {
       // Silent fail - users can still manually initialize
@@ -466,12 +1628,13 @@
                 const variantId = formData.get('id');
                 const quantity = formData.get('quantity') || '1';
 
-                queueEvent('conversion', {
-                  type: 'add_to_cart',
+                // add_to_cart must identify the variant, otherwise the batch is rejected
+                if (!variantId) return;
+
+                queueEvent('add_to_cart', {
                   platform: 'shopify',
-                  product_variant_id: variantId,
-                  quantity: parseInt(quantity, 10),
-                  timestamp: Date.now(),
+                  variantId: String(variantId),
+                  quantity: parseInt(quantity, 10) || 1,
                 });
 
                 console.log('[MetricFortune] Shopify add-to-cart tracked:', { variantId, quantity });
@@ -489,10 +1652,8 @@
             const observer = new PerformanceObserver(function(list) {
               for (const entry of list.getEntries()) {
                 if (entry.name && entry.name.includes('/checkout')) {
-                  queueEvent('conversion', {
-                    type: 'checkout_started',
+                  queueEvent('begin_checkout', {
                     platform: 'shopify',
-                    timestamp: Date.now(),
                   });
 
                   console.log('[MetricFortune] Shopify checkout started tracked');
@@ -504,20 +1665,16 @@
           } catch (e) {
             // Fallback: detect checkout on page load
             if (window.location.pathname.includes('/checkout')) {
-              queueEvent('conversion', {
-                type: 'checkout_started',
+              queueEvent('begin_checkout', {
                 platform: 'shopify',
-                timestamp: Date.now(),
               });
             }
           }
         } else {
           // Fallback for browsers without PerformanceObserver
           if (window.location.pathname.includes('/checkout')) {
-            queueEvent('conversion', {
-              type: 'checkout_started',
+            queueEvent('begin_checkout', {
               platform: 'shopify',
-              timestamp: Date.now(),
             });
           }
         }
@@ -531,13 +1688,13 @@
             // Extract order data from Shopify.checkout object if available
             const orderData = window.Shopify && window.Shopify.checkout ? window.Shopify.checkout : {};
 
-            queueEvent('conversion', {
-              type: 'purchase_completed',
+            const total = parseFloat(orderData.total_price);
+
+            queueEvent('purchase', {
               platform: 'shopify',
-              order_id: orderData.order_id || null,
-              total: orderData.total_price || null,
+              orderId: orderData.order_id ? String(orderData.order_id) : null,
+              value: isNaN(total) ? null : total,
               currency: orderData.currency || null,
-              timestamp: Date.now(),
             });
 
             console.log('[MetricFortune] Shopify purchase completion tracked:', {
@@ -546,33 +1703,15 @@
             });
           } catch (e) {
             // Track purchase event even if order data extraction fails
-            queueEvent('conversion', {
-              type: 'purchase_completed',
+            queueEvent('purchase', {
               platform: 'shopify',
-              timestamp: Date.now(),
             });
           }
         }
 
-        // Listen for Shopify Ajax cart events (for dynamic add-to-cart without page reload)
-        // Some themes trigger custom events on cart updates
-        if (document.addEventListener) {
-          ['cart:updated', 'cart.requestComplete', 'ajaxCart.afterCartLoad'].forEach(function(eventName) {
-            document.addEventListener(eventName, function(event) {
-              try {
-                queueEvent('conversion', {
-                  type: 'cart_updated',
-                  platform: 'shopify',
-                  timestamp: Date.now(),
-                });
-
-                console.log('[MetricFortune] Shopify cart updated event tracked:', eventName);
-              } catch (e) {
-                // Silent fail
-              }
-            });
-          });
-        }
+        // Ajax cart updates ('cart:updated' etc.) are not tracked: themes don't say
+        // whether items were added or removed, so they can't be mapped onto
+        // add_to_cart/remove_from_cart. Themes can call MetricFortune.addToCart().
       }
     } catch (e) {
       // Silent fail - don't break the page if Shopify tracking setup fails
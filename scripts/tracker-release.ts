@@ -0,0 +1,144 @@
+/**
+ * Tracker Release Script
+ *
+ * Publishes minified builds of public/tracking.js and controls which sites
+ * get them on /t/<siteId>.js.
+ *
+ * Usage:
+ *   npx tsx scripts/tracker-release.ts publish [--rollout=<percent>]
+ *   npx tsx scripts/tracker-release.ts rollout <version> <percent>
+ *   npx tsx scripts/tracker-release.ts pin <siteId> <version|latest>
+ *   npx tsx scripts/tracker-release.ts list
+ *
+ * Rolling back: set the release's rollout to 0; sites go back to the
+ * newest release still covering them.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { PrismaClient } from "@prisma/client";
+import { transform } from "esbuild";
+import { trackerSourceVersion } from "../src/services/tracking/tracker-release";
+
+const prisma = new PrismaClient();
+
+function parsePercent(value: string | undefined): number {
+  const percent = Number(value);
+  if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+    throw new Error(`Rollout must be a whole percentage from 0 to 100, got "${value}"`);
+  }
+  return percent;
+}
+
+async function publish(rolloutPercent: number) {
+  const source = await readFile(path.join(process.cwd(), "public", "tracking.js"), "utf8");
+  const version = trackerSourceVersion(source);
+  if (!version) {
+    throw new Error("public/tracking.js doesn't declare a version");
+  }
+
+  const existing = await prisma.trackerRelease.findUnique({ where: { version } });
+  if (existing) {
+    throw new Error(`Version ${version} is already published; bump the tracker version first`);
+  }
+
+  const { code } = await transform(source, { minify: true, target: "es2018", legalComments: "none" });
+
+  await prisma.trackerRelease.create({
+    data: { version, script: code.trim(), rolloutPercent },
+  });
+
+  console.log(`✅ Published ${version} (${(code.length / 1024).toFixed(1)} KB minified, ${rolloutPercent}% rollout)`);
+}
+
+async function rollout(version: string | undefined, rolloutPercent: number) {
+  if (!version) throw new Error("Version is required");
+
+  await prisma.trackerRelease.update({
+    where: { version },
+    data: { rolloutPercent },
+  });
+
+  console.log(`✅ ${version} now rolled out to ${rolloutPercent}% of sites`);
+}
+
+async function pin(siteId: string | undefined, version: string | undefined) {
+  if (!siteId || !version) throw new Error("Site ID and version are required");
+
+  const trackerVersion = version === "latest" ? null : version;
+  if (trackerVersion && !(await prisma.trackerRelease.findUnique({ where: { version: trackerVersion } }))) {
+    throw new Error(`Version ${trackerVersion} is not published`);
+  }
+
+  await prisma.business.update({
+    where: { siteId },
+    data: { trackerVersion },
+  });
+
+  console.log(trackerVersion ? `📌 ${siteId} pinned to ${trackerVersion}` : `✅ ${siteId} follows the rollout`);
+}
+
+async function list() {
+  const [releases, pinned] = await Promise.all([
+    prisma.trackerRelease.findMany({
+      orderBy: { createdAt: "desc" },
+      select: { version: true, rolloutPercent: true, createdAt: true },
+    }),
+    prisma.business.groupBy({
+      by: ["trackerVersion"],
+      where: { trackerVersion: { not: null } },
+      _count: true,
+    }),
+  ]);
+
+  if (releases.length === 0) {
+    console.log("No releases published; /t/<siteId>.js serves public/tracking.js");
+    return;
+  }
+
+  for (const release of releases) {
+    const pins = pinned.find((group) => group.trackerVersion === release.version)?._count ?? 0;
+    console.log(
+      `${release.version.padEnd(12)} ${String(release.rolloutPercent).padStart(3)}%  ${pins} pinned  ${release.createdAt.toISOString()}`
+    );
+  }
+}
+
+async function main(args: string[]) {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case "publish": {
+      const flag = rest.find((arg) => arg.startsWith("--rollout="));
+      await publish(flag ? parsePercent(flag.split("=")[1]) : 0);
+      break;
+    }
+    case "rollout":
+      await rollout(rest[0], parsePercent(rest[1]));
+      break;
+    case "pin":
+      await pin(rest[0], rest[1]);
+      break;
+    case "list":
+      await list();
+      break;
+    default:
+      console.log(`
+Tracker Release Script
+
+Usage:
+  npx tsx scripts/tracker-release.ts publish [--rollout=<percent>]   Minify public/tracking.js and store it as a release (default rollout 0%)
+  npx tsx scripts/tracker-release.ts rollout <version> <percent>     Serve a release to a share of sites (0 rolls it back)
+  npx tsx scripts/tracker-release.ts pin <siteId> <version|latest>   Pin a site to a release, or back to the rollout
+  npx tsx scripts/tracker-release.ts list                            Show releases, rollouts and pinned sites
+`);
+  }
+}
+
+main(process.argv.slice(2))
+  .then(() => prisma.$disconnect())
+  .catch(async (error) => {
+    console.error("❌", error instanceof Error ? error.message : error);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
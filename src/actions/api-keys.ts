@@ -0,0 +1,198 @@
+"use server";
+
+/**
+ * API Key Server Actions
+ *
+ * Create, list and revoke the secret keys used by the server-side ingestion
+ * API (POST /api/v1/events). All actions act on the signed-in user's business.
+ *
+ * @module actions/api-keys
+ */
+
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import type { ActionResult } from "./business-profile";
+import { generateApiKey, MAX_ACTIVE_API_KEYS } from "@/services/tracking/api-keys";
+
+/**
+ * API key as shown in settings (the secret itself is never returned after creation)
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+const apiKeyNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Key name is required")
+  .max(100, "Key name must be at most 100 characters");
+
+const apiKeySummarySelect = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Get the signed-in user's business ID
+ */
+async function getBusinessId(): Promise<string | null> {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return null;
+  }
+
+  const business = await prisma.business.findUnique({
+    where: { userId: session.user.id },
+    select: { id: true },
+  });
+
+  return business?.id ?? null;
+}
+
+/**
+ * List the business's API keys, newest first
+ *
+ * @returns ActionResult with key summaries (including revoked keys)
+ */
+export async function listApiKeys(): Promise<ActionResult<ApiKeySummary[]>> {
+  try {
+    const businessId = await getBusinessId();
+    if (!businessId) {
+      return {
+        success: false,
+        error: "You must be logged in with a business profile to view API keys",
+      };
+    }
+
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { businessId },
+      select: apiKeySummarySelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return {
+      success: true,
+      data: apiKeys,
+    };
+  } catch (error) {
+    console.error("List API keys error:", error);
+    return {
+      success: false,
+      error: "An error occurred while fetching API keys. Please try again.",
+    };
+  }
+}
+
+/**
+ * Create an API key
+ *
+ * The secret key is returned only here; only its hash is stored.
+ *
+ * @param name - Label for the key (e.g. "Billing service")
+ * @returns ActionResult with the new key and its summary
+ */
+export async function createApiKey(
+  name: string
+): Promise<ActionResult<{ key: string; apiKey: ApiKeySummary }>> {
+  try {
+    const validation = apiKeyNameSchema.safeParse(name);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0].message,
+      };
+    }
+
+    const businessId = await getBusinessId();
+    if (!businessId) {
+      return {
+        success: false,
+        error: "You must be logged in with a business profile to create API keys",
+      };
+    }
+
+    const activeKeys = await prisma.apiKey.count({
+      where: { businessId, revokedAt: null },
+    });
+
+    if (activeKeys >= MAX_ACTIVE_API_KEYS) {
+      return {
+        success: false,
+        error: `You can have at most ${MAX_ACTIVE_API_KEYS} active API keys. Revoke one first.`,
+      };
+    }
+
+    const { key, keyHash, keyPrefix } = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        businessId,
+        name: validation.data,
+        keyHash,
+        keyPrefix,
+      },
+      select: apiKeySummarySelect,
+    });
+
+    return {
+      success: true,
+      data: { key, apiKey },
+    };
+  } catch (error) {
+    console.error("Create API key error:", error);
+    return {
+      success: false,
+      error: "An error occurred while creating the API key. Please try again.",
+    };
+  }
+}
+
+/**
+ * Revoke an API key
+ *
+ * Requests using the key are rejected immediately.
+ *
+ * @param apiKeyId - Key to revoke (must belong to the user's business)
+ * @returns ActionResult
+ */
+export async function revokeApiKey(apiKeyId: string): Promise<ActionResult> {
+  try {
+    const businessId = await getBusinessId();
+    if (!businessId) {
+      return {
+        success: false,
+        error: "You must be logged in with a business profile to revoke API keys",
+      };
+    }
+
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: apiKeyId, businessId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return {
+        success: false,
+        error: "API key not found",
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Revoke API key error:", error);
+    return {
+      success: false,
+      error: "An error occurred while revoking the API key. Please try again.",
+    };
+  }
+}
@@ -5,6 +5,11 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { customAlphabet } from "nanoid";
 import { calculatePeerGroup, recalculatePeerGroupsForIndustry } from "@/services/matching/business-matcher";
+import { MAX_ALLOWED_ORIGINS, normalizeOrigin } from "@/services/tracking/origin-policy";
+import { MASKING_LIMITS, validateMaskPattern } from "@/services/tracking/pii-scrubber";
+import { buildTrackerConfig, parseTrackerSettings } from "@/services/tracking/tracker-config";
+import { buildSiteScript, resolveTrackerBuild } from "@/services/tracking/tracker-release";
+import { trackerSettingsSchema, type TrackerSettings } from "@/types/tracker-config";
 
 // Create custom nanoid generator for siteId (alphanumeric, 12 characters)
 const generateSiteId = customAlphabet(
@@ -263,6 +268,8 @@ export async function updateBusinessProfile(data: {
 
 /**
  * Regenerate user's siteId (WARNING: breaks existing tracking)
+ *
+ * Also invalidates all outstanding tracking tokens.
  */
 export async function regenerateSiteId(): Promise<ActionResult<{ siteId: string }>> {
   try {
@@ -312,10 +319,13 @@ export async function regenerateSiteId(): Promise<ActionResult<{ siteId: string
       };
     }
 
-    // Update siteId
+    // Update siteId and revoke tracking tokens issued for the old one
     await prisma.business.update({
       where: { userId: session.user.id },
-      data: { siteId },
+      data: {
+        siteId,
+        trackingTokenVersion: { increment: 1 },
+      },
     });
 
     return {
@@ -331,6 +341,266 @@ export async function regenerateSiteId(): Promise<ActionResult<{ siteId: string
   }
 }
 
+/**
+ * Replace the origins allowed to send tracking events for the user's site
+ *
+ * An empty list allows any origin.
+ */
+export async function updateAllowedOrigins(
+  origins: string[]
+): Promise<ActionResult<{ allowedOrigins: string[] }>> {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "You must be logged in to update allowed origins",
+      };
+    }
+
+    // Normalize and validate each entry (blank lines are ignored)
+    const allowedOrigins: string[] = [];
+    for (const entry of origins) {
+      if (!entry.trim()) continue;
+
+      const origin = normalizeOrigin(entry);
+      if (!origin) {
+        return {
+          success: false,
+          error: `"${entry.trim()}" is not a valid origin`,
+        };
+      }
+
+      if (!allowedOrigins.includes(origin)) allowedOrigins.push(origin);
+    }
+
+    if (allowedOrigins.length > MAX_ALLOWED_ORIGINS) {
+      return {
+        success: false,
+        error: `You can add at most ${MAX_ALLOWED_ORIGINS} allowed origins`,
+      };
+    }
+
+    // Check if user has a business profile
+    const business = await prisma.business.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!business) {
+      return {
+        success: false,
+        error: "Business profile not found",
+      };
+    }
+
+    await prisma.business.update({
+      where: { userId: session.user.id },
+      data: { allowedOrigins },
+    });
+
+    return {
+      success: true,
+      data: { allowedOrigins },
+    };
+  } catch (error) {
+    console.error("Update allowed origins error:", error);
+    return {
+      success: false,
+      error: "An error occurred while updating allowed origins. Please try again.",
+    };
+  }
+}
+
+/**
+ * Show or hide bot traffic on the dashboard
+ *
+ * Bot sessions are always excluded from analytics; this only controls
+ * whether the dashboard shows the bot traffic breakdown.
+ *
+ * @param showBotTraffic - Whether to show the bot traffic card
+ * @returns ActionResult with the saved setting
+ */
+export async function updateBotTrafficSetting(
+  showBotTraffic: boolean
+): Promise<ActionResult<{ showBotTraffic: boolean }>> {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "You must be logged in to update bot traffic settings",
+      };
+    }
+
+    // Check if user has a business profile
+    const business = await prisma.business.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!business) {
+      return {
+        success: false,
+        error: "Business profile not found",
+      };
+    }
+
+    await prisma.business.update({
+      where: { userId: session.user.id },
+      data: { showBotTraffic },
+    });
+
+    return {
+      success: true,
+      data: { showBotTraffic },
+    };
+  } catch (error) {
+    console.error("Update bot traffic setting error:", error);
+    return {
+      success: false,
+      error: "An error occurred while updating bot traffic settings. Please try again.",
+    };
+  }
+}
+
+/**
+ * Replace the site's PII masking rules
+ *
+ * Selectors are masked by the tracking script; patterns (regular
+ * expressions) are redacted by the script and again on ingestion.
+ * Blank lines are ignored.
+ */
+export async function updateMaskingRules(
+  selectors: string[],
+  patterns: string[]
+): Promise<ActionResult<{ maskSelectors: string[]; maskPatterns: string[] }>> {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "You must be logged in to update masking rules",
+      };
+    }
+
+    const maskSelectors = [...new Set(selectors.map((selector) => selector.trim()).filter(Boolean))];
+    const maskPatterns = [...new Set(patterns.map((pattern) => pattern.trim()).filter(Boolean))];
+
+    if (maskSelectors.length > MASKING_LIMITS.maxSelectors) {
+      return {
+        success: false,
+        error: `You can add at most ${MASKING_LIMITS.maxSelectors} masked selectors`,
+      };
+    }
+
+    if (maskPatterns.length > MASKING_LIMITS.maxPatterns) {
+      return {
+        success: false,
+        error: `You can add at most ${MASKING_LIMITS.maxPatterns} masking patterns`,
+      };
+    }
+
+    for (const pattern of maskPatterns) {
+      const patternError = validateMaskPattern(pattern);
+      if (patternError) {
+        return {
+          success: false,
+          error: patternError,
+        };
+      }
+    }
+
+    // Check if user has a business profile
+    const business = await prisma.business.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!business) {
+      return {
+        success: false,
+        error: "Business profile not found",
+      };
+    }
+
+    await prisma.business.update({
+      where: { userId: session.user.id },
+      data: { maskSelectors, maskPatterns },
+    });
+
+    return {
+      success: true,
+      data: { maskSelectors, maskPatterns },
+    };
+  } catch (error) {
+    console.error("Update masking rules error:", error);
+    return {
+      success: false,
+      error: "An error occurred while updating masking rules. Please try again.",
+    };
+  }
+}
+
+/**
+ * Save the site's remote tracker configuration
+ *
+ * The tracking script fetches it on init(), so changes apply to installed
+ * snippets within the config cache lifetime.
+ */
+export async function updateTrackerConfig(
+  settings: TrackerSettings
+): Promise<ActionResult<{ trackerConfig: TrackerSettings }>> {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "You must be logged in to update tracker settings",
+      };
+    }
+
+    const validation = trackerSettingsSchema.safeParse(settings);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0].message,
+      };
+    }
+
+    // Check if user has a business profile
+    const business = await prisma.business.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!business) {
+      return {
+        success: false,
+        error: "Business profile not found",
+      };
+    }
+
+    const trackerConfig = validation.data;
+
+    await prisma.business.update({
+      where: { userId: session.user.id },
+      data: { trackerConfig },
+    });
+
+    return {
+      success: true,
+      data: { trackerConfig },
+    };
+  } catch (error) {
+    console.error("Update tracker config error:", error);
+    return {
+      success: false,
+      error: "An error occurred while updating tracker settings. Please try again.",
+    };
+  }
+}
+
 /**
  * Get current user's business profile
  */
@@ -388,6 +658,14 @@ export async function getBusinessProfile(): Promise<
     productTypes: string[];
     platform: string;
     siteId: string;
+    allowedOrigins: string[];
+    rejectedOriginCount: number;
+    lastRejectedOrigin: string | null;
+    lastRejectedOriginAt: Date | null;
+    showBotTraffic: boolean;
+    maskSelectors: string[];
+    maskPatterns: string[];
+    trackerConfig: TrackerSettings;
   }>
 > {
   try {
@@ -422,6 +700,14 @@ export async function getBusinessProfile(): Promise<
         productTypes: business.productTypes,
         platform: business.platform,
         siteId: business.siteId,
+        allowedOrigins: business.allowedOrigins,
+        rejectedOriginCount: business.rejectedOriginCount,
+        lastRejectedOrigin: business.lastRejectedOrigin,
+        lastRejectedOriginAt: business.lastRejectedOriginAt,
+        showBotTraffic: business.showBotTraffic,
+        maskSelectors: business.maskSelectors,
+        maskPatterns: business.maskPatterns,
+        trackerConfig: parseTrackerSettings(business.trackerConfig),
       },
     };
   } catch (error) {
@@ -432,3 +718,71 @@ export async function getBusinessProfile(): Promise<
     };
   }
 }
+
+/**
+ * Get the per-site tracking script served to the user's site
+ *
+ * The integrity hash covers the tracker version and the current tracker
+ * settings, so it changes when either does.
+ */
+export async function getTrackingScript(): Promise<
+  ActionResult<{
+    siteId: string;
+    version: string;
+    integrity: string;
+  }>
+> {
+  try {
+    // Get authenticated user
+    const session = await auth();
+    if (!session?.user?.id) {
+      return {
+        success: false,
+        error: "You must be logged in to view your tracking script",
+      };
+    }
+
+    const business = await prisma.business.findUnique({
+      where: { userId: session.user.id },
+      select: {
+        siteId: true,
+        trackerConfig: true,
+        trackerVersion: true,
+        maskSelectors: true,
+        maskPatterns: true,
+      },
+    });
+
+    if (!business) {
+      return {
+        success: false,
+        error: "Business profile not found",
+      };
+    }
+
+    const build = await resolveTrackerBuild(business.siteId, { pinnedVersion: business.trackerVersion });
+    if (!build) {
+      return {
+        success: false,
+        error: "Tracking script not available",
+      };
+    }
+
+    const script = buildSiteScript(build, business.siteId, buildTrackerConfig(business));
+
+    return {
+      success: true,
+      data: {
+        siteId: business.siteId,
+        version: script.version,
+        integrity: script.integrity,
+      },
+    };
+  } catch (error) {
+    console.error("Get tracking script error:", error);
+    return {
+      success: false,
+      error: "An error occurred while loading your tracking script. Please try again.",
+    };
+  }
+}
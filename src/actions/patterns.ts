@@ -25,7 +25,7 @@ const patternIdSchema = z.string().min(1, "Pattern ID is required");
 
 const patternQueryOptionsSchema = z
   .object({
-    patternType: z.enum(["ABANDONMENT", "HESITATION", "LOW_ENGAGEMENT"]).optional(),
+    patternType: z.enum(["ABANDONMENT", "HESITATION", "LOW_ENGAGEMENT", "PERFORMANCE", "ERROR", "FRUSTRATION", "BELOW_FOLD"]).optional(),
     minSeverity: z.number().min(0).max(1).optional(),
     minConfidence: z.number().min(0).max(1).optional(),
     dateRange: z
@@ -311,6 +311,10 @@ export async function getPatternStats(
     abandonmentCount: number;
     hesitationCount: number;
     lowEngagementCount: number;
+    performanceCount: number;
+    errorCount: number;
+    frustrationCount: number;
+    belowFoldCount: number;
     averageSeverity: number;
     highestSeverityPatterns: Pattern[];
   }>
@@ -393,6 +397,10 @@ export async function getPatternStats(
       abandonmentCount,
       hesitationCount,
       lowEngagementCount,
+      performanceCount,
+      errorCount,
+      frustrationCount,
+      belowFoldCount,
       avgSeverity,
       topPatterns,
     ] = await Promise.all([
@@ -410,6 +418,22 @@ export async function getPatternStats(
       prisma.pattern.count({
         where: { ...where, patternType: "LOW_ENGAGEMENT" },
       }),
+      // Performance patterns
+      prisma.pattern.count({
+        where: { ...where, patternType: "PERFORMANCE" },
+      }),
+      // Error patterns
+      prisma.pattern.count({
+        where: { ...where, patternType: "ERROR" },
+      }),
+      // Frustration patterns
+      prisma.pattern.count({
+        where: { ...where, patternType: "FRUSTRATION" },
+      }),
+      // Below-the-fold patterns
+      prisma.pattern.count({
+        where: { ...where, patternType: "BELOW_FOLD" },
+      }),
       // Average severity
       prisma.pattern.aggregate({
         where,
@@ -432,6 +456,10 @@ export async function getPatternStats(
       abandonmentCount,
       hesitationCount,
       lowEngagementCount,
+      performanceCount,
+      errorCount,
+      frustrationCount,
+      belowFoldCount,
       averageSeverity: avgSeverity._avg.severity
         ? Math.round(avgSeverity._avg.severity * 1000) / 1000
         : 0,
@@ -13,8 +13,10 @@ import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { calculateJourneyFunnels } from "@/services/analytics/session-aggregator";
+import { CHANNELS, segmentWhere } from "@/services/analytics/channel-classifier";
+import { sessionWeight } from "@/services/analytics/sampling";
 import type { ActionResult } from "./business-profile";
-import type { DateRange, JourneyFunnelData } from "@/types/session";
+import type { DateRange, JourneyFunnelData, SessionSegment } from "@/types/session";
 import type { Session } from "@prisma/client";
 
 /**
@@ -32,14 +34,22 @@ const dateRangeSchema = z
   })
   .optional();
 
+const segmentSchema = z
+  .object({
+    channel: z.enum(CHANNELS).optional(),
+    campaign: z.string().max(255).optional(),
+  })
+  .optional();
+
 /**
  * Get sessions for a business (AC #5)
  *
  * Retrieves aggregated session data for a business's site.
- * Optionally filters by date range.
+ * Optionally filters by date range and traffic source.
  *
  * @param businessId - Business ID to get sessions for
  * @param dateRange - Optional date range filter
+ * @param segment - Optional channel/campaign filter
  * @returns Array of session records
  *
  * @example
@@ -50,7 +60,8 @@ const dateRangeSchema = z
  */
 export async function getSessions(
   businessId: string,
-  dateRange?: DateRange
+  dateRange?: DateRange,
+  segment?: SessionSegment
 ): Promise<ActionResult<Session[]>> {
   try {
     console.log(
@@ -67,6 +78,14 @@ export async function getSessions(
       };
     }
 
+    const segmentValidation = segmentSchema.safeParse(segment);
+    if (!segmentValidation.success) {
+      return {
+        success: false,
+        error: `Invalid segment: channel must be one of ${CHANNELS.join(", ")}`,
+      };
+    }
+
     if (dateRange) {
       const dateRangeValidation = dateRangeSchema.safeParse(dateRange);
       if (!dateRangeValidation.success) {
@@ -122,12 +141,17 @@ export async function getSessions(
     // Build query filters
     const where: {
       siteId: string;
+      isBot: boolean;
+      channel?: string;
+      utmCampaign?: string;
       createdAt?: {
         gte?: Date;
         lte?: Date;
       };
     } = {
       siteId: business.siteId,
+      isBot: false,
+      ...segmentWhere(segment),
     };
 
     if (dateRange) {
@@ -172,6 +196,7 @@ export async function getSessions(
  * drop-off rates for visualization.
  *
  * @param businessId - Business ID to get journey funnels for
+ * @param segment - Optional channel/campaign filter
  * @returns Journey funnel data with stages and metrics
  *
  * @example
@@ -179,7 +204,8 @@ export async function getSessions(
  * console.log(result.data.funnels); // [{ stage: 'Entry', visitors: 1000, dropOffRate: 15 }, ...]
  */
 export async function getJourneyFunnels(
-  businessId: string
+  businessId: string,
+  segment?: SessionSegment
 ): Promise<ActionResult<JourneyFunnelData>> {
   try {
     console.log(
@@ -195,6 +221,14 @@ export async function getJourneyFunnels(
       };
     }
 
+    const segmentValidation = segmentSchema.safeParse(segment);
+    if (!segmentValidation.success) {
+      return {
+        success: false,
+        error: `Invalid segment: channel must be one of ${CHANNELS.join(", ")}`,
+      };
+    }
+
     // Get authenticated user
     const session = await auth();
     if (!session?.user?.id) {
@@ -238,7 +272,7 @@ export async function getJourneyFunnels(
     }
 
     // Calculate journey funnels using the service
-    const funnelData = await calculateJourneyFunnels(business.siteId);
+    const funnelData = await calculateJourneyFunnels(business.siteId, segment);
 
     console.log(
       `[getJourneyFunnels] Calculated ${funnelData.funnels.length} funnel stages`
@@ -269,14 +303,21 @@ export async function getJourneyFunnels(
  * - Conversion rate
  * - Average session duration
  * - Bounce rate
+ * - Unique and returning visitors (sessions linked to a visitor ID)
+ * - Returning sessions and their conversion rate
+ *
+ * Counts are upscaled for sampled sessions (each counts 1/sampleRate times);
+ * rates are ratios of the upscaled counts.
  *
  * @param businessId - Business ID to get stats for
  * @param dateRange - Optional date range filter
+ * @param segment - Optional channel/campaign filter
  * @returns Session summary statistics
  */
 export async function getSessionStats(
   businessId: string,
-  dateRange?: DateRange
+  dateRange?: DateRange,
+  segment?: SessionSegment
 ): Promise<
   ActionResult<{
     totalSessions: number;
@@ -284,6 +325,11 @@ export async function getSessionStats(
     conversionRate: number;
     averageDuration: number | null;
     bounceRate: number;
+    uniqueVisitors: number;
+    returningVisitors: number;
+    returningVisitorRate: number;
+    returningSessions: number;
+    returningConversionRate: number;
   }>
 > {
   try {
@@ -298,6 +344,14 @@ export async function getSessionStats(
       };
     }
 
+    const segmentValidation = segmentSchema.safeParse(segment);
+    if (!segmentValidation.success) {
+      return {
+        success: false,
+        error: `Invalid segment: channel must be one of ${CHANNELS.join(", ")}`,
+      };
+    }
+
     if (dateRange) {
       const dateRangeValidation = dateRangeSchema.safeParse(dateRange);
       if (!dateRangeValidation.success) {
@@ -351,12 +405,17 @@ export async function getSessionStats(
     // Build query filters
     const where: {
       siteId: string;
+      isBot: boolean;
+      channel?: string;
+      utmCampaign?: string;
       createdAt?: {
         gte?: Date;
         lte?: Date;
       };
     } = {
       siteId: business.siteId,
+      isBot: false,
+      ...segmentWhere(segment),
     };
 
     if (dateRange) {
@@ -366,40 +425,82 @@ export async function getSessionStats(
       };
     }
 
-    // Calculate aggregate statistics
-    const [totalSessions, conversions, bounces, avgDuration] =
-      await Promise.all([
-        // Total sessions
-        prisma.session.count({ where }),
-        // Total conversions
-        prisma.session.count({
-          where: { ...where, converted: true },
-        }),
-        // Total bounces
-        prisma.session.count({
-          where: { ...where, bounced: true },
-        }),
-        // Average duration
-        prisma.session.aggregate({
-          where,
-          _avg: {
-            duration: true,
-          },
-        }),
-      ]);
+    // Sessions per sample rate and outcome; each tracked session stands for
+    // 1/sampleRate sessions
+    const [outcomeGroups, visitorGroups] = await Promise.all([
+      prisma.session.groupBy({
+        by: ["sampleRate", "converted", "bounced", "isReturning"],
+        where,
+        _count: { _all: true, duration: true },
+        _sum: { duration: true },
+      }),
+      // Visitors by new/returning, at the sample rates of their sessions
+      prisma.session.groupBy({
+        by: ["visitorId", "isReturning", "sampleRate"],
+        where: { ...where, visitorId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    let totalSessions = 0;
+    let conversions = 0;
+    let bounces = 0;
+    let returningSessions = 0;
+    let returningConversions = 0;
+    let durationTotal = 0;
+    let durationWeight = 0;
+
+    for (const group of outcomeGroups) {
+      const weight = sessionWeight(group);
+      const sessions = weight * group._count._all;
+
+      totalSessions += sessions;
+      if (group.converted) conversions += sessions;
+      if (group.bounced) bounces += sessions;
+      if (group.isReturning) {
+        returningSessions += sessions;
+        if (group.converted) returningConversions += sessions;
+      }
+      durationTotal += weight * (group._sum.duration ?? 0);
+      durationWeight += weight * group._count.duration;
+    }
+
+    // A visitor is returning if any of their sessions in range is returning;
+    // each visitor counts at the weight of their most tracked session
+    const visitors = new Map<string, { weight: number; returning: boolean }>();
+    for (const group of visitorGroups) {
+      const visitor = visitors.get(group.visitorId!) ?? { weight: Infinity, returning: false };
+      visitors.set(group.visitorId!, {
+        weight: Math.min(visitor.weight, sessionWeight(group)),
+        returning: visitor.returning || group.isReturning,
+      });
+    }
+    let uniqueVisitors = 0;
+    let returningVisitors = 0;
+    for (const visitor of visitors.values()) {
+      uniqueVisitors += visitor.weight;
+      if (visitor.returning) returningVisitors += visitor.weight;
+    }
 
     const conversionRate =
       totalSessions > 0 ? (conversions / totalSessions) * 100 : 0;
     const bounceRate = totalSessions > 0 ? (bounces / totalSessions) * 100 : 0;
+    const returningVisitorRate =
+      uniqueVisitors > 0 ? (returningVisitors / uniqueVisitors) * 100 : 0;
+    const returningConversionRate =
+      returningSessions > 0 ? (returningConversions / returningSessions) * 100 : 0;
 
     const stats = {
-      totalSessions,
-      totalConversions: conversions,
+      totalSessions: Math.round(totalSessions),
+      totalConversions: Math.round(conversions),
       conversionRate: Math.round(conversionRate * 100) / 100,
-      averageDuration: avgDuration._avg.duration
-        ? Math.round(avgDuration._avg.duration)
-        : null,
+      averageDuration: durationWeight > 0 ? Math.round(durationTotal / durationWeight) : null,
       bounceRate: Math.round(bounceRate * 100) / 100,
+      uniqueVisitors: Math.round(uniqueVisitors),
+      returningVisitors: Math.round(returningVisitors),
+      returningVisitorRate: Math.round(returningVisitorRate * 100) / 100,
+      returningSessions: Math.round(returningSessions),
+      returningConversionRate: Math.round(returningConversionRate * 100) / 100,
     };
 
     console.log(`[getSessionStats] Stats calculated:`, stats);
@@ -2,13 +2,15 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { getBusinessProfile } from "@/actions/business-profile";
+import { getBusinessProfile, getTrackingScript } from "@/actions/business-profile";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { LiveEventsPanel } from "@/components/dashboard/live-events-panel";
 
 export default function InstallTrackingPage() {
   const router = useRouter();
   const [siteId, setSiteId] = useState("");
+  const [script, setScript] = useState<{ version: string; integrity: string } | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -16,15 +18,23 @@ export default function InstallTrackingPage() {
   }, []);
 
   const fetchProfile = async () => {
-    const result = await getBusinessProfile();
+    const [result, scriptResult] = await Promise.all([getBusinessProfile(), getTrackingScript()]);
     if (result.success && result.data) {
       setSiteId(result.data.siteId);
     }
+    if (scriptResult.success && scriptResult.data) {
+      setScript({ version: scriptResult.data.version, integrity: scriptResult.data.integrity });
+    }
     setLoading(false);
   };
 
-  const trackingSnippet = `<!-- MetricFortune Tracking Script -->
-<script src="https://metricfortune.vercel.app/tracking.js" data-site-id="${siteId}"></script>`;
+  const autoUpdateSnippet = `<!-- MetricFortune Tracking Script (auto-updating) -->
+<script src="https://metricfortune.vercel.app/t/${siteId}.js" async></script>`;
+
+  const trackingSnippet = script
+    ? `<!-- MetricFortune Tracking Script (v${script.version}) -->
+<script src="https://metricfortune.vercel.app/t/${siteId}.js?v=${script.version}" integrity="${script.integrity}" crossorigin="anonymous" async></script>`
+    : autoUpdateSnippet;
 
   const manualSnippet = `<!-- MetricFortune Tracking Script (Manual) -->
 <script src="https://metricfortune.vercel.app/tracking.js"></script>
@@ -64,7 +74,11 @@ export default function InstallTrackingPage() {
 
           <div className="space-y-2">
             <label className="text-sm font-medium">Tracking Script (Recommended)</label>
-            <p className="text-xs text-gray-500">Simple one-line installation with auto-initialization</p>
+            <p className="text-xs text-gray-500">
+              Your site&apos;s script with its settings built in, pinned to this tracker version and verified by
+              the browser (Subresource Integrity). Copy it again after changing your Tracker Configuration, since
+              the integrity hash covers your settings.
+            </p>
             <pre className="overflow-x-auto rounded-md bg-gray-900 p-4 text-sm text-white">
               <code>{trackingSnippet}</code>
             </pre>
@@ -79,6 +93,25 @@ export default function InstallTrackingPage() {
             </Button>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Alternative: Automatic Updates</label>
+            <p className="text-xs text-gray-500">
+              Follows tracker updates and settings changes automatically, without an integrity check
+            </p>
+            <pre className="overflow-x-auto rounded-md bg-gray-900 p-4 text-sm text-white">
+              <code>{autoUpdateSnippet}</code>
+            </pre>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => {
+                navigator.clipboard.writeText(autoUpdateSnippet);
+              }}
+            >
+              Copy Auto-Updating Version
+            </Button>
+          </div>
+
           <div className="space-y-2">
             <label className="text-sm font-medium">Alternative: Manual Initialization</label>
             <p className="text-xs text-gray-500">Use this method if you need more control over initialization timing</p>
@@ -95,6 +128,16 @@ export default function InstallTrackingPage() {
               Copy Manual Version
             </Button>
           </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Verify Installation</label>
+            <p className="text-xs text-gray-500">
+              Visit your website after deploying; its events show up here within a few seconds. Rejected events list
+              what to fix. Run <code>MetricFortune.debug(true)</code> in your site&apos;s browser console to see what
+              the tracker captures and sends.
+            </p>
+            <LiveEventsPanel />
+          </div>
         </CardContent>
         <CardFooter>
           <Button className="w-full" onClick={() => router.push("/dashboard")}>
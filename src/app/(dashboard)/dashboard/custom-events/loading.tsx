@@ -0,0 +1,26 @@
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card } from '@/components/ui/card';
+
+/**
+ * Loading State for Custom Events Page
+ *
+ * Shows header and table row placeholders
+ */
+export default function CustomEventsLoading() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Page Header Skeleton */}
+      <div className="mb-6">
+        <Skeleton className="h-9 w-64" />
+        <Skeleton className="mt-2 h-5 w-96" />
+      </div>
+
+      {/* Table Skeleton */}
+      <Card className="space-y-3 p-4">
+        {[1, 2, 3, 4, 5].map((row) => (
+          <Skeleton key={row} className="h-8 w-full" />
+        ))}
+      </Card>
+    </div>
+  );
+}
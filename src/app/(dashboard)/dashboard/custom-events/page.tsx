@@ -0,0 +1,172 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { subDays, format } from 'date-fns';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Card } from '@/components/ui/card';
+import { calculateCustomEventStats } from '@/services/analytics/custom-event-calculator';
+import { lowestSampleRate } from '@/services/analytics/sampling';
+import { SampledDataNotice } from '@/components/dashboard/sampled-data-notice';
+
+interface PageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+const VALID_RANGES = [7, 30, 90];
+
+/**
+ * Custom Events Page
+ *
+ * Lists events sent with MetricFortune.track(name, properties) with counts,
+ * unique sessions and the conversion rate of sessions that fired them.
+ * Server Component that aggregates TrackingEvent rows per event name.
+ */
+export default async function CustomEventsPage({ searchParams }: PageProps) {
+  // Get authenticated user
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  // Get user's business
+  const business = await prisma.business.findUnique({
+    where: { userId: session.user.id },
+    select: { siteId: true },
+  });
+
+  if (!business) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-6">
+          <h2 className="text-lg font-semibold text-amber-900">No Business Profile</h2>
+          <p className="mt-2 text-amber-700">
+            Please create a business profile to view custom events.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Parse date range (default: 30 days)
+  const params = await searchParams;
+  const dateRangeValue = parseInt(params.range || '30');
+  const dateRange = VALID_RANGES.includes(dateRangeValue) ? dateRangeValue : 30;
+
+  const endDate = new Date();
+  const startDate = subDays(endDate, dateRange);
+
+  // Fetch custom events for the site and date range
+  const events = await prisma.trackingEvent.findMany({
+    where: {
+      siteId: business.siteId,
+      eventType: 'custom',
+      botReason: null,
+      timestamp: {
+        gte: startDate,
+        lte: endDate,
+      },
+    },
+    select: { sessionId: true, data: true },
+  });
+
+  // Look up which of those sessions converted, and their sample rates
+  const sessionIds = [...new Set(events.map((event) => event.sessionId))];
+  const sessions = sessionIds.length > 0
+    ? await prisma.session.findMany({
+        where: {
+          siteId: business.siteId,
+          sessionId: { in: sessionIds },
+        },
+        select: { sessionId: true, converted: true, sampleRate: true },
+      })
+    : [];
+
+  const stats = calculateCustomEventStats(events, sessions);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Custom Events</h1>
+          <p className="mt-2 text-muted-foreground">
+            Events your site sends with <code>MetricFortune.track()</code>
+          </p>
+          <p className="mt-1 text-sm text-gray-600">
+            Showing data from {format(startDate, 'MMM dd, yyyy')} - {format(endDate, 'MMM dd, yyyy')}
+          </p>
+        </div>
+
+        {/* Date Range Selector */}
+        <div className="flex gap-2">
+          {VALID_RANGES.map((range) => (
+            <Link
+              key={range}
+              href={`/dashboard/custom-events?range=${range}`}
+              className={`rounded-md border px-3 py-1.5 text-sm font-medium ${
+                range === dateRange
+                  ? 'border-[#7c3aed] bg-[#7c3aed] text-white'
+                  : 'border-[#d1d5db] text-[#4b5563] hover:bg-[#faf5ff]'
+              }`}
+            >
+              Last {range} days
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <SampledDataNotice sampleRate={lowestSampleRate(sessions)} className="mb-6" />
+
+      {stats.length === 0 ? (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-8 text-center">
+          <h2 className="text-xl font-semibold text-blue-900">No Custom Events Yet</h2>
+          <p className="mt-2 text-blue-700">
+            Call <code>MetricFortune.track(&apos;coupon_applied&apos;, {'{ code: \'SAVE10\' }'})</code> from
+            your site to record events that matter to your business.
+          </p>
+        </div>
+      ) : (
+        <Card className="overflow-x-auto p-0">
+          <table className="w-full text-sm">
+            <thead className="border-b border-[#e5e7eb] bg-[#f9fafb] text-left text-xs uppercase text-[#6b7280]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Event</th>
+                <th className="px-4 py-3 text-right font-medium">Count</th>
+                <th className="px-4 py-3 text-right font-medium">Unique Sessions</th>
+                <th className="px-4 py-3 text-right font-medium">Conversion Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map((row) => (
+                <tr key={row.name} className="border-b border-[#f3f4f6] last:border-0">
+                  <td className="px-4 py-3 font-mono text-[#1f2937]">{row.name}</td>
+                  <td className="px-4 py-3 text-right">{row.count.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">{row.uniqueSessions.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">
+                    {row.conversionRate}%
+                    <span className="ml-1 text-xs text-[#6b7280]">
+                      ({row.convertedSessions}/{row.uniqueSessions})
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      <p className="mt-4 text-xs text-[#6b7280]">
+        Conversion rate counts sessions that fired the event and completed a purchase.
+        Sessions are included once they have been aggregated.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Metadata for the page
+ */
+export const metadata = {
+  title: 'Custom Events | MetricFortune',
+  description: 'Counts and conversion rates for events sent with MetricFortune.track()',
+};
@@ -0,0 +1,185 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { subDays, format } from 'date-fns';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Card } from '@/components/ui/card';
+import { calculateErrorImpact } from '@/services/analytics/error-calculator';
+import { lowestSampleRate } from '@/services/analytics/sampling';
+import { SampledDataNotice } from '@/components/dashboard/sampled-data-notice';
+
+interface PageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+const VALID_RANGES = [7, 30, 90];
+
+/**
+ * Errors Page
+ *
+ * Lists JavaScript errors captured by the tracker, grouped by fingerprint,
+ * with the conversion rate of sessions that hit each error against the rest.
+ * Server Component that aggregates TrackingEvent rows with eventType 'error'.
+ */
+export default async function ErrorsPage({ searchParams }: PageProps) {
+  // Get authenticated user
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  // Get user's business
+  const business = await prisma.business.findUnique({
+    where: { userId: session.user.id },
+    select: { siteId: true },
+  });
+
+  if (!business) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-6">
+          <h2 className="text-lg font-semibold text-amber-900">No Business Profile</h2>
+          <p className="mt-2 text-amber-700">
+            Please create a business profile to view errors.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Parse date range (default: 30 days)
+  const params = await searchParams;
+  const dateRangeValue = parseInt(params.range || '30');
+  const dateRange = VALID_RANGES.includes(dateRangeValue) ? dateRangeValue : 30;
+
+  const endDate = new Date();
+  const startDate = subDays(endDate, dateRange);
+
+  // Fetch error events and aggregated sessions for the date range
+  const [events, sessions] = await Promise.all([
+    prisma.trackingEvent.findMany({
+      where: {
+        siteId: business.siteId,
+        eventType: 'error',
+        botReason: null,
+        timestamp: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      select: { sessionId: true, data: true },
+    }),
+    prisma.session.findMany({
+      where: {
+        siteId: business.siteId,
+        isBot: false,
+        createdAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      select: { sessionId: true, converted: true, sampleRate: true },
+    }),
+  ]);
+
+  const groups = calculateErrorImpact(events, sessions);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Errors</h1>
+          <p className="mt-2 text-muted-foreground">
+            JavaScript errors on your site and how they affect conversion
+          </p>
+          <p className="mt-1 text-sm text-gray-600">
+            Showing data from {format(startDate, 'MMM dd, yyyy')} - {format(endDate, 'MMM dd, yyyy')}
+          </p>
+        </div>
+
+        {/* Date Range Selector */}
+        <div className="flex gap-2">
+          {VALID_RANGES.map((range) => (
+            <Link
+              key={range}
+              href={`/dashboard/errors?range=${range}`}
+              className={`rounded-md border px-3 py-1.5 text-sm font-medium ${
+                range === dateRange
+                  ? 'border-[#7c3aed] bg-[#7c3aed] text-white'
+                  : 'border-[#d1d5db] text-[#4b5563] hover:bg-[#faf5ff]'
+              }`}
+            >
+              Last {range} days
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <SampledDataNotice sampleRate={lowestSampleRate(sessions)} className="mb-6" />
+
+      {groups.length === 0 ? (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-8 text-center">
+          <h2 className="text-xl font-semibold text-blue-900">No Errors Captured</h2>
+          <p className="mt-2 text-blue-700">
+            Uncaught errors and unhandled promise rejections on your site will appear here.
+          </p>
+        </div>
+      ) : (
+        <Card className="overflow-x-auto p-0">
+          <table className="w-full text-sm">
+            <thead className="border-b border-[#e5e7eb] bg-[#f9fafb] text-left text-xs uppercase text-[#6b7280]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Error</th>
+                <th className="px-4 py-3 font-medium">Page</th>
+                <th className="px-4 py-3 text-right font-medium">Occurrences</th>
+                <th className="px-4 py-3 text-right font-medium">Sessions</th>
+                <th className="px-4 py-3 text-right font-medium">Conversion Rate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((row) => (
+                <tr key={row.fingerprint} className="border-b border-[#f3f4f6] last:border-0">
+                  <td className="max-w-md px-4 py-3">
+                    <div className="break-words font-mono text-[#1f2937]">{row.message}</div>
+                    {row.source && (
+                      <div className="mt-1 truncate text-xs text-[#6b7280]">
+                        {row.source}
+                        {row.line !== null && `:${row.line}`}
+                        {row.kind === 'unhandledrejection' && ' (unhandled rejection)'}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 font-mono text-xs text-[#4b5563]">{row.page ?? '—'}</td>
+                  <td className="px-4 py-3 text-right">{row.occurrences.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">{row.affectedSessions.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">
+                    <span className={row.significant ? 'font-semibold text-red-600' : undefined}>
+                      {row.conversionRate}%
+                    </span>
+                    <span className="ml-1 text-xs text-[#6b7280]">
+                      vs {row.baselineConversionRate}%
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      <p className="mt-4 text-xs text-[#6b7280]">
+        Conversion rates compare aggregated sessions that hit the error with all other sessions.
+        Rates in red are significantly lower (95% confidence, at least 30 affected sessions).
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Metadata for the page
+ */
+export const metadata = {
+  title: 'Errors | MetricFortune',
+  description: 'JavaScript errors and their impact on conversion',
+};
@@ -0,0 +1,176 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { subDays } from 'date-fns';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Card } from '@/components/ui/card';
+import { HeatmapOverlay } from '@/components/dashboard/heatmap-overlay';
+import { DEVICE_CLASSES, type DeviceClass } from '@/types/heatmap';
+
+interface PageProps {
+  searchParams: Promise<{ range?: string; page?: string; device?: string }>;
+}
+
+const VALID_RANGES = [7, 30, 90];
+
+const DEVICE_LABELS: Record<DeviceClass, string> = {
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+  desktop: 'Desktop',
+};
+
+/**
+ * Click Heatmaps Page
+ *
+ * Lists the site's most clicked URL templates and shows the click heatmap of
+ * the selected template and device class over the live page or a screenshot.
+ * Server Component; the overlay loads its tiles from GET /api/heatmaps.
+ */
+export default async function HeatmapsPage({ searchParams }: PageProps) {
+  // Get authenticated user
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  // Get user's business
+  const business = await prisma.business.findUnique({
+    where: { userId: session.user.id },
+    select: { siteId: true },
+  });
+
+  if (!business) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-6">
+          <h2 className="text-lg font-semibold text-amber-900">No Business Profile</h2>
+          <p className="mt-2 text-amber-700">
+            Please create a business profile to view heatmaps.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Parse date range (default: 30 days) and device (default: desktop)
+  const params = await searchParams;
+  const dateRangeValue = parseInt(params.range || '30');
+  const dateRange = VALID_RANGES.includes(dateRangeValue) ? dateRangeValue : 30;
+  const device = DEVICE_CLASSES.find((d) => d === params.device) ?? 'desktop';
+
+  // Most clicked URL templates for the device class
+  const templates = await prisma.clickHeatmap.groupBy({
+    by: ['urlTemplate'],
+    where: {
+      siteId: business.siteId,
+      deviceClass: device,
+      periodStart: { gte: subDays(new Date(), dateRange) },
+    },
+    _sum: { clicks: true },
+    orderBy: { _sum: { clicks: 'desc' } },
+    take: 50,
+  });
+
+  const selected = templates.find((t) => t.urlTemplate === params.page)?.urlTemplate
+    ?? templates[0]?.urlTemplate;
+
+  const href = (changes: { range?: number; page?: string; device?: DeviceClass }) => {
+    const query = new URLSearchParams({
+      range: String(changes.range ?? dateRange),
+      device: changes.device ?? device,
+      ...((changes.page ?? selected) ? { page: changes.page ?? selected } : {}),
+    });
+    return `/dashboard/heatmaps?${query}`;
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Click Heatmaps</h1>
+          <p className="mt-2 text-muted-foreground">
+            Where visitors click, per page type and device
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          {/* Device Selector */}
+          <div className="flex gap-2">
+            {DEVICE_CLASSES.map((d) => (
+              <Link
+                key={d}
+                href={href({ device: d })}
+                className={`rounded-md border px-3 py-1.5 text-sm font-medium ${
+                  d === device
+                    ? 'border-[#7c3aed] bg-[#7c3aed] text-white'
+                    : 'border-[#d1d5db] text-[#4b5563] hover:bg-[#faf5ff]'
+                }`}
+              >
+                {DEVICE_LABELS[d]}
+              </Link>
+            ))}
+          </div>
+
+          {/* Date Range Selector */}
+          <div className="flex gap-2">
+            {VALID_RANGES.map((range) => (
+              <Link
+                key={range}
+                href={href({ range })}
+                className={`rounded-md border px-3 py-1.5 text-sm font-medium ${
+                  range === dateRange
+                    ? 'border-[#7c3aed] bg-[#7c3aed] text-white'
+                    : 'border-[#d1d5db] text-[#4b5563] hover:bg-[#faf5ff]'
+                }`}
+              >
+                Last {range} days
+              </Link>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {!selected ? (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-8 text-center">
+          <h2 className="text-xl font-semibold text-blue-900">No Heatmap Data Yet</h2>
+          <p className="mt-2 text-blue-700">
+            Click heatmaps appear after the next session aggregation run once visitors
+            click on your pages with the latest tracking script.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+          {/* Page Template List */}
+          <Card className="h-fit p-0">
+            <ul className="divide-y divide-[#f3f4f6] text-sm">
+              {templates.map((t) => (
+                <li key={t.urlTemplate}>
+                  <Link
+                    href={href({ page: t.urlTemplate })}
+                    className={`flex justify-between gap-2 px-4 py-2 ${
+                      t.urlTemplate === selected ? 'bg-[#faf5ff] font-medium text-[#7c3aed]' : 'text-[#1f2937]'
+                    }`}
+                  >
+                    <span className="truncate font-mono">{t.urlTemplate}</span>
+                    <span className="text-[#6b7280]">{(t._sum.clicks ?? 0).toLocaleString()}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </Card>
+
+          <HeatmapOverlay urlTemplate={selected} device={device} range={dateRange} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Metadata for the page
+ */
+export const metadata = {
+  title: 'Click Heatmaps | MetricFortune',
+  description: 'Click heatmaps per page type and device',
+};
@@ -0,0 +1,183 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { subDays, format } from 'date-fns';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Card } from '@/components/ui/card';
+import { calculateImpressionStats } from '@/services/analytics/impression-calculator';
+import { lowestSampleRate } from '@/services/analytics/sampling';
+import { SampledDataNotice } from '@/components/dashboard/sampled-data-notice';
+
+interface PageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+const VALID_RANGES = [7, 30, 90];
+
+/**
+ * Impressions Page
+ *
+ * Lists elements tagged with data-mf-impression (trust badges, shipping
+ * banners, upsell blocks) with the share of visitors to their pages who saw
+ * them, and the conversion rate of sessions that saw versus didn't see each.
+ * Server Component that aggregates TrackingEvent rows with eventType 'impression'.
+ */
+export default async function ImpressionsPage({ searchParams }: PageProps) {
+  // Get authenticated user
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  // Get user's business
+  const business = await prisma.business.findUnique({
+    where: { userId: session.user.id },
+    select: { siteId: true },
+  });
+
+  if (!business) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-6">
+          <h2 className="text-lg font-semibold text-amber-900">No Business Profile</h2>
+          <p className="mt-2 text-amber-700">
+            Please create a business profile to view impressions.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Parse date range (default: 30 days)
+  const params = await searchParams;
+  const dateRangeValue = parseInt(params.range || '30');
+  const dateRange = VALID_RANGES.includes(dateRangeValue) ? dateRangeValue : 30;
+
+  const endDate = new Date();
+  const startDate = subDays(endDate, dateRange);
+
+  // Fetch impression events and aggregated sessions for the date range
+  const [events, sessions] = await Promise.all([
+    prisma.trackingEvent.findMany({
+      where: {
+        siteId: business.siteId,
+        eventType: 'impression',
+        botReason: null,
+        timestamp: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      select: { sessionId: true, data: true },
+    }),
+    prisma.session.findMany({
+      where: {
+        siteId: business.siteId,
+        isBot: false,
+        createdAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      select: { sessionId: true, journeyPath: true, converted: true, sampleRate: true },
+    }),
+  ]);
+
+  const elements = calculateImpressionStats(events, sessions);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Impressions</h1>
+          <p className="mt-2 text-muted-foreground">
+            Whether visitors actually see the elements you tagged, and how that relates to conversion
+          </p>
+          <p className="mt-1 text-sm text-gray-600">
+            Showing data from {format(startDate, 'MMM dd, yyyy')} - {format(endDate, 'MMM dd, yyyy')}
+          </p>
+        </div>
+
+        {/* Date Range Selector */}
+        <div className="flex gap-2">
+          {VALID_RANGES.map((range) => (
+            <Link
+              key={range}
+              href={`/dashboard/impressions?range=${range}`}
+              className={`rounded-md border px-3 py-1.5 text-sm font-medium ${
+                range === dateRange
+                  ? 'border-[#7c3aed] bg-[#7c3aed] text-white'
+                  : 'border-[#d1d5db] text-[#4b5563] hover:bg-[#faf5ff]'
+              }`}
+            >
+              Last {range} days
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <SampledDataNotice sampleRate={lowestSampleRate(sessions)} className="mb-6" />
+
+      {elements.length === 0 ? (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-8 text-center">
+          <h2 className="text-xl font-semibold text-blue-900">No Impressions Yet</h2>
+          <p className="mt-2 text-blue-700">
+            Add <code>data-mf-impression=&quot;name&quot;</code> to an element (e.g. your trust badges) and
+            it will appear here once visitors see it.
+          </p>
+        </div>
+      ) : (
+        <Card className="overflow-x-auto p-0">
+          <table className="w-full text-sm">
+            <thead className="border-b border-[#e5e7eb] bg-[#f9fafb] text-left text-xs uppercase text-[#6b7280]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Element</th>
+                <th className="px-4 py-3 font-medium">Pages</th>
+                <th className="px-4 py-3 text-right font-medium">Impressions</th>
+                <th className="px-4 py-3 text-right font-medium">Impression Rate</th>
+                <th className="px-4 py-3 text-right font-medium">Conversion (Seen vs Not Seen)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {elements.map((row) => (
+                <tr key={row.name} className="border-b border-[#f3f4f6] last:border-0">
+                  <td className="px-4 py-3 font-mono text-[#1f2937]">{row.name}</td>
+                  <td className="max-w-xs px-4 py-3 font-mono text-xs text-[#4b5563]">
+                    <div className="truncate">{row.pages.join(', ') || '—'}</div>
+                  </td>
+                  <td className="px-4 py-3 text-right">{row.impressions.toLocaleString()}</td>
+                  <td className="px-4 py-3 text-right">
+                    {row.impressionRate}%
+                    <span className="ml-1 text-xs text-[#6b7280]">
+                      of {row.exposedSessions.toLocaleString()} sessions
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {row.seenSessions > 0 ? `${row.seenConversionRate}%` : '—'}
+                    <span className="ml-1 text-xs text-[#6b7280]">
+                      vs {row.notSeenConversionRate === null ? '—' : `${row.notSeenConversionRate}%`}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      <p className="mt-4 text-xs text-[#6b7280]">
+        An impression is recorded when at least half of the element is visible for one second. Rates
+        count aggregated sessions that viewed a page the element was seen on.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Metadata for the page
+ */
+export const metadata = {
+  title: 'Impressions | MetricFortune',
+  description: 'Element impression rates and their relation to conversion',
+};
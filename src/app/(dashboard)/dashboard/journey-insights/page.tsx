@@ -5,12 +5,17 @@ import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { calculateFunnelStages, generateInsight, calculateJourneyTypeStats } from '@/services/analytics/journey-calculator';
 import { JourneyFunnel } from '@/components/dashboard/journey-funnel';
+import { SampledDataNotice } from '@/components/dashboard/sampled-data-notice';
+import { lowestSampleRate } from '@/services/analytics/sampling';
+import { CHANNELS, segmentWhere, type Channel } from '@/services/analytics/channel-classifier';
 import type { JourneyType } from '@/types/journey';
 
 interface PageProps {
   searchParams: {
     range?: string;
     type?: string;
+    channel?: string;
+    campaign?: string;
   };
 }
 
@@ -23,6 +28,7 @@ interface PageProps {
  * AC#1: Journey Insights tab displays visual funnel diagram
  * AC#6: Date range selector (Last 7 days, Last 30 days, Last 90 days)
  * AC#7: Plain-language summary above chart
+ * Channel and campaign filters slice the funnel by traffic source
  */
 export default async function JourneyInsightsPage({ searchParams }: PageProps) {
   // Get authenticated user
@@ -58,21 +64,46 @@ export default async function JourneyInsightsPage({ searchParams }: PageProps) {
   // Parse journey type (default: 'all')
   const journeyType = (searchParams.type || 'all') as JourneyType;
 
+  // Parse traffic source segment (default: all traffic)
+  const channel = CHANNELS.includes(searchParams.channel as Channel) ? searchParams.channel : undefined;
+  const campaign = searchParams.campaign?.slice(0, 255) || undefined;
+
   // Calculate date range
   const endDate = new Date();
   const startDate = subDays(endDate, dateRange);
 
-  // Fetch sessions filtered by businessId and date range
-  const sessions = await prisma.session.findMany({
-    where: {
-      siteId: business.siteId,
-      createdAt: {
-        gte: startDate,
-        lte: endDate,
+  // Fetch sessions filtered by businessId, date range and segment, and the
+  // campaigns seen in the range for the campaign filter
+  const [sessions, campaignRows] = await Promise.all([
+    prisma.session.findMany({
+      where: {
+        siteId: business.siteId,
+        isBot: false,
+        ...segmentWhere({ channel, campaign }),
+        createdAt: {
+          gte: startDate,
+          lte: endDate,
+        },
       },
-    },
-    orderBy: { createdAt: 'asc' },
-  });
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.session.findMany({
+      where: {
+        siteId: business.siteId,
+        isBot: false,
+        utmCampaign: { not: null },
+        createdAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      distinct: ['utmCampaign'],
+      select: { utmCampaign: true },
+      orderBy: { utmCampaign: 'asc' },
+      take: 100,
+    }),
+  ]);
+  const campaigns = campaignRows.map((row) => row.utmCampaign!);
 
   // Calculate funnel data
   const funnelData = calculateFunnelStages(sessions, dateRange, journeyType);
@@ -83,8 +114,10 @@ export default async function JourneyInsightsPage({ searchParams }: PageProps) {
   // Calculate journey type statistics
   const journeyTypeStats = calculateJourneyTypeStats(sessions);
 
-  // Check for empty state (lowered to 1 for testing, consider 10+ for production)
-  const hasInsufficientData = sessions.length < 1;
+  // Check for empty state (lowered to 1 for testing, consider 10+ for production);
+  // a segment without sessions still shows the filters to change it
+  const isSegmented = Boolean(channel || campaign);
+  const hasInsufficientData = sessions.length < 1 && !isSegmented;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -169,6 +202,8 @@ export default async function JourneyInsightsPage({ searchParams }: PageProps) {
         </div>
       ) : (
         <>
+          <SampledDataNotice sampleRate={lowestSampleRate(sessions)} className="mb-6" />
+
           {/* Plain-Language Insight Summary */}
           <div className="mb-8 rounded-lg bg-gradient-to-r from-purple-50 to-purple-100 p-6">
             <h2 className="text-2xl font-bold text-purple-900">{insight.primary}</h2>
@@ -182,6 +217,7 @@ export default async function JourneyInsightsPage({ searchParams }: PageProps) {
             funnelData={funnelData}
             journeyTypeStats={journeyTypeStats}
             businessName={business.name}
+            campaigns={campaigns}
           />
         </>
       )}
@@ -0,0 +1,70 @@
+import { redirect } from 'next/navigation';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { LiveEventsPanel } from '@/components/dashboard/live-events-panel';
+
+/**
+ * Live Events Page
+ *
+ * Shows events as they reach /api/track, with validation errors for the ones
+ * rejected, so merchants can check an install without waiting for analytics.
+ * Server Component that checks the business profile; the panel streams events
+ * from GET /api/live-events.
+ */
+export default async function LiveEventsPage() {
+  // Get authenticated user
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  // Get user's business
+  const business = await prisma.business.findUnique({
+    where: { userId: session.user.id },
+    select: { siteId: true },
+  });
+
+  if (!business) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-6">
+          <h2 className="text-lg font-semibold text-amber-900">No Business Profile</h2>
+          <p className="mt-2 text-amber-700">
+            Please create a business profile to view live events.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">Live Events</h1>
+        <p className="mt-2 text-muted-foreground">
+          Events from your site as they arrive, with the reason for any the tracker sent that were rejected
+        </p>
+        <p className="mt-1 text-sm text-gray-600">
+          Site ID: <code>{business.siteId}</code>
+        </p>
+      </div>
+
+      <LiveEventsPanel />
+
+      <p className="mt-4 text-xs text-[#6b7280]">
+        Accepted events are stored and appear in reports once sessions are aggregated. Rejected events
+        are not stored; their errors name the field to fix in your install (for example a nested object
+        passed as a <code>MetricFortune.track()</code> property). Rejected events are kept for a day.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Metadata for the page
+ */
+export const metadata = {
+  title: 'Live Events | MetricFortune',
+  description: 'Incoming tracking events and validation errors',
+};
@@ -4,7 +4,11 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { StatsCard } from "@/components/dashboard/stats-card";
-import { Star, TrendingUp } from "lucide-react";
+import { SampledDataNotice } from "@/components/dashboard/sampled-data-notice";
+import { Bot, ShieldAlert, Star, TrendingUp } from "lucide-react";
+import { BOT_REASON_LABELS, type BotReason } from "@/services/tracking/bot-detector";
+import { lowestSampleRate, sessionWeight, weightedCount } from "@/services/analytics/sampling";
+import { ADD_TO_CART_EVENT_TYPE } from "@/types/tracking";
 import Link from "next/link";
 
 async function getTopRecommendation(businessId: string) {
@@ -41,6 +45,81 @@ async function getTopRecommendation(businessId: string) {
   return sorted[0];
 }
 
+async function getOriginProtection(businessId: string) {
+  // Rejected cross-origin tracking requests (see services/tracking/origin-policy)
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: {
+      allowedOrigins: true,
+      rejectedOriginCount: true,
+      lastRejectedOrigin: true,
+    },
+  });
+
+  return {
+    restricted: (business?.allowedOrigins.length ?? 0) > 0,
+    rejectedCount: business?.rejectedOriginCount ?? 0,
+    lastRejectedOrigin: business?.lastRejectedOrigin ?? null,
+  };
+}
+
+async function getBotTraffic(businessId: string) {
+  // Bot sessions are excluded from every metric; this is only shown on request
+  const business = await prisma.business.findUnique({
+    where: { id: businessId },
+    select: { siteId: true, showBotTraffic: true },
+  });
+
+  if (!business?.showBotTraffic) {
+    return null;
+  }
+
+  const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+  const [totalSessions, byReason] = await Promise.all([
+    prisma.session.count({
+      where: { siteId: business.siteId, createdAt: { gte: sevenDaysAgo } },
+    }),
+    prisma.session.groupBy({
+      by: ["botReason"],
+      where: { siteId: business.siteId, isBot: true, createdAt: { gte: sevenDaysAgo } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const botSessions = byReason.reduce((sum, group) => sum + group._count._all, 0);
+
+  return {
+    botSessions,
+    share: totalSessions > 0 ? ((botSessions / totalSessions) * 100).toFixed(1) : "0.0",
+    reasons: byReason
+      .map((group) => ({
+        label: BOT_REASON_LABELS[group.botReason as BotReason] ?? "Other",
+        count: group._count._all,
+      }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+async function getCartOutcomes(siteId: string, cartSessionIds: string[]) {
+  // Sessions with an add-to-cart, scaled up for sampling; sessions not yet
+  // aggregated count once and aren't known to be abandoned
+  const sessions = await prisma.session.findMany({
+    where: {
+      siteId,
+      sessionId: { in: cartSessionIds },
+    },
+    select: { sessionId: true, converted: true, sampleRate: true },
+  });
+
+  const weights = new Map(sessions.map((s) => [s.sessionId, sessionWeight(s)]));
+
+  return {
+    cartSessions: cartSessionIds.reduce((sum, id) => sum + (weights.get(id) ?? 1), 0),
+    abandonedCarts: weightedCount(sessions, (s) => !s.converted),
+  };
+}
+
 async function getMetrics(businessId: string) {
   // Get business siteId first
   const business = await prisma.business.findUnique({
@@ -57,6 +136,7 @@ async function getMetrics(businessId: string) {
       hasData: false,
       conversionTrend: null,
       abandonmentTrend: null,
+      sampleRate: null,
     };
   }
 
@@ -71,39 +151,41 @@ async function getMetrics(businessId: string) {
   const currentSessions = await prisma.session.findMany({
     where: {
       siteId,
+      isBot: false,
       createdAt: { gte: sevenDaysAgo },
     },
-    select: { converted: true },
+    select: { converted: true, sampleRate: true },
   });
 
   // Get previous period sessions (7-14 days ago)
   const previousSessions = await prisma.session.findMany({
     where: {
       siteId,
+      isBot: false,
       createdAt: {
         gte: fourteenDaysAgo,
         lt: sevenDaysAgo,
       },
     },
-    select: { converted: true },
+    select: { converted: true, sampleRate: true },
   });
 
-  // Calculate current metrics
-  const totalSessions = currentSessions.length;
-  const conversions = currentSessions.filter((s) => s.converted).length;
+  // Calculate current metrics (scaled up for sampled sessions)
+  const totalSessions = weightedCount(currentSessions);
+  const conversions = weightedCount(currentSessions, (s) => s.converted);
   const conversionRate =
     totalSessions > 0 ? ((conversions / totalSessions) * 100).toFixed(1) : "0.0";
 
   // Calculate previous metrics for trend
-  const prevTotalSessions = previousSessions.length;
-  const prevConversions = previousSessions.filter((s) => s.converted).length;
+  const prevTotalSessions = weightedCount(previousSessions);
+  const prevConversions = weightedCount(previousSessions, (s) => s.converted);
   const prevConversionRate =
     prevTotalSessions > 0 ? (prevConversions / prevTotalSessions) * 100 : 0;
 
   // Calculate conversion rate trend
   const currentConvRate = parseFloat(conversionRate);
   let conversionTrend: { direction: "up" | "down"; value: string } | null = null;
-  if (prevConversionRate > 0 && totalSessions >= 10) {
+  if (prevConversionRate > 0 && currentSessions.length >= 10) {
     const trendChange = ((currentConvRate - prevConversionRate) / prevConversionRate) * 100;
     conversionTrend = {
       direction: trendChange >= 0 ? "up" : "down",
@@ -123,7 +205,8 @@ async function getMetrics(businessId: string) {
   const currentCartEvents = await prisma.trackingEvent.findMany({
     where: {
       siteId,
-      eventType: "ADD_TO_CART",
+      eventType: ADD_TO_CART_EVENT_TYPE,
+      botReason: null,
       createdAt: { gte: sevenDaysAgo },
     },
     select: { sessionId: true },
@@ -131,15 +214,9 @@ async function getMetrics(businessId: string) {
   });
 
   const currentCartSessionIds = currentCartEvents.map((e) => e.sessionId);
-  const currentCartSessions = currentCartSessionIds.length;
-
-  const currentAbandonedCarts = await prisma.session.count({
-    where: {
-      siteId,
-      sessionId: { in: currentCartSessionIds },
-      converted: false,
-    },
-  });
+  const currentCartOutcomes = await getCartOutcomes(siteId, currentCartSessionIds);
+  const currentCartSessions = currentCartOutcomes.cartSessions;
+  const currentAbandonedCarts = currentCartOutcomes.abandonedCarts;
 
   const abandonmentRate =
     currentCartSessions > 0 ? ((currentAbandonedCarts / currentCartSessions) * 100).toFixed(1) : "0.0";
@@ -148,7 +225,8 @@ async function getMetrics(businessId: string) {
   const prevCartEvents = await prisma.trackingEvent.findMany({
     where: {
       siteId,
-      eventType: "ADD_TO_CART",
+      eventType: ADD_TO_CART_EVENT_TYPE,
+      botReason: null,
       createdAt: {
         gte: fourteenDaysAgo,
         lt: sevenDaysAgo,
@@ -159,15 +237,8 @@ async function getMetrics(businessId: string) {
   });
 
   const prevCartSessionIds = prevCartEvents.map((e) => e.sessionId);
-  const prevCartSessions = prevCartSessionIds.length;
-
-  const prevAbandonedCarts = await prisma.session.count({
-    where: {
-      siteId,
-      sessionId: { in: prevCartSessionIds },
-      converted: false,
-    },
-  });
+  const { cartSessions: prevCartSessions, abandonedCarts: prevAbandonedCarts } =
+    await getCartOutcomes(siteId, prevCartSessionIds);
 
   const prevAbandonmentRate =
     prevCartSessions > 0 ? (prevAbandonedCarts / prevCartSessions) * 100 : 0;
@@ -175,7 +246,7 @@ async function getMetrics(businessId: string) {
   // Calculate abandonment rate trend
   const currentAbandonRate = parseFloat(abandonmentRate);
   let abandonmentTrend: { direction: "up" | "down"; value: string } | null = null;
-  if (prevAbandonmentRate > 0 && currentCartSessions >= 5) {
+  if (prevAbandonmentRate > 0 && currentCartSessionIds.length >= 5) {
     const trendChange = ((currentAbandonRate - prevAbandonmentRate) / prevAbandonmentRate) * 100;
     abandonmentTrend = {
       direction: trendChange >= 0 ? "up" : "down",
@@ -192,6 +263,9 @@ async function getMetrics(businessId: string) {
   // Current: Simple heuristic based on session volume as proxy
   const peerPercentile = totalSessions > 100 ? 75 : 50;
 
+  // Disclose sampling when any session behind the figures was sampled
+  const sampleRate = lowestSampleRate([...currentSessions, ...previousSessions]);
+
   return {
     conversionRate,
     activeRecommendations,
@@ -200,6 +274,7 @@ async function getMetrics(businessId: string) {
     hasData: totalSessions > 0,
     conversionTrend,
     abandonmentTrend,
+    sampleRate,
   };
 }
 
@@ -210,9 +285,11 @@ export default async function DashboardPage() {
   }
 
   const businessId = session.user.businessId;
-  const [recommendation, metrics] = await Promise.all([
+  const [recommendation, metrics, originProtection, botTraffic] = await Promise.all([
     getTopRecommendation(businessId),
     getMetrics(businessId),
+    getOriginProtection(businessId),
+    getBotTraffic(businessId),
   ]);
 
   // Show empty state if no data
@@ -244,6 +321,8 @@ export default async function DashboardPage() {
 
   return (
     <div className="space-y-6">
+      <SampledDataNotice sampleRate={metrics.sampleRate} />
+
       {/* Hero Section - Top Priority Recommendation */}
       {recommendation ? (
         <Card className="border-2 border-[#7c3aed] bg-gradient-to-br from-white to-[#faf5ff]">
@@ -323,6 +402,56 @@ export default async function DashboardPage() {
           trendValue={metrics.abandonmentTrend?.value}
         />
       </div>
+
+      {/* Cross-Origin Protection */}
+      <Card className="border-[#e9d5ff]">
+        <CardContent className="flex items-center gap-4 p-4">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-[#faf5ff]">
+            <ShieldAlert className="h-5 w-5 text-[#7c3aed]" />
+          </div>
+          <div className="flex-1">
+            <p className="text-sm font-medium text-[#1f2937]">
+              {originProtection.rejectedCount} rejected cross-origin{" "}
+              {originProtection.rejectedCount === 1 ? "request" : "requests"}
+            </p>
+            <p className="text-xs text-[#6b7280]">
+              {!originProtection.restricted
+                ? "Tracking accepts events from any domain. Add your domains to block spoofed traffic."
+                : originProtection.lastRejectedOrigin
+                ? `Most recently from ${originProtection.lastRejectedOrigin}`
+                : "Only your allowed domains can send tracking events."}
+            </p>
+          </div>
+          <Link href="/dashboard/settings">
+            <Button variant="outline" size="sm">
+              Manage Origins
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+
+      {/* Bot Traffic (opt-in from settings) */}
+      {botTraffic && (
+        <Card className="border-[#e9d5ff]">
+          <CardContent className="flex items-center gap-4 p-4">
+            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-[#faf5ff]">
+              <Bot className="h-5 w-5 text-[#7c3aed]" />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-[#1f2937]">
+                {botTraffic.botSessions} bot{" "}
+                {botTraffic.botSessions === 1 ? "session" : "sessions"} filtered in the last 7 days
+                ({botTraffic.share}% of traffic)
+              </p>
+              <p className="text-xs text-[#6b7280]">
+                {botTraffic.reasons.length > 0
+                  ? botTraffic.reasons.map((reason) => `${reason.label}: ${reason.count}`).join(" · ")
+                  : "No bot traffic detected."}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
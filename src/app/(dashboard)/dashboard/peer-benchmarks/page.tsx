@@ -10,6 +10,8 @@ import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { redirect } from 'next/navigation';
 import { PeerComparisonTable } from '@/components/dashboard/peer-comparison-table';
+import { SampledDataNotice } from '@/components/dashboard/sampled-data-notice';
+import { lowestSampleRate } from '@/services/analytics/sampling';
 import {
   calculateUserMetrics,
   calculatePeerMetrics,
@@ -86,7 +88,7 @@ export default async function PeerBenchmarksPage() {
 
   // Fetch user's recent sessions for metrics calculation
   const userSessions = await prisma.session.findMany({
-    where: { siteId: business.siteId },
+    where: { siteId: business.siteId, isBot: false },
     orderBy: { createdAt: 'desc' },
     take: 1000 // Last 1000 sessions for recent performance
   });
@@ -140,6 +142,8 @@ export default async function PeerBenchmarksPage() {
         </p>
       </div>
 
+      <SampledDataNotice sampleRate={lowestSampleRate(userSessions)} className="mb-6" />
+
       {/* Peer comparison table */}
       <PeerComparisonTable data={comparisons} peerGroupInfo={peerGroupInfo} />
     </div>
@@ -0,0 +1,204 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { subDays, format } from 'date-fns';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { Card } from '@/components/ui/card';
+import { calculateScrollReach } from '@/services/analytics/scroll-reach';
+import { lowestSampleRate } from '@/services/analytics/sampling';
+import { SampledDataNotice } from '@/components/dashboard/sampled-data-notice';
+import { SCROLL_MILESTONES } from '@/types/scroll';
+
+interface PageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+const VALID_RANGES = [7, 30, 90];
+
+/**
+ * Scroll Reach Page
+ *
+ * Shows per-URL-template scroll reach curves (share of pageviews reaching
+ * 25/50/75/100% of the page) and a fold analysis: how far converting and
+ * non-converting sessions scroll, and how often they see the add-to-cart area.
+ * Server Component that aggregates TrackingEvent rows with eventType 'time'.
+ */
+export default async function ScrollReachPage({ searchParams }: PageProps) {
+  // Get authenticated user
+  const session = await auth();
+  if (!session?.user?.id) {
+    redirect('/auth/signin');
+  }
+
+  // Get user's business
+  const business = await prisma.business.findUnique({
+    where: { userId: session.user.id },
+    select: { siteId: true },
+  });
+
+  if (!business) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-6">
+          <h2 className="text-lg font-semibold text-amber-900">No Business Profile</h2>
+          <p className="mt-2 text-amber-700">
+            Please create a business profile to view scroll reach.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Parse date range (default: 30 days)
+  const params = await searchParams;
+  const dateRangeValue = parseInt(params.range || '30');
+  const dateRange = VALID_RANGES.includes(dateRangeValue) ? dateRangeValue : 30;
+
+  const endDate = new Date();
+  const startDate = subDays(endDate, dateRange);
+
+  // Fetch time-on-page events and aggregated sessions for the date range
+  const [events, sessions] = await Promise.all([
+    prisma.trackingEvent.findMany({
+      where: {
+        siteId: business.siteId,
+        eventType: 'time',
+        botReason: null,
+        timestamp: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      select: { sessionId: true, data: true },
+    }),
+    prisma.session.findMany({
+      where: {
+        siteId: business.siteId,
+        isBot: false,
+        createdAt: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      select: { sessionId: true, converted: true, sampleRate: true },
+    }),
+  ]);
+
+  const pages = calculateScrollReach(events, sessions).slice(0, 50);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Page Header */}
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Scroll Reach</h1>
+          <p className="mt-2 text-muted-foreground">
+            How far visitors scroll on each page type, and whether they see your add-to-cart area
+          </p>
+          <p className="mt-1 text-sm text-gray-600">
+            Showing data from {format(startDate, 'MMM dd, yyyy')} - {format(endDate, 'MMM dd, yyyy')}
+          </p>
+        </div>
+
+        {/* Date Range Selector */}
+        <div className="flex gap-2">
+          {VALID_RANGES.map((range) => (
+            <Link
+              key={range}
+              href={`/dashboard/scroll-reach?range=${range}`}
+              className={`rounded-md border px-3 py-1.5 text-sm font-medium ${
+                range === dateRange
+                  ? 'border-[#7c3aed] bg-[#7c3aed] text-white'
+                  : 'border-[#d1d5db] text-[#4b5563] hover:bg-[#faf5ff]'
+              }`}
+            >
+              Last {range} days
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      <SampledDataNotice sampleRate={lowestSampleRate(sessions)} className="mb-6" />
+
+      {pages.length === 0 ? (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 p-8 text-center">
+          <h2 className="text-xl font-semibold text-blue-900">No Scroll Data Yet</h2>
+          <p className="mt-2 text-blue-700">
+            Scroll reach appears once visitors leave pages tracked with the latest tracking script.
+          </p>
+        </div>
+      ) : (
+        <Card className="overflow-x-auto p-0">
+          <table className="w-full text-sm">
+            <thead className="border-b border-[#e5e7eb] bg-[#f9fafb] text-left text-xs uppercase text-[#6b7280]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Page</th>
+                <th className="px-4 py-3 text-right font-medium">Pageviews</th>
+                {SCROLL_MILESTONES.map((milestone) => (
+                  <th key={milestone} className="px-4 py-3 text-right font-medium">
+                    Reach {milestone}%
+                  </th>
+                ))}
+                <th className="px-4 py-3 text-right font-medium">Avg Depth (Converting vs Not)</th>
+                <th className="px-4 py-3 text-right font-medium">Add-to-Cart Seen (Converting vs Not)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pages.map((row) => (
+                <tr key={row.urlTemplate} className="border-b border-[#f3f4f6] last:border-0">
+                  <td className="px-4 py-3 font-mono text-[#1f2937]">{row.urlTemplate}</td>
+                  <td className="px-4 py-3 text-right">{row.pageviews.toLocaleString()}</td>
+                  {SCROLL_MILESTONES.map((milestone) => (
+                    <td key={milestone} className="px-4 py-3 text-right">
+                      <div>{row.reach[milestone]}%</div>
+                      <div className="ml-auto mt-1 h-1.5 w-16 rounded bg-[#f3f4f6]">
+                        <div
+                          className="h-1.5 rounded bg-[#7c3aed]"
+                          style={{ width: `${row.reach[milestone]}%` }}
+                        />
+                      </div>
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right">
+                    {row.converting.pageviews > 0 ? `${row.converting.averageDepth}%` : '—'}
+                    <span className="ml-1 text-xs text-[#6b7280]">
+                      vs {row.nonConverting.pageviews > 0 ? `${row.nonConverting.averageDepth}%` : '—'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {row.ctaSeenRate === null ? (
+                      <span className="text-[#6b7280]">No add-to-cart area</span>
+                    ) : (
+                      <>
+                        <span className={row.ctaSeenRate < 50 ? 'font-semibold text-red-600' : undefined}>
+                          {row.ctaSeenRate}%
+                        </span>
+                        <span className="ml-1 text-xs text-[#6b7280]">
+                          ({row.converting.ctaSeenRate ?? '—'}% vs {row.nonConverting.ctaSeenRate ?? '—'}%)
+                        </span>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+
+      <p className="mt-4 text-xs text-[#6b7280]">
+        Reach is the share of pageviews scrolling at least that far down the page. The add-to-cart
+        area is detected from <code>data-mf-cta</code> or the theme&apos;s add-to-cart form; rates in red
+        mean most visitors never see it.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Metadata for the page
+ */
+export const metadata = {
+  title: 'Scroll Reach | MetricFortune',
+  description: 'Scroll depth reach and add-to-cart visibility per page',
+};
@@ -1,14 +1,33 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { getBusinessProfile, updateBusinessProfile } from "@/actions/business-profile";
+import {
+  getBusinessProfile,
+  updateAllowedOrigins,
+  updateBotTrafficSetting,
+  updateBusinessProfile,
+  updateMaskingRules,
+  updateTrackerConfig,
+} from "@/actions/business-profile";
+import { createApiKey, listApiKeys, revokeApiKey, type ApiKeySummary } from "@/actions/api-keys";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DEFAULT_TRACKER_SETTINGS, TRACKER_MODULES, type TrackerModule } from "@/types/tracker-config";
 
 const INDUSTRIES = ["Fashion", "Electronics", "Home & Garden", "Beauty & Health", "Food & Beverage", "Sports & Outdoors", "Other"];
 const REVENUE_RANGES = ["$0-500K", "$500K-1M", "$1M-5M", "$5M-10M", "$10M+"];
 const PLATFORMS = ["Shopify", "WooCommerce", "Other"];
+const MODULE_LABELS: Record<TrackerModule, string> = {
+  clicks: "Clicks",
+  forms: "Form interactions",
+  scroll: "Scroll depth",
+  vitals: "Web vitals",
+  errors: "JavaScript errors",
+  frustration: "Rage and dead clicks",
+  impressions: "Element impressions",
+};
 
 export default function SettingsPage() {
   const [loading, setLoading] = useState(true);
@@ -18,6 +37,24 @@ export default function SettingsPage() {
   const [revenueRange, setRevenueRange] = useState("");
   const [platform, setPlatform] = useState("");
   const [siteId, setSiteId] = useState("");
+  const [allowedOrigins, setAllowedOrigins] = useState("");
+  const [rejectedOriginCount, setRejectedOriginCount] = useState(0);
+  const [lastRejectedOrigin, setLastRejectedOrigin] = useState<string | null>(null);
+  const [savingOrigins, setSavingOrigins] = useState(false);
+  const [showBotTraffic, setShowBotTraffic] = useState(false);
+  const [savingBotTraffic, setSavingBotTraffic] = useState(false);
+  const [maskSelectors, setMaskSelectors] = useState("");
+  const [maskPatterns, setMaskPatterns] = useState("");
+  const [savingMasking, setSavingMasking] = useState(false);
+  const [samplePercent, setSamplePercent] = useState("100");
+  const [sessionTimeout, setSessionTimeout] = useState("30");
+  const [trackerModules, setTrackerModules] = useState(DEFAULT_TRACKER_SETTINGS.modules);
+  const [trackerEndpoint, setTrackerEndpoint] = useState("");
+  const [savingTracker, setSavingTracker] = useState(false);
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [apiKeyName, setApiKeyName] = useState("");
+  const [newApiKey, setNewApiKey] = useState<string | null>(null);
+  const [savingApiKey, setSavingApiKey] = useState(false);
   const [message, setMessage] = useState("");
 
   useEffect(() => {
@@ -32,6 +69,20 @@ export default function SettingsPage() {
       setRevenueRange(result.data.revenueRange);
       setPlatform(result.data.platform);
       setSiteId(result.data.siteId);
+      setAllowedOrigins(result.data.allowedOrigins.join("\n"));
+      setRejectedOriginCount(result.data.rejectedOriginCount);
+      setLastRejectedOrigin(result.data.lastRejectedOrigin);
+      setShowBotTraffic(result.data.showBotTraffic);
+      setMaskSelectors(result.data.maskSelectors.join("\n"));
+      setMaskPatterns(result.data.maskPatterns.join("\n"));
+      setSamplePercent(String(Math.round(result.data.trackerConfig.sampleRate * 1000) / 10));
+      setSessionTimeout(String(result.data.trackerConfig.sessionTimeoutMinutes));
+      setTrackerModules(result.data.trackerConfig.modules);
+      setTrackerEndpoint(result.data.trackerConfig.endpoint ?? "");
+    }
+    const keysResult = await listApiKeys();
+    if (keysResult.success && keysResult.data) {
+      setApiKeys(keysResult.data);
     }
     setLoading(false);
   };
@@ -48,6 +99,88 @@ export default function SettingsPage() {
     setSaving(false);
   };
 
+  const handleSaveOrigins = async () => {
+    setSavingOrigins(true);
+    setMessage("");
+    const result = await updateAllowedOrigins(allowedOrigins.split("\n"));
+    if (result.success && result.data) {
+      setAllowedOrigins(result.data.allowedOrigins.join("\n"));
+      setMessage("Allowed origins updated successfully!");
+    } else {
+      setMessage(result.error || "Failed to update allowed origins");
+    }
+    setSavingOrigins(false);
+  };
+
+  const handleToggleBotTraffic = async (checked: boolean) => {
+    setSavingBotTraffic(true);
+    setMessage("");
+    const result = await updateBotTrafficSetting(checked);
+    if (result.success && result.data) {
+      setShowBotTraffic(result.data.showBotTraffic);
+      setMessage("Bot traffic setting updated successfully!");
+    } else {
+      setMessage(result.error || "Failed to update bot traffic setting");
+    }
+    setSavingBotTraffic(false);
+  };
+
+  const handleSaveMasking = async () => {
+    setSavingMasking(true);
+    setMessage("");
+    const result = await updateMaskingRules(maskSelectors.split("\n"), maskPatterns.split("\n"));
+    if (result.success && result.data) {
+      setMaskSelectors(result.data.maskSelectors.join("\n"));
+      setMaskPatterns(result.data.maskPatterns.join("\n"));
+      setMessage("Masking rules updated successfully!");
+    } else {
+      setMessage(result.error || "Failed to update masking rules");
+    }
+    setSavingMasking(false);
+  };
+
+  const handleSaveTracker = async () => {
+    setSavingTracker(true);
+    setMessage("");
+    const result = await updateTrackerConfig({
+      sampleRate: Number(samplePercent) / 100,
+      sessionTimeoutMinutes: Number(sessionTimeout),
+      modules: trackerModules,
+      endpoint: trackerEndpoint.trim() || null,
+    });
+    if (result.success) {
+      setMessage("Tracker configuration updated successfully!");
+    } else {
+      setMessage(result.error || "Failed to update tracker configuration");
+    }
+    setSavingTracker(false);
+  };
+
+  const handleCreateApiKey = async () => {
+    setSavingApiKey(true);
+    setMessage("");
+    const result = await createApiKey(apiKeyName);
+    if (result.success && result.data) {
+      setApiKeys([result.data.apiKey, ...apiKeys]);
+      setNewApiKey(result.data.key);
+      setApiKeyName("");
+    } else {
+      setMessage(result.error || "Failed to create API key");
+    }
+    setSavingApiKey(false);
+  };
+
+  const handleRevokeApiKey = async (apiKeyId: string) => {
+    setMessage("");
+    const result = await revokeApiKey(apiKeyId);
+    if (result.success) {
+      setApiKeys(apiKeys.map((key) => (key.id === apiKeyId ? { ...key, revokedAt: new Date() } : key)));
+      setMessage("API key revoked");
+    } else {
+      setMessage(result.error || "Failed to revoke API key");
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -118,6 +251,214 @@ export default function SettingsPage() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Allowed Origins</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Only these domains can send tracking events for your site ID. Enter one per line
+            (e.g. https://www.example.com or *.example.com). Leave empty to accept events from any domain.
+          </p>
+          <Textarea
+            value={allowedOrigins}
+            onChange={(e) => setAllowedOrigins(e.target.value)}
+            rows={4}
+            className="font-mono"
+            placeholder="https://www.example.com"
+          />
+          {rejectedOriginCount > 0 && (
+            <p className="text-sm text-gray-600">
+              {rejectedOriginCount} request{rejectedOriginCount === 1 ? "" : "s"} from other domains rejected
+              {lastRejectedOrigin && <> (most recently from <span className="font-mono">{lastRejectedOrigin}</span>)</>}
+            </p>
+          )}
+          <Button onClick={handleSaveOrigins} disabled={savingOrigins} className="w-full">
+            {savingOrigins ? "Saving..." : "Save Allowed Origins"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bot Traffic</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Crawlers, uptime monitors and automated browsers are detected automatically and excluded
+            from your analytics and recommendations.
+          </p>
+          <label className="flex cursor-pointer items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={showBotTraffic}
+              onChange={(e) => handleToggleBotTraffic(e.target.checked)}
+              disabled={savingBotTraffic}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600"
+            />
+            <span className="text-sm">Show bot traffic breakdown on the dashboard</span>
+          </label>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Privacy Masking</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Email addresses, phone numbers and card numbers are always redacted. Elements marked
+            with <span className="font-mono">data-mf-mask</span> have their text masked, and elements
+            marked with <span className="font-mono">data-mf-ignore</span> are never tracked.
+          </p>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Masked elements (CSS selectors, one per line)</label>
+            <Textarea
+              value={maskSelectors}
+              onChange={(e) => setMaskSelectors(e.target.value)}
+              rows={3}
+              className="font-mono"
+              placeholder=".customer-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Redacted patterns (regular expressions, one per line)</label>
+            <Textarea
+              value={maskPatterns}
+              onChange={(e) => setMaskPatterns(e.target.value)}
+              rows={3}
+              className="font-mono"
+              placeholder="LOYALTY-\d+"
+            />
+          </div>
+          <Button onClick={handleSaveMasking} disabled={savingMasking} className="w-full">
+            {savingMasking ? "Saving..." : "Save Masking Rules"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tracker Configuration</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            The tracking script loads these settings when it starts, so changes reach your site within
+            a few minutes without updating the snippet.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Sessions tracked (%)</label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={samplePercent}
+                onChange={(e) => setSamplePercent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Session timeout (minutes)</label>
+              <Input
+                type="number"
+                min={5}
+                max={240}
+                value={sessionTimeout}
+                onChange={(e) => setSessionTimeout(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Captured data</label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {TRACKER_MODULES.map((module) => (
+                <label key={module} className="flex cursor-pointer items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={trackerModules[module]}
+                    onChange={(e) => setTrackerModules({ ...trackerModules, [module]: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600"
+                  />
+                  <span className="text-sm">{MODULE_LABELS[module]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">First-party endpoint (optional)</label>
+            <Input
+              value={trackerEndpoint}
+              onChange={(e) => setTrackerEndpoint(e.target.value)}
+              className="font-mono"
+              placeholder="https://www.example.com/mf"
+            />
+            <p className="text-xs text-gray-500">
+              Events are sent to this URL instead of MetricFortune. Proxy its /api/track paths to us.
+            </p>
+          </div>
+          <Button onClick={handleSaveTracker} disabled={savingTracker} className="w-full">
+            {savingTracker ? "Saving..." : "Save Tracker Configuration"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>API Keys</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Secret keys for sending events from your backend (refunds, renewals, phone orders) to{" "}
+            <span className="font-mono">POST /api/v1/events</span>. Never use them in browser code.
+          </p>
+          {newApiKey && (
+            <div className="space-y-2 rounded-md bg-yellow-50 p-4">
+              <p className="text-sm text-yellow-800">Copy your new key now. You won&apos;t be able to see it again.</p>
+              <div className="flex items-center justify-between gap-2">
+                <p className="break-all font-mono text-sm">{newApiKey}</p>
+                <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(newApiKey)}>
+                  Copy
+                </Button>
+              </div>
+            </div>
+          )}
+          {apiKeys.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {apiKeys.map((key) => (
+                <li key={key.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <p className="text-sm font-medium">{key.name}</p>
+                    <p className="font-mono text-xs text-gray-600">
+                      {key.keyPrefix}…
+                      {key.revokedAt
+                        ? " · revoked"
+                        : key.lastUsedAt
+                        ? ` · last used ${new Date(key.lastUsedAt).toLocaleDateString()}`
+                        : " · never used"}
+                    </p>
+                  </div>
+                  {!key.revokedAt && (
+                    <Button variant="destructive" size="sm" onClick={() => handleRevokeApiKey(key.id)}>
+                      Revoke
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={apiKeyName}
+              onChange={(e) => setApiKeyName(e.target.value)}
+              placeholder="Key name (e.g. Billing service)"
+            />
+            <Button onClick={handleCreateApiKey} disabled={savingApiKey || !apiKeyName.trim()}>
+              {savingApiKey ? "Creating..." : "Create Key"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,116 @@
+/**
+ * GET /api/heatmaps - Click Heatmap Tiles
+ *
+ * Returns the click heatmap of one URL template and device class for the
+ * signed-in user's site: the grid cells with clicks, merged across the
+ * aggregation windows in the date range. Used by the dashboard overlay viewer.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { subDays } from 'date-fns';
+import type { ApiResponse } from '@/types/tracking';
+import {
+  DEVICE_CLASSES,
+  DEVICE_VIEWPORT_WIDTHS,
+  HEATMAP_GRID,
+  type HeatmapCells,
+  type HeatmapResponse,
+} from '@/types/heatmap';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { mergeHeatmapCells } from '@/services/analytics/heatmap';
+
+export const runtime = 'nodejs';
+
+const heatmapRequestSchema = z.object({
+  urlTemplate: z.string().startsWith('/', { message: 'urlTemplate must start with /' }).max(2048),
+  device: z.enum(DEVICE_CLASSES).default('desktop'),
+  range: z.enum(['7', '30', '90']).default('30'), // Days
+});
+
+/**
+ * Handle GET request - heatmap tiles for a URL template and device class
+ */
+export async function GET(request: NextRequest) {
+  const headers = { 'Cache-Control': 'private, no-store' };
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const validation = heatmapRequestSchema.safeParse({
+      urlTemplate: params.get('urlTemplate'),
+      device: params.get('device') ?? undefined,
+      range: params.get('range') ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Validation failed: ${validation.error.issues[0].message}`,
+        },
+        { status: 400, headers }
+      );
+    }
+
+    const { urlTemplate, device, range } = validation.data;
+
+    const business = await prisma.business.findUnique({
+      where: { userId: session.user.id },
+      select: { siteId: true },
+    });
+
+    if (!business) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Business not found' },
+        { status: 404, headers }
+      );
+    }
+
+    const rows = await prisma.clickHeatmap.findMany({
+      where: {
+        siteId: business.siteId,
+        urlTemplate,
+        deviceClass: device,
+        periodStart: { gte: subDays(new Date(), Number(range)) },
+      },
+      orderBy: { periodStart: 'asc' },
+      select: { clicks: true, sampleUrl: true, cells: true },
+    });
+
+    const tiles = mergeHeatmapCells(rows.map((row) => row.cells as HeatmapCells));
+
+    return NextResponse.json<ApiResponse<HeatmapResponse>>(
+      {
+        success: true,
+        data: {
+          urlTemplate,
+          deviceClass: device,
+          columns: HEATMAP_GRID.columns,
+          rowHeight: HEATMAP_GRID.rowHeight,
+          viewportWidth: DEVICE_VIEWPORT_WIDTHS[device],
+          totalClicks: rows.reduce((sum, row) => sum + row.clicks, 0),
+          maxClicks: tiles.reduce((max, tile) => Math.max(max, tile.clicks), 0),
+          sampleUrl: rows.findLast((row) => row.sampleUrl)?.sampleUrl ?? null,
+          tiles,
+        },
+      },
+      { status: 200, headers }
+    );
+  } catch (error) {
+    console.error('[HeatmapAPI] Unexpected error:', error instanceof Error ? error.message : error);
+
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500, headers }
+    );
+  }
+}
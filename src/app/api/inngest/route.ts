@@ -15,6 +15,8 @@ import { sessionAggregationJob } from '@/inngest/session-aggregation';
 import { patternDetectionJob } from '@/inngest/pattern-detection';
 import { recommendationGenerationJob } from '@/inngest/recommendation-generation';
 import { shopifyDataSyncJob } from '@/inngest/shopify-data-sync';
+import { eventOutboxDrainJob } from '@/inngest/event-outbox-drain';
+import { rejectedEventCleanupJob } from '@/inngest/rejected-event-cleanup';
 
 /**
  * Register all Inngest functions
@@ -26,6 +28,8 @@ export const { GET, POST, PUT } = serve({
     patternDetectionJob,
     recommendationGenerationJob,
     shopifyDataSyncJob,
+    eventOutboxDrainJob,
+    rejectedEventCleanupJob,
     // Add more functions here as they are created
   ],
 });
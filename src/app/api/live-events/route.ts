@@ -0,0 +1,161 @@
+/**
+ * GET /api/live-events - Live Events Stream (Server-Sent Events)
+ *
+ * Streams the events received for the signed-in user's site, accepted or
+ * rejected by validation (with their errors), to the dashboard's live events
+ * panel. Starts with the last few minutes of events, then polls for new ones.
+ * Implements:
+ * - Dashboard session authentication
+ * - Resuming after a reconnect (Last-Event-ID)
+ * - Keep-alive comments and a bounded stream lifetime (EventSource reconnects)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types/tracking';
+import type { LiveEvent } from '@/types/live-events';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { listLiveEvents } from '@/services/tracking/live-events';
+
+export const runtime = 'nodejs';
+
+/**
+ * Stream configuration
+ */
+const LIVE_STREAM_CONFIG = {
+  pollIntervalMs: 2000,            // Delay between database polls
+  maxDurationMs: 55 * 1000,        // Close before serverless timeouts; the client reconnects
+  backlogMs: 10 * 60 * 1000,       // Events sent on a fresh connection
+  overlapMs: 5 * 1000,             // Re-read window for rows committed out of order
+  retryMs: 2000,                   // Reconnect delay advertised to EventSource
+  maxTrackedIds: 1000,             // Sent event IDs remembered for de-duplication
+};
+
+/**
+ * Parse the Last-Event-ID header (the receivedAt of the last event sent)
+ */
+function parseLastEventId(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format an event as an SSE message
+ */
+function formatEvent(event: LiveEvent): string {
+  return `id: ${event.receivedAt}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Handle GET request - stream the site's live events
+ */
+export async function GET(request: NextRequest) {
+  const headers = { 'Cache-Control': 'private, no-store' };
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401, headers }
+      );
+    }
+
+    const business = await prisma.business.findUnique({
+      where: { userId: session.user.id },
+      select: { siteId: true },
+    });
+
+    if (!business) {
+      return NextResponse.json<ApiResponse>(
+        { success: false, error: 'Business not found' },
+        { status: 404, headers }
+      );
+    }
+
+    const { siteId } = business;
+    const startedAt = Date.now();
+    let cursor =
+      parseLastEventId(request.headers.get('last-event-id')) ??
+      new Date(startedAt - LIVE_STREAM_CONFIG.backlogMs);
+    const sentIds = new Set<string>();
+    const encoder = new TextEncoder();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          if (timer) clearTimeout(timer);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        const poll = async () => {
+          if (closed) return;
+
+          try {
+            const events = await listLiveEvents(
+              siteId,
+              new Date(cursor.getTime() - LIVE_STREAM_CONFIG.overlapMs)
+            );
+            const fresh = events.filter((event) => !sentIds.has(event.id));
+
+            for (const event of fresh) {
+              sentIds.add(event.id);
+              if (new Date(event.receivedAt) > cursor) cursor = new Date(event.receivedAt);
+            }
+
+            // Forget the oldest IDs (Sets iterate in insertion order)
+            for (const id of sentIds) {
+              if (sentIds.size <= LIVE_STREAM_CONFIG.maxTrackedIds) break;
+              sentIds.delete(id);
+            }
+
+            if (closed) return;
+            controller.enqueue(
+              encoder.encode(fresh.length > 0 ? fresh.map(formatEvent).join('') : ': keep-alive\n\n')
+            );
+          } catch (error) {
+            console.error('[LiveEventsAPI] Poll failed:', error instanceof Error ? error.message : error);
+          }
+
+          if (Date.now() - startedAt >= LIVE_STREAM_CONFIG.maxDurationMs) {
+            close();
+            return;
+          }
+          timer = setTimeout(poll, LIVE_STREAM_CONFIG.pollIntervalMs);
+        };
+
+        request.signal?.addEventListener('abort', close);
+        controller.enqueue(encoder.encode(`retry: ${LIVE_STREAM_CONFIG.retryMs}\n\n`));
+        void poll();
+      },
+      cancel() {
+        closed = true;
+        if (timer) clearTimeout(timer);
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('[LiveEventsAPI] Unexpected error:', error instanceof Error ? error.message : error);
+    return NextResponse.json<ApiResponse>(
+      { success: false, error: 'Internal server error' },
+      { status: 500, headers }
+    );
+  }
+}
@@ -83,6 +83,16 @@ export async function GET(req: NextRequest) {
 
       businessId = shopifyStore.businessId;
       siteId = shopifyStore.business.siteId;
+
+      // Make sure the storefront can still send tracking events
+      const shopOrigin = `https://${shop}`;
+      const { allowedOrigins } = shopifyStore.business;
+      if (allowedOrigins.length > 0 && !allowedOrigins.includes(shopOrigin)) {
+        await prisma.business.update({
+          where: { id: businessId },
+          data: { allowedOrigins: { push: shopOrigin } },
+        });
+      }
     } else {
       // New store - create Business and ShopifyStore
       console.log(`[OAuth Callback] Creating new Business and ShopifyStore for ${shop}`);
@@ -119,6 +129,7 @@ export async function GET(req: NextRequest) {
           productTypes: ['Physical Products'], // Default assumption for Shopify
           platform: 'Shopify',
           siteId,
+          allowedOrigins: [`https://${shop}`], // Storefront origin for /api/track CORS
         },
       });
 
@@ -0,0 +1,126 @@
+/**
+ * GET /api/track/config - Tracker Configuration Endpoint
+ *
+ * Serves a site's tracker configuration (sampling rate, session timeout,
+ * enabled capture modules, masking rules and first-party endpoint). The
+ * tracking script fetches it on init() and keeps its built-in defaults
+ * until it arrives or if the request fails.
+ * Implements:
+ * - siteId validation
+ * - Per-site origin allow-list (CORS)
+ * - Shared caching (settings changes apply within minutes)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types/tracking';
+import type { TrackerConfigDocument } from '@/types/tracker-config';
+import { prisma } from '@/lib/prisma';
+import { corsHeaders, isOriginAllowed, recordRejectedOrigin } from '@/services/tracking/origin-policy';
+import { buildTrackerConfig } from '@/services/tracking/tracker-config';
+
+export const runtime = 'nodejs';
+
+/**
+ * Cache lifetime of a served configuration
+ */
+const CONFIG_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=3600';
+
+const configRequestSchema = z.object({
+  siteId: z.string().regex(/^[a-zA-Z0-9_-]+$/, { message: 'Invalid siteId' }),
+});
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(request.headers.get('origin'), 'GET, OPTIONS') });
+}
+
+/**
+ * Handle GET request - serve the site's tracker configuration
+ */
+export async function GET(request: NextRequest) {
+  const origin = request.headers.get('origin');
+  const headers = {
+    ...corsHeaders(origin, 'GET, OPTIONS'),
+    'Cache-Control': 'no-store',
+  };
+
+  try {
+    const validation = configRequestSchema.safeParse({
+      siteId: request.nextUrl.searchParams.get('siteId'),
+    });
+
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Validation failed: ${validation.error.issues[0].message}`,
+        },
+        { status: 400, headers }
+      );
+    }
+
+    const { siteId } = validation.data;
+
+    const business = await prisma.business.findUnique({
+      where: { siteId },
+      select: {
+        allowedOrigins: true,
+        trackerConfig: true,
+        maskSelectors: true,
+        maskPatterns: true,
+      },
+    });
+
+    if (!business) {
+      console.warn('[TrackConfigAPI] Invalid siteId:', siteId);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid siteId',
+        },
+        { status: 404, headers }
+      );
+    }
+
+    if (origin && !isOriginAllowed(origin, business.allowedOrigins)) {
+      console.warn('[TrackConfigAPI] Disallowed origin:', { siteId, origin });
+      await recordRejectedOrigin(siteId, origin);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Origin not allowed',
+        },
+        {
+          status: 403,
+          headers: { ...corsHeaders(null, 'GET, OPTIONS'), 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<TrackerConfigDocument>>(
+      {
+        success: true,
+        data: buildTrackerConfig(business),
+      },
+      {
+        status: 200,
+        headers: { ...headers, 'Cache-Control': CONFIG_CACHE_CONTROL },
+      }
+    );
+  } catch (error) {
+    console.error('[TrackConfigAPI] Unexpected error:', error instanceof Error ? error.message : error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500, headers }
+    );
+  }
+}
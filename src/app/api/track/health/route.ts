@@ -3,12 +3,12 @@
  *
  * Provides health status for the tracking system:
  * - Database connectivity
- * - Event buffer status
+ * - Event outbox backlog (backpressure metrics)
  */
 
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getBufferSize } from '@/services/tracking/event-processor';
+import { getOutboxMetrics, OUTBOX_CONFIG, type OutboxMetrics } from '@/services/tracking/outbox-consumer';
 import type { ApiResponse } from '@/types/tracking';
 
 /**
@@ -30,9 +30,9 @@ interface HealthData {
       responseTimeMs?: number;
       error?: string;
     };
-    eventBuffer: {
-      status: 'ok' | 'warning';
-      size: number;
+    eventOutbox: {
+      status: 'ok' | 'warning' | 'error';
+      metrics?: OutboxMetrics;
     };
   };
 }
@@ -59,16 +59,29 @@ export async function GET() {
       console.error('[TrackHealth] Database check failed:', error);
     }
 
-    // Check event buffer size
-    const bufferSize = getBufferSize();
-    const bufferStatus = bufferSize > 50 ? 'warning' : 'ok';
+    // Check outbox backlog (skipped when the database is down)
+    let outboxStatus: 'ok' | 'warning' | 'error' = 'error';
+    let outboxMetrics: OutboxMetrics | undefined;
+
+    if (dbStatus === 'ok') {
+      try {
+        outboxMetrics = await getOutboxMetrics();
+        const backedUp =
+          outboxMetrics.pending > OUTBOX_CONFIG.backlogWarningSize ||
+          outboxMetrics.oldestPendingAgeMs > OUTBOX_CONFIG.lagWarningMs ||
+          outboxMetrics.deadLettered > 0;
+        outboxStatus = backedUp ? 'warning' : 'ok';
+      } catch (error) {
+        console.error('[TrackHealth] Outbox check failed:', error);
+      }
+    }
 
     // Determine overall health status
     let overallStatus: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
 
     if (dbStatus === 'error') {
       overallStatus = 'unhealthy';
-    } else if (bufferStatus === 'warning') {
+    } else if (outboxStatus !== 'ok') {
       overallStatus = 'degraded';
     }
 
@@ -82,9 +95,9 @@ export async function GET() {
           responseTimeMs: dbResponseTime,
           error: dbError,
         },
-        eventBuffer: {
-          status: bufferStatus,
-          size: bufferSize,
+        eventOutbox: {
+          status: outboxStatus,
+          metrics: outboxMetrics,
         },
       },
     };
@@ -94,7 +107,7 @@ export async function GET() {
     console.log('[TrackHealth] Health check:', {
       status: overallStatus,
       checkTimeMs: Date.now() - startTime,
-      bufferSize,
+      outbox: outboxMetrics,
     });
 
     return NextResponse.json<ApiResponse<HealthData>>(
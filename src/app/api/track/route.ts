@@ -5,15 +5,28 @@
  * Implements:
  * - Schema validation (Zod)
  * - Rate limiting (per-site)
- * - Authentication (siteId validation)
- * - Event buffering and batch writes
+ * - Authentication (siteId validation + signed session token)
+ * - Replay protection (batchId accepted once per token)
+ * - Per-site origin allow-list (CORS)
+ * - Bot tagging (User-Agent)
+ * - Consent enforcement (non-consented events and Sec-GPC requests)
+ * - Durable staging in the event outbox (200 means stored)
+ * - Rejected events recorded for the dashboard's live events panel
  * - Monitoring and error logging
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ZodError } from 'zod';
-import { trackingEventBatchSchema, type ApiResponse } from '@/types/tracking';
+import { trackingEventBatchSchema, type ApiResponse, type TrackingEvent } from '@/types/tracking';
 import { processTrackingEvents } from '@/services/tracking/event-processor';
+import { classifyUserAgent } from '@/services/tracking/bot-detector';
+import { corsHeaders, isOriginAllowed, recordRejectedOrigin } from '@/services/tracking/origin-policy';
+import { recordRejectedEvents } from '@/services/tracking/live-events';
+import {
+  isReplayedBatch,
+  verifyTrackingToken,
+  type TrackingTokenPayload,
+} from '@/services/tracking/tracking-token';
 import { checkRateLimit } from '@/lib/rate-limiter';
 import { prisma } from '@/lib/prisma';
 
@@ -29,24 +42,70 @@ import { prisma } from '@/lib/prisma';
 export const runtime = 'nodejs'; // Uncomment for production with Prisma Accelerate
 
 /**
- * Enable CORS for tracking endpoint (cross-origin requests)
+ * Parse the JSON batch body
  *
- * PRODUCTION NOTE: Replace '*' with specific allowed origins for better security:
- * - Use environment variable for dynamic origin configuration
- * - Example: process.env.ALLOWED_ORIGINS?.split(',') || ['https://yourdomain.com']
- * - Implement origin validation in the request handler
+ * navigator.sendBeacon() posts string bodies as text/plain (a CORS-safelisted
+ * type, so exit-time beacons need no preflight); the payload is JSON either way.
  */
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*', // TODO: Restrict in production
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
-};
+async function parseBody(request: NextRequest): Promise<unknown> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.startsWith('text/plain')) {
+    return JSON.parse(await request.text());
+  }
+
+  return request.json();
+}
+
+/**
+ * Verify the batch's tracking token and check its claims cover every event
+ */
+function checkToken(
+  token: string,
+  events: TrackingEvent[]
+): { payload: TrackingTokenPayload } | { error: string } {
+  const verification = verifyTrackingToken(token);
+
+  if (!verification.valid) {
+    return {
+      error: verification.reason === 'expired' ? 'Tracking token expired' : 'Invalid tracking token',
+    };
+  }
+
+  const { payload } = verification;
+  const mismatched = events.some(
+    (event) => event.siteId !== payload.siteId || event.sessionId !== payload.sessionId
+  );
+
+  return mismatched ? { error: 'Tracking token does not match events' } : { payload };
+}
 
 /**
  * Handle OPTIONS request for CORS preflight
+ *
+ * The tracking script sends its siteId as a query parameter so the preflight
+ * can be checked against the site's allow-list. Preflights without a known
+ * siteId are let through; the POST itself is always checked.
  */
-export async function OPTIONS() {
-  return NextResponse.json({}, { headers: corsHeaders });
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get('origin');
+  const siteId = request.nextUrl.searchParams.get('siteId');
+
+  if (origin && siteId) {
+    const business = await prisma.business.findUnique({
+      where: { siteId },
+      select: { allowedOrigins: true },
+    });
+
+    if (business && !isOriginAllowed(origin, business.allowedOrigins)) {
+      console.warn('[TrackAPI] Preflight from disallowed origin:', { siteId, origin });
+      await recordRejectedOrigin(siteId, origin);
+
+      return new NextResponse(null, { status: 403, headers: corsHeaders(null) });
+    }
+  }
+
+  return NextResponse.json({}, { headers: corsHeaders(origin) });
 }
 
 /**
@@ -54,10 +113,11 @@ export async function OPTIONS() {
  */
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
+  const origin = request.headers.get('origin');
 
   try {
-    // Parse request body
-    const body = await request.json();
+    // Parse request body (application/json or text/plain beacon)
+    const body = await parseBody(request);
 
     // Validate request schema
     const validationResult = trackingEventBatchSchema.safeParse(body);
@@ -68,6 +128,9 @@ export async function POST(request: NextRequest) {
 
       console.warn('[TrackAPI] Validation failed:', errorMessage);
 
+      // Shown per event in the live events panel so merchants can fix their install
+      await recordRejectedEvents(body, validationResult.error);
+
       return NextResponse.json<ApiResponse>(
         {
           success: false,
@@ -75,20 +138,40 @@ export async function POST(request: NextRequest) {
         },
         {
           status: 400,
-          headers: corsHeaders,
+          headers: corsHeaders(origin),
         }
       );
     }
 
-    const { events } = validationResult.data;
+    const { events, token, batchId } = validationResult.data;
 
     // Extract siteId from first event (all events in batch should have same siteId)
     const siteId = events[0].siteId;
 
+    // Token: must be validly signed, unexpired and issued for this session
+    const tokenCheck = checkToken(token, events);
+
+    if ('error' in tokenCheck) {
+      console.warn('[TrackAPI] Token rejected:', { siteId, error: tokenCheck.error });
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: tokenCheck.error,
+        },
+        {
+          status: 401,
+          headers: corsHeaders(origin),
+        }
+      );
+    }
+
+    const tokenPayload = tokenCheck.payload;
+
     // Authentication: Validate siteId exists in Business table
     const business = await prisma.business.findUnique({
       where: { siteId },
-      select: { siteId: true },
+      select: { siteId: true, allowedOrigins: true, trackingTokenVersion: true },
     });
 
     if (!business) {
@@ -101,7 +184,57 @@ export async function POST(request: NextRequest) {
         },
         {
           status: 401,
-          headers: corsHeaders,
+          headers: corsHeaders(origin),
+        }
+      );
+    }
+
+    // Tokens issued before the site's tokens were revoked (regenerateSiteId)
+    if (tokenPayload.ver !== business.trackingTokenVersion) {
+      console.warn('[TrackAPI] Revoked token:', siteId);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Tracking token revoked',
+        },
+        {
+          status: 401,
+          headers: corsHeaders(origin),
+        }
+      );
+    }
+
+    // Origin check: browsers send Origin on cross-origin POSTs (including
+    // beacons, which skip the preflight); requests without one aren't CORS
+    if (origin && !isOriginAllowed(origin, business.allowedOrigins)) {
+      console.warn('[TrackAPI] Disallowed origin:', { siteId, origin });
+      await recordRejectedOrigin(siteId, origin);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Origin not allowed',
+        },
+        {
+          status: 403,
+          headers: corsHeaders(null),
+        }
+      );
+    }
+
+    // Replay protection: each batchId is accepted once per token
+    if (isReplayedBatch(token, batchId, tokenPayload.exp)) {
+      console.warn('[TrackAPI] Replayed batch:', { siteId, batchId });
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Batch already received',
+        },
+        {
+          status: 409,
+          headers: corsHeaders(origin),
         }
       );
     }
@@ -111,7 +244,7 @@ export async function POST(request: NextRequest) {
 
     // Add rate limit headers
     const responseHeaders = {
-      ...corsHeaders,
+      ...corsHeaders(origin),
       'X-RateLimit-Limit': rateLimitResult.limit.toString(),
       'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
       'X-RateLimit-Reset': new Date(rateLimitResult.reset).toISOString(),
@@ -132,8 +265,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Process events (buffered batch write)
-    const processResult = await processTrackingEvents(events);
+    // Stage events in the outbox (drained into TrackingEvent in the background),
+    // tagging crawler/monitor traffic by User-Agent and dropping events
+    // without consent (Global Privacy Control requires explicit consent)
+    const botReason = classifyUserAgent(request.headers.get('user-agent'));
+    const privacySignal = request.headers.get('sec-gpc') === '1';
+    const processResult = await processTrackingEvents(events, {
+      botReason,
+      privacySignal,
+    });
 
     if (!processResult.success) {
       console.error('[TrackAPI] Processing failed:', {
@@ -160,7 +300,11 @@ export async function POST(request: NextRequest) {
       siteId,
       eventCount: events.length,
       processingTimeMs: processingTime,
-      buffered: processResult.buffered,
+      stored: processResult.stored,
+      rejected: processResult.rejected ?? 0,
+      duplicates: processResult.duplicates ?? 0,
+      nonConsented: processResult.nonConsented ?? 0,
+      botReason,
     });
 
     return NextResponse.json<ApiResponse>(
@@ -174,6 +318,21 @@ export async function POST(request: NextRequest) {
     // Handle unexpected errors
     const processingTime = Date.now() - startTime;
 
+    if (error instanceof SyntaxError) {
+      console.warn('[TrackAPI] Malformed JSON body');
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid JSON body',
+        },
+        {
+          status: 400,
+          headers: corsHeaders(origin),
+        }
+      );
+    }
+
     if (error instanceof ZodError) {
       console.warn('[TrackAPI] Zod validation error:', error.message);
 
@@ -184,7 +343,7 @@ export async function POST(request: NextRequest) {
         },
         {
           status: 400,
-          headers: corsHeaders,
+          headers: corsHeaders(origin),
         }
       );
     }
@@ -209,7 +368,7 @@ export async function POST(request: NextRequest) {
       },
       {
         status: 500,
-        headers: corsHeaders,
+        headers: corsHeaders(origin),
       }
     );
   }
@@ -0,0 +1,190 @@
+/**
+ * GET /api/track/token - Tracking Token Bootstrap Endpoint
+ *
+ * Issues a short-lived signed token for a tracking session. The tracking
+ * script requests one on init() and sends it with every batch to /api/track.
+ * Implements:
+ * - siteId validation
+ * - Per-site origin allow-list (CORS)
+ * - Rate limiting (per site and client IP, with a per-site ceiling)
+ * - Delivery of the site's masking rules to the script
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApiResponse } from '@/types/tracking';
+import { checkRateLimit, DEFAULT_RATE_LIMIT, type RateLimitConfig } from '@/lib/rate-limiter';
+import { prisma } from '@/lib/prisma';
+import { corsHeaders, isOriginAllowed, recordRejectedOrigin } from '@/services/tracking/origin-policy';
+import { issueTrackingToken } from '@/services/tracking/tracking-token';
+import { usableMaskPatterns } from '@/services/tracking/pii-scrubber';
+
+export const runtime = 'nodejs';
+
+/**
+ * Token rate limit per siteId and client IP: 120 tokens per minute
+ * (one per new session, plus refreshes), so one client can't use up the
+ * token budget of every visitor to the site
+ */
+const TOKEN_CLIENT_RATE_LIMIT: RateLimitConfig = {
+  limit: 120,
+  windowMs: 60 * 1000,
+};
+
+/**
+ * Token rate limit per siteId, across clients: the /api/track budget
+ */
+const TOKEN_SITE_RATE_LIMIT: RateLimitConfig = DEFAULT_RATE_LIMIT;
+
+const tokenRequestSchema = z.object({
+  siteId: z.string().regex(/^[a-zA-Z0-9_-]+$/, { message: 'Invalid siteId' }),
+  sessionId: z.string().min(1, { message: 'sessionId is required' }).max(100),
+});
+
+/**
+ * Response data for a successful token request
+ */
+interface TokenResponse {
+  token: string;
+  /** Seconds until the token expires */
+  expiresIn: number;
+  /** The site's masking rules, applied by the tracking script */
+  masking: {
+    selectors: string[];
+    patterns: string[];
+  };
+}
+
+/**
+ * Client IP of the request
+ *
+ * Taken from X-Real-IP, set by the hosting platform, else from the last
+ * X-Forwarded-For hop (the one our proxy appended); earlier hops come from
+ * the client and can be rotated at will.
+ */
+function clientIp(request: NextRequest): string {
+  const realIp = request.headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+
+  const hops = request.headers.get('x-forwarded-for')?.split(',') ?? [];
+  return hops[hops.length - 1]?.trim() || 'unknown';
+}
+
+/**
+ * Handle OPTIONS request for CORS preflight
+ */
+export async function OPTIONS(request: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(request.headers.get('origin'), 'GET, OPTIONS') });
+}
+
+/**
+ * Handle GET request - issue a tracking token
+ */
+export async function GET(request: NextRequest) {
+  const origin = request.headers.get('origin');
+  const headers = {
+    ...corsHeaders(origin, 'GET, OPTIONS'),
+    'Cache-Control': 'no-store',
+  };
+
+  try {
+    const validation = tokenRequestSchema.safeParse({
+      siteId: request.nextUrl.searchParams.get('siteId'),
+      sessionId: request.nextUrl.searchParams.get('sessionId'),
+    });
+
+    if (!validation.success) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Validation failed: ${validation.error.issues[0].message}`,
+        },
+        { status: 400, headers }
+      );
+    }
+
+    const { siteId, sessionId } = validation.data;
+
+    const business = await prisma.business.findUnique({
+      where: { siteId },
+      select: {
+        allowedOrigins: true,
+        trackingTokenVersion: true,
+        maskSelectors: true,
+        maskPatterns: true,
+      },
+    });
+
+    if (!business) {
+      console.warn('[TrackTokenAPI] Invalid siteId:', siteId);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid siteId',
+        },
+        { status: 401, headers }
+      );
+    }
+
+    if (origin && !isOriginAllowed(origin, business.allowedOrigins)) {
+      console.warn('[TrackTokenAPI] Disallowed origin:', { siteId, origin });
+      await recordRejectedOrigin(siteId, origin);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Origin not allowed',
+        },
+        {
+          status: 403,
+          headers: { ...corsHeaders(null, 'GET, OPTIONS'), 'Cache-Control': 'no-store' },
+        }
+      );
+    }
+
+    // Per client first, so a client over its limit doesn't use up the site's budget
+    const ip = clientIp(request);
+    const clientLimit = checkRateLimit(`track-token:${siteId}:${ip}`, TOKEN_CLIENT_RATE_LIMIT);
+    const allowed = clientLimit.allowed && checkRateLimit(`track-token:${siteId}`, TOKEN_SITE_RATE_LIMIT).allowed;
+
+    if (!allowed) {
+      console.warn('[TrackTokenAPI] Rate limit exceeded:', { siteId, ip });
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Rate limit exceeded',
+        },
+        { status: 429, headers }
+      );
+    }
+
+    const { token, expiresAt } = issueTrackingToken(siteId, sessionId, business.trackingTokenVersion);
+
+    return NextResponse.json<ApiResponse<TokenResponse>>(
+      {
+        success: true,
+        data: {
+          token,
+          expiresIn: Math.floor((expiresAt - Date.now()) / 1000),
+          masking: {
+            selectors: business.maskSelectors,
+            patterns: usableMaskPatterns(business.maskPatterns),
+          },
+        },
+      },
+      { status: 200, headers }
+    );
+  } catch (error) {
+    console.error('[TrackTokenAPI] Unexpected error:', error instanceof Error ? error.message : error);
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500, headers }
+    );
+  }
+}
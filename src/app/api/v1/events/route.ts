@@ -0,0 +1,309 @@
+/**
+ * POST /api/v1/events - Server-Side Event Ingestion Endpoint
+ *
+ * Accepts events from merchants' backends (refunds, subscription renewals,
+ * phone orders) that never pass through the browser tracker.
+ * Implements:
+ * - Authentication (secret API key: "Authorization: Bearer mf_sk_...")
+ * - Schema validation (Zod, up to BATCH_LIMITS.server events per request)
+ * - Rate limiting (per-business, separate from browser tracking)
+ * - Consent enforcement (events sent with consent: false are dropped)
+ * - Visitor attribution (events without a session join the visitor's latest
+ *   tracked session when it was active within VISITOR_SESSION_WINDOW_MS)
+ * - PII scrubbing (built-in patterns)
+ * - Durable staging in the event outbox (200 means stored)
+ *
+ * Server-to-server only: no CORS headers are sent, so browsers can't call it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  serverEventBatchSchema,
+  type ApiResponse,
+  type ServerEvent,
+  type TrackingEvent,
+} from '@/types/tracking';
+import { prisma } from '@/lib/prisma';
+import { processTrackingEvents } from '@/services/tracking/event-processor';
+import { authenticateApiKey, parseBearerKey } from '@/services/tracking/api-keys';
+import { checkRateLimit, SERVER_EVENTS_RATE_LIMIT } from '@/lib/rate-limiter';
+
+export const runtime = 'nodejs';
+
+/**
+ * How far a visitor-only event may be from its visitor's latest session
+ * (the tracker's default session timeout); older sessions are left alone
+ */
+const VISITOR_SESSION_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * Response data for an accepted batch
+ */
+interface ServerEventsResponse {
+  stored: number;
+  duplicates: number;
+  rejected: number;
+  nonConsented: number;
+  unmatched: number; // Visitor-only events with no tracked session in the window
+}
+
+/**
+ * A visitor's most recent tracked session
+ */
+interface LatestSession {
+  sessionId: string;
+  lastEventAt: Date;
+}
+
+/**
+ * Find the latest tracked session of each visitor
+ *
+ * Only sessions with events since `since` are considered.
+ *
+ * @param siteId - Site identifier
+ * @param visitorIds - First-party visitor IDs sent without a sessionId
+ * @param since - Earliest session activity that can still be joined
+ * @returns Map of visitorId to its most recent session
+ */
+async function findLatestSessions(
+  siteId: string,
+  visitorIds: string[],
+  since: Date
+): Promise<Map<string, LatestSession>> {
+  const latest = new Map<string, LatestSession>();
+  if (visitorIds.length === 0) return latest;
+
+  const sessions = await prisma.trackingEvent.groupBy({
+    by: ['visitorId', 'sessionId'],
+    where: { siteId, visitorId: { in: visitorIds }, timestamp: { gte: since } },
+    _max: { timestamp: true },
+  });
+
+  for (const session of sessions) {
+    const lastEventAt = session._max.timestamp;
+    if (!session.visitorId || !lastEventAt) continue;
+
+    const current = latest.get(session.visitorId);
+    if (!current || lastEventAt > current.lastEventAt) {
+      latest.set(session.visitorId, { sessionId: session.sessionId, lastEventAt });
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Resolve the session a server event belongs to
+ *
+ * Visitor-only events join the visitor's latest session only when the event
+ * falls within VISITOR_SESSION_WINDOW_MS of its last activity, so late
+ * refunds or renewals can't rewrite a long-finished session.
+ *
+ * @returns The sessionId, or undefined when the event is unmatched
+ */
+function resolveSessionId(event: ServerEvent, latestSessions: Map<string, LatestSession>): string | undefined {
+  if (event.sessionId) return event.sessionId;
+
+  const latest = latestSessions.get(event.visitorId!);
+  if (!latest) return undefined;
+
+  const gap = Math.abs(event.event.timestamp - latest.lastEventAt.getTime());
+  return gap <= VISITOR_SESSION_WINDOW_MS ? latest.sessionId : undefined;
+}
+
+/**
+ * Convert a server event to the tracking event shape
+ *
+ * The visitorId is also kept in the event data.
+ *
+ * @param sessionId - The event's sessionId, or its visitor's latest session
+ */
+function toTrackingEvent(event: ServerEvent, siteId: string, sessionId: string): TrackingEvent {
+  return {
+    siteId,
+    sessionId,
+    clientEventId: event.clientEventId,
+    consent: event.consent,
+    visitorId: event.visitorId,
+    event: {
+      ...event.event,
+      data: event.visitorId ? { ...event.event.data, visitorId: event.visitorId } : event.event.data,
+    },
+  };
+}
+
+/**
+ * Handle POST request - ingest server-side events
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // Authentication: secret API key
+    const key = parseBearerKey(request.headers.get('authorization'));
+
+    if (!key) {
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Missing API key',
+        },
+        { status: 401 }
+      );
+    }
+
+    const owner = await authenticateApiKey(key);
+
+    if (!owner) {
+      console.warn('[ServerEventsAPI] Invalid API key');
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid API key',
+        },
+        { status: 401 }
+      );
+    }
+
+    // Validate request schema
+    const validationResult = serverEventBatchSchema.safeParse(await request.json());
+
+    if (!validationResult.success) {
+      const errorMessage = validationResult.error.message || 'Invalid request format';
+
+      console.warn('[ServerEventsAPI] Validation failed:', errorMessage);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: `Validation failed: ${errorMessage}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { events } = validationResult.data;
+
+    // Keys are scoped to one site
+    if (events.some((event) => event.siteId && event.siteId !== owner.siteId)) {
+      console.warn('[ServerEventsAPI] siteId mismatch:', owner.siteId);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'API key does not match siteId',
+        },
+        { status: 403 }
+      );
+    }
+
+    // Rate limiting: per-business bucket (600 requests/minute)
+    const rateLimitResult = checkRateLimit(`server-events:${owner.businessId}`, SERVER_EVENTS_RATE_LIMIT);
+
+    const responseHeaders = {
+      'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+      'X-RateLimit-Reset': new Date(rateLimitResult.reset).toISOString(),
+    };
+
+    if (!rateLimitResult.allowed) {
+      console.warn('[ServerEventsAPI] Rate limit exceeded:', owner.siteId);
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Rate limit exceeded',
+        },
+        { status: 429, headers: responseHeaders }
+      );
+    }
+
+    // Events without a session join their visitor's latest tracked session if
+    // it was active around the event's time; anything else is left unmatched
+    const visitorEvents = events.filter((event) => !event.sessionId);
+    const latestSessions = await findLatestSessions(
+      owner.siteId,
+      [...new Set(visitorEvents.map((event) => event.visitorId!))],
+      new Date(Math.min(...visitorEvents.map((event) => event.event.timestamp)) - VISITOR_SESSION_WINDOW_MS)
+    );
+    const attributed = events.flatMap((event) => {
+      const sessionId = resolveSessionId(event, latestSessions);
+      return sessionId ? [toTrackingEvent(event, owner.siteId, sessionId)] : [];
+    });
+    const unmatched = events.length - attributed.length;
+
+    if (unmatched > 0) {
+      console.warn('[ServerEventsAPI] Events without a recent tracked session:', {
+        siteId: owner.siteId,
+        unmatched,
+      });
+    }
+
+    // Stage events in the outbox (drained into TrackingEvent in the background)
+    const processResult = await processTrackingEvents(attributed);
+
+    if (!processResult.success) {
+      console.error('[ServerEventsAPI] Processing failed:', {
+        siteId: owner.siteId,
+        eventCount: events.length,
+        error: processResult.error,
+      });
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Failed to process events',
+        },
+        { status: 500, headers: responseHeaders }
+      );
+    }
+
+    console.log('[ServerEventsAPI] Events processed:', {
+      siteId: owner.siteId,
+      apiKeyId: owner.apiKeyId,
+      eventCount: events.length,
+      processingTimeMs: Date.now() - startTime,
+      stored: processResult.stored,
+    });
+
+    return NextResponse.json<ApiResponse<ServerEventsResponse>>(
+      {
+        success: true,
+        data: {
+          stored: processResult.stored,
+          duplicates: processResult.duplicates ?? 0,
+          rejected: processResult.rejected ?? 0,
+          nonConsented: processResult.nonConsented ?? 0,
+          unmatched,
+        },
+      },
+      { status: 200, headers: responseHeaders }
+    );
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      console.warn('[ServerEventsAPI] Malformed JSON body');
+
+      return NextResponse.json<ApiResponse>(
+        {
+          success: false,
+          error: 'Invalid JSON body',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error(
+      '[ServerEventsAPI] Unexpected error:',
+      error instanceof Error ? error.message : error
+    );
+
+    return NextResponse.json<ApiResponse>(
+      {
+        success: false,
+        error: 'Internal server error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -22,6 +22,13 @@ export default function TrackingTestPage() {
 
     // @ts-ignore - Monkey patch for testing
     window.fetch = function(url, options) {
+      if (typeof url === 'string' && url.includes('/api/track/token')) {
+        // Hand out a dummy token so the script starts sending batches
+        return Promise.resolve(new Response(
+          JSON.stringify({ success: true, data: { token: 'demo-token', expiresIn: 3600 } }),
+          { status: 200 }
+        ));
+      }
       if (typeof url === 'string' && url.includes('/api/track')) {
         try {
           const body = JSON.parse(options?.body as string);
@@ -305,7 +312,21 @@ export default function TrackingTestPage() {
 declare global {
   interface Window {
     MetricFortune: {
-      init: (config: { siteId: string }) => void;
+      init: (config: { siteId: string; requireConsent?: boolean; visitorLifetimeDays?: number }) => void;
+      page: () => void;
+      track: (name: string, properties?: Record<string, string | number | boolean | null>) => void;
+      identify: (customerId: string, traits?: Record<string, string | number | boolean | null>) => void;
+      consent: (options: { analytics: boolean }) => void;
+      optOut: () => void;
+      debug: (enabled?: boolean) => void;
+      getSessionId: () => string | null;
+      getVisitorId: () => string | null;
+      productView: (data?: Record<string, unknown>) => void;
+      addToCart: (data?: Record<string, unknown>) => void;
+      removeFromCart: (data?: Record<string, unknown>) => void;
+      beginCheckout: (data?: Record<string, unknown>) => void;
+      addPaymentInfo: (data?: Record<string, unknown>) => void;
+      purchase: (data?: Record<string, unknown>) => void;
       version: string;
     };
   }
@@ -0,0 +1,134 @@
+/**
+ * GET /t/<siteId>.js - Per-Site Tracking Script
+ *
+ * Serves the site's tracker build (rollout or pinned version, or the
+ * version requested with ?v=) with the site's tracker configuration
+ * inlined, so the script initializes without data-site-id or a config
+ * request.
+ * Implements:
+ * - siteId validation
+ * - Per-site origin allow-list (CORS, needed for integrity checks)
+ * - Strong ETags (the body's SRI hash) and conditional requests
+ * - Shared caching (settings changes and rollouts apply within minutes)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { corsHeaders, isOriginAllowed, recordRejectedOrigin } from '@/services/tracking/origin-policy';
+import { buildTrackerConfig } from '@/services/tracking/tracker-config';
+import { buildSiteScript, resolveTrackerBuild } from '@/services/tracking/tracker-release';
+
+export const runtime = 'nodejs';
+
+/**
+ * Cache lifetime of a served script
+ */
+const SCRIPT_CACHE_CONTROL = 'public, max-age=300, stale-while-revalidate=86400';
+
+const SCRIPT_NAME_PATTERN = /^([a-zA-Z0-9_-]+)\.js$/;
+
+const VERSION_PATTERN = /^[0-9A-Za-z.+-]{1,32}$/;
+
+/**
+ * Plain-text error response (never cached)
+ */
+function errorResponse(status: number, message: string, headers: Record<string, string>) {
+  return new NextResponse(`// MetricFortune: ${message}\n`, {
+    status,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * Check an If-None-Match header against the current ETag
+ */
+function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some((tag) => {
+    const value = tag.trim();
+    return value === '*' || value === etag;
+  });
+}
+
+/**
+ * Handle GET request - serve the site's tracking script
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ script: string }> }
+) {
+  const origin = request.headers.get('origin');
+  const headers = corsHeaders(origin, 'GET');
+
+  try {
+    const { script } = await params;
+    const siteId = script.match(SCRIPT_NAME_PATTERN)?.[1];
+    if (!siteId) {
+      return errorResponse(404, 'Not found', headers);
+    }
+
+    const version = request.nextUrl.searchParams.get('v');
+    if (version !== null && !VERSION_PATTERN.test(version)) {
+      return errorResponse(400, 'Invalid version', headers);
+    }
+
+    const business = await prisma.business.findUnique({
+      where: { siteId },
+      select: {
+        allowedOrigins: true,
+        trackerConfig: true,
+        trackerVersion: true,
+        maskSelectors: true,
+        maskPatterns: true,
+      },
+    });
+
+    if (!business) {
+      console.warn('[TrackerScript] Invalid siteId:', siteId);
+      return errorResponse(404, 'Invalid siteId', headers);
+    }
+
+    if (origin && !isOriginAllowed(origin, business.allowedOrigins)) {
+      console.warn('[TrackerScript] Disallowed origin:', { siteId, origin });
+      await recordRejectedOrigin(siteId, origin);
+      return errorResponse(403, 'Origin not allowed', corsHeaders(null, 'GET'));
+    }
+
+    const build = await resolveTrackerBuild(siteId, {
+      version,
+      pinnedVersion: business.trackerVersion,
+    });
+
+    if (!build) {
+      return errorResponse(404, 'Unknown tracker version', headers);
+    }
+
+    const siteScript = buildSiteScript(build, siteId, buildTrackerConfig(business));
+    const etag = `"${siteScript.integrity}"`;
+    const cacheHeaders = {
+      ...headers,
+      'Cache-Control': SCRIPT_CACHE_CONTROL,
+      ETag: etag,
+      'X-Tracker-Version': siteScript.version,
+    };
+
+    if (matchesEtag(request.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
+    return new NextResponse(siteScript.body, {
+      status: 200,
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': 'application/javascript; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('[TrackerScript] Unexpected error:', error instanceof Error ? error.message : error);
+    return errorResponse(500, 'Internal server error', headers);
+  }
+}
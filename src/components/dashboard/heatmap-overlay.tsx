@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { ApiResponse } from '@/types/tracking';
+import type { DeviceClass, HeatmapResponse } from '@/types/heatmap';
+
+interface HeatmapOverlayProps {
+  urlTemplate: string;
+  device: DeviceClass;
+  range: number;
+}
+
+type Backdrop = 'live' | 'screenshot';
+
+/**
+ * Minimum page height rendered behind the heatmap (px)
+ */
+const MIN_PAGE_HEIGHT = 900;
+
+/**
+ * HeatmapOverlay Component
+ *
+ * Loads heatmap tiles from GET /api/heatmaps and draws them over the
+ * merchant's page: a live iframe of a sample URL of the template (sites that
+ * forbid framing show blank), or a screenshot URL pasted by the user.
+ * The page renders at the device class's reference width so grid columns
+ * line up with the layout clicks were recorded on.
+ */
+export function HeatmapOverlay({ urlTemplate, device, range }: HeatmapOverlayProps) {
+  const requestKey = `${urlTemplate}|${device}|${range}`;
+  const [result, setResult] = useState<{ key: string; heatmap?: HeatmapResponse; error?: string } | null>(null);
+  const [backdrop, setBackdrop] = useState<Backdrop>('live');
+  const [screenshotUrl, setScreenshotUrl] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const params = new URLSearchParams({ urlTemplate, device, range: String(range) });
+    fetch(`/api/heatmaps?${params}`)
+      .then((response) => response.json() as Promise<ApiResponse<HeatmapResponse>>)
+      .then((response) => {
+        if (cancelled) return;
+        setResult(
+          response.success && response.data
+            ? { key: requestKey, heatmap: response.data }
+            : { key: requestKey, error: response.error ?? 'Failed to load heatmap' }
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ key: requestKey, error: 'Failed to load heatmap' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, urlTemplate, device, range]);
+
+  // Results of a previous selection are stale while the next one loads
+  const heatmap = result?.key === requestKey ? result.heatmap : undefined;
+  const error = result?.key === requestKey ? result.error : undefined;
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-red-700">{error}</div>
+    );
+  }
+
+  if (!heatmap) {
+    return <Skeleton className="h-[600px] w-full" />;
+  }
+
+  const cellWidth = heatmap.viewportWidth / heatmap.columns;
+  const lastRow = heatmap.tiles.reduce((max, tile) => Math.max(max, tile.row), 0);
+  const pageHeight = Math.max(MIN_PAGE_HEIGHT, (lastRow + 1) * heatmap.rowHeight);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-[#4b5563]">
+          {heatmap.totalClicks.toLocaleString()} clicks
+        </span>
+        <div className="ml-auto flex gap-2">
+          <Button
+            size="sm"
+            variant={backdrop === 'live' ? 'default' : 'outline'}
+            onClick={() => setBackdrop('live')}
+          >
+            Live page
+          </Button>
+          <Button
+            size="sm"
+            variant={backdrop === 'screenshot' ? 'default' : 'outline'}
+            onClick={() => setBackdrop('screenshot')}
+          >
+            Screenshot
+          </Button>
+        </div>
+      </div>
+
+      {backdrop === 'screenshot' && (
+        <Input
+          type="url"
+          placeholder="https://… (full-page screenshot at the device width)"
+          value={screenshotUrl}
+          onChange={(event) => setScreenshotUrl(event.target.value)}
+        />
+      )}
+
+      <Card className="max-h-[80vh] overflow-auto p-0">
+        <div className="relative" style={{ width: heatmap.viewportWidth, height: pageHeight }}>
+          {backdrop === 'live' && heatmap.sampleUrl && (
+            <iframe
+              src={heatmap.sampleUrl}
+              title={`Page preview for ${urlTemplate}`}
+              className="pointer-events-none absolute inset-0 border-0"
+              style={{ width: heatmap.viewportWidth, height: pageHeight }}
+              sandbox="allow-same-origin allow-scripts"
+            />
+          )}
+          {backdrop === 'screenshot' && screenshotUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={screenshotUrl} alt={`Screenshot of ${urlTemplate}`} className="absolute left-0 top-0 w-full" />
+          )}
+
+          {heatmap.tiles.map((tile) => (
+            <div
+              key={`${tile.column}:${tile.row}`}
+              className="pointer-events-none absolute rounded-sm bg-red-500"
+              style={{
+                left: tile.column * cellWidth,
+                top: tile.row * heatmap.rowHeight,
+                width: cellWidth,
+                height: heatmap.rowHeight,
+                opacity: 0.15 + 0.6 * (tile.clicks / heatmap.maxClicks),
+              }}
+            />
+          ))}
+        </div>
+      </Card>
+
+      {backdrop === 'live' && !heatmap.sampleUrl && (
+        <p className="text-sm text-[#6b7280]">
+          No page URL recorded for this template yet. Use a screenshot instead.
+        </p>
+      )}
+    </div>
+  );
+}
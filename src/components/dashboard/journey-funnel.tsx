@@ -16,11 +16,13 @@ import { ChevronDown, ChevronUp, TrendingDown, TrendingUp } from 'lucide-react';
 import type { FunnelData, FunnelStage, JourneyTypeStats, JourneyType } from '@/types/journey';
 import { DATE_RANGE_OPTIONS, JOURNEY_TYPE_LABELS } from '@/types/journey';
 import { cn } from '@/lib/utils';
+import { CHANNELS, CHANNEL_LABELS } from '@/services/analytics/channel-classifier';
 
 interface JourneyFunnelProps {
   funnelData: FunnelData;
   journeyTypeStats: JourneyTypeStats[];
   businessName: string;
+  campaigns: string[]; // utm_campaign values in the date range, for the campaign filter
 }
 
 /**
@@ -33,11 +35,13 @@ interface JourneyFunnelProps {
  * AC#4: Clickable stages reveal detailed breakdown
  * AC#5: Multiple journey types displayed
  * AC#6: Date range selector
+ * Channel and campaign selectors slice the funnel by traffic source
  */
 export function JourneyFunnel({
   funnelData,
   journeyTypeStats,
   businessName,
+  campaigns,
 }: JourneyFunnelProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -45,6 +49,8 @@ export function JourneyFunnel({
 
   const currentRange = searchParams.get('range') || '30';
   const currentType = (searchParams.get('type') || 'all') as JourneyType;
+  const currentChannel = searchParams.get('channel') || 'all';
+  const currentCampaign = searchParams.get('campaign') || 'all';
 
   // Handle date range change
   const handleRangeChange = (value: string) => {
@@ -60,6 +66,17 @@ export function JourneyFunnel({
     router.push(`?${params.toString()}`);
   };
 
+  // Handle channel/campaign change ('all' clears the filter)
+  const handleSegmentChange = (key: 'channel' | 'campaign', value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value === 'all') {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+    router.push(`?${params.toString()}`);
+  };
+
   // Toggle stage details
   const toggleStageDetails = (stageName: string) => {
     setExpandedStage(expandedStage === stageName ? null : stageName);
@@ -92,8 +109,8 @@ export function JourneyFunnel({
         Skip to funnel data table
       </a>
 
-      {/* Controls: Date Range & Journey Type */}
-      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+      {/* Controls: Date Range, Traffic Source & Journey Type */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:flex-wrap sm:items-center sm:justify-between">
         {/* Date Range Selector */}
         <div className="flex items-center gap-2">
           <label htmlFor="date-range" className="text-sm font-medium">
@@ -113,6 +130,50 @@ export function JourneyFunnel({
           </Select>
         </div>
 
+        {/* Traffic Source Selectors */}
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="channel" className="text-sm font-medium">
+            Channel:
+          </label>
+          <Select value={currentChannel} onValueChange={(value) => handleSegmentChange('channel', value)}>
+            <SelectTrigger id="channel" className="w-40">
+              <SelectValue placeholder="All channels" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All channels</SelectItem>
+              {CHANNELS.map((channel) => (
+                <SelectItem key={channel} value={channel}>
+                  {CHANNEL_LABELS[channel]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {(campaigns.length > 0 || currentCampaign !== 'all') && (
+            <>
+              <label htmlFor="campaign" className="text-sm font-medium">
+                Campaign:
+              </label>
+              <Select value={currentCampaign} onValueChange={(value) => handleSegmentChange('campaign', value)}>
+                <SelectTrigger id="campaign" className="w-44">
+                  <SelectValue placeholder="All campaigns" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All campaigns</SelectItem>
+                  {(campaigns.includes(currentCampaign) || currentCampaign === 'all'
+                    ? campaigns
+                    : [currentCampaign, ...campaigns]
+                  ).map((campaign) => (
+                    <SelectItem key={campaign} value={campaign}>
+                      {campaign}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+
         {/* Journey Type Tabs */}
         <Tabs value={currentType} onValueChange={handleTypeChange} className="w-full sm:w-auto">
           <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4">
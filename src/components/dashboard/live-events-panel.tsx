@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { LiveEvent } from '@/types/live-events';
+
+type ConnectionStatus = 'connecting' | 'live' | 'reconnecting';
+
+/**
+ * Events kept on screen
+ */
+const MAX_VISIBLE_EVENTS = 100;
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Listening for events',
+  reconnecting: 'Reconnecting…',
+};
+
+/**
+ * LiveEventsPanel Component
+ *
+ * Streams the site's incoming events from GET /api/live-events (Server-Sent
+ * Events), newest first. Events that failed validation are listed with their
+ * errors, so a broken install can be diagnosed without opening the console.
+ * EventSource reconnects on its own when the server ends the stream.
+ */
+export function LiveEventsPanel() {
+  const [events, setEvents] = useState<LiveEvent[]>([]);
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource('/api/live-events');
+
+    source.onopen = () => setStatus('live');
+    source.onerror = () => setStatus('reconnecting');
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as LiveEvent;
+      // Events are re-sent when drained from the outbox or after a reconnect
+      setEvents((current) =>
+        current.some((existing) => existing.id === event.id)
+          ? current
+          : [event, ...current].slice(0, MAX_VISIBLE_EVENTS)
+      );
+    };
+
+    return () => source.close();
+  }, []);
+
+  const rejectedCount = events.filter((event) => event.status === 'rejected').length;
+  const visible = errorsOnly ? events.filter((event) => event.status === 'rejected') : events;
+
+  return (
+    <Card className="p-0">
+      <div className="flex flex-wrap items-center gap-3 border-b border-[#e5e7eb] px-4 py-3">
+        <span className="flex items-center gap-2 text-sm text-[#4b5563]">
+          <span
+            className={`h-2 w-2 rounded-full ${status === 'live' ? 'animate-pulse bg-[#10b981]' : 'bg-[#fbbf24]'}`}
+          />
+          {STATUS_LABELS[status]}
+        </span>
+        <span className="text-sm text-[#6b7280]">
+          {events.length} events{rejectedCount > 0 && `, ${rejectedCount} rejected`}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <Button size="sm" variant={errorsOnly ? 'default' : 'outline'} onClick={() => setErrorsOnly(!errorsOnly)}>
+            Rejected only
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setEvents([])} disabled={events.length === 0}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="px-4 py-10 text-center text-sm text-[#6b7280]">
+          <p>{errorsOnly ? 'No rejected events.' : 'No events in the last 10 minutes.'}</p>
+          <p className="mt-2">
+            Open your site in another tab to send some. To see what the tracker captures there, run{' '}
+            <code className="rounded bg-[#f3f4f6] px-1">MetricFortune.debug(true)</code> in its browser console.
+          </p>
+        </div>
+      ) : (
+        <ul className="max-h-[70vh] divide-y divide-[#f3f4f6] overflow-y-auto">
+          {visible.map((event) => (
+            <li key={event.id} className="px-4 py-3 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                <Badge variant={event.status === 'accepted' ? 'success' : 'error'}>
+                  {event.status === 'accepted' ? 'Accepted' : 'Rejected'}
+                </Badge>
+                <span className="font-mono font-medium text-[#1f2937]">{event.eventType ?? 'batch'}</span>
+                {event.url && <span className="truncate text-[#4b5563]">{event.url}</span>}
+                <span className="ml-auto whitespace-nowrap text-xs text-[#6b7280]">
+                  {new Date(event.receivedAt).toLocaleTimeString()}
+                  {event.sessionId && ` · ${event.sessionId.slice(0, 8)}`}
+                </span>
+              </div>
+              {event.errors.length > 0 && (
+                <ul className="mt-2 space-y-1 rounded-md bg-red-50 px-3 py-2 text-xs text-red-700">
+                  {event.errors.map((error, index) => (
+                    <li key={index}>
+                      {error.path && <code className="font-semibold">{error.path}</code>}
+                      {error.path && ': '}
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+interface SampledDataNoticeProps {
+  /** Lowest sample rate behind the figures (0-1); null when nothing was sampled */
+  sampleRate: number | null;
+  className?: string;
+}
+
+/**
+ * Disclosure shown above figures estimated from sampled sessions
+ */
+export function SampledDataNotice({ sampleRate, className = "" }: SampledDataNoticeProps) {
+  if (sampleRate === null) {
+    return null;
+  }
+
+  return (
+    <div
+      role="note"
+      className={`rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 ${className}`}
+    >
+      <span className="font-semibold">Sampled data.</span> Your tracker records{" "}
+      {sampleRate < 0.01 ? "under 1" : Math.round(sampleRate * 100)}% of sessions, so counts on this page
+      are estimates scaled up to your full traffic. Small segments may vary from exact figures.
+    </div>
+  );
+}
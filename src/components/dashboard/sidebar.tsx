@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Home, Star, TrendingUp, Users, Settings, LogOut } from "lucide-react";
+import { Home, Star, TrendingUp, Users, Activity, Bug, MousePointerClick, ArrowDownToLine, Eye, Radio, Settings, LogOut } from "lucide-react";
 import { Avatar } from "@/components/ui/avatar";
 import {
   DropdownMenu,
@@ -30,6 +30,36 @@ const navItems: NavItem[] = [
     href: "/dashboard/peer-benchmarks",
     icon: Users,
   },
+  {
+    name: "Custom Events",
+    href: "/dashboard/custom-events",
+    icon: Activity,
+  },
+  {
+    name: "Heatmaps",
+    href: "/dashboard/heatmaps",
+    icon: MousePointerClick,
+  },
+  {
+    name: "Scroll Reach",
+    href: "/dashboard/scroll-reach",
+    icon: ArrowDownToLine,
+  },
+  {
+    name: "Impressions",
+    href: "/dashboard/impressions",
+    icon: Eye,
+  },
+  {
+    name: "Errors",
+    href: "/dashboard/errors",
+    icon: Bug,
+  },
+  {
+    name: "Live Events",
+    href: "/dashboard/live-events",
+    icon: Radio,
+  },
 ];
 
 interface SidebarProps {
@@ -0,0 +1,78 @@
+/**
+ * Event Outbox Drain Background Job
+ *
+ * Scheduled Inngest function that moves staged tracking events from the
+ * EventOutbox table into TrackingEvent.
+ *
+ * Features:
+ * - Runs every minute (and on the 'tracking/outbox.drain' event)
+ * - Single concurrent run so rows are never drained twice in parallel
+ * - Failed rows are retried with backoff and dead-lettered by the consumer
+ * - Logs backpressure metrics (backlog size, lag, dead letters) after each run
+ *
+ * @module inngest/event-outbox-drain
+ */
+
+import { inngest } from '@/lib/inngest';
+import {
+  drainEventOutbox,
+  getOutboxMetrics,
+  OUTBOX_CONFIG,
+} from '@/services/tracking/outbox-consumer';
+
+/**
+ * Event Outbox Drain Background Job
+ */
+export const eventOutboxDrainJob = inngest.createFunction(
+  {
+    id: 'event-outbox-drain',
+    name: 'Event Outbox Drain Job',
+    // Rows are only deleted after they land in TrackingEvent, so a retried
+    // run is safe
+    retries: 3,
+    concurrency: { limit: 1 },
+  },
+  [
+    { event: 'tracking/outbox.drain' },
+    { cron: '* * * * *' }, // Every minute
+  ],
+  async ({ step }) => {
+    const jobStartTime = Date.now();
+
+    try {
+      const result = await step.run('drain-outbox', async () => {
+        return await drainEventOutbox();
+      });
+
+      const metrics = await step.run('outbox-metrics', async () => {
+        return await getOutboxMetrics();
+      });
+
+      const summary = {
+        status: 'success',
+        ...result,
+        ...metrics,
+        executionTimeMs: Date.now() - jobStartTime,
+      };
+
+      if (
+        metrics.pending > OUTBOX_CONFIG.backlogWarningSize ||
+        metrics.oldestPendingAgeMs > OUTBOX_CONFIG.lagWarningMs
+      ) {
+        console.warn('[EventOutboxDrain] Outbox backlog is growing', summary);
+      } else {
+        console.log('[EventOutboxDrain] Job completed successfully', summary);
+      }
+
+      return summary;
+    } catch (error) {
+      console.error('[EventOutboxDrain] Job failed', {
+        error: error instanceof Error ? error.message : String(error),
+        executionTimeMs: Date.now() - jobStartTime,
+      });
+
+      // Inngest will automatically retry on failure
+      throw error;
+    }
+  }
+);
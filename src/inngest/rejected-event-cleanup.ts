@@ -0,0 +1,55 @@
+/**
+ * Rejected Event Cleanup Background Job
+ *
+ * Scheduled Inngest function that deletes RejectedEvent rows (shown in the
+ * live events panel) once they are past their retention.
+ *
+ * Features:
+ * - Runs hourly
+ * - Single concurrent run
+ *
+ * @module inngest/rejected-event-cleanup
+ */
+
+import { inngest } from '@/lib/inngest';
+import { pruneRejectedEvents } from '@/services/tracking/live-events';
+
+/**
+ * Rejected Event Cleanup Background Job
+ */
+export const rejectedEventCleanupJob = inngest.createFunction(
+  {
+    id: 'rejected-event-cleanup',
+    name: 'Rejected Event Cleanup Job',
+    retries: 3,
+    concurrency: { limit: 1 },
+  },
+  { cron: '0 * * * *' }, // Every hour
+  async ({ step }) => {
+    const jobStartTime = Date.now();
+
+    try {
+      const deleted = await step.run('prune-rejected-events', async () => {
+        return await pruneRejectedEvents();
+      });
+
+      const summary = {
+        status: 'success',
+        deleted,
+        executionTimeMs: Date.now() - jobStartTime,
+      };
+
+      console.log('[RejectedEventCleanup] Job completed successfully', summary);
+
+      return summary;
+    } catch (error) {
+      console.error('[RejectedEventCleanup] Job failed', {
+        error: error instanceof Error ? error.message : String(error),
+        executionTimeMs: Date.now() - jobStartTime,
+      });
+
+      // Inngest will automatically retry on failure
+      throw error;
+    }
+  }
+);
@@ -6,10 +6,13 @@
  *
  * Features:
  * - Runs on cron schedule: every 4 hours (0 star-slash-4 star star star)
- * - Incremental processing: only processes events since last run
+ * - Drains the event outbox first, so staged events are included
+ * - Incremental processing by ingestion time (TrackingEvent.createdAt), so
+ *   events that arrive late (offline replays) are still aggregated
+ * - Sessions that receive late events are re-aggregated and updated
  * - Automatic retries on failure (up to 3 times with exponential backoff)
  * - Structured logging for monitoring
- * - Tracks last aggregation timestamp
+ * - Tracks last aggregation timestamp (JobCursor)
  *
  * @module inngest/session-aggregation
  */
@@ -18,14 +21,24 @@ import { inngest } from '@/lib/inngest';
 import {
   aggregateSessions,
   createSessions,
+  aggregatePageVitals,
+  storePageVitals,
+  aggregateClickHeatmaps,
+  storeClickHeatmaps,
 } from '@/services/analytics/session-aggregator';
 import { prisma } from '@/lib/prisma';
+import { eventOutboxDrainJob } from '@/inngest/event-outbox-drain';
 
 /**
- * Key for storing last aggregation timestamp
- * This could be stored in database or Redis in production
+ * Key for storing last aggregation timestamp (JobCursor ID)
  */
-const LAST_AGGREGATION_KEY = 'session_aggregation_last_run';
+const LAST_AGGREGATION_KEY = 'session-aggregation';
+
+/**
+ * Ingestion time left for the next run: drain transactions still in flight
+ * commit rows with a createdAt slightly in the past
+ */
+const INGESTION_LAG_MS = 2 * 60 * 1000;
 
 /**
  * Session Aggregation Background Job
@@ -51,34 +64,41 @@ export const sessionAggregationJob = inngest.createFunction(
     console.log('[SessionAggregation] Job started');
 
     try {
-      // Step 1: Get last aggregation timestamp
-      const lastAggregationTime = await step.run(
-        'get-last-aggregation-time',
-        async () => {
-          // Try to get from environment variable or database
-          // For MVP, we'll use a simple approach with a metadata table
-          // In production, consider using Redis or a dedicated table
-          const lastRun = await getLastAggregationTime();
-
-          console.log(
-            `[SessionAggregation] Last aggregation time: ${lastRun?.toISOString() || 'Never'}`
-          );
-
-          return lastRun;
-        }
-      );
+      // Step 1: Move staged events from the outbox into TrackingEvent
+      // (invoked, so the drain job's single-run concurrency limit applies)
+      await step.invoke('drain-outbox', {
+        function: eventOutboxDrainJob,
+        data: {},
+      });
 
-      // Step 2: Determine time range for this run
-      const endTime = new Date();
-      const startTime = lastAggregationTime
-        ? new Date(lastAggregationTime)
-        : new Date(Date.now() - 24 * 60 * 60 * 1000); // Default: last 24 hours
+      // Step 2: Determine the ingestion time range for this run (in a step,
+      // so retries and later steps reuse the same window)
+      const window = await step.run('get-aggregation-window', async () => {
+        const lastRun = await getLastAggregationTime();
+
+        console.log(
+          `[SessionAggregation] Last aggregation time: ${lastRun?.toISOString() || 'Never'}`
+        );
+
+        return {
+          startTime: (lastRun ?? new Date(Date.now() - 24 * 60 * 60 * 1000)).toISOString(), // Default: last 24 hours
+          endTime: new Date(Date.now() - INGESTION_LAG_MS).toISOString(),
+        };
+      });
+
+      const startTime = new Date(window.startTime);
+      const endTime = new Date(window.endTime);
+
+      if (endTime <= startTime) {
+        console.log('[SessionAggregation] Nothing to aggregate yet');
+        return { status: 'skipped', startTime: window.startTime, endTime: window.endTime };
+      }
 
       console.log(
         `[SessionAggregation] Processing time range: ${startTime.toISOString()} to ${endTime.toISOString()}`
       );
 
-      // Step 3: Aggregate sessions from tracking events
+      // Step 3: Aggregate sessions that received events in the window
       const sessionsData = await step.run('aggregate-sessions', async () => {
         return await aggregateSessions(startTime, endTime);
       });
@@ -87,7 +107,7 @@ export const sessionAggregationJob = inngest.createFunction(
         `[SessionAggregation] Aggregated ${sessionsData.length} sessions`
       );
 
-      // Step 4: Store sessions in database
+      // Step 4: Store new sessions and update re-aggregated ones
       // Note: Inngest serializes data between steps, so dates become strings
       // Convert back to SessionData format with proper Date objects
       const sessions = sessionsData.map((s: any) => ({
@@ -100,10 +120,28 @@ export const sessionAggregationJob = inngest.createFunction(
       });
 
       console.log(
-        `[SessionAggregation] Stored ${result.created} sessions (${result.errors.length} errors)`
+        `[SessionAggregation] Stored ${result.created} sessions, updated ${result.updated} (${result.errors.length} errors)`
+      );
+
+      // Step 5: Aggregate p75 Web Vitals per URL template for the same window
+      const vitalsResult = await step.run('aggregate-page-vitals', async () => {
+        return await storePageVitals(await aggregatePageVitals(startTime, endTime, sessions));
+      });
+
+      console.log(
+        `[SessionAggregation] Stored vitals for ${vitalsResult.created} URL templates (${vitalsResult.errors.length} errors)`
       );
 
-      // Step 5: Update last aggregation timestamp
+      // Step 6: Bin clicks into heatmaps per URL template and device class
+      const heatmapResult = await step.run('aggregate-click-heatmaps', async () => {
+        return await storeClickHeatmaps(await aggregateClickHeatmaps(startTime, endTime, sessions));
+      });
+
+      console.log(
+        `[SessionAggregation] Stored ${heatmapResult.created} click heatmaps (${heatmapResult.errors.length} errors)`
+      );
+
+      // Step 7: Update last aggregation timestamp
       await step.run('update-last-aggregation-time', async () => {
         await setLastAggregationTime(endTime);
         console.log(
@@ -120,7 +158,10 @@ export const sessionAggregationJob = inngest.createFunction(
         status: 'success',
         sessionsProcessed: sessions.length,
         sessionsCreated: result.created,
-        errorCount: result.errors.length,
+        sessionsUpdated: result.updated,
+        pageVitalsCreated: vitalsResult.created,
+        clickHeatmapsCreated: heatmapResult.created,
+        errorCount: result.errors.length + vitalsResult.errors.length + heatmapResult.errors.length,
         executionTimeMs,
         executionTimeSec,
         startTime: startTime.toISOString(),
@@ -147,17 +188,17 @@ export const sessionAggregationJob = inngest.createFunction(
 /**
  * Get last aggregation timestamp
  *
- * Retrieves the timestamp of the last successful aggregation run.
- * Returns null if no previous run exists.
- *
- * Implementation uses a simple metadata table approach.
- * In production, consider using Redis for better performance.
+ * Retrieves the ingestion time the last successful run processed events up
+ * to. Before the first stored cursor, falls back to the most recent
+ * session's createdAt. Returns null if no previous run exists.
  */
 async function getLastAggregationTime(): Promise<Date | null> {
   try {
-    // Check if we have a metadata table for tracking job state
-    // For now, we'll use a simple approach: query the most recent session's createdAt
-    // This assumes sessions are created in order
+    const cursor = await prisma.jobCursor.findUnique({
+      where: { id: LAST_AGGREGATION_KEY },
+    });
+    if (cursor) return cursor.cursor;
+
     const latestSession = await prisma.session.findFirst({
       orderBy: { createdAt: 'desc' },
       select: { createdAt: true },
@@ -176,21 +217,17 @@ async function getLastAggregationTime(): Promise<Date | null> {
 /**
  * Set last aggregation timestamp
  *
- * Stores the timestamp of the current successful aggregation run.
- * This is used for incremental processing in the next run.
+ * Stores the end of the ingestion time range the current run processed.
+ * The next run starts there.
  *
  * @param timestamp - Timestamp to store
  */
 async function setLastAggregationTime(timestamp: Date): Promise<void> {
-  // In a production system, you might store this in:
-  // 1. A dedicated metadata table
-  // 2. Redis cache
-  // 3. Environment variable (less ideal)
-  // 4. Inngest state (if available)
-
-  // For MVP, we'll rely on the session createdAt timestamps
-  // which already track when sessions were processed
-  console.log(`[SessionAggregation] Last aggregation time: ${timestamp.toISOString()}`);
+  await prisma.jobCursor.upsert({
+    where: { id: LAST_AGGREGATION_KEY },
+    update: { cursor: timestamp },
+    create: { id: LAST_AGGREGATION_KEY, cursor: timestamp },
+  });
 }
 
 /**
@@ -48,6 +48,15 @@ export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
   windowMs: 60 * 1000, // 1 minute
 };
 
+/**
+ * Server-side ingestion API rate limit: 600 requests per minute per business
+ * (POST /api/v1/events, keyed separately from browser tracking)
+ */
+export const SERVER_EVENTS_RATE_LIMIT: RateLimitConfig = {
+  limit: 600,
+  windowMs: 60 * 1000, // 1 minute
+};
+
 /**
  * Result of rate limit check
  */
@@ -57,7 +57,8 @@ export const config = {
      * - favicon.ico (favicon file)
      * - public folder
      * - tracking.js (tracking script)
+     * - t/ (per-site tracking scripts)
      */
-    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$|tracking.js).*)",
+    "/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$|tracking.js|t/).*)",
   ],
 };
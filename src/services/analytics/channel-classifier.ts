@@ -0,0 +1,183 @@
+/**
+ * Channel Classifier Service
+ *
+ * Derives a session's marketing channel from its landing pageview:
+ * UTM parameters, ad click IDs (gclid, fbclid, msclkid) and the referrer.
+ * Rules are evaluated in order and the first match wins; sessions matching
+ * no rule are direct traffic.
+ */
+
+import type { Attribution } from '@/types/tracking';
+import type { SessionAttribution, SessionSegment } from '@/types/session';
+
+/**
+ * Marketing channels
+ */
+export const CHANNELS = ['organic_search', 'paid', 'social', 'email', 'referral', 'direct'] as const;
+
+export type Channel = (typeof CHANNELS)[number];
+
+/**
+ * Human-readable labels for channels
+ */
+export const CHANNEL_LABELS: Record<Channel, string> = {
+  organic_search: 'Organic search',
+  paid: 'Paid',
+  social: 'Social',
+  email: 'Email',
+  referral: 'Referral',
+  direct: 'Direct',
+};
+
+/**
+ * Ad click ID parameters, in precedence order
+ */
+export const CLICK_ID_PARAMS = ['gclid', 'fbclid', 'msclkid'] as const;
+
+/**
+ * Channel rule; matches when every condition it sets matches
+ */
+export interface ChannelRule {
+  channel: Channel;
+  /** Landing URL carried an ad click ID */
+  clickId?: boolean;
+  /** Tested against utm_medium */
+  medium?: RegExp;
+  /** Tested against utm_source */
+  source?: RegExp;
+  /** Tested against the external referrer's hostname */
+  referrerHost?: RegExp;
+}
+
+const SEARCH_HOSTS = /(^|\.)(google|bing|yahoo|duckduckgo|baidu|yandex|ecosia|qwant|naver|startpage)\.[a-z.]+$/i;
+const SOCIAL_HOSTS =
+  /(^|\.)(facebook\.com|fb\.me|instagram\.com|t\.co|twitter\.com|x\.com|linkedin\.com|lnkd\.in|pinterest\.[a-z.]+|reddit\.com|tiktok\.com|youtube\.com|threads\.net)$/i;
+const SOCIAL_SOURCES = /^(facebook|fb|instagram|ig|twitter|x|linkedin|pinterest|reddit|tiktok|youtube|threads)$/i;
+
+/**
+ * Default channel rules (first match wins)
+ */
+export const CHANNEL_RULES: ChannelRule[] = [
+  { channel: 'paid', clickId: true },
+  { channel: 'paid', medium: /^(cpc|ppc|cpm|cpv|paid|paidsearch|paid[_-]?social|display|banner|retargeting)$/i },
+  { channel: 'email', medium: /^e-?mail$|newsletter/i },
+  { channel: 'email', source: /^(e-?mail|newsletter|mailchimp|klaviyo)$/i },
+  { channel: 'social', medium: /^(social|social[_-]?media|sm)$/i },
+  { channel: 'social', source: SOCIAL_SOURCES },
+  { channel: 'social', referrerHost: SOCIAL_HOSTS },
+  { channel: 'organic_search', medium: /^organic$/i },
+  { channel: 'organic_search', referrerHost: SEARCH_HOSTS },
+  { channel: 'referral', medium: /^(referral|affiliate|partner)$/i },
+  { channel: 'referral', source: /./ },
+  { channel: 'referral', referrerHost: /./ },
+];
+
+/**
+ * Landing pageview data used for classification
+ */
+export interface ChannelInput {
+  /** Landing page URL (used to tell internal referrers apart) */
+  url?: string | null;
+  referrer?: string | null;
+  attribution?: Attribution | null;
+}
+
+/**
+ * Hostname of a URL, or null when it can't be parsed
+ */
+function hostname(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attribution parameters from a landing URL's query string
+ * (fallback for pageviews sent without tracker-side attribution)
+ *
+ * @param url - Landing page URL
+ * @returns Attribution, or null when the URL has none
+ */
+export function parseAttribution(url: string | null | undefined): Attribution | null {
+  if (!url) return null;
+
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return null;
+  }
+
+  const attribution: Attribution = {};
+  const fields: [keyof Attribution, string][] = [
+    ['utmSource', 'utm_source'],
+    ['utmMedium', 'utm_medium'],
+    ['utmCampaign', 'utm_campaign'],
+    ['utmTerm', 'utm_term'],
+    ['utmContent', 'utm_content'],
+    ['gclid', 'gclid'],
+    ['fbclid', 'fbclid'],
+    ['msclkid', 'msclkid'],
+  ];
+
+  for (const [field, param] of fields) {
+    const value = params.get(param);
+    if (value) attribution[field] = value.slice(0, 255);
+  }
+
+  return Object.keys(attribution).length > 0 ? attribution : null;
+}
+
+/**
+ * Classify a session's channel
+ *
+ * Referrers on the landing page's own host are internal and ignored.
+ *
+ * @param input - Landing page URL, referrer and attribution
+ * @param rules - Channel rules (defaults to CHANNEL_RULES)
+ * @returns Session attribution, including the channel
+ */
+export function classifyChannel(input: ChannelInput, rules: ChannelRule[] = CHANNEL_RULES): SessionAttribution {
+  const attribution = input.attribution ?? {};
+  const referrerHost = hostname(input.referrer);
+  const isExternal = referrerHost !== null && referrerHost !== hostname(input.url);
+  const clickIdType = CLICK_ID_PARAMS.find((param) => attribution[param]) ?? null;
+
+  const medium = attribution.utmMedium ?? null;
+  const source = attribution.utmSource ?? null;
+
+  const matches = (rule: ChannelRule): boolean =>
+    (rule.clickId === undefined || rule.clickId === (clickIdType !== null)) &&
+    (rule.medium === undefined || (medium !== null && rule.medium.test(medium))) &&
+    (rule.source === undefined || (source !== null && rule.source.test(source))) &&
+    (rule.referrerHost === undefined || (isExternal && rule.referrerHost.test(referrerHost!)));
+
+  const channel = rules.find(matches)?.channel ?? 'direct';
+
+  return {
+    channel,
+    referrer: isExternal ? input.referrer! : null,
+    utmSource: source,
+    utmMedium: medium,
+    utmCampaign: attribution.utmCampaign ?? null,
+    utmTerm: attribution.utmTerm ?? null,
+    utmContent: attribution.utmContent ?? null,
+    clickIdType,
+  };
+}
+
+/**
+ * Session filter for a channel/campaign segment
+ *
+ * @param segment - Segment to filter by (unset fields match everything)
+ * @returns Fields to merge into a Session where clause
+ */
+export function segmentWhere(segment?: SessionSegment): { channel?: string; utmCampaign?: string } {
+  return {
+    ...(segment?.channel ? { channel: segment.channel } : {}),
+    ...(segment?.campaign ? { utmCampaign: segment.campaign } : {}),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Custom Event Calculator Service
+ * Aggregates custom events (MetricFortune.track) into per-name report rows.
+ * Events of sampled sessions count 1/sampleRate times.
+ */
+
+import type { CustomEventStats } from '@/types/custom-event';
+import { sessionWeight } from './sampling';
+
+/**
+ * Raw custom event as stored in TrackingEvent
+ */
+interface CustomEventRecord {
+  sessionId: string;
+  data: unknown;
+}
+
+/**
+ * Aggregated session outcome
+ */
+interface SessionOutcome {
+  sessionId: string;
+  converted: boolean;
+  sampleRate?: number | null;
+}
+
+/**
+ * Calculate custom event statistics grouped by event name
+ *
+ * Sessions not yet aggregated count once and as not converted.
+ *
+ * @param events - TrackingEvent rows with eventType 'custom'
+ * @param sessions - Aggregated sessions that fired the events
+ * @returns Stats per event name, most frequent first
+ */
+export function calculateCustomEventStats(
+  events: CustomEventRecord[],
+  sessions: SessionOutcome[]
+): CustomEventStats[] {
+  const outcomes = new Map(sessions.map((session) => [session.sessionId, session]));
+  const byName = new Map<string, { count: number; sessions: Set<string> }>();
+
+  for (const event of events) {
+    const name = (event.data as { name?: unknown } | null)?.name;
+    if (typeof name !== 'string' || !name) continue;
+
+    let entry = byName.get(name);
+    if (!entry) {
+      entry = { count: 0, sessions: new Set() };
+      byName.set(name, entry);
+    }
+
+    const session = outcomes.get(event.sessionId);
+    entry.count += session ? sessionWeight(session) : 1;
+    entry.sessions.add(event.sessionId);
+  }
+
+  const stats: CustomEventStats[] = [];
+
+  for (const [name, entry] of byName) {
+    let uniqueSessions = 0;
+    let convertedSessions = 0;
+    for (const sessionId of entry.sessions) {
+      const session = outcomes.get(sessionId);
+      const weight = session ? sessionWeight(session) : 1;
+      uniqueSessions += weight;
+      if (session?.converted) convertedSessions += weight;
+    }
+
+    stats.push({
+      name,
+      count: Math.round(entry.count),
+      uniqueSessions: Math.round(uniqueSessions),
+      convertedSessions: Math.round(convertedSessions),
+      conversionRate: Math.round((convertedSessions / uniqueSessions) * 1000) / 10,
+    });
+  }
+
+  return stats.sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
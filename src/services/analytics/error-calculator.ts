@@ -0,0 +1,207 @@
+/**
+ * Error Calculator Service
+ *
+ * Groups JavaScript errors reported by the tracker into fingerprints and
+ * measures each group's conversion impact: the conversion rate of sessions
+ * that hit the error against the rest, with a two-proportion z-test.
+ * Sampled sessions count 1/sampleRate times in counts and rates; the z-test
+ * uses the observed sessions.
+ */
+
+import crypto from 'crypto';
+import type { ErrorEventData } from '@/types/tracking';
+import type { ErrorGroupStats } from '@/types/js-error';
+import { PATTERN_THRESHOLDS } from '@/types/pattern';
+import { toUrlTemplate } from './url-template';
+import { sessionWeight, weightedCount } from './sampling';
+
+/**
+ * Raw error event as stored in TrackingEvent
+ */
+interface ErrorEventRecord {
+  sessionId: string;
+  data: unknown;
+}
+
+/**
+ * Aggregated session outcome
+ */
+interface SessionOutcome {
+  sessionId: string;
+  converted: boolean;
+  sampleRate?: number | null;
+}
+
+/**
+ * Error message with variable parts (numbers, IDs, quoted values) replaced,
+ * so `Item 123 not found` and `Item 456 not found` group together
+ */
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .replace(/^Uncaught\s+/, '')
+    .replace(/(["'`])(?:(?!\1).){16,}\1/g, '<str>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    .replace(/\b(?=[a-z]*\d)[0-9a-z]{16,}\b/gi, '<id>')
+    .replace(/\d+/g, '<n>')
+    .trim();
+}
+
+/**
+ * Script path with query, origin and build hashes dropped, so a deploy
+ * (app.3f2a91c.js -> app.8bd0e47.js) doesn't split a group
+ */
+function normalizeSource(source: string | null | undefined): string {
+  if (!source) return '';
+
+  let path: string;
+  try {
+    path = new URL(source, 'http://localhost').pathname;
+  } catch {
+    path = source;
+  }
+
+  return path.replace(/[.-][0-9a-f]{6,}(?=\.)/gi, '');
+}
+
+/**
+ * Fingerprint of an error: kind, normalized message and script
+ *
+ * Line numbers are left out because they change with every build.
+ *
+ * @param data - Error event data
+ * @returns 16-character hex fingerprint
+ */
+export function fingerprintError(data: Pick<ErrorEventData, 'kind' | 'message' | 'source'>): string {
+  return crypto
+    .createHash('sha256')
+    .update([data.kind, normalizeErrorMessage(data.message), normalizeSource(data.source)].join('|'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * One-sided z-score for the affected conversion rate being lower than the baseline
+ */
+function conversionDropZ(
+  affectedConverted: number,
+  affected: number,
+  otherConverted: number,
+  other: number
+): number {
+  if (affected === 0 || other === 0) return 0;
+
+  const pooled = (affectedConverted + otherConverted) / (affected + other);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / affected + 1 / other));
+  if (standardError === 0) return 0;
+
+  return (otherConverted / other - affectedConverted / affected) / standardError;
+}
+
+function toPercent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Calculate error groups and their conversion impact
+ *
+ * Only aggregated sessions count toward conversion rates; errors from sessions
+ * not yet aggregated still count as occurrences. A group is significant when
+ * it affects at least MIN_ERROR_SESSIONS observed sessions and its conversion
+ * drop has z >= ERROR_IMPACT_Z.
+ *
+ * @param events - TrackingEvent rows with eventType 'error'
+ * @param sessions - Aggregated sessions for the same period
+ * @returns Error groups, most affected sessions first
+ */
+export function calculateErrorImpact(
+  events: ErrorEventRecord[],
+  sessions: SessionOutcome[]
+): ErrorGroupStats[] {
+  const outcomes = new Map(sessions.map((s) => [s.sessionId, s]));
+  const totalConverted = sessions.filter((s) => s.converted).length;
+  const totalWeight = weightedCount(sessions);
+  const totalConvertedWeight = weightedCount(sessions, (s) => s.converted);
+
+  const groups = new Map<
+    string,
+    { latest: ErrorEventData; occurrences: number; sessions: Set<string>; pages: Map<string, number> }
+  >();
+
+  for (const event of events) {
+    const data = event.data as ErrorEventData | null;
+    if (!data || typeof data.message !== 'string' || !data.message) continue;
+
+    const fingerprint = fingerprintError(data);
+    let group = groups.get(fingerprint);
+    if (!group) {
+      group = { latest: data, occurrences: 0, sessions: new Set(), pages: new Map() };
+      groups.set(fingerprint, group);
+    }
+
+    const session = outcomes.get(event.sessionId);
+    group.latest = data;
+    group.occurrences += session ? sessionWeight(session) : 1;
+    group.sessions.add(event.sessionId);
+    if (data.url) {
+      const page = toUrlTemplate(data.url);
+      group.pages.set(page, (group.pages.get(page) ?? 0) + 1);
+    }
+  }
+
+  const stats: ErrorGroupStats[] = [];
+
+  for (const [fingerprint, group] of groups) {
+    let affected = 0;
+    let affectedConverted = 0;
+    let affectedWeight = 0;
+    let affectedConvertedWeight = 0;
+    for (const sessionId of group.sessions) {
+      const session = outcomes.get(sessionId);
+      if (!session) continue;
+      const weight = sessionWeight(session);
+      affected++;
+      affectedWeight += weight;
+      if (session.converted) {
+        affectedConverted++;
+        affectedConvertedWeight += weight;
+      }
+    }
+
+    const other = sessions.length - affected;
+    const otherConverted = totalConverted - affectedConverted;
+    const conversionRate = toPercent(affectedConvertedWeight, affectedWeight);
+    const baselineConversionRate =
+      other > 0
+        ? toPercent(totalConvertedWeight - affectedConvertedWeight, totalWeight - affectedWeight)
+        : 0;
+    const z = conversionDropZ(affectedConverted, affected, otherConverted, other);
+
+    let page: string | null = null;
+    let pageCount = 0;
+    for (const [template, count] of group.pages) {
+      if (count > pageCount) {
+        page = template;
+        pageCount = count;
+      }
+    }
+
+    stats.push({
+      fingerprint,
+      kind: group.latest.kind,
+      message: group.latest.message,
+      source: group.latest.source ?? null,
+      line: group.latest.line ?? null,
+      page,
+      occurrences: Math.round(group.occurrences),
+      affectedSessions: Math.round(affectedWeight),
+      observedSessions: affected,
+      conversionRate,
+      baselineConversionRate,
+      conversionImpact: Math.round((baselineConversionRate - conversionRate) * 10) / 10,
+      significant:
+        affected >= PATTERN_THRESHOLDS.MIN_ERROR_SESSIONS && z >= PATTERN_THRESHOLDS.ERROR_IMPACT_Z,
+    });
+  }
+
+  return stats.sort((a, b) => b.affectedSessions - a.affectedSessions || b.occurrences - a.occurrences);
+}
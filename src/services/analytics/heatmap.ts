@@ -0,0 +1,72 @@
+/**
+ * Click Heatmap Service
+ *
+ * Bins click positions into a grid per URL template and device class.
+ * Columns are a fraction of the viewport width the click happened in, so
+ * clicks from different screen sizes of the same class line up; rows are
+ * fixed-height bands of the document (pageY).
+ */
+
+import type { EventData } from '@/types/tracking';
+import {
+  HEATMAP_GRID,
+  type DeviceClass,
+  type HeatmapCells,
+  type HeatmapTile,
+} from '@/types/heatmap';
+
+/**
+ * Device class of a viewport width (common CSS breakpoints)
+ *
+ * @param viewportWidth - Viewport width in CSS pixels
+ * @returns 'mobile' below 768px, 'tablet' below 1024px, else 'desktop'
+ */
+export function deviceClass(viewportWidth: number): DeviceClass {
+  if (viewportWidth < 768) return 'mobile';
+  if (viewportWidth < 1024) return 'tablet';
+  return 'desktop';
+}
+
+/**
+ * Grid cell of a click
+ *
+ * @param data - Click event data with pageX, pageY and vw
+ * @returns Cell key ("column:row"), or null for clicks without heatmap
+ *   fields or outside the grid
+ */
+export function binClick(data: Pick<EventData, 'pageX' | 'pageY' | 'vw'>): string | null {
+  const { pageX, pageY, vw } = data;
+  if (typeof pageX !== 'number' || typeof pageY !== 'number' || typeof vw !== 'number' || vw <= 0) {
+    return null;
+  }
+  if (pageX < 0 || pageY < 0) return null;
+
+  const column = Math.min(HEATMAP_GRID.columns - 1, Math.floor((pageX / vw) * HEATMAP_GRID.columns));
+  const row = Math.floor(pageY / HEATMAP_GRID.rowHeight);
+  if (row >= HEATMAP_GRID.maxRows) return null;
+
+  return `${column}:${row}`;
+}
+
+/**
+ * Merge heatmap cells from several aggregation windows into tiles
+ *
+ * @param cellSets - Cells of each stored window
+ * @returns Tiles with clicks, top to bottom and left to right
+ */
+export function mergeHeatmapCells(cellSets: HeatmapCells[]): HeatmapTile[] {
+  const totals = new Map<string, number>();
+
+  for (const cells of cellSets) {
+    for (const [key, clicks] of Object.entries(cells)) {
+      totals.set(key, (totals.get(key) ?? 0) + clicks);
+    }
+  }
+
+  return Array.from(totals.entries())
+    .map(([key, clicks]) => {
+      const [column, row] = key.split(':').map(Number);
+      return { column, row, clicks };
+    })
+    .sort((a, b) => a.row - b.row || a.column - b.column);
+}
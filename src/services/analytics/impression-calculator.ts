@@ -0,0 +1,116 @@
+/**
+ * Impression Calculator Service
+ *
+ * Aggregates impression events (data-mf-impression elements seen by the
+ * visitor) into per-name report rows: how many of the sessions that visited
+ * the element's pages actually saw it, and how sessions that saw it convert
+ * compared to those that didn't.
+ */
+
+import type { ImpressionEventData } from '@/types/tracking';
+import type { ImpressionStats } from '@/types/impression';
+import { toUrlTemplate } from './url-template';
+import { sessionWeight } from './sampling';
+
+/**
+ * Raw impression event as stored in TrackingEvent
+ */
+interface ImpressionEventRecord {
+  sessionId: string;
+  data: unknown;
+}
+
+/**
+ * Aggregated session with its pages and outcome
+ */
+interface SessionJourney {
+  sessionId: string;
+  journeyPath: string[];
+  converted: boolean;
+  sampleRate?: number | null;
+}
+
+function toPercent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Calculate impression statistics grouped by element name
+ *
+ * An element's pages are the URL templates it was seen on. Exposed sessions
+ * are aggregated sessions that viewed one of those pages; only they count
+ * toward rates, so impressions from sessions not yet aggregated still count
+ * as impressions. Counts are scaled up by each session's sample rate
+ * (sessions not yet aggregated count once).
+ *
+ * @param events - TrackingEvent rows with eventType 'impression'
+ * @param sessions - Aggregated sessions for the same period
+ * @returns Stats per element name, most impressions first
+ */
+export function calculateImpressionStats(
+  events: ImpressionEventRecord[],
+  sessions: SessionJourney[]
+): ImpressionStats[] {
+  const byName = new Map<
+    string,
+    { impressions: number; sessions: Set<string>; pages: Map<string, number> }
+  >();
+
+  const weights = new Map(sessions.map((session) => [session.sessionId, sessionWeight(session)]));
+
+  for (const event of events) {
+    const data = event.data as Partial<ImpressionEventData> | null;
+    if (typeof data?.name !== 'string' || !data.name) continue;
+
+    let entry = byName.get(data.name);
+    if (!entry) {
+      entry = { impressions: 0, sessions: new Set(), pages: new Map() };
+      byName.set(data.name, entry);
+    }
+
+    entry.impressions += weights.get(event.sessionId) ?? 1;
+    entry.sessions.add(event.sessionId);
+    const page = data.urlTemplate || (data.url ? toUrlTemplate(data.url) : null);
+    if (page) entry.pages.set(page, (entry.pages.get(page) ?? 0) + 1);
+  }
+
+  const sessionPages = sessions.map((session) => ({
+    ...session,
+    pages: new Set(session.journeyPath.map(toUrlTemplate)),
+    weight: sessionWeight(session),
+  }));
+
+  const stats: ImpressionStats[] = [];
+
+  for (const [name, entry] of byName) {
+    let seen = 0;
+    let seenConverted = 0;
+    let notSeen = 0;
+    let notSeenConverted = 0;
+
+    for (const session of sessionPages) {
+      if (entry.sessions.has(session.sessionId)) {
+        seen += session.weight;
+        if (session.converted) seenConverted += session.weight;
+      } else if (Array.from(entry.pages.keys()).some((page) => session.pages.has(page))) {
+        notSeen += session.weight;
+        if (session.converted) notSeenConverted += session.weight;
+      }
+    }
+
+    stats.push({
+      name,
+      pages: Array.from(entry.pages.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([page]) => page),
+      impressions: Math.round(entry.impressions),
+      exposedSessions: Math.round(seen + notSeen),
+      seenSessions: Math.round(seen),
+      impressionRate: toPercent(seen, seen + notSeen),
+      seenConversionRate: toPercent(seenConverted, seen),
+      notSeenConversionRate: notSeen > 0 ? toPercent(notSeenConverted, notSeen) : null,
+    });
+  }
+
+  return stats.sort((a, b) => b.impressions - a.impressions);
+}
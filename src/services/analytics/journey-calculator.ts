@@ -3,7 +3,8 @@
  *
  * Pure business logic for calculating customer journey funnels from session data.
  * Processes Session records to identify funnel stages, calculate drop-off rates,
- * and generate plain-language insights.
+ * and generate plain-language insights. Sampled sessions count 1/sampleRate
+ * times (see services/analytics/sampling).
  *
  * Funnel Stages: Entry → Product View → Cart → Checkout → Purchase
  *
@@ -21,6 +22,7 @@ import type {
 } from '@/types/journey';
 import { FUNNEL_STAGES, JOURNEY_TYPE_LABELS } from '@/types/journey';
 import { subDays } from 'date-fns';
+import { sessionWeight, weightedCount } from './sampling';
 
 /**
  * Calculate funnel stages from session data
@@ -48,7 +50,7 @@ export function calculateFunnelStages(
       ? sessions
       : sessions.filter((s) => detectJourneyType(s) === journeyType);
 
-  const totalSessions = filteredSessions.length;
+  const totalSessions = weightedCount(filteredSessions);
 
   // Handle empty state
   if (totalSessions === 0) {
@@ -73,43 +75,46 @@ export function calculateFunnelStages(
     };
   }
 
-  // Track which sessions reached each stage
-  const stageReached: Map<string, Set<string>> = new Map();
+  // Track (estimated) sessions reaching each stage
+  const stageReached: Map<string, number> = new Map();
   const stagePages: Map<string, Map<string, number>> = new Map(); // stage -> url -> count
-  const stageDurations: Map<string, number[]> = new Map(); // stage -> durations[]
+  const stageDurations: Map<string, { total: number; weight: number }> = new Map(); // stage -> weighted durations
 
   // Initialize maps for all stages
   for (const stageName of FUNNEL_STAGES) {
-    stageReached.set(stageName, new Set());
+    stageReached.set(stageName, 0);
     stagePages.set(stageName, new Map());
-    stageDurations.set(stageName, []);
+    stageDurations.set(stageName, { total: 0, weight: 0 });
   }
 
   // Analyze each session
   for (const session of filteredSessions) {
+    const weight = sessionWeight(session);
+
     // All sessions reach Entry
-    stageReached.get('Entry')!.add(session.sessionId);
     if (session.entryPage) {
       const entryPages = stagePages.get('Entry')!;
-      entryPages.set(session.entryPage, (entryPages.get(session.entryPage) || 0) + 1);
+      entryPages.set(session.entryPage, (entryPages.get(session.entryPage) || 0) + weight);
     }
 
     // Check which stages each session reached based on journey path
     const reachedStages = identifySessionStages(session);
 
     for (const stage of reachedStages) {
-      stageReached.get(stage)!.add(session.sessionId);
+      stageReached.set(stage, stageReached.get(stage)! + weight);
 
       // Track pages visited in this stage
       const pagesInStage = getPagesForStage(session.journeyPath, stage);
       const stagePageMap = stagePages.get(stage)!;
       for (const page of pagesInStage) {
-        stagePageMap.set(page, (stagePageMap.get(page) || 0) + 1);
+        stagePageMap.set(page, (stagePageMap.get(page) || 0) + weight);
       }
 
       // Track duration (approximate by dividing total session duration by stages reached)
       if (session.duration) {
-        stageDurations.get(stage)!.push(session.duration / reachedStages.length);
+        const durations = stageDurations.get(stage)!;
+        durations.total += (session.duration / reachedStages.length) * weight;
+        durations.weight += weight;
       }
     }
   }
@@ -120,30 +125,30 @@ export function calculateFunnelStages(
 
   for (let i = 0; i < FUNNEL_STAGES.length; i++) {
     const stageName = FUNNEL_STAGES[i];
-    const count = stageReached.get(stageName)!.size;
+    const count = stageReached.get(stageName)!;
     const percentage = totalSessions > 0 ? (count / totalSessions) * 100 : 0;
 
     // Calculate drop-off rate from previous stage
     const dropOffRate = i > 0 ? ((previousCount - count) / previousCount) * 100 : undefined;
 
     // Calculate conversion rate to next stage
-    const nextCount = i < FUNNEL_STAGES.length - 1 ? stageReached.get(FUNNEL_STAGES[i + 1])!.size : undefined;
+    const nextCount = i < FUNNEL_STAGES.length - 1 ? stageReached.get(FUNNEL_STAGES[i + 1])! : undefined;
     const conversionRate = nextCount !== undefined && count > 0 ? (nextCount / count) * 100 : undefined;
 
     // Calculate average time spent in stage
     const durations = stageDurations.get(stageName)!;
-    const avgTimeSpent = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : undefined;
+    const avgTimeSpent = durations.weight > 0 ? durations.total / durations.weight : undefined;
 
     // Get top pages for this stage
     const pageMap = stagePages.get(stageName)!;
     const topPages: StagePage[] = Array.from(pageMap.entries())
-      .map(([url, count]) => ({ url, count }))
+      .map(([url, count]) => ({ url, count: Math.round(count) }))
       .sort((a, b) => b.count - a.count)
       .slice(0, 5); // Top 5 pages
 
     stages.push({
       name: stageName,
-      count,
+      count: Math.round(count),
       percentage: Math.round(percentage * 10) / 10, // Round to 1 decimal
       dropOffRate: dropOffRate !== undefined ? Math.round(dropOffRate * 10) / 10 : undefined,
       conversionRate: conversionRate !== undefined ? Math.round(conversionRate * 10) / 10 : undefined,
@@ -155,12 +160,12 @@ export function calculateFunnelStages(
   }
 
   // Calculate overall conversion (Entry to Purchase)
-  const purchaseCount = stageReached.get('Purchase')!.size;
+  const purchaseCount = stageReached.get('Purchase')!;
   const overallConversion = totalSessions > 0 ? (purchaseCount / totalSessions) * 100 : 0;
 
   return {
     stages,
-    totalSessions,
+    totalSessions: Math.round(totalSessions),
     overallConversion: Math.round(overallConversion * 10) / 10,
     journeyType,
     dateRange: {
@@ -310,9 +315,10 @@ export function detectJourneyType(session: Session): JourneyType {
  */
 export function calculateJourneyTypeStats(sessions: Session[]): JourneyTypeStats[] {
   const typeCounts = new Map<JourneyType, number>();
+  const totalSessions = weightedCount(sessions);
 
   // Initialize all types
-  typeCounts.set('all', sessions.length);
+  typeCounts.set('all', totalSessions);
   typeCounts.set('homepage', 0);
   typeCounts.set('search', 0);
   typeCounts.set('direct-to-product', 0);
@@ -321,17 +327,17 @@ export function calculateJourneyTypeStats(sessions: Session[]): JourneyTypeStats
   // Count each journey type
   for (const session of sessions) {
     const type = detectJourneyType(session);
-    typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
+    typeCounts.set(type, (typeCounts.get(type) || 0) + sessionWeight(session));
   }
 
   // Build statistics array
   const stats: JourneyTypeStats[] = [];
   for (const [type, count] of typeCounts.entries()) {
-    const percentage = sessions.length > 0 ? (count / sessions.length) * 100 : 0;
+    const percentage = totalSessions > 0 ? (count / totalSessions) * 100 : 0;
     stats.push({
       type,
       label: JOURNEY_TYPE_LABELS[type],
-      count,
+      count: Math.round(count),
       percentage: Math.round(percentage * 10) / 10,
     });
   }
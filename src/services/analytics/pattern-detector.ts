@@ -8,7 +8,13 @@
  * - Analyzes Session data to detect abandonment patterns (>30% drop-off)
  * - Queries TrackingEvent for hesitation patterns (form re-entry)
  * - Calculates low engagement patterns (below-average time-on-page)
+ * - Flags pages with poor p75 Web Vitals and above-average exit rates
+ * - Flags JavaScript errors that significantly lower conversion
+ * - Flags elements that draw rage clicks or dead clicks
+ * - Flags pages where most visitors never scroll to the add-to-cart area
  * - Applies statistical significance thresholds (minimum 100 sessions)
+ * - Upscales counts of sampled sessions by 1/sampleRate (thresholds and
+ *   confidence use the observed sessions)
  * - Generates human-readable pattern summaries
  * - Stores detected patterns with confidence scores
  *
@@ -27,8 +33,24 @@ import type {
 import {
   PATTERN_THRESHOLDS,
   CONFIDENCE_LEVELS,
+  WEB_VITAL_THRESHOLDS,
   PatternType as PatternTypeEnum,
 } from '@/types/pattern';
+import { WEB_VITALS, type WebVital } from '@/types/tracking';
+import type { VitalsHistogram } from '@/types/session';
+import { toUrlTemplate } from '@/services/analytics/url-template';
+import { calculateErrorImpact } from '@/services/analytics/error-calculator';
+import { calculateScrollReach } from '@/services/analytics/scroll-reach';
+import { sessionWeight, weightedCount } from '@/services/analytics/sampling';
+import { histogramP75, mergeVitalsHistograms } from '@/services/analytics/vitals';
+
+/**
+ * Detected pattern with the number of sessions actually observed
+ * (sessionCount is upscaled for sampled traffic)
+ */
+interface DetectedPattern extends PatternData {
+  observedSessions: number;
+}
 
 /**
  * Detect behavioral patterns for a site within an analysis window
@@ -37,6 +59,10 @@ import {
  * - Abandonment patterns (>30% drop-off in journey stages)
  * - Hesitation patterns (form field re-entry)
  * - Low engagement patterns (<70% of site average time-on-page)
+ * - Performance patterns (poor p75 Web Vitals with above-average exit rate)
+ * - Error patterns (JavaScript errors with a significant conversion drop)
+ * - Frustration patterns (rage/dead clicks on the same element of a page)
+ * - Below-the-fold patterns (add-to-cart area seen on under half the pageviews)
  *
  * @param siteId - Site to analyze
  * @param analysisWindow - Date range for analysis
@@ -62,6 +88,7 @@ export async function detectPatterns(
     const sessions = await prisma.session.findMany({
       where: {
         siteId,
+        isBot: false,
         createdAt: {
           gte: analysisWindow.startDate,
           lte: analysisWindow.endDate,
@@ -73,6 +100,8 @@ export async function detectPatterns(
         duration: true,
         pageCount: true,
         exitPage: true,
+        converted: true,
+        sampleRate: true,
         createdAt: true,
       },
     });
@@ -89,27 +118,47 @@ export async function detectPatterns(
       return [];
     }
 
+    // Sessions each analyzed session stands for (1 unless sampled)
+    const weights = new Map(sessions.map((session) => [session.sessionId, sessionWeight(session)]));
+
     // Detect all pattern types
-    const allPatterns: PatternData[] = [];
+    const allPatterns: DetectedPattern[] = [];
 
     // 1. Abandonment patterns
     const abandonmentPatterns = await detectAbandonmentPatterns(siteId, sessions);
     allPatterns.push(...abandonmentPatterns);
 
     // 2. Hesitation patterns
-    const hesitationPatterns = await detectHesitationPatterns(
-      siteId,
-      analysisWindow
-    );
+    const hesitationPatterns = await detectHesitationPatterns(siteId, analysisWindow, weights);
     allPatterns.push(...hesitationPatterns);
 
     // 3. Low engagement patterns
     const engagementPatterns = await detectLowEngagementPatterns(siteId, sessions);
     allPatterns.push(...engagementPatterns);
 
-    // Filter patterns by statistical significance
-    const significantPatterns = allPatterns.filter(
-      (pattern) => pattern.sessionCount >= PATTERN_THRESHOLDS.MIN_SESSIONS
+    // 4. Performance patterns
+    const performancePatterns = await detectPerformancePatterns(
+      siteId,
+      analysisWindow,
+      sessions
+    );
+    allPatterns.push(...performancePatterns);
+
+    // 5. Error patterns
+    const errorPatterns = await detectErrorPatterns(siteId, analysisWindow, sessions);
+    allPatterns.push(...errorPatterns);
+
+    // 6. Frustration patterns
+    const frustrationPatterns = await detectFrustrationPatterns(siteId, analysisWindow, sessions, weights);
+    allPatterns.push(...frustrationPatterns);
+
+    // 7. Below-the-fold patterns
+    const belowFoldPatterns = await detectBelowFoldPatterns(siteId, analysisWindow, sessions);
+    allPatterns.push(...belowFoldPatterns);
+
+    // Filter patterns by statistical significance (observed, not upscaled, sessions)
+    const significantPatterns: PatternData[] = allPatterns.filter(
+      (pattern) => pattern.observedSessions >= PATTERN_THRESHOLDS.MIN_SESSIONS
     );
 
     const totalTimeMs = performance.now() - startTimeMs;
@@ -138,21 +187,26 @@ async function detectAbandonmentPatterns(
   sessions: Array<{
     journeyPath: string[];
     sessionId: string;
+    sampleRate?: number | null;
   }>
-): Promise<PatternData[]> {
+): Promise<DetectedPattern[]> {
   console.log(`[PatternDetector] Analyzing abandonment patterns`);
 
-  // Build transition map: stage -> next stage -> count
+  // Build transition map: stage -> next stage -> estimated count
   const transitionCounts = new Map<string, Map<string, number>>();
   const stageCounts = new Map<string, number>();
+  const observedCounts = new Map<string, number>();
+  const totalSessions = weightedCount(sessions);
 
   for (const session of sessions) {
     const journey = session.journeyPath;
+    const weight = sessionWeight(session);
 
     // Track each stage
     for (let i = 0; i < journey.length; i++) {
       const stage = journey[i];
-      stageCounts.set(stage, (stageCounts.get(stage) || 0) + 1);
+      stageCounts.set(stage, (stageCounts.get(stage) || 0) + weight);
+      observedCounts.set(stage, (observedCounts.get(stage) || 0) + 1);
 
       // Track transitions to next stage
       if (i < journey.length - 1) {
@@ -161,17 +215,18 @@ async function detectAbandonmentPatterns(
           transitionCounts.set(stage, new Map());
         }
         const nextMap = transitionCounts.get(stage)!;
-        nextMap.set(nextStage, (nextMap.get(nextStage) || 0) + 1);
+        nextMap.set(nextStage, (nextMap.get(nextStage) || 0) + weight);
       }
     }
   }
 
   // Identify drop-offs: stages where <70% continue to any next stage
-  const patterns: PatternData[] = [];
+  const patterns: DetectedPattern[] = [];
 
   for (const [stage, count] of stageCounts.entries()) {
     // Skip if insufficient sample size
-    if (count < PATTERN_THRESHOLDS.MIN_SESSIONS) {
+    const observed = observedCounts.get(stage)!;
+    if (observed < PATTERN_THRESHOLDS.MIN_SESSIONS) {
       continue;
     }
 
@@ -185,17 +240,17 @@ async function detectAbandonmentPatterns(
 
     // Check if abandonment rate exceeds threshold
     if (abandonRate >= PATTERN_THRESHOLDS.ABANDONMENT_RATE) {
-      const severity = calculateSeverity(abandonRate / 100, count, sessions.length);
-      const confidence = calculateConfidenceScore(count);
+      const severity = calculateSeverity(abandonRate / 100, count, totalSessions);
+      const confidence = calculateConfidenceScore(observed);
 
       const metadata: PatternMetadata = {
         stage,
         dropOffRate: Math.round(abandonRate * 100) / 100,
-        affectedSessions: abandonCount,
-        sampleSize: count,
+        affectedSessions: Math.round(abandonCount),
+        sampleSize: observed,
       };
 
-      const pattern: PatternData = {
+      const pattern: DetectedPattern = {
         siteId,
         patternType: PatternTypeEnum.ABANDONMENT,
         description: generatePatternSummary(
@@ -203,9 +258,10 @@ async function detectAbandonmentPatterns(
           metadata
         ),
         severity,
-        sessionCount: count,
+        sessionCount: Math.round(count),
         confidenceScore: confidence,
         metadata,
+        observedSessions: observed,
       };
 
       patterns.push(pattern);
@@ -221,16 +277,19 @@ async function detectAbandonmentPatterns(
 /**
  * Detect hesitation patterns from form interactions
  *
- * Analyzes TrackingEvent data for form fields with re-entry patterns
+ * Analyzes TrackingEvent data for form fields with re-entry patterns.
+ * Only events from the analyzed sessions count.
  *
  * @param siteId - Site ID
  * @param analysisWindow - Date range for analysis
+ * @param weights - Sample weight per analyzed session
  * @returns Array of hesitation patterns
  */
 async function detectHesitationPatterns(
   siteId: string,
-  analysisWindow: DateRange
-): Promise<PatternData[]> {
+  analysisWindow: DateRange,
+  weights: Map<string, number>
+): Promise<DetectedPattern[]> {
   console.log(`[PatternDetector] Analyzing hesitation patterns`);
 
   try {
@@ -241,6 +300,8 @@ async function detectHesitationPatterns(
         eventType: {
           in: ['form_focus', 'form_blur', 'form_input'],
         },
+        botReason: null,
+        sessionId: { in: Array.from(weights.keys()) },
         timestamp: {
           gte: analysisWindow.startDate,
           lte: analysisWindow.endDate,
@@ -285,30 +346,33 @@ async function detectHesitationPatterns(
     // Analyze re-entry patterns by field
     const fieldStats = new Map<
       string,
-      { sessions: number; reEntries: number }
+      { sessions: number; reEntries: number; observed: number }
     >();
 
-    for (const [, fieldMap] of sessionFieldInteractions.entries()) {
+    for (const [sessionId, fieldMap] of sessionFieldInteractions.entries()) {
+      const weight = weights.get(sessionId)!;
+
       for (const [field, counts] of fieldMap.entries()) {
         if (!fieldStats.has(field)) {
-          fieldStats.set(field, { sessions: 0, reEntries: 0 });
+          fieldStats.set(field, { sessions: 0, reEntries: 0, observed: 0 });
         }
 
         const stats = fieldStats.get(field)!;
-        stats.sessions++;
+        stats.sessions += weight;
+        stats.observed++;
 
         // Re-entry detected if focus count > 1
         if (counts.focusCount > 1) {
-          stats.reEntries++;
+          stats.reEntries += weight;
         }
       }
     }
 
     // Identify fields with high re-entry rates
-    const patterns: PatternData[] = [];
+    const patterns: DetectedPattern[] = [];
 
     for (const [field, stats] of fieldStats.entries()) {
-      if (stats.sessions < PATTERN_THRESHOLDS.MIN_SESSIONS) {
+      if (stats.observed < PATTERN_THRESHOLDS.MIN_SESSIONS) {
         continue;
       }
 
@@ -320,16 +384,16 @@ async function detectHesitationPatterns(
           stats.reEntries,
           stats.sessions
         );
-        const confidence = calculateConfidenceScore(stats.sessions);
+        const confidence = calculateConfidenceScore(stats.observed);
 
         const metadata: PatternMetadata = {
           field,
           reEntryRate: Math.round(reEntryRate * 100) / 100,
-          affectedSessions: stats.reEntries,
-          sampleSize: stats.sessions,
+          affectedSessions: Math.round(stats.reEntries),
+          sampleSize: stats.observed,
         };
 
-        const pattern: PatternData = {
+        const pattern: DetectedPattern = {
           siteId,
           patternType: PatternTypeEnum.HESITATION,
           description: generatePatternSummary(
@@ -337,9 +401,10 @@ async function detectHesitationPatterns(
             metadata
           ),
           severity,
-          sessionCount: stats.sessions,
+          sessionCount: Math.round(stats.sessions),
           confidenceScore: confidence,
           metadata,
+          observedSessions: stats.observed,
         };
 
         patterns.push(pattern);
@@ -374,14 +439,15 @@ async function detectLowEngagementPatterns(
     journeyPath: string[];
     duration: number | null;
     pageCount: number;
+    sampleRate?: number | null;
   }>
-): Promise<PatternData[]> {
+): Promise<DetectedPattern[]> {
   console.log(`[PatternDetector] Analyzing low engagement patterns`);
 
   // Calculate time-on-page per URL
   const pageStats = new Map<
     string,
-    { totalTime: number; sessionCount: number }
+    { totalTime: number; sessionCount: number; observed: number }
   >();
 
   for (const session of sessions) {
@@ -389,15 +455,17 @@ async function detectLowEngagementPatterns(
 
     // Approximate time per page
     const timePerPage = session.duration / session.pageCount;
+    const weight = sessionWeight(session);
 
     for (const page of session.journeyPath) {
       if (!pageStats.has(page)) {
-        pageStats.set(page, { totalTime: 0, sessionCount: 0 });
+        pageStats.set(page, { totalTime: 0, sessionCount: 0, observed: 0 });
       }
 
       const stats = pageStats.get(page)!;
-      stats.totalTime += timePerPage;
-      stats.sessionCount++;
+      stats.totalTime += timePerPage * weight;
+      stats.sessionCount += weight;
+      stats.observed++;
     }
   }
 
@@ -418,10 +486,10 @@ async function detectLowEngagementPatterns(
   const threshold = siteAverage * PATTERN_THRESHOLDS.LOW_ENGAGEMENT_THRESHOLD;
 
   // Identify pages below threshold
-  const patterns: PatternData[] = [];
+  const patterns: DetectedPattern[] = [];
 
   for (const [page, stats] of pageStats.entries()) {
-    if (stats.sessionCount < PATTERN_THRESHOLDS.MIN_PAGEVIEWS_PER_URL) {
+    if (stats.observed < PATTERN_THRESHOLDS.MIN_PAGEVIEWS_PER_URL) {
       continue;
     }
 
@@ -433,20 +501,20 @@ async function detectLowEngagementPatterns(
       const severity = calculateSeverity(
         engagementGap / 100,
         stats.sessionCount,
-        sessions.length
+        weightedCount(sessions)
       );
-      const confidence = calculateConfidenceScore(stats.sessionCount);
+      const confidence = calculateConfidenceScore(stats.observed);
 
       const metadata: PatternMetadata = {
         page,
         timeOnPage: Math.round(avgTimeOnPage * 100) / 100,
         siteAverage: Math.round(siteAverage * 100) / 100,
         engagementGap: Math.round(engagementGap * 100) / 100,
-        affectedSessions: stats.sessionCount,
-        sampleSize: stats.sessionCount,
+        affectedSessions: Math.round(stats.sessionCount),
+        sampleSize: stats.observed,
       };
 
-      const pattern: PatternData = {
+      const pattern: DetectedPattern = {
         siteId,
         patternType: PatternTypeEnum.LOW_ENGAGEMENT,
         description: generatePatternSummary(
@@ -454,9 +522,10 @@ async function detectLowEngagementPatterns(
           metadata
         ),
         severity,
-        sessionCount: stats.sessionCount,
+        sessionCount: Math.round(stats.sessionCount),
         confidenceScore: confidence,
         metadata,
+        observedSessions: stats.observed,
       };
 
       patterns.push(pattern);
@@ -469,6 +538,481 @@ async function detectLowEngagementPatterns(
   return patterns;
 }
 
+/**
+ * Detect performance patterns from Web Vitals and exit rates
+ *
+ * Flags URL templates whose p75 vitals (over the page loads of all the
+ * window's PageVitals rows, from their merged histograms) are rated poor and
+ * whose pageviews end the session noticeably more often than the site's.
+ * Exit rates follow the analyzed (non-bot) sessions.
+ *
+ * @param siteId - Site ID
+ * @param analysisWindow - Date range for analysis
+ * @param sessions - Sessions to analyze
+ * @returns Array of performance patterns
+ */
+async function detectPerformancePatterns(
+  siteId: string,
+  analysisWindow: DateRange,
+  sessions: Array<{
+    journeyPath: string[];
+    exitPage: string | null;
+    sampleRate?: number | null;
+  }>
+): Promise<DetectedPattern[]> {
+  console.log(`[PatternDetector] Analyzing performance patterns`);
+
+  try {
+    const rows = await prisma.pageVitals.findMany({
+      where: {
+        siteId,
+        periodStart: { gte: analysisWindow.startDate },
+        periodEnd: { lte: analysisWindow.endDate },
+      },
+    });
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    // Merge window histograms per template; p75s come from the pooled page
+    // loads (windows stored before histograms have none and are skipped)
+    const vitalsByTemplate = new Map<
+      string,
+      { sampleSize: number; histograms: Array<Partial<VitalsHistogram>> }
+    >();
+
+    for (const row of rows) {
+      const histogram = row.histogram as Partial<VitalsHistogram> | null;
+      if (!histogram || Object.keys(histogram).length === 0) continue;
+
+      const entry = vitalsByTemplate.get(row.urlTemplate) ?? { sampleSize: 0, histograms: [] };
+      entry.sampleSize += row.sampleSize;
+      entry.histograms.push(histogram);
+      vitalsByTemplate.set(row.urlTemplate, entry);
+    }
+
+    // Pageviews and exits per template
+    const pageStats = new Map<string, { pageviews: number; exits: number; observed: number }>();
+    let totalPageviews = 0;
+
+    for (const session of sessions) {
+      const weight = sessionWeight(session);
+
+      for (const page of session.journeyPath) {
+        const template = toUrlTemplate(page);
+        const stats = pageStats.get(template) ?? { pageviews: 0, exits: 0, observed: 0 };
+        stats.pageviews += weight;
+        stats.observed++;
+        pageStats.set(template, stats);
+        totalPageviews += weight;
+      }
+
+      if (session.exitPage) {
+        const stats = pageStats.get(toUrlTemplate(session.exitPage));
+        if (stats) stats.exits += weight;
+      }
+    }
+
+    if (totalPageviews === 0) {
+      return [];
+    }
+
+    const totalSessions = weightedCount(sessions);
+    const siteExitRate = (totalSessions / totalPageviews) * 100;
+    const patterns: DetectedPattern[] = [];
+
+    for (const [page, entry] of vitalsByTemplate.entries()) {
+      const stats = pageStats.get(page);
+      if (
+        !stats ||
+        entry.sampleSize < PATTERN_THRESHOLDS.MIN_VITALS_SAMPLES ||
+        stats.observed < PATTERN_THRESHOLDS.MIN_PAGEVIEWS_PER_URL
+      ) {
+        continue;
+      }
+
+      const histogram = mergeVitalsHistograms(entry.histograms);
+      const p75s = Object.fromEntries(
+        WEB_VITALS.map((vital) => [vital, histogramP75(histogram, vital)])
+      ) as Record<WebVital, number | null>;
+
+      const poorVitals = WEB_VITALS.filter(
+        (vital) => p75s[vital] !== null && p75s[vital]! > WEB_VITAL_THRESHOLDS[vital]
+      );
+      const exitRate = (stats.exits / stats.pageviews) * 100;
+
+      if (
+        poorVitals.length === 0 ||
+        exitRate < siteExitRate * PATTERN_THRESHOLDS.PERFORMANCE_EXIT_LIFT
+      ) {
+        continue;
+      }
+
+      const severity = calculateSeverity(exitRate / 100, stats.exits, totalSessions);
+      const confidence = calculateConfidenceScore(stats.observed);
+
+      const metadata: PatternMetadata = {
+        page,
+        poorVitals,
+        ...p75s,
+        exitRate: Math.round(exitRate * 100) / 100,
+        siteExitRate: Math.round(siteExitRate * 100) / 100,
+        affectedSessions: Math.round(stats.exits),
+        sampleSize: stats.observed,
+      };
+
+      patterns.push({
+        siteId,
+        patternType: PatternTypeEnum.PERFORMANCE,
+        description: generatePatternSummary(PatternTypeEnum.PERFORMANCE, metadata),
+        severity,
+        sessionCount: Math.round(stats.pageviews),
+        confidenceScore: confidence,
+        metadata,
+        observedSessions: stats.observed,
+      });
+    }
+
+    console.log(
+      `[PatternDetector] Found ${patterns.length} performance patterns`
+    );
+    return patterns;
+  } catch (error) {
+    console.error(
+      '[PatternDetector] Error detecting performance patterns:',
+      error
+    );
+    return [];
+  }
+}
+
+/**
+ * Detect error patterns from JavaScript error events
+ *
+ * Groups error events by fingerprint and flags groups whose sessions convert
+ * significantly less than the other analyzed sessions (see
+ * calculateErrorImpact). Only errors from the analyzed (non-bot) sessions
+ * are read.
+ *
+ * @param siteId - Site ID
+ * @param analysisWindow - Date range for analysis
+ * @param sessions - Sessions to analyze
+ * @returns Array of error patterns
+ */
+async function detectErrorPatterns(
+  siteId: string,
+  analysisWindow: DateRange,
+  sessions: Array<{
+    sessionId: string;
+    converted: boolean;
+    sampleRate?: number | null;
+  }>
+): Promise<DetectedPattern[]> {
+  console.log(`[PatternDetector] Analyzing error patterns`);
+
+  try {
+    const events = await prisma.trackingEvent.findMany({
+      where: {
+        siteId,
+        eventType: 'error',
+        botReason: null,
+        sessionId: { in: sessions.map((session) => session.sessionId) },
+        timestamp: {
+          gte: analysisWindow.startDate,
+          lte: analysisWindow.endDate,
+        },
+      },
+      select: {
+        sessionId: true,
+        data: true,
+      },
+    });
+
+    if (events.length === 0) {
+      return [];
+    }
+
+    const patterns: DetectedPattern[] = [];
+    const totalSessions = weightedCount(sessions);
+
+    for (const group of calculateErrorImpact(events, sessions)) {
+      if (!group.significant) continue;
+
+      const severity = calculateSeverity(
+        group.conversionImpact / 100,
+        group.affectedSessions,
+        totalSessions
+      );
+      // Confidence and the session threshold follow the sessions that hit the error
+      const confidence = calculateConfidenceScore(group.observedSessions);
+
+      const metadata: PatternMetadata = {
+        fingerprint: group.fingerprint,
+        errorMessage: group.message,
+        source: group.source,
+        page: group.page ?? undefined,
+        conversionRate: group.conversionRate,
+        baselineConversionRate: group.baselineConversionRate,
+        conversionImpact: group.conversionImpact,
+        affectedSessions: group.affectedSessions,
+        sampleSize: sessions.length,
+      };
+
+      patterns.push({
+        siteId,
+        patternType: PatternTypeEnum.ERROR,
+        description: generatePatternSummary(PatternTypeEnum.ERROR, metadata),
+        severity,
+        sessionCount: group.affectedSessions,
+        confidenceScore: confidence,
+        metadata,
+        observedSessions: group.observedSessions,
+      });
+    }
+
+    console.log(`[PatternDetector] Found ${patterns.length} error patterns`);
+    return patterns;
+  } catch (error) {
+    console.error('[PatternDetector] Error detecting error patterns:', error);
+    return [];
+  }
+}
+
+/**
+ * Detect frustration patterns from rage and dead clicks
+ *
+ * Groups rage_click/dead_click events by page template and selector, and
+ * flags selectors that frustrate at least FRUSTRATION_RATE% of the sessions
+ * viewing the page. Only events from the analyzed sessions count.
+ *
+ * @param siteId - Site ID
+ * @param analysisWindow - Date range for analysis
+ * @param sessions - Sessions to analyze
+ * @param weights - Sample weight per analyzed session
+ * @returns Array of frustration patterns
+ */
+async function detectFrustrationPatterns(
+  siteId: string,
+  analysisWindow: DateRange,
+  sessions: Array<{
+    sessionId: string;
+    journeyPath: string[];
+  }>,
+  weights: Map<string, number>
+): Promise<DetectedPattern[]> {
+  console.log(`[PatternDetector] Analyzing frustration patterns`);
+
+  try {
+    const events = await prisma.trackingEvent.findMany({
+      where: {
+        siteId,
+        eventType: { in: ['rage_click', 'dead_click'] },
+        botReason: null,
+        sessionId: { in: sessions.map((session) => session.sessionId) },
+        timestamp: {
+          gte: analysisWindow.startDate,
+          lte: analysisWindow.endDate,
+        },
+      },
+      select: {
+        sessionId: true,
+        eventType: true,
+        data: true,
+      },
+    });
+
+    if (events.length === 0) {
+      return [];
+    }
+
+    // Sessions viewing each page template (estimated and observed)
+    const pageSessions = new Map<string, { sessions: number; observed: number }>();
+    for (const session of sessions) {
+      const weight = weights.get(session.sessionId)!;
+      for (const page of new Set(session.journeyPath.map(toUrlTemplate))) {
+        const viewing = pageSessions.get(page) ?? { sessions: 0, observed: 0 };
+        viewing.sessions += weight;
+        viewing.observed++;
+        pageSessions.set(page, viewing);
+      }
+    }
+
+    // Rage/dead clicks per page template and selector
+    const selectorStats = new Map<
+      string,
+      { page: string; selector: string; rageClicks: number; deadClicks: number; sessions: Set<string> }
+    >();
+
+    for (const event of events) {
+      const data = event.data as { selector?: string; urlTemplate?: string | null; url?: string | null };
+      const weight = weights.get(event.sessionId);
+      if (weight === undefined || !data?.selector || !(data.urlTemplate || data.url)) continue;
+
+      const page = data.urlTemplate || toUrlTemplate(data.url!);
+      const key = `${page} ${data.selector}`;
+      if (!selectorStats.has(key)) {
+        selectorStats.set(key, {
+          page,
+          selector: data.selector,
+          rageClicks: 0,
+          deadClicks: 0,
+          sessions: new Set(),
+        });
+      }
+
+      const stats = selectorStats.get(key)!;
+      if (event.eventType === 'rage_click') stats.rageClicks += weight;
+      else stats.deadClicks += weight;
+      stats.sessions.add(event.sessionId);
+    }
+
+    const patterns: DetectedPattern[] = [];
+
+    for (const stats of selectorStats.values()) {
+      const viewing = pageSessions.get(stats.page);
+      if (!viewing || stats.sessions.size < PATTERN_THRESHOLDS.MIN_FRUSTRATION_SESSIONS) {
+        continue;
+      }
+
+      const affected = Array.from(stats.sessions).reduce((sum, sessionId) => sum + weights.get(sessionId)!, 0);
+      const frustrationRate = (affected / viewing.sessions) * 100;
+      if (frustrationRate < PATTERN_THRESHOLDS.FRUSTRATION_RATE) {
+        continue;
+      }
+
+      const severity = calculateSeverity(frustrationRate / 100, affected, viewing.sessions);
+      const confidence = calculateConfidenceScore(viewing.observed);
+
+      const metadata: PatternMetadata = {
+        page: stats.page,
+        selector: stats.selector,
+        rageClicks: Math.round(stats.rageClicks),
+        deadClicks: Math.round(stats.deadClicks),
+        frustrationRate: Math.round(frustrationRate * 100) / 100,
+        affectedSessions: Math.round(affected),
+        sampleSize: viewing.observed,
+      };
+
+      patterns.push({
+        siteId,
+        patternType: PatternTypeEnum.FRUSTRATION,
+        description: generatePatternSummary(PatternTypeEnum.FRUSTRATION, metadata),
+        severity,
+        sessionCount: Math.round(viewing.sessions),
+        confidenceScore: confidence,
+        metadata,
+        observedSessions: viewing.observed,
+      });
+    }
+
+    console.log(`[PatternDetector] Found ${patterns.length} frustration patterns`);
+    return patterns;
+  } catch (error) {
+    console.error('[PatternDetector] Error detecting frustration patterns:', error);
+    return [];
+  }
+}
+
+/**
+ * Detect below-the-fold patterns from scroll reach
+ *
+ * Uses the scroll depth and add-to-cart visibility the tracker sends with
+ * time-on-page events. Flags pages with an add-to-cart area (at least
+ * MIN_PAGEVIEWS_PER_URL pageviews of it) where it enters the viewport on
+ * less than CTA_SEEN_RATE% of the pageviews. Only events from the analyzed
+ * sessions count.
+ *
+ * @param siteId - Site ID
+ * @param analysisWindow - Date range for analysis
+ * @param sessions - Sessions to analyze
+ * @returns Array of below-the-fold patterns
+ */
+async function detectBelowFoldPatterns(
+  siteId: string,
+  analysisWindow: DateRange,
+  sessions: Array<{
+    sessionId: string;
+    converted: boolean;
+    sampleRate?: number | null;
+  }>
+): Promise<DetectedPattern[]> {
+  console.log(`[PatternDetector] Analyzing below-the-fold patterns`);
+
+  try {
+    const events = await prisma.trackingEvent.findMany({
+      where: {
+        siteId,
+        eventType: 'time',
+        botReason: null,
+        sessionId: { in: sessions.map((session) => session.sessionId) },
+        timestamp: {
+          gte: analysisWindow.startDate,
+          lte: analysisWindow.endDate,
+        },
+      },
+      select: {
+        sessionId: true,
+        data: true,
+      },
+    });
+
+    if (events.length === 0) {
+      return [];
+    }
+
+    const analyzed = new Set(sessions.map((session) => session.sessionId));
+    const patterns: DetectedPattern[] = [];
+
+    for (const page of calculateScrollReach(
+      events.filter((event) => analyzed.has(event.sessionId)),
+      sessions
+    )) {
+      if (page.ctaSeenRate === null || page.observed.ctaPageviews < PATTERN_THRESHOLDS.MIN_PAGEVIEWS_PER_URL) {
+        continue;
+      }
+      if (page.ctaSeenRate >= PATTERN_THRESHOLDS.CTA_SEEN_RATE) {
+        continue;
+      }
+
+      const notSeenRate = 100 - page.ctaSeenRate;
+      const severity = calculateSeverity(
+        notSeenRate / 100,
+        Math.round((page.ctaPageviews * notSeenRate) / 100),
+        page.pageviews
+      );
+      const confidence = calculateConfidenceScore(page.observed.sessions);
+
+      const metadata: PatternMetadata = {
+        page: page.urlTemplate,
+        ctaSeenRate: page.ctaSeenRate,
+        convertingCtaSeenRate: page.converting.ctaSeenRate,
+        nonConvertingCtaSeenRate: page.nonConverting.ctaSeenRate,
+        averageScrollDepth: page.averageDepth,
+        affectedSessions: page.sessions,
+        sampleSize: page.observed.ctaPageviews,
+      };
+
+      patterns.push({
+        siteId,
+        patternType: PatternTypeEnum.BELOW_FOLD,
+        description: generatePatternSummary(PatternTypeEnum.BELOW_FOLD, metadata),
+        severity,
+        sessionCount: page.sessions,
+        confidenceScore: confidence,
+        metadata,
+        observedSessions: page.observed.sessions,
+      });
+    }
+
+    console.log(`[PatternDetector] Found ${patterns.length} below-the-fold patterns`);
+    return patterns;
+  } catch (error) {
+    console.error('[PatternDetector] Error detecting below-the-fold patterns:', error);
+    return [];
+  }
+}
+
 /**
  * Calculate confidence score based on sample size
  *
@@ -530,6 +1074,18 @@ export function generatePatternSummary(
     case PatternTypeEnum.LOW_ENGAGEMENT:
       return `${metadata.page} has ${metadata.engagementGap}% lower time-on-page than site average (${metadata.timeOnPage}s vs ${metadata.siteAverage}s, ${metadata.affectedSessions} pageviews)`;
 
+    case PatternTypeEnum.PERFORMANCE:
+      return `${metadata.page} has poor ${(metadata.poorVitals ?? []).map((vital) => vital.toUpperCase()).join(', ')} and a ${metadata.exitRate}% exit rate vs ${metadata.siteExitRate}% site-wide (${metadata.sampleSize} pageviews)`;
+
+    case PatternTypeEnum.ERROR:
+      return `"${metadata.errorMessage}"${metadata.page ? ` on ${metadata.page}` : ''} affects ${metadata.affectedSessions} sessions, which convert at ${metadata.conversionRate}% vs ${metadata.baselineConversionRate}% without the error`;
+
+    case PatternTypeEnum.FRUSTRATION:
+      return `${metadata.frustrationRate}% of visitors to ${metadata.page} get frustrated with ${metadata.selector} (${metadata.rageClicks} rage clicks, ${metadata.deadClicks} dead clicks, ${metadata.affectedSessions} sessions)`;
+
+    case PatternTypeEnum.BELOW_FOLD:
+      return `Only ${metadata.ctaSeenRate}% of visitors to ${metadata.page} scroll far enough to see the add-to-cart area (average scroll depth ${metadata.averageScrollDepth}%, ${metadata.sampleSize} pageviews)`;
+
     default:
       return 'Unknown pattern type';
   }
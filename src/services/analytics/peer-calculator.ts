@@ -9,6 +9,7 @@
 import { Session, Business } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import type { MetricData, MetricComparison, Percentile, Performance, PeerGroupInfo } from '@/types/peer';
+import { weightedCount } from './sampling';
 
 /**
  * Check if URL is a cart page
@@ -29,11 +30,14 @@ function isCheckoutPage(url: string): boolean {
 /**
  * Calculate key metrics from user's session data
  *
+ * Sampled sessions count 1/sampleRate times, so rates stay unbiased when
+ * the site's sample rate changed during the period.
+ *
  * @param sessions Array of session records for the user's site
  * @returns Calculated metrics (conversion rate, AOV, cart abandonment, bounce rate)
  */
 export function calculateUserMetrics(sessions: Session[]): MetricData {
-  const totalSessions = sessions.length;
+  const totalSessions = weightedCount(sessions);
 
   if (totalSessions === 0) {
     return {
@@ -44,17 +48,17 @@ export function calculateUserMetrics(sessions: Session[]): MetricData {
     };
   }
 
-  const convertedSessions = sessions.filter(s => s.converted).length;
-  const bouncedSessions = sessions.filter(s => s.bounced).length;
+  const convertedSessions = weightedCount(sessions, s => s.converted);
+  const bouncedSessions = weightedCount(sessions, s => s.bounced);
 
   // Detect cart and checkout from journey paths
-  const cartSessions = sessions.filter(s =>
+  const cartSessions = weightedCount(sessions, s =>
     s.journeyPath.some(url => isCartPage(url))
-  ).length;
+  );
 
-  const checkoutSessions = sessions.filter(s =>
+  const checkoutSessions = weightedCount(sessions, s =>
     s.journeyPath.some(url => isCheckoutPage(url))
-  ).length;
+  );
 
   // For AOV calculation, we would need to query ShopifyOrders via Business relationship
   // This is simplified for MVP - AOV calculation can be enhanced in future iterations
@@ -89,7 +93,7 @@ export async function calculatePeerMetrics(peerBusinesses: Business[]): Promise<
   const allPeerMetrics = await Promise.all(
     peerBusinesses.map(async (peer) => {
       const sessions = await prisma.session.findMany({
-        where: { siteId: peer.siteId },
+        where: { siteId: peer.siteId, isBot: false },
         orderBy: { createdAt: 'desc' },
         take: 1000 // Last 1000 sessions for recent performance
       });
@@ -195,7 +199,7 @@ export async function compareMetrics(
   const allPeerMetrics = await Promise.all(
     peerBusinesses.map(async (peer) => {
       const sessions = await prisma.session.findMany({
-        where: { siteId: peer.siteId },
+        where: { siteId: peer.siteId, isBot: false },
         orderBy: { createdAt: 'desc' },
         take: 1000
       });
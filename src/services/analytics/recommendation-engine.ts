@@ -188,6 +188,115 @@ const RECOMMENDATION_RULES: RecommendationRule[] = [
     conversionValue: 'MEDIUM',
   },
 
+  // PERFORMANCE PATTERN RULES
+  {
+    patternType: PatternType.PERFORMANCE,
+    contextMatcher: (metadata) => metadata?.poorVitals?.includes('lcp'),
+    titleTemplate: 'Speed up main content loading on {{page}}',
+    problemTemplate:
+      'Main content takes {{lcp}}ms to appear (p75) and {{exitRate}}% of visitors leave from this page',
+    actionSteps: [
+      'Compress and resize hero and product images (WebP/AVIF)',
+      'Preload the largest above-the-fold image',
+      'Defer non-critical scripts and third-party widgets',
+    ],
+    expectedImpactTemplate: 'Reduce exits from this page by 5-15%',
+    conversionValue: 'HIGH',
+  },
+  {
+    patternType: PatternType.PERFORMANCE,
+    contextMatcher: (metadata) => metadata?.poorVitals?.includes('inp'),
+    titleTemplate: 'Make {{page}} respond faster to clicks',
+    problemTemplate:
+      'Clicks and taps take {{inp}}ms to respond (p75) and {{exitRate}}% of visitors leave from this page',
+    actionSteps: [
+      'Break up long-running scripts on the page',
+      'Remove or delay unused third-party scripts',
+      'Show immediate feedback on add-to-cart and option buttons',
+    ],
+    expectedImpactTemplate: 'Reduce exits from this page by 5-10%',
+    conversionValue: 'MEDIUM',
+  },
+  {
+    patternType: PatternType.PERFORMANCE,
+    contextMatcher: (metadata) => metadata?.poorVitals?.includes('cls'),
+    titleTemplate: 'Stop layout shifts on {{page}}',
+    problemTemplate:
+      'Page content jumps around while loading and {{exitRate}}% of visitors leave from this page',
+    actionSteps: [
+      'Set width and height on images and embeds',
+      'Reserve space for banners, reviews and recommendation widgets',
+      'Avoid inserting content above what visitors are reading',
+    ],
+    expectedImpactTemplate: 'Reduce mis-clicks and exits by 5-10%',
+    conversionValue: 'MEDIUM',
+  },
+
+  // ERROR PATTERN RULES
+  {
+    patternType: PatternType.ERROR,
+    contextMatcher: (metadata) => /cart|checkout/i.test(metadata?.page ?? ''),
+    titleTemplate: 'Fix the script error on {{page}}',
+    problemTemplate:
+      '"{{errorMessage}}" breaks {{page}} for {{affectedSessions}} sessions, which convert at {{conversionRate}}% vs {{baselineConversionRate}}%',
+    actionSteps: [
+      'Reproduce the error in the browser console on the affected page',
+      'Check recently installed apps and theme edits that load scripts on checkout',
+      'Confirm shoppers can still complete a purchase after the fix',
+    ],
+    expectedImpactTemplate: 'Recover up to {{conversionImpact}} percentage points of conversion for affected sessions',
+    conversionValue: 'HIGH',
+  },
+
+  // FRUSTRATION PATTERN RULES
+  {
+    patternType: PatternType.FRUSTRATION,
+    contextMatcher: (metadata) => (metadata?.rageClicks ?? 0) >= (metadata?.deadClicks ?? 0),
+    titleTemplate: 'Fix the unresponsive {{selector}} on {{page}}',
+    problemTemplate:
+      '{{frustrationRate}}% of visitors click {{selector}} repeatedly ({{rageClicks}} rage clicks), a sign it is slow or broken',
+    actionSteps: [
+      'Check that the element works on mobile and desktop browsers',
+      'Show a loading state immediately after the click',
+      'Make the clickable area match what looks clickable',
+    ],
+    expectedImpactTemplate: 'Reduce frustrated sessions on this page by 20-30%',
+    conversionValue: 'MEDIUM',
+  },
+  {
+    patternType: PatternType.FRUSTRATION,
+    contextMatcher: (metadata) => (metadata?.deadClicks ?? 0) > (metadata?.rageClicks ?? 0),
+    titleTemplate: 'Make {{selector}} on {{page}} clickable',
+    problemTemplate:
+      '{{frustrationRate}}% of visitors click {{selector}} and nothing happens ({{deadClicks}} dead clicks)',
+    actionSteps: [
+      'Link the element to what visitors expect (e.g. product image to zoom or details)',
+      'If it should not be clickable, remove button-like styling and hover effects',
+      'Review the element in a session recording or heatmap',
+    ],
+    expectedImpactTemplate: 'Reduce confusion on this page by 10-20%',
+    conversionValue: 'LOW_MEDIUM',
+  },
+
+  // BELOW_FOLD PATTERN RULES
+  {
+    patternType: PatternType.BELOW_FOLD,
+    contextMatcher: (metadata) =>
+      metadata?.convertingCtaSeenRate != null &&
+      metadata?.nonConvertingCtaSeenRate != null &&
+      metadata.convertingCtaSeenRate > metadata.nonConvertingCtaSeenRate,
+    titleTemplate: 'Move the add-to-cart button above the fold on {{page}}',
+    problemTemplate:
+      'Only {{ctaSeenRate}}% of visitors see the add-to-cart area; {{convertingCtaSeenRate}}% of buyers see it vs {{nonConvertingCtaSeenRate}}% of visitors who leave',
+    actionSteps: [
+      'Place the add-to-cart button next to the product title and price',
+      'Shrink the image gallery or hero so the button fits on a phone screen',
+      'Add a sticky add-to-cart bar that appears on scroll',
+    ],
+    expectedImpactTemplate: 'Increase add-to-cart rate on this page by 5-15%',
+    conversionValue: 'HIGH',
+  },
+
   // FALLBACK RULES (when no specific match)
   {
     patternType: PatternType.ABANDONMENT,
@@ -228,6 +337,61 @@ const RECOMMENDATION_RULES: RecommendationRule[] = [
     expectedImpactTemplate: 'Increase engagement by 10-20%',
     conversionValue: 'LOW_MEDIUM',
   },
+  {
+    patternType: PatternType.PERFORMANCE,
+    contextMatcher: () => true, // Matches all PERFORMANCE patterns
+    titleTemplate: 'Improve page speed on {{page}}',
+    problemTemplate:
+      'Slow loading on this page coincides with a {{exitRate}}% exit rate vs {{siteExitRate}}% site-wide',
+    actionSteps: [
+      'Reduce server response time (caching, CDN)',
+      'Compress images and defer non-critical scripts',
+      'Audit third-party apps loaded on the page',
+    ],
+    expectedImpactTemplate: 'Reduce exits from this page by 5-10%',
+    conversionValue: 'MEDIUM',
+  },
+  {
+    patternType: PatternType.ERROR,
+    contextMatcher: () => true, // Matches all ERROR patterns
+    titleTemplate: 'Fix a script error that lowers conversion',
+    problemTemplate:
+      'Sessions that hit "{{errorMessage}}" convert at {{conversionRate}}% vs {{baselineConversionRate}}% without it',
+    actionSteps: [
+      'Reproduce the error using the message and script shown in the Errors report',
+      'Disable or update the app or script that throws it',
+      'Test the affected pages across browsers after the fix',
+    ],
+    expectedImpactTemplate: 'Recover up to {{conversionImpact}} percentage points of conversion for affected sessions',
+    conversionValue: 'MEDIUM',
+  },
+  {
+    patternType: PatternType.FRUSTRATION,
+    contextMatcher: () => true, // Matches all FRUSTRATION patterns
+    titleTemplate: 'Reduce click frustration on {{page}}',
+    problemTemplate: '{{frustrationRate}}% of visitors to this page show click frustration on {{selector}}',
+    actionSteps: [
+      'Check that clickable elements respond immediately',
+      'Remove clickable styling from elements that do nothing',
+      'Test the page on slow mobile connections',
+    ],
+    expectedImpactTemplate: 'Reduce frustrated sessions by 10-20%',
+    conversionValue: 'LOW_MEDIUM',
+  },
+  {
+    patternType: PatternType.BELOW_FOLD,
+    contextMatcher: () => true, // Matches all BELOW_FOLD patterns
+    titleTemplate: 'Bring the add-to-cart area into view on {{page}}',
+    problemTemplate:
+      'Only {{ctaSeenRate}}% of visitors scroll far enough to see the add-to-cart area (average scroll depth {{averageScrollDepth}}%)',
+    actionSteps: [
+      'Move the add-to-cart button higher on the page',
+      'Reduce content above it (banners, large images, long descriptions)',
+      'Check the page layout on common mobile screen sizes',
+    ],
+    expectedImpactTemplate: 'Increase add-to-cart rate on this page by 5-10%',
+    conversionValue: 'MEDIUM',
+  },
 ];
 
 /**
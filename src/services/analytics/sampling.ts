@@ -0,0 +1,65 @@
+/**
+ * Sampling Service
+ *
+ * Sites can track a share of their sessions (Settings → Tracker
+ * Configuration). The tracker picks sessions deterministically by sessionId
+ * and reports the rate with each pageview; session aggregation stores it on
+ * Session.sampleRate. Each tracked session then stands for 1/sampleRate
+ * sessions, so counts are sums of those weights (a Horvitz-Thompson
+ * estimate) and rates are ratios of weighted counts. Significance and
+ * confidence thresholds keep using observed counts.
+ */
+
+/**
+ * Session carrying the rate it was sampled at
+ */
+interface SampledSession {
+  /** Missing on rows and fixtures from before sampling (all tracked) */
+  sampleRate?: number | null;
+}
+
+/**
+ * Number of sessions a tracked session stands for
+ *
+ * @param session - Session with its sample rate
+ * @returns 1/sampleRate, or 1 when the rate is missing or invalid
+ */
+export function sessionWeight(session: SampledSession): number {
+  const rate = session.sampleRate;
+  return typeof rate === 'number' && rate > 0 && rate <= 1 ? 1 / rate : 1;
+}
+
+/**
+ * Estimated number of sessions, optionally matching a predicate
+ *
+ * Not rounded, so it can be used in rates; round before reporting.
+ *
+ * @param sessions - Tracked sessions
+ * @param predicate - Optional filter
+ * @returns Sum of session weights
+ */
+export function weightedCount<T extends SampledSession>(
+  sessions: T[],
+  predicate?: (session: T) => boolean
+): number {
+  let total = 0;
+  for (const session of sessions) {
+    if (!predicate || predicate(session)) total += sessionWeight(session);
+  }
+  return total;
+}
+
+/**
+ * Lowest sample rate among sessions, for the dashboard disclosure
+ *
+ * @param sessions - Sessions behind the figures shown
+ * @returns Lowest rate below 1, or null when every session was tracked
+ */
+export function lowestSampleRate(sessions: SampledSession[]): number | null {
+  let lowest: number | null = null;
+  for (const session of sessions) {
+    const rate = 1 / sessionWeight(session);
+    if (rate < 1 && (lowest === null || rate < lowest)) lowest = rate;
+  }
+  return lowest;
+}
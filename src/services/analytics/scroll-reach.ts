@@ -0,0 +1,148 @@
+/**
+ * Scroll Reach Service
+ *
+ * Builds per-URL-template scroll reach curves from the tracker's time-on-page
+ * events, which carry the deepest scroll position of the pageview and
+ * whether the add-to-cart area was seen. Pageviews are also split by session
+ * outcome to compare how far converting and non-converting visitors scroll.
+ * Pageviews of sampled sessions count 1/sampleRate times.
+ */
+
+import type { EventData } from '@/types/tracking';
+import {
+  SCROLL_MILESTONES,
+  type ScrollMilestone,
+  type ScrollReachSegment,
+  type ScrollReachStats,
+} from '@/types/scroll';
+import { toUrlTemplate } from './url-template';
+import { sessionWeight } from './sampling';
+
+/**
+ * Raw time event as stored in TrackingEvent
+ */
+interface TimeEventRecord {
+  sessionId: string;
+  data: unknown;
+}
+
+/**
+ * Aggregated session outcome
+ */
+interface SessionOutcome {
+  sessionId: string;
+  converted: boolean;
+  sampleRate?: number | null;
+}
+
+/**
+ * Running (weighted) totals of a segment
+ */
+interface SegmentTotals {
+  depths: Array<{ depth: number; weight: number }>;
+  ctaPageviews: number;
+  ctaSeen: number;
+  observedCtaPageviews: number;
+}
+
+function toPercent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+function emptyTotals(): SegmentTotals {
+  return { depths: [], ctaPageviews: 0, ctaSeen: 0, observedCtaPageviews: 0 };
+}
+
+function addPageview(
+  totals: SegmentTotals,
+  depth: number,
+  ctaSeen: boolean | null | undefined,
+  weight: number
+): void {
+  totals.depths.push({ depth, weight });
+  if (typeof ctaSeen === 'boolean') {
+    totals.ctaPageviews += weight;
+    totals.observedCtaPageviews++;
+    if (ctaSeen) totals.ctaSeen += weight;
+  }
+}
+
+function sumWeights(depths: SegmentTotals['depths']): number {
+  return depths.reduce((sum, pageview) => sum + pageview.weight, 0);
+}
+
+function toSegment(totals: SegmentTotals): ScrollReachSegment {
+  const pageviews = sumWeights(totals.depths);
+  const reach = {} as Record<ScrollMilestone, number>;
+  for (const milestone of SCROLL_MILESTONES) {
+    reach[milestone] = toPercent(
+      sumWeights(totals.depths.filter((pageview) => pageview.depth >= milestone)),
+      pageviews
+    );
+  }
+
+  return {
+    pageviews: Math.round(pageviews),
+    reach,
+    averageDepth: pageviews > 0
+      ? Math.round(totals.depths.reduce((sum, pageview) => sum + pageview.depth * pageview.weight, 0) / pageviews)
+      : 0,
+    ctaPageviews: Math.round(totals.ctaPageviews),
+    ctaSeenRate: totals.ctaPageviews > 0 ? toPercent(totals.ctaSeen, totals.ctaPageviews) : null,
+  };
+}
+
+/**
+ * Calculate scroll reach per URL template
+ *
+ * Time events without a scrollDepth (trackers before scroll reach) are
+ * skipped. Pageviews from sessions not yet aggregated count once toward the
+ * overall curve but not toward the converting/non-converting split.
+ *
+ * @param events - TrackingEvent rows with eventType 'time'
+ * @param sessions - Aggregated sessions for the same period
+ * @returns Scroll reach per URL template, most viewed first
+ */
+export function calculateScrollReach(
+  events: TimeEventRecord[],
+  sessions: SessionOutcome[]
+): ScrollReachStats[] {
+  const outcomes = new Map(sessions.map((s) => [s.sessionId, s]));
+  const pages = new Map<
+    string,
+    { all: SegmentTotals; converting: SegmentTotals; nonConverting: SegmentTotals; sessions: Map<string, number> }
+  >();
+
+  for (const event of events) {
+    const data = event.data as Pick<EventData, 'url' | 'scrollDepth' | 'ctaSeen'> | null;
+    if (!data?.url || typeof data.scrollDepth !== 'number') continue;
+
+    const urlTemplate = toUrlTemplate(data.url);
+    let page = pages.get(urlTemplate);
+    if (!page) {
+      page = { all: emptyTotals(), converting: emptyTotals(), nonConverting: emptyTotals(), sessions: new Map() };
+      pages.set(urlTemplate, page);
+    }
+
+    const session = outcomes.get(event.sessionId);
+    const weight = session ? sessionWeight(session) : 1;
+    const depth = Math.max(0, Math.min(100, data.scrollDepth));
+    addPageview(page.all, depth, data.ctaSeen, weight);
+    page.sessions.set(event.sessionId, weight);
+
+    if (session) {
+      addPageview(session.converted ? page.converting : page.nonConverting, depth, data.ctaSeen, weight);
+    }
+  }
+
+  return Array.from(pages.entries())
+    .map(([urlTemplate, page]) => ({
+      urlTemplate,
+      ...toSegment(page.all),
+      sessions: Math.round(Array.from(page.sessions.values()).reduce((sum, weight) => sum + weight, 0)),
+      observed: { sessions: page.sessions.size, ctaPageviews: page.all.observedCtaPageviews },
+      converting: toSegment(page.converting),
+      nonConverting: toSegment(page.nonConverting),
+    }))
+    .sort((a, b) => b.pageviews - a.pageviews);
+}
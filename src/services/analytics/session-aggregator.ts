@@ -8,6 +8,11 @@
  * - Groups TrackingEvent records by sessionId
  * - Extracts journey sequences (ordered pageview events)
  * - Calculates session metadata (duration, page count, bounce, conversion)
+ * - Flags bot sessions (tagged events, headless signal, impossible cadence)
+ * - Links sessions to durable visitors and flags returning visitors
+ * - Attributes sessions to a channel and campaign from the landing pageview
+ * - Records the rate sampled sessions were tracked at
+ * - Computes p75 Core Web Vitals per URL template
  * - Stores processed sessions in PostgreSQL
  * - Prepares journey funnel data for visualization
  *
@@ -17,6 +22,7 @@
  */
 
 import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
 import type {
   SessionData,
   JourneySequence,
@@ -25,18 +31,37 @@ import type {
   JourneyFunnelData,
   AggregationResult,
   FunnelStage,
+  SessionAttribution,
+  SessionSegment,
+  PageVitalsData,
+  VitalsHistogram,
 } from '@/types/session';
 import { FUNNEL_STAGES } from '@/types/session';
+import {
+  CONVERSION_EVENT_TYPES,
+  WEB_VITALS,
+  type EventData,
+  type PerformanceEventData,
+  type WebVital,
+} from '@/types/tracking';
+import { classifySession } from '@/services/tracking/bot-detector';
+import { classifyChannel, parseAttribution, segmentWhere } from '@/services/analytics/channel-classifier';
+import { toUrlTemplate } from '@/services/analytics/url-template';
+import { addVitalSample, emptyVitalsHistogram } from '@/services/analytics/vitals';
+import { binClick, deviceClass } from '@/services/analytics/heatmap';
+import type { ClickHeatmapData } from '@/types/heatmap';
+import { sessionWeight, weightedCount } from '@/services/analytics/sampling';
 
 /**
  * Aggregate raw tracking events into sessions
  *
- * Processes TrackingEvent records within the specified time range,
- * groups them by sessionId, and extracts session data including
- * journey sequences and metadata.
+ * Finds the sessions with TrackingEvent records ingested (createdAt) within
+ * the specified time range and re-aggregates each from all of its events, so
+ * events that arrive late (outbox backlog, offline replays) update their
+ * session. Extracts session data including journey sequences and metadata.
  *
- * @param startTime - Start of time range to process
- * @param endTime - End of time range to process
+ * @param startTime - Start of ingestion time range to process (inclusive)
+ * @param endTime - End of ingestion time range to process (exclusive)
  * @returns Array of processed session data ready for storage
  *
  * @example
@@ -54,21 +79,37 @@ export async function aggregateSessions(
     `[SessionAggregator] Starting aggregation for ${startTime.toISOString()} to ${endTime.toISOString()}`
   );
 
+  const BATCH_SIZE = 1000;
+
   try {
-    // Query TrackingEvent from TimescaleDB using time-range filter
-    // This leverages hypertable partitioning for optimal performance
-    const events = await prisma.trackingEvent.findMany({
+    // Sessions that received events in the window
+    const ingested = await prisma.trackingEvent.findMany({
       where: {
-        timestamp: {
+        createdAt: {
           gte: startTime,
-          lte: endTime,
+          lt: endTime,
         },
       },
-      orderBy: [
-        { sessionId: 'asc' },
-        { timestamp: 'asc' },
-      ],
+      select: { sessionId: true },
+      distinct: ['sessionId'],
     });
+    const ingestedSessionIds = [...new Set(ingested.map((event) => event.sessionId))];
+
+    // All events of those sessions, including ones ingested in earlier runs
+    const events = [];
+    for (let i = 0; i < ingestedSessionIds.length; i += BATCH_SIZE) {
+      events.push(
+        ...(await prisma.trackingEvent.findMany({
+          where: {
+            sessionId: { in: ingestedSessionIds.slice(i, i + BATCH_SIZE) },
+          },
+          orderBy: [
+            { sessionId: 'asc' },
+            { timestamp: 'asc' },
+          ],
+        }))
+      );
+    }
 
     console.log(
       `[SessionAggregator] Fetched ${events.length} events in ${(performance.now() - startTimeMs).toFixed(2)}ms`
@@ -81,7 +122,6 @@ export async function aggregateSessions(
     );
 
     // Process sessions in batches for memory efficiency
-    const BATCH_SIZE = 1000;
     const sessionIds = Array.from(sessionGroups.keys());
     const allSessions: SessionData[] = [];
 
@@ -127,6 +167,8 @@ function groupEventsBySession(
     eventType: string;
     timestamp: Date;
     data: unknown;
+    botReason?: string | null;
+    visitorId?: string | null;
     createdAt: Date;
   }>
 ): Map<string, typeof events> {
@@ -159,6 +201,8 @@ function processSession(
     eventType: string;
     timestamp: Date;
     data: unknown;
+    botReason?: string | null;
+    visitorId?: string | null;
     createdAt: Date;
   }>
 ): SessionData | null {
@@ -173,6 +217,27 @@ function processSession(
   // Extract journey sequence (pageview events only)
   const journey = extractJourneySequence(events);
 
+  // Order value and currency from purchase events
+  const order = extractOrderValue(events);
+
+  // Bot classification (excluded from analytics downstream)
+  const botReason = classifySession(events);
+
+  // Visitor identity (tracker visitor ID and the latest identify() call)
+  const identity = extractIdentity(events);
+
+  // Traffic source (UTM parameters, click IDs and referrer of the landing page)
+  const attribution = extractAttribution(events);
+
+  // Share of the site's sessions tracked when this one was sampled
+  const sampleRate = extractSampleRate(events);
+
+  // Earliest ingestion time; stays put when late events are added
+  const createdAt = events.reduce(
+    (earliest, event) => (event.createdAt < earliest ? event.createdAt : earliest),
+    firstEvent.createdAt
+  );
+
   // Edge case: session with no pageviews
   if (journey.pages.length === 0) {
     // Still create session but with empty journey
@@ -185,8 +250,15 @@ function processSession(
       pageCount: 0,
       bounced: false,
       converted: hasConversionEvent(events),
+      orderValue: order.orderValue,
+      currency: order.currency,
       journeyPath: [],
-      createdAt: firstEvent.createdAt,
+      isBot: botReason !== null,
+      botReason,
+      ...identity,
+      attribution,
+      sampleRate,
+      createdAt,
     };
   }
 
@@ -202,8 +274,15 @@ function processSession(
     pageCount: metadata.pageCount,
     bounced: metadata.bounced,
     converted: metadata.converted,
+    orderValue: order.orderValue,
+    currency: order.currency,
     journeyPath: journey.pages,
-    createdAt: firstEvent.createdAt,
+    isBot: botReason !== null,
+    botReason,
+    ...identity,
+    attribution,
+    sampleRate,
+    createdAt,
   };
 }
 
@@ -305,6 +384,9 @@ function calculateDuration(start: Date, end: Date): number | null {
 /**
  * Check if session contains a conversion event
  *
+ * A `purchase` event (or the legacy `conversion` event) marks the session
+ * as converted.
+ *
  * @param events - All events for a session
  * @returns True if conversion event present
  */
@@ -313,17 +395,249 @@ function hasConversionEvent(
     eventType: string;
   }>
 ): boolean {
-  return events.some((event) => event.eventType === 'conversion');
+  return events.some((event) => CONVERSION_EVENT_TYPES.includes(event.eventType));
+}
+
+/**
+ * Extract order value from purchase events
+ *
+ * Sums `value` across purchase events (deduplicated by orderId so a
+ * reloaded thank-you page is not counted twice). Currency is taken from
+ * the first purchase.
+ *
+ * @param events - All events for a session
+ * @returns Order value and currency, or nulls if no purchase recorded
+ */
+function extractOrderValue(
+  events: Array<{
+    eventType: string;
+    data: unknown;
+  }>
+): { orderValue: number | null; currency: string | null } {
+  const seenOrders = new Set<string>();
+  let orderValue: number | null = null;
+  let currency: string | null = null;
+
+  for (const event of events) {
+    if (event.eventType !== 'purchase') continue;
+
+    const data = event.data as Record<string, unknown>;
+    const value = data?.value;
+    if (typeof value !== 'number') continue;
+
+    const orderId = data?.orderId as string | undefined;
+    if (orderId) {
+      if (seenOrders.has(orderId)) continue;
+      seenOrders.add(orderId);
+    }
+
+    orderValue = (orderValue ?? 0) + value;
+    if (!currency && typeof data?.currency === 'string') {
+      currency = data.currency;
+    }
+  }
+
+  return { orderValue, currency };
+}
+
+/**
+ * Extract the session's visitor identity
+ *
+ * @param events - All events for a session
+ * @returns Visitor ID from the first event carrying one, and the customer
+ *          from the latest identify event
+ */
+function extractIdentity(
+  events: Array<{
+    eventType: string;
+    data: unknown;
+    visitorId?: string | null;
+  }>
+): Pick<SessionData, 'visitorId' | 'customerId' | 'customerTraits'> {
+  const visitorId = events.find((event) => event.visitorId)?.visitorId ?? null;
+  const identify = events.filter((event) => event.eventType === 'identify').pop();
+  const data = identify?.data as Record<string, unknown> | undefined;
+
+  return {
+    visitorId,
+    customerId: typeof data?.customerId === 'string' ? data.customerId : null,
+    customerTraits: (data?.traits as Record<string, unknown> | null | undefined) ?? null,
+  };
+}
+
+/**
+ * Extract the session's traffic source from its landing pageview
+ *
+ * Uses the tracker's attribution when present, otherwise the landing URL's
+ * query string.
+ *
+ * @param events - All events for a session
+ * @returns Session attribution (direct when the session has no pageview)
+ */
+function extractAttribution(
+  events: Array<{
+    eventType: string;
+    data: unknown;
+  }>
+): SessionAttribution {
+  const landing = events.find((event) => event.eventType === 'pageview');
+  const data = (landing?.data ?? {}) as EventData;
+
+  return classifyChannel({
+    url: data.url,
+    referrer: data.referrer,
+    attribution: data.attribution ?? parseAttribution(data.url),
+  });
+}
+
+/**
+ * Extract the rate a sampled session was tracked at
+ *
+ * Pageviews of sampled sessions carry the site's sample rate. If the site
+ * changed it mid-session the lowest rate is used; sessions whose pageviews
+ * carry none (including server-only sessions) were fully tracked.
+ *
+ * @param events - All events for a session
+ * @returns Sample rate (0-1]
+ */
+function extractSampleRate(
+  events: Array<{
+    eventType: string;
+    data: unknown;
+  }>
+): number {
+  let sampleRate = 1;
+  for (const event of events) {
+    if (event.eventType !== 'pageview') continue;
+    const rate = (event.data as EventData | null)?.sampleRate;
+    if (typeof rate === 'number' && rate > 0 && rate < sampleRate) sampleRate = rate;
+  }
+  return sampleRate;
+}
+
+/**
+ * Upsert the visitors of a batch of sessions and find returning sessions
+ *
+ * A session is returning when its visitor was first seen before the session
+ * started, or when it belongs to an identified customer (identify()) first
+ * seen earlier under any visitor ID - this stitches a customer's devices.
+ *
+ * @param sessions - Sessions about to be stored
+ * @returns IDs of returning sessions
+ */
+export async function resolveVisitors(sessions: SessionData[]): Promise<Set<string>> {
+  const returning = new Set<string>();
+
+  const sitesWithVisitors = new Set(
+    sessions.filter((session) => session.visitorId).map((session) => session.siteId)
+  );
+
+  for (const siteId of sitesWithVisitors) {
+    const siteSessions = sessions
+      .filter((session) => session.siteId === siteId && session.visitorId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const visitorIds = [...new Set(siteSessions.map((session) => session.visitorId!))];
+
+    const existing = await prisma.visitor.findMany({
+      where: { siteId, visitorId: { in: visitorIds } },
+      select: {
+        visitorId: true,
+        customerId: true,
+        traits: true,
+        firstSeenAt: true,
+        lastSeenAt: true,
+      },
+    });
+    const visitors = new Map(existing.map((visitor) => [visitor.visitorId, visitor]));
+
+    // Earliest sighting of each identified customer, across all their visitors
+    const customerIds = [
+      ...new Set(
+        siteSessions
+          .map((session) => session.customerId ?? visitors.get(session.visitorId!)?.customerId)
+          .filter((customerId): customerId is string => !!customerId)
+      ),
+    ];
+    const customerFirstSeen = new Map<string, Date>();
+    if (customerIds.length > 0) {
+      const customers = await prisma.visitor.groupBy({
+        by: ['customerId'],
+        where: { siteId, customerId: { in: customerIds } },
+        _min: { firstSeenAt: true },
+      });
+      for (const customer of customers) {
+        if (customer.customerId && customer._min.firstSeenAt) {
+          customerFirstSeen.set(customer.customerId, customer._min.firstSeenAt);
+        }
+      }
+    }
+
+    for (const session of siteSessions) {
+      const visitor = visitors.get(session.visitorId!);
+      const customerId = session.customerId ?? visitor?.customerId ?? null;
+      const customerSince = customerId ? customerFirstSeen.get(customerId) : undefined;
+
+      if (
+        (visitor && visitor.firstSeenAt < session.createdAt) ||
+        (customerSince && customerSince < session.createdAt)
+      ) {
+        returning.add(session.sessionId);
+      }
+
+      const firstSeenAt =
+        visitor && visitor.firstSeenAt < session.createdAt ? visitor.firstSeenAt : session.createdAt;
+      visitors.set(session.visitorId!, {
+        visitorId: session.visitorId!,
+        customerId,
+        traits: session.customerId
+          ? ((session.customerTraits ?? null) as Prisma.JsonValue)
+          : visitor?.traits ?? null,
+        firstSeenAt,
+        lastSeenAt:
+          visitor && visitor.lastSeenAt > session.createdAt ? visitor.lastSeenAt : session.createdAt,
+      });
+
+      if (customerId && (!customerSince || firstSeenAt < customerSince)) {
+        customerFirstSeen.set(customerId, firstSeenAt);
+      }
+    }
+
+    for (const visitorId of visitorIds) {
+      const visitor = visitors.get(visitorId)!;
+      const traits = visitor.traits === null ? undefined : (visitor.traits as Prisma.InputJsonValue);
+
+      await prisma.visitor.upsert({
+        where: { siteId_visitorId: { siteId, visitorId } },
+        update: {
+          customerId: visitor.customerId,
+          traits,
+          firstSeenAt: visitor.firstSeenAt,
+          lastSeenAt: visitor.lastSeenAt,
+        },
+        create: {
+          siteId,
+          visitorId,
+          customerId: visitor.customerId,
+          traits,
+          firstSeenAt: visitor.firstSeenAt,
+          lastSeenAt: visitor.lastSeenAt,
+        },
+      });
+    }
+  }
+
+  return returning;
 }
 
 /**
  * Store processed sessions in database
  *
- * Uses Prisma createMany for bulk insert performance
- * Handles duplicate sessions via upsert logic
+ * Uses Prisma createMany for bulk insert performance. Sessions that were
+ * stored by an earlier run and re-aggregated with late events are updated
+ * in place (keeping their createdAt).
  *
  * @param sessions - Array of session data to store
- * @returns Array of created session records
+ * @returns Number of sessions created and updated, and any errors
  *
  * @example
  * const sessions = await aggregateSessions(startTime, endTime);
@@ -331,34 +645,86 @@ function hasConversionEvent(
  */
 export async function createSessions(
   sessions: SessionData[]
-): Promise<{ created: number; errors: string[] }> {
+): Promise<{ created: number; updated: number; errors: string[] }> {
   console.log(`[SessionAggregator] Storing ${sessions.length} sessions`);
 
   const errors: string[] = [];
   let created = 0;
+  let updated = 0;
 
+  // Visitors must exist before sessions reference them; if they can't be
+  // stored, sessions are stored without their visitor link
+  let returning = new Set<string>();
+  let linkVisitors = true;
   try {
+    returning = await resolveVisitors(sessions);
+  } catch (error) {
+    console.error('[SessionAggregator] Error storing visitors:', error);
+    errors.push(
+      `Visitor upsert failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+    linkVisitors = false;
+  }
+
+  // Fields recomputed on every aggregation of the session
+  const sessionFields = (session: SessionData) => ({
+    entryPage: session.entryPage,
+    exitPage: session.exitPage,
+    duration: session.duration,
+    pageCount: session.pageCount,
+    bounced: session.bounced,
+    converted: session.converted,
+    orderValue: session.orderValue,
+    currency: session.currency,
+    journeyPath: session.journeyPath,
+    isBot: session.isBot,
+    botReason: session.botReason,
+    sampleRate: session.sampleRate ?? 1,
+    visitorId: linkVisitors ? session.visitorId : null,
+    isReturning: returning.has(session.sessionId),
+    ...session.attribution,
+  });
+
+  try {
+    const stored = await prisma.session.findMany({
+      where: { sessionId: { in: sessions.map((session) => session.sessionId) } },
+      select: { sessionId: true },
+    });
+    const existing = new Set(stored.map((session) => session.sessionId));
+
     // Use createMany for bulk insert (best performance)
-    // Note: createMany doesn't support skipDuplicates in all databases
-    // So we'll use a transaction with individual creates if needed
     const result = await prisma.session.createMany({
-      data: sessions.map((session) => ({
-        siteId: session.siteId,
-        sessionId: session.sessionId,
-        entryPage: session.entryPage,
-        exitPage: session.exitPage,
-        duration: session.duration,
-        pageCount: session.pageCount,
-        bounced: session.bounced,
-        converted: session.converted,
-        journeyPath: session.journeyPath,
-        createdAt: session.createdAt,
-      })),
+      data: sessions
+        .filter((session) => !existing.has(session.sessionId))
+        .map((session) => ({
+          siteId: session.siteId,
+          sessionId: session.sessionId,
+          ...sessionFields(session),
+          createdAt: session.createdAt,
+        })),
       skipDuplicates: true, // Skip if sessionId already exists
     });
 
     created = result.count;
     console.log(`[SessionAggregator] Successfully stored ${created} sessions`);
+
+    for (const session of sessions.filter((session) => existing.has(session.sessionId))) {
+      try {
+        await prisma.session.update({
+          where: { sessionId: session.sessionId },
+          data: sessionFields(session),
+        });
+        updated++;
+      } catch (updateError) {
+        errors.push(
+          `Failed to update session ${session.sessionId}: ${updateError instanceof Error ? updateError.message : String(updateError)}`
+        );
+      }
+    }
+
+    if (updated > 0) {
+      console.log(`[SessionAggregator] Updated ${updated} sessions with late events`);
+    }
   } catch (error) {
     console.error('[SessionAggregator] Error storing sessions:', error);
     errors.push(
@@ -373,25 +739,11 @@ export async function createSessions(
       try {
         await prisma.session.upsert({
           where: { sessionId: session.sessionId },
-          update: {
-            entryPage: session.entryPage,
-            exitPage: session.exitPage,
-            duration: session.duration,
-            pageCount: session.pageCount,
-            bounced: session.bounced,
-            converted: session.converted,
-            journeyPath: session.journeyPath,
-          },
+          update: sessionFields(session),
           create: {
             siteId: session.siteId,
             sessionId: session.sessionId,
-            entryPage: session.entryPage,
-            exitPage: session.exitPage,
-            duration: session.duration,
-            pageCount: session.pageCount,
-            bounced: session.bounced,
-            converted: session.converted,
-            journeyPath: session.journeyPath,
+            ...sessionFields(session),
             createdAt: session.createdAt,
           },
         });
@@ -404,7 +756,267 @@ export async function createSessions(
     }
   }
 
-  return { created, errors };
+  return { created, updated, errors };
+}
+
+/**
+ * 75th percentile (nearest rank), the percentile Core Web Vitals are assessed at
+ *
+ * @param values - Metric values
+ * @returns p75, or null when there are no values
+ */
+function p75(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.ceil(sorted.length * 0.75) - 1];
+}
+
+/**
+ * Aggregate Core Web Vitals per URL template
+ *
+ * Groups the performance events ingested in the window (one per page load,
+ * from human traffic) by site and URL template and computes the p75 of each
+ * metric, plus a histogram that pattern detection merges across windows.
+ * Windows don't overlap, so each page load is counted once. Only events of
+ * the window's non-bot sessions count.
+ *
+ * @param startTime - Start of ingestion time range to process (inclusive)
+ * @param endTime - End of ingestion time range to process (exclusive)
+ * @param sessions - Sessions aggregated from the same window
+ * @returns p75 vitals per site and URL template
+ */
+export async function aggregatePageVitals(
+  startTime: Date,
+  endTime: Date,
+  sessions: Array<Pick<SessionData, 'sessionId' | 'isBot'>>
+): Promise<PageVitalsData[]> {
+  const events = await prisma.trackingEvent.findMany({
+    where: {
+      eventType: 'performance',
+      botReason: null,
+      createdAt: {
+        gte: startTime,
+        lt: endTime,
+      },
+    },
+    select: {
+      siteId: true,
+      sessionId: true,
+      data: true,
+    },
+  });
+
+  const humanSessions = new Set(
+    sessions.filter((session) => !session.isBot).map((session) => session.sessionId)
+  );
+
+  // "siteId url-template" -> metric values
+  const groups = new Map<
+    string,
+    {
+      siteId: string;
+      urlTemplate: string;
+      sampleSize: number;
+      values: Record<WebVital, number[]>;
+      histogram: VitalsHistogram;
+    }
+  >();
+
+  for (const event of events) {
+    const data = event.data as PerformanceEventData | null;
+    if (!data?.url || !humanSessions.has(event.sessionId)) continue;
+
+    const urlTemplate = toUrlTemplate(data.url);
+    const key = `${event.siteId} ${urlTemplate}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        siteId: event.siteId,
+        urlTemplate,
+        sampleSize: 0,
+        values: { lcp: [], cls: [], inp: [], ttfb: [], fcp: [] },
+        histogram: emptyVitalsHistogram(),
+      });
+    }
+
+    const group = groups.get(key)!;
+    group.sampleSize++;
+    for (const vital of WEB_VITALS) {
+      const value = data[vital];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        group.values[vital].push(value);
+        addVitalSample(group.histogram, vital, value);
+      }
+    }
+  }
+
+  const vitals: PageVitalsData[] = Array.from(groups.values()).map((group) => ({
+    siteId: group.siteId,
+    urlTemplate: group.urlTemplate,
+    periodStart: startTime,
+    periodEnd: endTime,
+    sampleSize: group.sampleSize,
+    lcp: p75(group.values.lcp),
+    cls: p75(group.values.cls),
+    inp: p75(group.values.inp),
+    ttfb: p75(group.values.ttfb),
+    fcp: p75(group.values.fcp),
+    histogram: group.histogram,
+  }));
+
+  console.log(
+    `[SessionAggregator] Aggregated vitals for ${vitals.length} URL templates from ${events.length} page loads`
+  );
+
+  return vitals;
+}
+
+/**
+ * Store aggregated page vitals
+ *
+ * Windows that were already stored (job retries) are skipped.
+ *
+ * @param vitals - p75 vitals from aggregatePageVitals
+ * @returns Number of rows created and any errors
+ */
+export async function storePageVitals(
+  vitals: PageVitalsData[]
+): Promise<{ created: number; errors: string[] }> {
+  if (vitals.length === 0) {
+    return { created: 0, errors: [] };
+  }
+
+  try {
+    const result = await prisma.pageVitals.createMany({
+      data: vitals,
+      skipDuplicates: true,
+    });
+    return { created: result.count, errors: [] };
+  } catch (error) {
+    console.error('[SessionAggregator] Error storing page vitals:', error);
+    return {
+      created: 0,
+      errors: [`Page vitals insert failed: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+}
+
+/**
+ * Aggregate click heatmaps per URL template and device class
+ *
+ * Bins the clicks from human traffic ingested in the window into the
+ * heatmap grid. Clicks sent before the tracker recorded positions and
+ * viewports are skipped. Only clicks of the window's non-bot sessions count;
+ * clicks of sampled sessions count 1/sampleRate times.
+ *
+ * @param startTime - Start of ingestion time range to process (inclusive)
+ * @param endTime - End of ingestion time range to process (exclusive)
+ * @param sessions - Sessions aggregated from the same window
+ * @returns Heatmap cells per site, URL template and device class
+ */
+export async function aggregateClickHeatmaps(
+  startTime: Date,
+  endTime: Date,
+  sessions: Array<Pick<SessionData, 'sessionId' | 'sampleRate' | 'isBot'>>
+): Promise<ClickHeatmapData[]> {
+  const events = await prisma.trackingEvent.findMany({
+    where: {
+      eventType: 'click',
+      botReason: null,
+      createdAt: {
+        gte: startTime,
+        lt: endTime,
+      },
+    },
+    select: {
+      siteId: true,
+      sessionId: true,
+      data: true,
+    },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  // Sessions each non-bot session stands for (1 unless sampled)
+  const weights = new Map(
+    sessions
+      .filter((session) => !session.isBot)
+      .map((session) => [session.sessionId, sessionWeight(session)])
+  );
+
+  // "siteId url-template device" -> heatmap
+  const heatmaps = new Map<string, ClickHeatmapData>();
+
+  for (const event of events) {
+    const data = event.data as EventData | null;
+    const weight = weights.get(event.sessionId);
+    if (!data || typeof data.vw !== 'number' || weight === undefined) continue;
+
+    const urlTemplate = data.urlTemplate || (data.url ? toUrlTemplate(data.url) : null);
+    const cell = binClick(data);
+    if (!urlTemplate || !cell) continue;
+
+    const device = deviceClass(data.vw);
+    const key = `${event.siteId} ${urlTemplate} ${device}`;
+    if (!heatmaps.has(key)) {
+      heatmaps.set(key, {
+        siteId: event.siteId,
+        urlTemplate,
+        deviceClass: device,
+        periodStart: startTime,
+        periodEnd: endTime,
+        clicks: 0,
+        sampleUrl: null,
+        cells: {},
+      });
+    }
+
+    const heatmap = heatmaps.get(key)!;
+    heatmap.clicks += weight;
+    heatmap.cells[cell] = (heatmap.cells[cell] ?? 0) + weight;
+    if (data.url) heatmap.sampleUrl = data.url;
+  }
+
+  console.log(
+    `[SessionAggregator] Aggregated ${heatmaps.size} click heatmaps from ${events.length} clicks`
+  );
+
+  // Upscaled counts are stored as whole clicks
+  return Array.from(heatmaps.values()).map((heatmap) => ({
+    ...heatmap,
+    clicks: Math.round(heatmap.clicks),
+    cells: Object.fromEntries(
+      Object.entries(heatmap.cells).map(([cell, clicks]) => [cell, Math.round(clicks)])
+    ),
+  }));
+}
+
+/**
+ * Store aggregated click heatmaps
+ *
+ * Windows that were already stored (job retries) are skipped.
+ *
+ * @param heatmaps - Heatmaps from aggregateClickHeatmaps
+ * @returns Number of rows created and any errors
+ */
+export async function storeClickHeatmaps(
+  heatmaps: ClickHeatmapData[]
+): Promise<{ created: number; errors: string[] }> {
+  if (heatmaps.length === 0) {
+    return { created: 0, errors: [] };
+  }
+
+  try {
+    const result = await prisma.clickHeatmap.createMany({
+      data: heatmaps,
+      skipDuplicates: true,
+    });
+    return { created: result.count, errors: [] };
+  } catch (error) {
+    console.error('[SessionAggregator] Error storing click heatmaps:', error);
+    return {
+      created: 0,
+      errors: [`Click heatmap insert failed: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
 }
 
 /**
@@ -416,6 +1028,7 @@ export async function createSessions(
  * Common stages: Entry → Browse → Product → Cart → Checkout → Confirmation
  *
  * @param siteId - Site to calculate funnels for
+ * @param segment - Optional channel/campaign filter
  * @returns Journey funnel data with stages and drop-off rates
  *
  * @example
@@ -423,16 +1036,18 @@ export async function createSessions(
  * console.log(funnelData.funnels); // [{ stage: 'Entry', visitors: 1000, dropOffRate: 15 }, ...]
  */
 export async function calculateJourneyFunnels(
-  siteId: string
+  siteId: string,
+  segment?: SessionSegment
 ): Promise<JourneyFunnelData> {
   console.log(`[SessionAggregator] Calculating journey funnels for ${siteId}`);
 
-  // Fetch all sessions for the site
+  // Fetch all human sessions for the site
   const sessions = await prisma.session.findMany({
-    where: { siteId },
+    where: { siteId, isBot: false, ...segmentWhere(segment) },
     select: {
       journeyPath: true,
       converted: true,
+      sampleRate: true,
     },
   });
 
@@ -453,13 +1068,14 @@ export async function calculateJourneyFunnels(
   const funnels = calculateDropOffRates(stageCounts);
 
   // Calculate overall conversion rate
-  const conversions = sessions.filter((s) => s.converted).length;
-  const conversionRate = (conversions / sessions.length) * 100;
+  const totalSessions = weightedCount(sessions);
+  const conversions = weightedCount(sessions, (s) => s.converted);
+  const conversionRate = (conversions / totalSessions) * 100;
 
   return {
     siteId,
     funnels,
-    totalSessions: sessions.length,
+    totalSessions: Math.round(totalSessions),
     conversionRate,
     calculatedAt: new Date(),
   };
@@ -469,12 +1085,13 @@ export async function calculateJourneyFunnels(
  * Identify funnel stages from session journey paths
  *
  * Analyzes URLs to categorize into stages (Entry, Browse, Product, Cart, etc.)
+ * Sampled sessions count 1/sampleRate times.
  *
  * @param sessions - Sessions with journey paths
- * @returns Map of stage to visitor count
+ * @returns Map of stage to estimated visitor count
  */
 function identifyFunnelStages(
-  sessions: Array<{ journeyPath: string[] }>
+  sessions: Array<{ journeyPath: string[]; sampleRate?: number | null }>
 ): Map<FunnelStage, number> {
   const stageCounts = new Map<FunnelStage, number>();
 
@@ -520,8 +1137,9 @@ function identifyFunnelStages(
     }
 
     // Increment count for each stage this session reached
+    const weight = sessionWeight(session);
     for (const stage of stages) {
-      stageCounts.set(stage, (stageCounts.get(stage) || 0) + 1);
+      stageCounts.set(stage, (stageCounts.get(stage) || 0) + weight);
     }
   }
 
@@ -571,9 +1189,9 @@ function calculateDropOffRates(
 
     funnels.push({
       stage,
-      visitors,
+      visitors: Math.round(visitors),
       dropOffRate: Math.round(dropOffRate * 100) / 100, // Round to 2 decimals
-      dropOffCount,
+      dropOffCount: Math.round(dropOffCount),
     });
   }
 
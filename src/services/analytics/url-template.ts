@@ -0,0 +1,49 @@
+/**
+ * URL Template Service
+ *
+ * Collapses page URLs into templates so every pageview of the same kind of
+ * page is reported together: `/products/blue-mug?variant=3` and
+ * `/products/red-mug` both become `/products/:handle`, and ID segments
+ * (numbers, UUIDs, hashes) become `:id`.
+ */
+
+/**
+ * Path segments followed by a product/collection handle
+ */
+const HANDLE_PREFIXES = new Set([
+  'products',
+  'product',
+  'collections',
+  'collection',
+  'categories',
+  'category',
+  'p',
+  'item',
+  'items',
+]);
+
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|(?=[a-z]*\d)[0-9a-z]{16,}|[0-9a-f]{10,})$/i;
+
+/**
+ * Template of a page URL (path only; origin, query and hash are dropped)
+ *
+ * @param url - Absolute or root-relative page URL
+ * @returns URL template, e.g. `/products/:handle`
+ */
+export function toUrlTemplate(url: string): string {
+  let pathname: string;
+  try {
+    pathname = new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url;
+  }
+
+  const segments = pathname.split('/').filter(Boolean);
+  const template = segments.map((segment, i) => {
+    if (i > 0 && HANDLE_PREFIXES.has(segments[i - 1].toLowerCase())) return ':handle';
+    if (ID_SEGMENT.test(segment)) return ':id';
+    return segment.toLowerCase();
+  });
+
+  return '/' + template.join('/');
+}
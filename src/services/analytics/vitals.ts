@@ -0,0 +1,99 @@
+/**
+ * Web Vitals Histogram Service
+ *
+ * Each aggregation window stores a histogram of every Web Vital next to its
+ * p75s. Percentiles of separate windows can't be combined, but histograms
+ * can: summing bucket counts gives the distribution of all page loads, and
+ * its p75 is the p75 of the pooled samples to within one bucket.
+ */
+
+import { WEB_VITALS, type WebVital } from '@/types/tracking';
+import { VITAL_BUCKET_SIZES, type VitalsHistogram } from '@/types/session';
+
+/**
+ * Empty histogram with a bucket map per Web Vital
+ */
+export function emptyVitalsHistogram(): VitalsHistogram {
+  return { lcp: {}, cls: {}, inp: {}, ttfb: {}, fcp: {} };
+}
+
+/**
+ * Histogram bucket of a metric value
+ *
+ * @param vital - Web Vital the value belongs to
+ * @param value - Metric value (non-negative)
+ * @returns Bucket index: the value rounded up to a whole number of buckets
+ */
+export function vitalBucket(vital: WebVital, value: number): number {
+  // Round off float noise (0.07 / 0.01 = 7.000000000000001)
+  const buckets = Math.round((value / VITAL_BUCKET_SIZES[vital]) * 1e6) / 1e6;
+  return Math.max(0, Math.ceil(buckets));
+}
+
+/**
+ * Add a metric value to a histogram
+ *
+ * @param histogram - Histogram to update in place
+ * @param vital - Web Vital the value belongs to
+ * @param value - Metric value
+ */
+export function addVitalSample(histogram: VitalsHistogram, vital: WebVital, value: number): void {
+  const bucket = String(vitalBucket(vital, value));
+  histogram[vital][bucket] = (histogram[vital][bucket] ?? 0) + 1;
+}
+
+/**
+ * Merge histograms from several aggregation windows
+ *
+ * Windows stored before histograms were recorded ({}) add nothing.
+ *
+ * @param histograms - Histograms of each stored window
+ * @returns Summed bucket counts
+ */
+export function mergeVitalsHistograms(histograms: Array<Partial<VitalsHistogram>>): VitalsHistogram {
+  const merged = emptyVitalsHistogram();
+
+  for (const histogram of histograms) {
+    for (const vital of WEB_VITALS) {
+      for (const [bucket, count] of Object.entries(histogram[vital] ?? {})) {
+        merged[vital][bucket] = (merged[vital][bucket] ?? 0) + count;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Number of page loads in a Web Vital's histogram
+ */
+export function vitalSampleCount(histogram: VitalsHistogram, vital: WebVital): number {
+  return Object.values(histogram[vital]).reduce((total, count) => total + count, 0);
+}
+
+/**
+ * 75th percentile (nearest rank) of a Web Vital's histogram
+ *
+ * @param histogram - Merged histogram
+ * @param vital - Web Vital to read
+ * @returns Upper bound of the bucket holding the p75, or null without samples
+ */
+export function histogramP75(histogram: VitalsHistogram, vital: WebVital): number | null {
+  const total = vitalSampleCount(histogram, vital);
+  if (total === 0) return null;
+
+  const rank = Math.ceil(total * 0.75);
+  const buckets = Object.entries(histogram[vital])
+    .map(([bucket, count]) => [Number(bucket), count] as const)
+    .sort((a, b) => a[0] - b[0]);
+
+  let seen = 0;
+  for (const [bucket, count] of buckets) {
+    seen += count;
+    if (seen >= rank) {
+      return Math.round(bucket * VITAL_BUCKET_SIZES[vital] * 1000) / 1000;
+    }
+  }
+
+  return null;
+}
@@ -10,7 +10,7 @@ import type { ScriptInjectionResult, ShopifyScriptTag } from '@/types/shopify';
 /**
  * Inject MetricFortune tracking script into Shopify store
  *
- * Creates a ScriptTag resource that loads tracking.js on all storefront pages
+ * Creates a ScriptTag resource that loads the per-site tracking script on all storefront pages
  *
  * @param shopDomain - Shop domain (e.g., "mystore.myshopify.com")
  * @param accessToken - OAuth access token for the shop
@@ -29,8 +29,8 @@ export async function injectTrackingScript(
     const session = createShopifySession(shopDomain, accessToken);
     const client = new shopify.clients.Rest({ session });
 
-    // Construct tracking script URL with siteId query parameter
-    const scriptUrl = `${process.env.NEXTAUTH_URL}/tracking.js?siteId=${siteId}`;
+    // Per-site script: carries the siteId and settings (ScriptTags can't set data-site-id)
+    const scriptUrl = `${process.env.NEXTAUTH_URL}/t/${siteId}.js`;
 
     // Check if script tag already exists to prevent duplicates
     const existingScriptTags = await client.get({
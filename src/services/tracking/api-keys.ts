@@ -0,0 +1,111 @@
+/**
+ * API Key Service
+ *
+ * Secret keys that authenticate the server-side ingestion API
+ * (POST /api/v1/events).
+ * - Keys are shown once on creation; only a SHA-256 hash and a short display
+ *   prefix are stored
+ * - Revoked keys are kept (revokedAt) so settings can show key history
+ */
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Prefix of every secret key, so leaked keys are easy to recognize
+ */
+export const API_KEY_PREFIX = 'mf_sk_';
+
+/**
+ * Maximum number of active keys per business
+ */
+export const MAX_ACTIVE_API_KEYS = 10;
+
+/**
+ * Business a key authenticates
+ */
+export interface ApiKeyOwner {
+  apiKeyId: string;
+  businessId: string;
+  siteId: string;
+}
+
+/**
+ * Hash a secret key for storage and lookup
+ *
+ * Keys are 256-bit random values, so a fast unsalted hash is sufficient.
+ *
+ * @param key - Secret key
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new secret key
+ *
+ * @returns Key (to show once), its hash and its display prefix
+ */
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 6),
+  };
+}
+
+/**
+ * Read the key from an "Authorization: Bearer <key>" header
+ *
+ * @param authorization - Authorization header value
+ * @returns Key, or null if the header is missing or not a bearer token
+ */
+export function parseBearerKey(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Look up the business for a secret key
+ *
+ * Updates the key's lastUsedAt; failures there are logged and swallowed.
+ *
+ * @param key - Secret key from the request
+ * @returns Key owner, or null for unknown or revoked keys
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKeyOwner | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    select: {
+      id: true,
+      revokedAt: true,
+      business: { select: { id: true, siteId: true } },
+    },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  try {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+  } catch (error) {
+    console.error('[ApiKeys] Failed to record key usage:', error);
+  }
+
+  return {
+    apiKeyId: apiKey.id,
+    businessId: apiKey.business.id,
+    siteId: apiKey.business.siteId,
+  };
+}
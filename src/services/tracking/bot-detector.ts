@@ -0,0 +1,137 @@
+/**
+ * Bot Detector Service
+ *
+ * Classifies crawler, monitor and automated-browser traffic.
+ * - At ingestion, events are tagged from the request's User-Agent and the
+ *   tracker's headless signal (navigator.webdriver on pageviews)
+ * - At aggregation, sessions are also checked for event cadence no human
+ *   could produce
+ *
+ * Bot traffic is tagged, not dropped: sessions get Session.isBot and are
+ * excluded from analytics, but can still be reviewed on the dashboard.
+ */
+
+/**
+ * Reasons a session or event is classified as a bot
+ */
+export const BOT_REASONS = ['user_agent', 'headless', 'cadence'] as const;
+
+export type BotReason = (typeof BOT_REASONS)[number];
+
+/**
+ * Human-readable labels for bot reasons
+ */
+export const BOT_REASON_LABELS: Record<BotReason, string> = {
+  user_agent: 'Crawler or monitor user agent',
+  headless: 'Automated browser',
+  cadence: 'Impossible event cadence',
+};
+
+/**
+ * User-agent patterns for crawlers, uptime monitors, HTTP libraries and
+ * headless browsers
+ */
+export const BOT_USER_AGENT_PATTERNS: RegExp[] = [
+  /bot\b|crawl|spider|slurp|archiver|scrap/i,
+  /facebookexternalhit|embedly|quora link preview|skypeuripreview/i,
+  /lighthouse|pagespeed|gtmetrix|chrome-lighthouse|ptst\//i,
+  /pingdom|uptimerobot|statuscake|site24x7|newrelicpinger|datadog|uptime-kuma|better ?uptime|checkly/i,
+  /headlesschrome|phantomjs|puppeteer|playwright|selenium|webdriver/i,
+  /^(curl|wget|httpie|python-requests|python-urllib|aiohttp|axios|node-fetch|undici|go-http-client|okhttp|java\/|libwww-perl|ruby|php\/|guzzlehttp)/i,
+];
+
+/**
+ * Cadence thresholds
+ */
+export const BOT_DETECTION_CONFIG = {
+  fastPageviewIntervalMs: 1000, // Pageviews closer together than this are "fast"
+  fastPageviewRun: 5, // Consecutive fast pageviews that mark a session as a bot
+  clickBurstWindowMs: 1000, // Window for counting clicks
+  clickBurstSize: 20, // Clicks within the window that mark a session as a bot
+};
+
+/**
+ * Classify a request by its User-Agent header
+ *
+ * Browsers always send a User-Agent, so a missing one is treated as a bot.
+ *
+ * @param userAgent - User-Agent header value
+ * @returns 'user_agent' for bots, null for browsers
+ */
+export function classifyUserAgent(userAgent: string | null | undefined): BotReason | null {
+  if (!userAgent || !userAgent.trim()) {
+    return 'user_agent';
+  }
+
+  return BOT_USER_AGENT_PATTERNS.some((pattern) => pattern.test(userAgent)) ? 'user_agent' : null;
+}
+
+/**
+ * Check an event's data for the tracker's headless signal
+ *
+ * @param data - Event data
+ * @returns true if the tracker reported navigator.webdriver
+ */
+export function hasHeadlessSignal(data: unknown): boolean {
+  return (data as Record<string, unknown> | null)?.webdriver === true;
+}
+
+/**
+ * Check a session's events for cadence no human could produce
+ *
+ * @param events - Session events ordered by timestamp
+ * @returns true for runs of rapid-fire pageviews or click bursts
+ */
+export function hasImpossibleCadence(
+  events: Array<{ eventType: string; timestamp: Date }>
+): boolean {
+  // Rapid-fire pageviews (crawlers walking the site)
+  let fastRun = 1;
+  let previousPageview: number | null = null;
+
+  for (const event of events) {
+    if (event.eventType !== 'pageview') continue;
+
+    const time = event.timestamp.getTime();
+    if (previousPageview !== null && time - previousPageview < BOT_DETECTION_CONFIG.fastPageviewIntervalMs) {
+      fastRun++;
+      if (fastRun >= BOT_DETECTION_CONFIG.fastPageviewRun) return true;
+    } else {
+      fastRun = 1;
+    }
+    previousPageview = time;
+  }
+
+  // Click bursts (scripted clicking)
+  const clicks = events
+    .filter((event) => event.eventType === 'click')
+    .map((event) => event.timestamp.getTime());
+
+  for (let start = 0, end = 0; end < clicks.length; end++) {
+    while (clicks[end] - clicks[start] > BOT_DETECTION_CONFIG.clickBurstWindowMs) start++;
+    if (end - start + 1 >= BOT_DETECTION_CONFIG.clickBurstSize) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Classify a session from its events
+ *
+ * @param events - Session events ordered by timestamp
+ * @returns First matching bot reason, or null for human sessions
+ */
+export function classifySession(
+  events: Array<{ eventType: string; timestamp: Date; data: unknown; botReason?: string | null }>
+): BotReason | null {
+  const tagged = events.find((event) => event.botReason);
+  if (tagged) {
+    return tagged.botReason as BotReason;
+  }
+
+  if (events.some((event) => hasHeadlessSignal(event.data))) {
+    return 'headless';
+  }
+
+  return hasImpossibleCadence(events) ? 'cadence' : null;
+}
@@ -1,264 +1,225 @@
 /**
  * Event Processor Service
  *
- * Handles buffering and batch writes for tracking events.
- * Buffers events in memory and writes to database in batches for performance.
+ * Durably stages tracking events for ingestion.
+ * Events are written to the EventOutbox table inside the request, so a 200
+ * from /api/track means the events are stored; the outbox consumer
+ * (services/tracking/outbox-consumer.ts) drains them into TrackingEvent.
  */
 
 import { prisma } from '@/lib/prisma';
-import type { TrackingEvent } from '@/types/tracking';
+import { CUSTOM_EVENT_LIMITS, type TrackingEvent } from '@/types/tracking';
+import { hasHeadlessSignal, type BotReason } from '@/services/tracking/bot-detector';
+import { scrubEventData } from '@/services/tracking/pii-scrubber';
 import type { Prisma } from '@prisma/client';
 
 /**
- * Buffer configuration
+ * Staged event (EventOutbox row data)
  */
-const BUFFER_CONFIG = {
-  maxSize: 100,        // Maximum events in buffer before flush
-  flushIntervalMs: 5000, // Flush interval in milliseconds (5 seconds)
-};
-
-/**
- * Buffered event with metadata
- */
-interface BufferedEvent {
+interface StagedEvent {
   siteId: string;
   sessionId: string;
+  clientEventId: string;
   eventType: string;
   timestamp: Date;
   data: Prisma.InputJsonValue;
+  botReason: BotReason | null;
+  visitorId: string | null;
 }
 
 /**
- * Event buffer storage
+ * Dedupe key for an event (matches the (siteId, clientEventId) unique indexes)
  */
-class EventBuffer {
-  private buffer: BufferedEvent[] = [];
-  private flushTimer: NodeJS.Timeout | null = null;
-  private retryTimer: NodeJS.Timeout | null = null;
-  private isFlushing = false;
+function dedupeKey(event: StagedEvent): string {
+  return `${event.siteId}:${event.clientEventId}`;
+}
 
-  /**
-   * Add event to buffer
-   */
-  add(event: BufferedEvent): void {
-    this.buffer.push(event);
+/**
+ * Process tracking event result
+ */
+export interface ProcessEventResult {
+  success: boolean;
+  error?: string;
+  /** Events written to the outbox */
+  stored: number;
+  /** Events dropped because they exceeded custom event limits */
+  rejected?: number;
+  /** Events skipped because their clientEventId was already received */
+  duplicates?: number;
+  /** Events dropped for lack of analytics consent */
+  nonConsented?: number;
+}
 
-    // Check if buffer is full
-    if (this.buffer.length >= BUFFER_CONFIG.maxSize) {
-      this.flush();
-    } else if (!this.flushTimer) {
-      // Start flush timer if not already running
-      this.startFlushTimer();
-    }
+/**
+ * Validate custom event properties against CUSTOM_EVENT_LIMITS
+ *
+ * Properties must be a flat map of string/number/boolean/null values.
+ *
+ * @param properties - Custom event properties (may be null/undefined)
+ * @returns Error message, or null when the properties are valid
+ */
+export function validateCustomEventProperties(properties: unknown): string | null {
+  if (properties === null || properties === undefined) {
+    return null;
   }
 
-  /**
-   * Start periodic flush timer
-   */
-  private startFlushTimer(): void {
-    this.flushTimer = setTimeout(() => {
-      this.flush();
-    }, BUFFER_CONFIG.flushIntervalMs);
+  if (typeof properties !== 'object' || Array.isArray(properties)) {
+    return 'properties must be an object';
   }
 
-  /**
-   * Clear flush timer
-   */
-  private clearFlushTimer(): void {
-    if (this.flushTimer) {
-      clearTimeout(this.flushTimer);
-      this.flushTimer = null;
-    }
-  }
+  const entries = Object.entries(properties as Record<string, unknown>);
 
-  /**
-   * Clear retry timer
-   */
-  private clearRetryTimer(): void {
-    if (this.retryTimer) {
-      clearTimeout(this.retryTimer);
-      this.retryTimer = null;
-    }
+  if (entries.length > CUSTOM_EVENT_LIMITS.maxProperties) {
+    return `too many properties (max ${CUSTOM_EVENT_LIMITS.maxProperties})`;
   }
 
-  /**
-   * Flush buffer to database
-   */
-  async flush(): Promise<void> {
-    // Prevent concurrent flushes
-    if (this.isFlushing || this.buffer.length === 0) {
-      return;
+  for (const [key, value] of entries) {
+    if (key.length === 0 || key.length > CUSTOM_EVENT_LIMITS.maxPropertyKeyLength) {
+      return `property name "${key.slice(0, 20)}" must be 1-${CUSTOM_EVENT_LIMITS.maxPropertyKeyLength} characters`;
     }
 
-    this.isFlushing = true;
-    this.clearFlushTimer();
-
-    // Take current buffer and reset
-    const eventsToWrite = this.buffer.splice(0);
-
-    try {
-      // Batch write to database
-      await prisma.trackingEvent.createMany({
-        data: eventsToWrite,
-        skipDuplicates: true,
-      });
-
-      console.log(`[EventProcessor] Flushed ${eventsToWrite.length} events to database`);
-    } catch (error) {
-      // Error recovery: re-add failed events to buffer
-      console.error('[EventProcessor] Batch write failed:', error);
-      console.error(`[EventProcessor] Re-queuing ${eventsToWrite.length} events`);
-
-      // Add failed events back to beginning of buffer
-      this.buffer.unshift(...eventsToWrite);
+    if (value === null || typeof value === 'boolean') {
+      continue;
+    }
 
-      // Retry after delay (track timer to prevent leaks)
-      this.clearRetryTimer();
-      this.retryTimer = setTimeout(() => {
-        this.retryTimer = null;
-        this.flush();
-      }, 5000);
-    } finally {
-      this.isFlushing = false;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        return `property "${key}" must be a finite number`;
+      }
+      continue;
+    }
 
-      // Restart timer if buffer has events
-      if (this.buffer.length > 0 && !this.flushTimer) {
-        this.startFlushTimer();
+    if (typeof value === 'string') {
+      if (value.length > CUSTOM_EVENT_LIMITS.maxPropertyStringLength) {
+        return `property "${key}" exceeds ${CUSTOM_EVENT_LIMITS.maxPropertyStringLength} characters`;
       }
+      continue;
     }
-  }
 
-  /**
-   * Get current buffer size
-   */
-  size(): number {
-    return this.buffer.length;
+    return `property "${key}" must be a string, number, boolean or null`;
   }
 
-  /**
-   * Clear buffer (for testing)
-   */
-  clear(): void {
-    this.clearFlushTimer();
-    this.clearRetryTimer();
-    this.buffer = [];
-  }
+  return null;
 }
 
 /**
- * Global event buffer instance
- */
-const eventBuffer = new EventBuffer();
-
-/**
- * Process tracking event result
+ * Options for processTrackingEvents
  */
-export interface ProcessEventResult {
-  success: boolean;
-  error?: string;
-  buffered: boolean;
-}
-
-/**
- * Process a tracking event
- *
- * Adds event to buffer for batch processing.
- * Handles immediate flush if buffer is full.
- *
- * @param event - Tracking event to process
- * @returns Processing result
- */
-export async function processTrackingEvent(
-  event: TrackingEvent
-): Promise<ProcessEventResult> {
-  try {
-    // Convert event to buffered format
-    const bufferedEvent: BufferedEvent = {
-      siteId: event.siteId,
-      sessionId: event.sessionId,
-      eventType: event.event.type,
-      timestamp: new Date(event.event.timestamp),
-      data: event.event.data as Prisma.InputJsonValue,
-    };
-
-    // Add to buffer
-    eventBuffer.add(bufferedEvent);
-
-    return {
-      success: true,
-      buffered: true,
-    };
-  } catch (error) {
-    console.error('[EventProcessor] Failed to process event:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      buffered: false,
-    };
-  }
+export interface ProcessEventOptions {
+  /** Bot classification of the request (from its User-Agent) */
+  botReason?: BotReason | null;
+  /**
+   * The request carried a browser privacy signal (Sec-GPC); only events
+   * with explicit consent are kept
+   */
+  privacySignal?: boolean;
 }
 
 /**
  * Process multiple tracking events
  *
- * SERVERLESS-OPTIMIZED: Writes directly to database instead of buffering
- * for Vercel/serverless environments where in-memory state is not preserved.
+ * Writes the batch to the EventOutbox in a single statement before returning,
+ * so nothing is held in instance memory (safe on serverless instances that
+ * are frozen or recycled after responding).
+ *
+ * Bot traffic is tagged (botReason) rather than dropped so it can be
+ * reviewed separately. Events without analytics consent are dropped.
+ * PII that slipped past the tracker's masking is redacted before staging.
  *
  * @param events - Array of tracking events
+ * @param options - Request-level classification
  * @returns Processing result
  */
 export async function processTrackingEvents(
-  events: TrackingEvent[]
+  events: TrackingEvent[],
+  options: ProcessEventOptions = {}
 ): Promise<ProcessEventResult> {
   try {
-    // Convert events to database format
-    const dbEvents: BufferedEvent[] = events.map(event => ({
-      siteId: event.siteId,
-      sessionId: event.sessionId,
-      eventType: event.event.type,
-      timestamp: new Date(event.event.timestamp),
-      data: event.event.data as Prisma.InputJsonValue,
-    }));
+    // Drop events without analytics consent
+    const consentedEvents = events.filter(
+      (event) => event.consent !== false && (!options.privacySignal || event.consent === true)
+    );
+    const nonConsented = events.length - consentedEvents.length;
+
+    if (nonConsented > 0) {
+      console.warn(`[EventProcessor] Dropped ${nonConsented} events without analytics consent`);
+    }
+
+    // Drop custom events whose properties (and identify events whose
+    // traits) exceed the limits
+    let rejected = 0;
+    const acceptedEvents = consentedEvents.filter(event => {
+      if (event.event.type !== 'custom' && event.event.type !== 'identify') return true;
+
+      const error = validateCustomEventProperties(
+        event.event.type === 'custom' ? event.event.data.properties : event.event.data.traits
+      );
+      if (!error) return true;
+
+      console.warn(`[EventProcessor] Rejected ${event.event.type} event:`, {
+        siteId: event.siteId,
+        name: event.event.data.name ?? event.event.data.customerId,
+        error,
+      });
+      rejected++;
+      return false;
+    });
 
-    // Write directly to database (serverless-compatible)
-    await prisma.trackingEvent.createMany({
+    if (acceptedEvents.length === 0) {
+      return {
+        success: true,
+        stored: 0,
+        rejected,
+        nonConsented,
+      };
+    }
+
+    // Convert events to database format, dropping repeats within the batch
+    const seenKeys = new Set<string>();
+    const dbEvents: StagedEvent[] = [];
+
+    for (const event of acceptedEvents) {
+      const dbEvent: StagedEvent = {
+        siteId: event.siteId,
+        sessionId: event.sessionId,
+        clientEventId: event.clientEventId,
+        eventType: event.event.type,
+        timestamp: new Date(event.event.timestamp),
+        data: scrubEventData(event.event.type, event.event.data) as Prisma.InputJsonValue,
+        botReason: options.botReason ?? (hasHeadlessSignal(event.event.data) ? 'headless' : null),
+        visitorId: event.visitorId ?? null,
+      };
+
+      const key = dedupeKey(dbEvent);
+      if (seenKeys.has(key)) continue;
+      seenKeys.add(key);
+      dbEvents.push(dbEvent);
+    }
+
+    // Stage in the outbox; skipDuplicates drops events that are still pending
+    // (events already drained are dropped by TrackingEvent's unique index)
+    const { count } = await prisma.eventOutbox.createMany({
       data: dbEvents,
       skipDuplicates: true,
     });
 
-    console.log(`[EventProcessor] Wrote ${dbEvents.length} events to database`);
+    const duplicates = acceptedEvents.length - count;
+
+    console.log(`[EventProcessor] Staged ${count} events in outbox (${duplicates} duplicates skipped)`);
 
     return {
       success: true,
-      buffered: false, // Changed to false since we write immediately
+      stored: count,
+      rejected,
+      duplicates,
+      nonConsented,
     };
   } catch (error) {
     console.error('[EventProcessor] Failed to process events:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-      buffered: false,
+      stored: 0,
     };
   }
 }
-
-/**
- * Force flush buffer (for testing or graceful shutdown)
- */
-export async function flushEventBuffer(): Promise<void> {
-  await eventBuffer.flush();
-}
-
-/**
- * Get current buffer size
- */
-export function getBufferSize(): number {
-  return eventBuffer.size();
-}
-
-/**
- * Clear buffer (for testing)
- */
-export function clearEventBuffer(): void {
-  eventBuffer.clear();
-}
@@ -0,0 +1,182 @@
+/**
+ * Live Events Service
+ *
+ * Feeds the dashboard's live events panel, used to verify an install.
+ * - Events rejected by trackingEventBatchSchema are kept in RejectedEvent with
+ *   their validation issues, grouped per event, when the batch carries a
+ *   valid tracking token (pruned after a day by the rejected-event-cleanup job)
+ * - Accepted events are read from the outbox (staged) and TrackingEvent
+ *   (drained), so they appear as soon as /api/track answers 200
+ */
+
+import type { ZodError } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { verifyTrackingToken } from '@/services/tracking/tracking-token';
+import type { LiveEvent, LiveEventError } from '@/types/live-events';
+
+/**
+ * Live events configuration
+ */
+export const LIVE_EVENTS_CONFIG = {
+  maxRejectedPerBatch: 20,                  // Rejected events stored per request
+  rejectedRetentionMs: 24 * 60 * 60 * 1000, // RejectedEvent rows kept for a day
+  maxEvents: 50,                            // Events returned per poll
+};
+
+/**
+ * Read a string field of an untyped object
+ */
+function stringField(value: unknown, key: string): string | null {
+  if (!value || typeof value !== 'object') return null;
+  const field = (value as Record<string, unknown>)[key];
+  return typeof field === 'string' ? field.slice(0, 255) : null;
+}
+
+/**
+ * Group a batch's validation issues by event
+ *
+ * Issues under events[i] belong to that event (path relative to it); any
+ * other issue (token, batchId, batch size) is batch-level.
+ *
+ * @returns Map of event index (-1 for batch-level) to its issues
+ */
+export function groupValidationIssues(error: ZodError): Map<number, LiveEventError[]> {
+  const groups = new Map<number, LiveEventError[]>();
+
+  for (const issue of error.issues) {
+    const [root, index, ...rest] = issue.path;
+    const isEventIssue = root === 'events' && typeof index === 'number';
+    const key = isEventIssue ? index : -1;
+    const path = (isEventIssue ? rest : issue.path).map(String).join('.');
+
+    const issues = groups.get(key) ?? [];
+    issues.push({ path, message: issue.message });
+    groups.set(key, issues);
+  }
+
+  return groups;
+}
+
+/**
+ * Record the events of a batch that failed validation
+ *
+ * Only batches carrying a valid, unrevoked tracking token are recorded, under
+ * the token's site, so unauthenticated requests can't write to a site's
+ * panel (tokens are rate limited per client IP). Batches without a usable
+ * token are rejected without a record. Failures are logged and swallowed;
+ * the request is rejected either way.
+ *
+ * @param body - Parsed request body
+ * @param error - Validation error from trackingEventBatchSchema
+ */
+export async function recordRejectedEvents(body: unknown, error: ZodError): Promise<void> {
+  try {
+    const batch = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+    const events = Array.isArray(batch.events) ? batch.events : [];
+    if (typeof batch.token !== 'string') return;
+
+    const verification = verifyTrackingToken(batch.token);
+    if (!verification.valid) return;
+    const { siteId, ver } = verification.payload;
+
+    const business = await prisma.business.findUnique({
+      where: { siteId },
+      select: { trackingTokenVersion: true },
+    });
+    if (!business || business.trackingTokenVersion !== ver) return;
+
+    const rows = Array.from(groupValidationIssues(error))
+      .slice(0, LIVE_EVENTS_CONFIG.maxRejectedPerBatch)
+      .map(([index, errors]) => {
+        const event = index >= 0 ? events[index] : null;
+        return {
+          siteId,
+          sessionId: stringField(event, 'sessionId'),
+          eventType: stringField((event as { event?: unknown } | null)?.event, 'type'),
+          errors: errors as unknown as Prisma.InputJsonValue,
+        };
+      });
+
+    await prisma.rejectedEvent.createMany({ data: rows });
+  } catch (recordError) {
+    console.error('[LiveEvents] Failed to record rejected events:', recordError);
+  }
+}
+
+/**
+ * Delete rejected events past their retention, across all sites
+ *
+ * @returns Number of rows deleted
+ */
+export async function pruneRejectedEvents(): Promise<number> {
+  const { count } = await prisma.rejectedEvent.deleteMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - LIVE_EVENTS_CONFIG.rejectedRetentionMs) },
+    },
+  });
+
+  return count;
+}
+
+/**
+ * List a site's events received since a point in time
+ *
+ * @param siteId - Site identifier
+ * @param since - Only events received after this time
+ * @param limit - Maximum number of events (the most recent are kept)
+ * @returns Events, oldest first
+ */
+export async function listLiveEvents(
+  siteId: string,
+  since: Date,
+  limit = LIVE_EVENTS_CONFIG.maxEvents
+): Promise<LiveEvent[]> {
+  const where = { siteId, createdAt: { gt: since } };
+  const select = {
+    clientEventId: true,
+    sessionId: true,
+    eventType: true,
+    data: true,
+    createdAt: true,
+  };
+
+  const [staged, stored, rejected] = await Promise.all([
+    prisma.eventOutbox.findMany({ where, select, orderBy: { createdAt: 'desc' }, take: limit }),
+    prisma.trackingEvent.findMany({ where, select, orderBy: { createdAt: 'desc' }, take: limit }),
+    prisma.rejectedEvent.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit }),
+  ]);
+
+  // An event drained between the two reads shows up in both tables
+  const accepted = new Map<string, LiveEvent>();
+  for (const row of [...staged, ...stored]) {
+    const id = row.clientEventId ?? `${row.sessionId}:${row.createdAt.getTime()}`;
+    if (accepted.has(id)) continue;
+    accepted.set(id, {
+      id,
+      status: 'accepted',
+      sessionId: row.sessionId,
+      eventType: row.eventType,
+      url: stringField(row.data, 'url'),
+      receivedAt: row.createdAt.toISOString(),
+      errors: [],
+    });
+  }
+
+  const events: LiveEvent[] = [
+    ...accepted.values(),
+    ...rejected.map((row) => ({
+      id: row.id,
+      status: 'rejected' as const,
+      sessionId: row.sessionId,
+      eventType: row.eventType,
+      url: null,
+      receivedAt: row.createdAt.toISOString(),
+      errors: Array.isArray(row.errors) ? (row.errors as unknown as LiveEventError[]) : [],
+    })),
+  ];
+
+  return events
+    .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt))
+    .slice(-limit);
+}
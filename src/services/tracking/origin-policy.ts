@@ -0,0 +1,124 @@
+/**
+ * Origin Policy Service
+ *
+ * Per-site CORS allow-list for the tracking endpoints.
+ * - Origins are stored normalized (scheme://host[:port], lowercase)
+ * - "https://*.example.com" entries match any subdomain of example.com
+ * - A site with no configured origins accepts any origin, so existing
+ *   installs keep working until the merchant configures the list
+ */
+
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Maximum number of allowed origins per site
+ */
+export const MAX_ALLOWED_ORIGINS = 50;
+
+/**
+ * Build CORS headers for a tracking endpoint response
+ *
+ * The request's Origin is echoed back only once it has been checked against
+ * the site's allow-list.
+ *
+ * @param origin - Origin to allow (null for non-browser requests or rejected origins)
+ * @param methods - Methods the endpoint accepts
+ */
+export function corsHeaders(origin: string | null, methods = 'POST, OPTIONS'): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Methods': methods,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Max-Age': '86400',
+    Vary: 'Origin',
+  };
+
+  if (origin) {
+    headers['Access-Control-Allow-Origin'] = origin;
+  }
+
+  return headers;
+}
+
+/**
+ * Normalize user input to an origin
+ *
+ * Accepts full URLs ("https://shop.com/products") and bare hosts
+ * ("shop.com", which is assumed to be https), and supports a leading
+ * "*." wildcard label.
+ *
+ * @param input - Origin, URL or host entered by the merchant
+ * @returns Normalized origin, or null if the input isn't a valid http(s) origin
+ */
+export function normalizeOrigin(input: string): string | null {
+  const trimmed = input.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  // URL() rejects "*" in hostnames, so parse the wildcard host without it
+  const wildcardMatch = withScheme.match(/^([a-z]+:\/\/)\*\.(.*)$/);
+  const candidate = wildcardMatch ? `${wildcardMatch[1]}${wildcardMatch[2]}` : withScheme;
+
+  let url: URL;
+  try {
+    url = new URL(candidate);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  if (!url.hostname || url.username || url.password) return null;
+
+  // Wildcards need at least a registrable domain ("*.com" is too broad)
+  if (wildcardMatch && !url.hostname.includes('.')) return null;
+
+  const host = wildcardMatch ? `*.${url.host}` : url.host;
+  return `${url.protocol}//${host}`;
+}
+
+/**
+ * Check whether an origin is allowed by a site's allow-list
+ *
+ * @param origin - Value of the request's Origin header
+ * @param allowedOrigins - Normalized origins configured for the site
+ * @returns true if allowed (always true for an empty list)
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  if (allowedOrigins.length === 0) return true;
+
+  const normalized = normalizeOrigin(origin);
+  if (!normalized || normalized.includes('*')) return false;
+
+  return allowedOrigins.some((allowed) => {
+    if (allowed === normalized) return true;
+
+    const wildcard = allowed.match(/^([a-z]+:\/\/)\*\.(.*)$/);
+    if (!wildcard) return false;
+
+    const [, scheme, domain] = wildcard;
+    return normalized.startsWith(scheme) && normalized.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Record a rejected cross-origin attempt for the dashboard counter
+ *
+ * Failures are logged and swallowed; the request is rejected either way.
+ *
+ * @param siteId - Site the request targeted
+ * @param origin - Rejected Origin header value
+ */
+export async function recordRejectedOrigin(siteId: string, origin: string): Promise<void> {
+  try {
+    await prisma.business.update({
+      where: { siteId },
+      data: {
+        rejectedOriginCount: { increment: 1 },
+        lastRejectedOrigin: origin.slice(0, 255),
+        lastRejectedOriginAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('[OriginPolicy] Failed to record rejected origin:', error);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Outbox Consumer Service
+ *
+ * Drains staged events from the EventOutbox table into TrackingEvent.
+ * - Batches are inserted and deleted from the outbox in one transaction
+ * - A failed batch is retried row by row so one bad event can't block the rest
+ * - Rows that keep failing are retried with exponential backoff and
+ *   dead-lettered after OUTBOX_CONFIG.maxAttempts
+ * - getOutboxMetrics() reports backlog size and lag for monitoring
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { EventOutbox, Prisma } from '@prisma/client';
+
+/**
+ * Consumer configuration
+ */
+export const OUTBOX_CONFIG = {
+  batchSize: 500,                 // Rows per drain transaction
+  maxBatchesPerRun: 20,           // Bound a single run (10K events)
+  maxAttempts: 5,                 // Dead-letter after this many failed attempts
+  retryBackoffMs: 30 * 1000,      // Base backoff, doubled per attempt
+  backlogWarningSize: 10000,      // Pending rows before health reports degraded
+  lagWarningMs: 5 * 60 * 1000,    // Oldest pending row age before health reports degraded
+};
+
+/**
+ * Result of a drain run
+ */
+export interface DrainResult {
+  /** Rows moved into TrackingEvent */
+  drained: number;
+  /** Rows already present in TrackingEvent (removed from outbox without insert) */
+  duplicates: number;
+  /** Rows that failed and were rescheduled */
+  retried: number;
+  /** Rows that exhausted their attempts */
+  deadLettered: number;
+  /** Batches processed */
+  batches: number;
+}
+
+/**
+ * Outbox backpressure metrics
+ */
+export interface OutboxMetrics {
+  /** Rows waiting to be drained (including ones waiting for a retry) */
+  pending: number;
+  /** Rows that exhausted their attempts */
+  deadLettered: number;
+  /** Age of the oldest pending row in milliseconds (0 if empty) */
+  oldestPendingAgeMs: number;
+}
+
+/**
+ * Convert an outbox row into TrackingEvent create data
+ */
+function toTrackingEvent(row: EventOutbox): Prisma.TrackingEventCreateManyInput {
+  return {
+    siteId: row.siteId,
+    sessionId: row.sessionId,
+    clientEventId: row.clientEventId,
+    eventType: row.eventType,
+    timestamp: row.timestamp,
+    data: row.data as Prisma.InputJsonValue,
+    botReason: row.botReason,
+    visitorId: row.visitorId,
+  };
+}
+
+/**
+ * Move rows into TrackingEvent and delete them from the outbox atomically
+ *
+ * @returns Number of rows inserted (the rest were duplicates)
+ */
+async function moveRows(rows: EventOutbox[]): Promise<number> {
+  const [created] = await prisma.$transaction([
+    prisma.trackingEvent.createMany({
+      data: rows.map(toTrackingEvent),
+      skipDuplicates: true,
+    }),
+    prisma.eventOutbox.deleteMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+    }),
+  ]);
+
+  return created.count;
+}
+
+/**
+ * Record a failed attempt: reschedule with backoff or dead-letter the row
+ *
+ * @returns true if the row was dead-lettered
+ */
+async function recordFailure(row: EventOutbox, error: unknown, now: Date): Promise<boolean> {
+  const attempts = row.attempts + 1;
+  const deadLetter = attempts >= OUTBOX_CONFIG.maxAttempts;
+
+  await prisma.eventOutbox.update({
+    where: { id: row.id },
+    data: {
+      attempts,
+      lastError: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+      nextAttemptAt: new Date(
+        now.getTime() + OUTBOX_CONFIG.retryBackoffMs * Math.pow(2, attempts - 1)
+      ),
+      deadLetteredAt: deadLetter ? now : null,
+    },
+  });
+
+  return deadLetter;
+}
+
+/**
+ * Drain due outbox rows into TrackingEvent
+ *
+ * Runs until the outbox has no due rows or maxBatchesPerRun is reached.
+ * Must not run concurrently with itself (the Inngest job limits concurrency to 1).
+ *
+ * @returns Drain statistics
+ */
+export async function drainEventOutbox(): Promise<DrainResult> {
+  const result: DrainResult = {
+    drained: 0,
+    duplicates: 0,
+    retried: 0,
+    deadLettered: 0,
+    batches: 0,
+  };
+
+  for (let batch = 0; batch < OUTBOX_CONFIG.maxBatchesPerRun; batch++) {
+    const now = new Date();
+    const rows = await prisma.eventOutbox.findMany({
+      where: {
+        deadLetteredAt: null,
+        nextAttemptAt: { lte: now },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: OUTBOX_CONFIG.batchSize,
+    });
+
+    if (rows.length === 0) break;
+    result.batches++;
+
+    try {
+      const created = await moveRows(rows);
+      result.drained += created;
+      result.duplicates += rows.length - created;
+    } catch (batchError) {
+      console.warn(
+        `[OutboxConsumer] Batch of ${rows.length} failed, retrying rows individually:`,
+        batchError instanceof Error ? batchError.message : batchError
+      );
+
+      // Isolate the failing rows so the rest of the batch still lands
+      for (const row of rows) {
+        try {
+          const created = await moveRows([row]);
+          result.drained += created;
+          result.duplicates += 1 - created;
+        } catch (rowError) {
+          const deadLettered = await recordFailure(row, rowError, now);
+          if (deadLettered) {
+            result.deadLettered++;
+            console.error('[OutboxConsumer] Event dead-lettered:', {
+              id: row.id,
+              siteId: row.siteId,
+              clientEventId: row.clientEventId,
+            });
+          } else {
+            result.retried++;
+          }
+        }
+      }
+    }
+
+    // A short batch means the outbox has no more due rows
+    if (rows.length < OUTBOX_CONFIG.batchSize) break;
+  }
+
+  return result;
+}
+
+/**
+ * Get outbox backpressure metrics
+ *
+ * @returns Backlog size, dead-letter count and lag of the oldest pending row
+ */
+export async function getOutboxMetrics(): Promise<OutboxMetrics> {
+  const [pending, deadLettered, oldest] = await Promise.all([
+    prisma.eventOutbox.count({ where: { deadLetteredAt: null } }),
+    prisma.eventOutbox.count({ where: { deadLetteredAt: { not: null } } }),
+    prisma.eventOutbox.findFirst({
+      where: { deadLetteredAt: null },
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  return {
+    pending,
+    deadLettered,
+    oldestPendingAgeMs: oldest ? Date.now() - oldest.createdAt.getTime() : 0,
+  };
+}
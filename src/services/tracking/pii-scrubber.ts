@@ -0,0 +1,247 @@
+/**
+ * PII Scrubber Service
+ *
+ * Redacts personal data from event data before it is persisted.
+ * - Built-in patterns: email addresses, phone numbers, card numbers
+ * - Per-site patterns (Business.maskPatterns) and selectors
+ *   (Business.maskSelectors) are pushed to the tracking script with the
+ *   tracking token and applied in the browser only, like the data-mf-mask /
+ *   data-mf-ignore attributes; merchant-supplied regular expressions never
+ *   run on the server
+ *
+ * Only free-form event data (behavioural and custom events) is scrubbed;
+ * commerce events carry structured IDs and amounts.
+ */
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = '[redacted]';
+
+/**
+ * Limits for per-site masking rules
+ */
+export const MASKING_LIMITS = {
+  maxSelectors: 50,
+  maxPatterns: 20,
+  maxPatternLength: 200,
+  maxScrubLength: 2000, // Longer strings are matched in segments of this length
+} as const;
+
+/**
+ * Built-in PII patterns
+ */
+export const PII_PATTERNS = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  // Requires separators, so plain numeric IDs aren't matched
+  phone: /(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
+  // 13-19 digits, optionally grouped; matches are Luhn-checked
+  card: /\b\d(?:[ -]?\d){12,18}\b/g,
+};
+
+/**
+ * Fields that hold URLs (or stack traces of them); only emails are redacted
+ * there, since long numeric path/query IDs look like card and phone numbers
+ */
+const URL_FIELDS = new Set(['url', 'referrer', 'href', 'source', 'stack']);
+
+/**
+ * Event types whose data is scrubbed
+ */
+const SCRUBBED_EVENT_TYPES = new Set([
+  'pageview',
+  'click',
+  'form',
+  'scroll',
+  'time',
+  'custom',
+  'performance',
+  'error',
+  'rage_click',
+  'dead_click',
+  'impression',
+]);
+
+/**
+ * Luhn checksum (card number validation)
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Whether a pattern can backtrack catastrophically: a repeated group that
+ * contains a quantifier or an alternation (e.g. "(a+)+", "(a|aa)*"), or a
+ * backreference
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier or an alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+  let closedRiskyGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const afterRiskyGroup = closedRiskyGroup;
+    closedRiskyGroup = false;
+
+    if (char === '\\') {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? '')) return true;
+      i++;
+      continue;
+    }
+
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the group's modifier: (?: (?= (?! (?<= (?<! (?<name>
+      const modifier = pattern.slice(i + 1).match(/^\?(?:<[=!]|<[^>]*>|[:=!])/);
+      if (modifier) i += modifier[0].length;
+    } else if (char === ')') {
+      const risky = groups.pop() ?? false;
+      if (risky && groups.length > 0) groups[groups.length - 1] = true;
+      closedRiskyGroup = risky;
+    } else if (char === '|') {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === '*' || char === '+' || char === '?' || /^\{\d+(?:,\d*)?\}/.test(pattern.slice(i))) {
+      // An optional group ("?") runs at most once
+      if (afterRiskyGroup && char !== '?') return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Validate a per-site mask pattern
+ *
+ * Patterns run in visitors' browsers, so ones that can backtrack
+ * catastrophically are rejected.
+ *
+ * @param pattern - Regular expression source entered by the merchant
+ * @returns Error message, or null when the pattern is usable
+ */
+export function validateMaskPattern(pattern: string): string | null {
+  if (pattern.length > MASKING_LIMITS.maxPatternLength) {
+    return `Pattern "${pattern.slice(0, 20)}..." exceeds ${MASKING_LIMITS.maxPatternLength} characters`;
+  }
+
+  try {
+    new RegExp(pattern);
+  } catch {
+    return `"${pattern}" is not a valid regular expression`;
+  }
+
+  if (hasNestedQuantifier(pattern)) {
+    return `"${pattern}" can make matching hang (nested quantifiers, repeated alternations and backreferences aren't supported)`;
+  }
+
+  return null;
+}
+
+/**
+ * Filter per-site mask patterns down to usable ones (patterns saved before
+ * a validation rule was added are dropped)
+ *
+ * @param patterns - Regular expression sources
+ * @returns Patterns that pass validateMaskPattern
+ */
+export function usableMaskPatterns(patterns: string[]): string[] {
+  return patterns.filter((pattern) => !validateMaskPattern(pattern));
+}
+
+/**
+ * Split a string into segments of at most maxScrubLength characters, at
+ * whitespace where possible, so matching time stays bounded
+ */
+function scrubSegments(value: string): string[] {
+  const segments: string[] = [];
+  let rest = value;
+
+  while (rest.length > MASKING_LIMITS.maxScrubLength) {
+    const window = rest.slice(0, MASKING_LIMITS.maxScrubLength);
+    const lastSpace = Math.max(window.lastIndexOf(' '), window.lastIndexOf('\n'));
+    const end = lastSpace > 0 ? lastSpace + 1 : MASKING_LIMITS.maxScrubLength;
+    segments.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+
+  segments.push(rest);
+  return segments;
+}
+
+/**
+ * Redact PII from a string
+ *
+ * @param value - String to scrub
+ * @param isUrl - Only apply the email pattern (URL fields)
+ * @returns Scrubbed string (same length as the input when nothing matched)
+ */
+export function scrubText(value: string, isUrl = false): string {
+  return scrubSegments(value)
+    .map((segment) => {
+      let result = segment.replace(PII_PATTERNS.email, REDACTED);
+
+      if (!isUrl) {
+        result = result.replace(PII_PATTERNS.phone, REDACTED);
+        result = result.replace(PII_PATTERNS.card, (match) =>
+          passesLuhn(match.replace(/\D/g, '')) ? REDACTED : match
+        );
+      }
+
+      return result;
+    })
+    .join('');
+}
+
+/**
+ * Redact PII from every string in a value (recursing into objects and arrays)
+ */
+function scrubValue(value: unknown, key?: string): unknown {
+  if (typeof value === 'string') {
+    return scrubText(value, key !== undefined && URL_FIELDS.has(key));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubValue(item));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, entry]) => [entryKey, scrubValue(entry, entryKey)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Redact PII from an event's data
+ *
+ * @param eventType - Event type (commerce events are returned unchanged)
+ * @param data - Event data
+ * @returns Scrubbed copy of the data
+ */
+export function scrubEventData<T>(eventType: string, data: T): T {
+  if (!SCRUBBED_EVENT_TYPES.has(eventType)) {
+    return data;
+  }
+
+  return scrubValue(data) as T;
+}
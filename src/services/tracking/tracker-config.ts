@@ -0,0 +1,59 @@
+/**
+ * Tracker Configuration Service
+ *
+ * Resolves a site's stored tracker settings (Business.trackerConfig) into
+ * the configuration document the tracking script applies on init().
+ */
+
+import {
+  DEFAULT_TRACKER_SETTINGS,
+  trackerSettingsSchema,
+  type TrackerConfigDocument,
+  type TrackerSettings,
+} from '@/types/tracker-config';
+import { usableMaskPatterns } from '@/services/tracking/pii-scrubber';
+
+/**
+ * Merge stored settings over the defaults
+ *
+ * Keys missing from the stored document (sites that never saved, or
+ * settings added later) take their default. A document that doesn't
+ * validate falls back to the defaults entirely.
+ *
+ * @param stored - Business.trackerConfig JSON value
+ * @returns Complete, valid tracker settings
+ */
+export function parseTrackerSettings(stored: unknown): TrackerSettings {
+  const value =
+    stored && typeof stored === 'object' && !Array.isArray(stored)
+      ? (stored as Partial<TrackerSettings>)
+      : {};
+
+  const result = trackerSettingsSchema.safeParse({
+    ...DEFAULT_TRACKER_SETTINGS,
+    ...value,
+    modules: { ...DEFAULT_TRACKER_SETTINGS.modules, ...value.modules },
+  });
+
+  return result.success ? result.data : DEFAULT_TRACKER_SETTINGS;
+}
+
+/**
+ * Build the configuration document served to the tracking script
+ *
+ * @param business - The site's stored settings and masking rules
+ * @returns Settings plus masking rules
+ */
+export function buildTrackerConfig(business: {
+  trackerConfig: unknown;
+  maskSelectors: string[];
+  maskPatterns: string[];
+}): TrackerConfigDocument {
+  return {
+    ...parseTrackerSettings(business.trackerConfig),
+    masking: {
+      selectors: business.maskSelectors,
+      patterns: usableMaskPatterns(business.maskPatterns),
+    },
+  };
+}
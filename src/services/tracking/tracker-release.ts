@@ -0,0 +1,133 @@
+/**
+ * Tracker Release Service
+ *
+ * Selects and builds the per-site tracking script served at
+ * /t/<siteId>.js.
+ * - Releases are minified builds of public/tracking.js published with
+ *   scripts/tracker-release.ts and stored in TrackerRelease
+ * - A release reaches the share of sites given by its rolloutPercent; each
+ *   site falls in a stable bucket (0-99), so widening a rollout never moves
+ *   a site back, and setting it to 0 rolls the release back
+ * - A site pinned to a version (Business.trackerVersion) keeps it
+ * - Before any release is published, public/tracking.js is served as is
+ */
+
+import crypto from 'crypto';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import type { SiteTrackerScript, TrackerBuild, TrackerConfigDocument } from '@/types/tracker-config';
+
+let bundledBuild: Promise<TrackerBuild> | null = null;
+
+/**
+ * Read the version a tracking.js source reports (MetricFortune.version)
+ *
+ * @param source - tracking.js source
+ * @returns Version, or null if the source doesn't declare one
+ */
+export function trackerSourceVersion(source: string): string | null {
+  return source.match(/\bversion:\s*['"]([^'"]+)['"]/)?.[1] ?? null;
+}
+
+/**
+ * Rollout bucket of a site
+ *
+ * @param siteId - Site identifier
+ * @returns Stable bucket from 0 to 99
+ */
+export function rolloutBucket(siteId: string): number {
+  return crypto.createHash('sha256').update(siteId).digest().readUInt32BE(0) % 100;
+}
+
+/**
+ * public/tracking.js, served until a release is published
+ */
+function loadBundledBuild(): Promise<TrackerBuild> {
+  if (!bundledBuild) {
+    bundledBuild = readFile(path.join(process.cwd(), 'public', 'tracking.js'), 'utf8').then((script) => ({
+      version: trackerSourceVersion(script) ?? 'bundled',
+      script,
+    }));
+  }
+  return bundledBuild;
+}
+
+/**
+ * Find a build by version
+ */
+async function findBuild(version: string): Promise<TrackerBuild | null> {
+  const release = await prisma.trackerRelease.findUnique({
+    where: { version },
+    select: { version: true, script: true },
+  });
+  if (release) return release;
+
+  const bundled = await loadBundledBuild();
+  return bundled.version === version ? bundled : null;
+}
+
+/**
+ * Select the tracker build for a site
+ *
+ * @param siteId - Site identifier
+ * @param options.version - Version requested in the script URL (?v=)
+ * @param options.pinnedVersion - Version the site is pinned to
+ * @returns The build, or null if the requested version doesn't exist
+ */
+export async function resolveTrackerBuild(
+  siteId: string,
+  options: { version?: string | null; pinnedVersion?: string | null } = {}
+): Promise<TrackerBuild | null> {
+  if (options.version) {
+    return findBuild(options.version);
+  }
+
+  if (options.pinnedVersion) {
+    const pinned = await findBuild(options.pinnedVersion);
+    if (pinned) return pinned;
+    console.warn('[TrackerRelease] Pinned version not found, following the rollout:', {
+      siteId,
+      version: options.pinnedVersion,
+    });
+  }
+
+  const release = await prisma.trackerRelease.findFirst({
+    where: { rolloutPercent: { gt: rolloutBucket(siteId) } },
+    orderBy: { createdAt: 'desc' },
+    select: { version: true, script: true },
+  });
+
+  return release ?? loadBundledBuild();
+}
+
+/**
+ * Wrap a build with the site's ID and configuration
+ *
+ * The tracking script reads them from its MF_INLINE parameter, so it
+ * auto-initializes without a data-site-id attribute or a config request.
+ *
+ * @param build - Tracker build
+ * @param siteId - Site identifier
+ * @param config - The site's tracker configuration
+ * @returns Script body with its integrity hash
+ */
+export function buildSiteScript(
+  build: TrackerBuild,
+  siteId: string,
+  config: TrackerConfigDocument
+): SiteTrackerScript {
+  // Safe inside a <script> context and in pre-ES2019 string literals
+  const inline = JSON.stringify({ siteId, config })
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+  const body = `/*! MetricFortune tracker ${build.version} */\n(function (MF_INLINE) {\n${build.script}\n})(${inline});\n`;
+
+  return {
+    version: build.version,
+    body,
+    integrity: `sha384-${crypto.createHash('sha384').update(body).digest('base64')}`,
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Tracking Token Service
+ *
+ * Short-lived signed tokens that authorize a tracking session to send events.
+ * - Issued by GET /api/track/token when the tracking script initializes
+ * - HMAC-SHA256 over siteId + sessionId + expiry + the business's token version
+ * - Bumping Business.trackingTokenVersion (done by regenerateSiteId)
+ *   invalidates every outstanding token for the site
+ * - Batch IDs are remembered until the token expires so a captured request
+ *   can't be replayed
+ *
+ * The replay cache is in-memory per instance, like the rate limiter.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Token configuration
+ */
+export const TRACKING_TOKEN_CONFIG = {
+  ttlMs: 60 * 60 * 1000, // Tokens are valid for 1 hour
+  clockSkewMs: 60 * 1000, // Grace period when checking expiry
+};
+
+/**
+ * Signed token claims
+ */
+export interface TrackingTokenPayload {
+  /** Site the token was issued for */
+  siteId: string;
+  /** Session the token was issued for */
+  sessionId: string;
+  /** Expiry (epoch milliseconds) */
+  exp: number;
+  /** Business.trackingTokenVersion at issue time */
+  ver: number;
+}
+
+/**
+ * Result of verifying a token
+ */
+export type TrackingTokenVerification =
+  | { valid: true; payload: TrackingTokenPayload }
+  | { valid: false; reason: 'malformed' | 'signature' | 'expired' };
+
+/**
+ * Get signing secret from environment variable
+ */
+function getTokenSecret(): string {
+  const secret = process.env.TRACKING_TOKEN_SECRET;
+
+  if (!secret) {
+    throw new Error('TRACKING_TOKEN_SECRET environment variable not set');
+  }
+
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return crypto
+    .createHmac('sha256', getTokenSecret())
+    .update(encodedPayload)
+    .digest('base64url');
+}
+
+/**
+ * Issue a signed token for a tracking session
+ *
+ * @param siteId - Site identifier
+ * @param sessionId - Tracker session identifier
+ * @param tokenVersion - Current Business.trackingTokenVersion
+ * @returns Token and its expiry (epoch milliseconds)
+ */
+export function issueTrackingToken(
+  siteId: string,
+  sessionId: string,
+  tokenVersion: number
+): { token: string; expiresAt: number } {
+  const payload: TrackingTokenPayload = {
+    siteId,
+    sessionId,
+    exp: Date.now() + TRACKING_TOKEN_CONFIG.ttlMs,
+    ver: tokenVersion,
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return {
+    token: `${encodedPayload}.${sign(encodedPayload)}`,
+    expiresAt: payload.exp,
+  };
+}
+
+/**
+ * Verify a token's signature and expiry
+ *
+ * The caller still has to check the claims against the request (siteId,
+ * sessionId) and the business's current token version.
+ *
+ * @param token - Token from the request body
+ * @returns Verified payload, or the reason the token was rejected
+ */
+export function verifyTrackingToken(token: string): TrackingTokenVerification {
+  const parts = token.split('.');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [encodedPayload, signature] = parts;
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return { valid: false, reason: 'signature' };
+  }
+
+  let payload: TrackingTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (
+    typeof payload?.siteId !== 'string' ||
+    typeof payload.sessionId !== 'string' ||
+    typeof payload.exp !== 'number' ||
+    typeof payload.ver !== 'number'
+  ) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (payload.exp + TRACKING_TOKEN_CONFIG.clockSkewMs < Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  return { valid: true, payload };
+}
+
+// Batches already received, keyed by token signature + batchId
+const seenBatches = new Map<string, number>();
+
+// Cleanup interval to prevent memory leaks
+let cleanupInterval: NodeJS.Timeout | null = null;
+
+function startCleanupInterval(): void {
+  if (!cleanupInterval) {
+    cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      for (const [key, expiresAt] of seenBatches.entries()) {
+        if (now >= expiresAt) {
+          seenBatches.delete(key);
+        }
+      }
+    }, 5 * 60 * 1000); // 5 minutes
+
+    // Don't keep the process alive for cleanup
+    if (cleanupInterval.unref) {
+      cleanupInterval.unref();
+    }
+  }
+}
+
+startCleanupInterval();
+
+/**
+ * Record a batch and report whether it was already received
+ *
+ * Entries live until the token expires; after that the token itself is rejected.
+ *
+ * @param token - Verified token the batch was sent with
+ * @param batchId - Client-generated batch identifier
+ * @param expiresAt - Token expiry (epoch milliseconds)
+ * @returns true if this batch was seen before (a replay)
+ */
+export function isReplayedBatch(token: string, batchId: string, expiresAt: number): boolean {
+  const key = `${token.slice(token.lastIndexOf('.') + 1)}:${batchId}`;
+
+  if (seenBatches.has(key)) {
+    return true;
+  }
+
+  seenBatches.set(key, expiresAt + TRACKING_TOKEN_CONFIG.clockSkewMs);
+  return false;
+}
+
+/**
+ * Clear the replay cache (for testing)
+ */
+export function clearSeenBatches(): void {
+  seenBatches.clear();
+}
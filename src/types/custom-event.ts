@@ -0,0 +1,20 @@
+/**
+ * Custom Event Report Type Definitions
+ * Defines types for the custom event (MetricFortune.track) dashboard report
+ */
+
+/**
+ * Aggregated metrics for a single custom event name
+ */
+export interface CustomEventStats {
+  /** Event name passed to MetricFortune.track() */
+  name: string;
+  /** Total number of times the event fired */
+  count: number;
+  /** Number of distinct sessions that fired the event */
+  uniqueSessions: number;
+  /** Number of those sessions that converted */
+  convertedSessions: number;
+  /** Percentage of sessions that fired the event and converted (0-100) */
+  conversionRate: number;
+}
@@ -0,0 +1,74 @@
+/**
+ * Click Heatmap Type Definitions
+ * Defines types for click heatmap aggregation and the heatmap API
+ */
+
+/**
+ * Device classes heatmaps are split by (layouts differ per breakpoint)
+ */
+export const DEVICE_CLASSES = ['mobile', 'tablet', 'desktop'] as const;
+
+export type DeviceClass = (typeof DEVICE_CLASSES)[number];
+
+/**
+ * Viewport width the overlay renders each device class at (px)
+ */
+export const DEVICE_VIEWPORT_WIDTHS: Record<DeviceClass, number> = {
+  mobile: 390,
+  tablet: 820,
+  desktop: 1280,
+};
+
+/**
+ * Heatmap grid: columns span the viewport width; rows are fixed-height
+ * bands of the document
+ */
+export const HEATMAP_GRID = {
+  columns: 40,
+  rowHeight: 25, // px
+  maxRows: 800, // Clicks below 20,000px are dropped
+} as const;
+
+/**
+ * Click counts per grid cell, keyed "column:row"
+ */
+export type HeatmapCells = Record<string, number>;
+
+/**
+ * Binned clicks of a URL template and device class over an aggregation window
+ * Stored as a ClickHeatmap row
+ */
+export interface ClickHeatmapData {
+  siteId: string;
+  urlTemplate: string;
+  deviceClass: DeviceClass;
+  periodStart: Date;
+  periodEnd: Date;
+  clicks: number;
+  sampleUrl: string | null; // A page URL of the template, for the overlay
+  cells: HeatmapCells;
+}
+
+/**
+ * One heatmap grid cell
+ */
+export interface HeatmapTile {
+  column: number;
+  row: number;
+  clicks: number;
+}
+
+/**
+ * Heatmap API response (GET /api/heatmaps)
+ */
+export interface HeatmapResponse {
+  urlTemplate: string;
+  deviceClass: DeviceClass;
+  columns: number;
+  rowHeight: number;
+  viewportWidth: number;
+  totalClicks: number;
+  maxClicks: number;
+  sampleUrl: string | null;
+  tiles: HeatmapTile[];
+}
@@ -0,0 +1,26 @@
+/**
+ * Impression Report Type Definitions
+ * Defines types for the element impression (data-mf-impression) report
+ */
+
+/**
+ * Visibility and conversion metrics for a named element
+ */
+export interface ImpressionStats {
+  /** Value of the element's data-mf-impression attribute */
+  name: string;
+  /** URL templates the element was seen on, most impressions first */
+  pages: string[];
+  /** Total impressions (at most one per page view) */
+  impressions: number;
+  /** Aggregated sessions that viewed a page the element is on */
+  exposedSessions: number;
+  /** Those of them that saw the element */
+  seenSessions: number;
+  /** seenSessions / exposedSessions (0-100) */
+  impressionRate: number;
+  /** Conversion rate of sessions that saw the element (0-100) */
+  seenConversionRate: number;
+  /** Conversion rate of exposed sessions that didn't see it (0-100); null when all saw it */
+  notSeenConversionRate: number | null;
+}
@@ -0,0 +1,35 @@
+/**
+ * JavaScript Error Report Type Definitions
+ * Defines types for the error-impact report and ERROR patterns
+ */
+
+/**
+ * Errors grouped by fingerprint, with their conversion impact
+ */
+export interface ErrorGroupStats {
+  /** Stable hash of the normalized message and script */
+  fingerprint: string;
+  /** 'error' (uncaught) or 'unhandledrejection' */
+  kind: string;
+  /** Message of the most recent occurrence */
+  message: string;
+  /** Script URL of the most recent occurrence */
+  source: string | null;
+  line: number | null;
+  /** URL template the error occurs on most often */
+  page: string | null;
+  /** Total number of times the error was reported */
+  occurrences: number;
+  /** Aggregated sessions that hit the error (upscaled for sampled sessions) */
+  affectedSessions: number;
+  /** Aggregated sessions that hit the error, as observed */
+  observedSessions: number;
+  /** Conversion rate of sessions that hit the error (0-100) */
+  conversionRate: number;
+  /** Conversion rate of the other sessions (0-100) */
+  baselineConversionRate: number;
+  /** baselineConversionRate - conversionRate, in percentage points */
+  conversionImpact: number;
+  /** Conversion drop is statistically significant (two-proportion z-test) */
+  significant: boolean;
+}
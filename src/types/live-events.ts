@@ -0,0 +1,32 @@
+/**
+ * Live Events Type Definitions
+ * Defines the events streamed to the dashboard's live events panel
+ */
+
+/**
+ * Validation issue of a rejected event
+ */
+export interface LiveEventError {
+  /** Field path within the event (e.g. "event.data.productId"); "" for the event itself */
+  path: string;
+  message: string;
+}
+
+/**
+ * Event received for a site, as shown in the live events panel
+ */
+export interface LiveEvent {
+  /** clientEventId of accepted events, row ID of rejected ones */
+  id: string;
+  /** accepted: staged or stored; rejected: failed trackingEventBatchSchema */
+  status: 'accepted' | 'rejected';
+  sessionId: string | null;
+  /** null for batch-level validation errors */
+  eventType: string | null;
+  /** Page URL from the event data, when present */
+  url: string | null;
+  /** When the server received (or, once drained, stored) the event (ISO 8601) */
+  receivedAt: string;
+  /** Validation issues; empty for accepted events */
+  errors: LiveEventError[];
+}
@@ -9,12 +9,16 @@ import { DateRange } from './session';
 
 /**
  * Pattern type enumeration
- * Defines the three types of behavioral patterns detected by the system
+ * Defines the types of behavioral patterns detected by the system
  */
 export enum PatternType {
   ABANDONMENT = 'ABANDONMENT',
   HESITATION = 'HESITATION',
   LOW_ENGAGEMENT = 'LOW_ENGAGEMENT',
+  PERFORMANCE = 'PERFORMANCE',
+  ERROR = 'ERROR',
+  FRUSTRATION = 'FRUSTRATION',
+  BELOW_FOLD = 'BELOW_FOLD',
 }
 
 /**
@@ -38,6 +42,36 @@ export interface PatternMetadata {
   siteAverage?: number; // Site average time on page (seconds)
   engagementGap?: number; // Percentage below average (0-100)
 
+  // Performance pattern fields (page is the URL template)
+  poorVitals?: string[]; // Web Vitals rated poor, e.g. ['lcp', 'inp']
+  lcp?: number | null; // p75 (ms)
+  cls?: number | null; // p75 layout shift score
+  inp?: number | null; // p75 (ms)
+  ttfb?: number | null; // p75 (ms)
+  fcp?: number | null; // p75 (ms)
+  exitRate?: number; // Percentage of the page's pageviews that end the session (0-100)
+  siteExitRate?: number; // Same, across all pages (0-100)
+
+  // Error pattern fields (page is the URL template the error occurs on most)
+  fingerprint?: string; // Error group fingerprint
+  errorMessage?: string;
+  source?: string | null; // Script URL
+  conversionRate?: number; // Of sessions that hit the error (0-100)
+  baselineConversionRate?: number; // Of sessions that didn't (0-100)
+  conversionImpact?: number; // Percentage-point drop
+
+  // Frustration pattern fields (per selector on a page template)
+  selector?: string;
+  rageClicks?: number;
+  deadClicks?: number;
+  frustrationRate?: number; // Sessions with rage/dead clicks on the selector / sessions viewing the page (0-100)
+
+  // Below-the-fold pattern fields (page is the URL template)
+  ctaSeenRate?: number; // Pageviews where the add-to-cart area entered the viewport (0-100)
+  convertingCtaSeenRate?: number | null; // Same, for sessions that converted
+  nonConvertingCtaSeenRate?: number | null; // Same, for sessions that didn't
+  averageScrollDepth?: number; // Mean deepest scroll position (0-100)
+
   // Common fields
   affectedSessions?: number; // Number of sessions showing this pattern
   sampleSize?: number; // Total sessions analyzed for this pattern
@@ -95,6 +129,24 @@ export const PATTERN_THRESHOLDS = {
   HESITATION_RATE: 20, // Minimum re-entry percentage (20%)
   LOW_ENGAGEMENT_THRESHOLD: 0.7, // 70% of site average
   MIN_PAGEVIEWS_PER_URL: 50, // Minimum sample size for engagement patterns
+  MIN_VITALS_SAMPLES: 50, // Minimum page loads reporting vitals for performance patterns
+  PERFORMANCE_EXIT_LIFT: 1.2, // Page exit rate at least 20% above the site's
+  MIN_ERROR_SESSIONS: 30, // Minimum sessions hitting an error for error patterns
+  ERROR_IMPACT_Z: 1.96, // Minimum z-score of the conversion drop (95% confidence)
+  MIN_FRUSTRATION_SESSIONS: 10, // Minimum sessions with rage/dead clicks on a selector
+  FRUSTRATION_RATE: 5, // Minimum percentage of the page's sessions with rage/dead clicks (5%)
+  CTA_SEEN_RATE: 50, // Maximum percentage of pageviews seeing the add-to-cart area (50%)
+} as const;
+
+/**
+ * "Poor" thresholds for p75 Core Web Vitals (web.dev)
+ */
+export const WEB_VITAL_THRESHOLDS = {
+  lcp: 4000, // ms
+  cls: 0.25,
+  inp: 500, // ms
+  ttfb: 1800, // ms
+  fcp: 3000, // ms
 } as const;
 
 /**
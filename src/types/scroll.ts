@@ -0,0 +1,45 @@
+/**
+ * Scroll Reach Type Definitions
+ * Defines types for the scroll-depth reach report and BELOW_FOLD patterns
+ */
+
+/**
+ * Scroll depths the reach curve is reported at (% of the page)
+ */
+export const SCROLL_MILESTONES = [25, 50, 75, 100] as const;
+
+export type ScrollMilestone = (typeof SCROLL_MILESTONES)[number];
+
+/**
+ * Scroll reach of a set of pageviews
+ */
+export interface ScrollReachSegment {
+  pageviews: number;
+  /** Percentage of pageviews scrolling at least to each milestone (0-100) */
+  reach: Record<ScrollMilestone, number>;
+  /** Mean of the deepest scroll position per pageview (0-100) */
+  averageDepth: number;
+  /** Pageviews of a page with an add-to-cart area */
+  ctaPageviews: number;
+  /** Percentage of ctaPageviews where the area entered the viewport; null without ctaPageviews */
+  ctaSeenRate: number | null;
+}
+
+/**
+ * Scroll reach of a URL template, overall and split by session outcome
+ * ("fold" analysis)
+ */
+export interface ScrollReachStats extends ScrollReachSegment {
+  urlTemplate: string;
+  /** Distinct sessions viewing the page */
+  sessions: number;
+  /** Counts before sampling upscaling, for significance thresholds */
+  observed: {
+    sessions: number;
+    ctaPageviews: number;
+  };
+  /** Pageviews from aggregated sessions that converted */
+  converting: ScrollReachSegment;
+  /** Pageviews from aggregated sessions that didn't convert */
+  nonConverting: ScrollReachSegment;
+}
@@ -5,6 +5,8 @@
  * aggregation service, journey visualization, and related functionality.
  */
 
+import type { WebVital } from '@/types/tracking';
+
 /**
  * Input data structure for session aggregator
  * Represents a processed session ready for storage
@@ -18,10 +20,79 @@ export interface SessionData {
   pageCount: number;
   bounced: boolean;
   converted: boolean;
+  orderValue: number | null; // Sum of purchase event values, null if no purchase
+  currency: string | null; // ISO 4217 currency of the purchase
   journeyPath: string[]; // Ordered array of page URLs
+  isBot: boolean; // Crawler/monitor/automation traffic, excluded from analytics
+  botReason: string | null; // BotReason from services/tracking/bot-detector
+  visitorId: string | null; // First-party visitor ID, null for untracked visitors
+  customerId?: string | null; // From the session's latest identify event
+  customerTraits?: Record<string, unknown> | null; // Traits of that identify event
+  attribution?: SessionAttribution; // Landing page traffic source
+  sampleRate?: number; // Share of the site's sessions tracked (1 when absent)
   createdAt: Date;
 }
 
+/**
+ * Traffic source of a session, taken from its landing pageview
+ * Stored as flat columns on Session
+ */
+export interface SessionAttribution {
+  channel: string; // Channel from services/analytics/channel-classifier
+  referrer: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  utmTerm: string | null;
+  utmContent: string | null;
+  clickIdType: string | null; // 'gclid' | 'fbclid' | 'msclkid'
+}
+
+/**
+ * Session filter for slicing funnels, patterns and stats
+ * by traffic source
+ */
+export interface SessionSegment {
+  channel?: string;
+  campaign?: string; // Session.utmCampaign
+}
+
+/**
+ * p75 Core Web Vitals of a URL template over an aggregation window
+ * Stored as a PageVitals row
+ */
+export interface PageVitalsData {
+  siteId: string;
+  urlTemplate: string; // From services/analytics/url-template
+  periodStart: Date;
+  periodEnd: Date;
+  sampleSize: number; // Page loads reporting vitals
+  lcp: number | null; // ms
+  cls: number | null; // layout shift score
+  inp: number | null; // ms
+  ttfb: number | null; // ms
+  fcp: number | null; // ms
+  histogram: VitalsHistogram; // Mergeable across windows, unlike the p75s
+}
+
+/**
+ * Width of the histogram buckets of each Web Vital
+ * Multiples of the Web Vitals thresholds, so ratings are exact
+ */
+export const VITAL_BUCKET_SIZES: Record<WebVital, number> = {
+  lcp: 10, // ms
+  cls: 0.01,
+  inp: 10, // ms
+  ttfb: 10, // ms
+  fcp: 10, // ms
+};
+
+/**
+ * Page loads per histogram bucket of each Web Vital, keyed by bucket index
+ * (bucket k holds values above (k - 1) and up to k bucket sizes)
+ */
+export type VitalsHistogram = Record<WebVital, Record<string, number>>;
+
 /**
  * Journey sequence extracted from tracking events
  * Represents a user's navigation path through the site
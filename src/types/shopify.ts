@@ -22,7 +22,7 @@ export interface ShopifyAccessTokenResponse {
 // Script Tag Types
 export interface ScriptTagParams {
   event: 'onload';
-  src: string;            // URL to tracking.js script
+  src: string;            // URL of the per-site tracking script
   display_scope: 'all' | 'online_store' | 'order_status';
 }
 
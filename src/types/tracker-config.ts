@@ -0,0 +1,111 @@
+/**
+ * Tracker Configuration Type Definitions
+ * Defines the per-site settings the tracking script applies on init() and
+ * the per-site script builds that inline them
+ */
+
+import { z } from 'zod';
+
+/**
+ * Capture modules of the tracking script that a site can switch off
+ */
+export const TRACKER_MODULES = [
+  'clicks',
+  'forms',
+  'scroll',
+  'vitals',
+  'errors',
+  'frustration',
+  'impressions',
+] as const;
+
+export type TrackerModule = (typeof TRACKER_MODULES)[number];
+
+/**
+ * Tracker settings stored in Business.trackerConfig
+ */
+export interface TrackerSettings {
+  /** Share of sessions tracked (0.01-1), chosen deterministically per session */
+  sampleRate: number;
+  /** Inactivity before the tracker starts a new session */
+  sessionTimeoutMinutes: number;
+  /** Enabled capture modules */
+  modules: Record<TrackerModule, boolean>;
+  /** First-party proxy base URL (e.g. https://shop.example.com/mf); null sends to MetricFortune */
+  endpoint: string | null;
+}
+
+/**
+ * Settings of sites that never saved a tracker configuration
+ */
+export const DEFAULT_TRACKER_SETTINGS: TrackerSettings = {
+  sampleRate: 1,
+  sessionTimeoutMinutes: 30,
+  modules: {
+    clicks: true,
+    forms: true,
+    scroll: true,
+    vitals: true,
+    errors: true,
+    frustration: true,
+    impressions: true,
+  },
+  endpoint: null,
+};
+
+export const trackerSettingsSchema = z.object({
+  sampleRate: z
+    .number()
+    .min(0.01, { message: 'Sampling rate must be at least 1%' })
+    .max(1, { message: 'Sampling rate cannot exceed 100%' }),
+  sessionTimeoutMinutes: z
+    .number()
+    .int({ message: 'Session timeout must be a whole number of minutes' })
+    .min(5, { message: 'Session timeout must be at least 5 minutes' })
+    .max(240, { message: 'Session timeout cannot exceed 240 minutes' }),
+  modules: z.object({
+    clicks: z.boolean(),
+    forms: z.boolean(),
+    scroll: z.boolean(),
+    vitals: z.boolean(),
+    errors: z.boolean(),
+    frustration: z.boolean(),
+    impressions: z.boolean(),
+  }),
+  endpoint: z
+    .string()
+    .max(200)
+    .regex(/^https:\/\/[^\s/?#]+(\/[^\s?#]*)?$/, { message: 'Endpoint must be an https:// URL' })
+    .nullable(),
+});
+
+/**
+ * Configuration document served by GET /api/track/config
+ */
+export interface TrackerConfigDocument extends TrackerSettings {
+  /** The site's masking rules, applied by the tracking script */
+  masking: {
+    selectors: string[];
+    patterns: string[];
+  };
+}
+
+/**
+ * Build of the tracking script selected for a site
+ */
+export interface TrackerBuild {
+  version: string;
+  /** Minified release, or public/tracking.js before any release is published */
+  script: string;
+}
+
+/**
+ * Per-site tracking script served at /t/<siteId>.js
+ */
+export interface SiteTrackerScript {
+  version: string;
+  /** The build wrapped with the site's ID and configuration */
+  body: string;
+  /** Subresource Integrity hash of body ("sha384-..."), also its ETag */
+  integrity: string;
+}
@@ -1,9 +1,107 @@
 import { z } from 'zod';
 
+/**
+ * Behavioural event types captured automatically by the tracking script
+ */
+export type BehaviorEventType = 'pageview' | 'click' | 'form' | 'scroll' | 'time';
+
+/**
+ * E-commerce event types (sent via tracker helpers or platform integrations)
+ */
+export type CommerceEventType =
+  | 'product_view'
+  | 'add_to_cart'
+  | 'remove_from_cart'
+  | 'begin_checkout'
+  | 'add_payment_info'
+  | 'purchase';
+
+/**
+ * Site-defined event type (sent via MetricFortune.track(name, properties))
+ */
+export type CustomEventType = 'custom';
+
+/**
+ * Identity event type (sent via MetricFortune.identify(customerId, traits))
+ */
+export type IdentityEventType = 'identify';
+
+/**
+ * Diagnostic event types captured automatically by the tracking script
+ */
+export type DiagnosticEventType = 'performance' | 'error';
+
+/**
+ * Frustration event types derived from clicks by the tracking script
+ */
+export type FrustrationEventType = 'rage_click' | 'dead_click';
+
+/**
+ * Impression event type: a `data-mf-impression` element was seen
+ */
+export type ImpressionEventType = 'impression';
+
 /**
  * Event types supported by the tracking system
  */
-export type EventType = 'pageview' | 'click' | 'form' | 'scroll' | 'time';
+export type EventType =
+  | BehaviorEventType
+  | CommerceEventType
+  | CustomEventType
+  | IdentityEventType
+  | DiagnosticEventType
+  | FrustrationEventType
+  | ImpressionEventType;
+
+/**
+ * Behavioural event types, in schema order
+ */
+export const BEHAVIOR_EVENT_TYPES = ['pageview', 'click', 'form', 'scroll', 'time'] as const;
+
+/**
+ * E-commerce event types, in funnel order
+ */
+export const COMMERCE_EVENT_TYPES = [
+  'product_view',
+  'add_to_cart',
+  'remove_from_cart',
+  'begin_checkout',
+  'add_payment_info',
+  'purchase',
+] as const;
+
+/**
+ * Event types that mark a session as converted
+ * ('conversion' is the legacy type emitted by tracker versions before 1.2.0)
+ */
+export const CONVERSION_EVENT_TYPES: readonly string[] = ['purchase', 'conversion'];
+
+/**
+ * Event type that puts a product in the cart (cart abandonment is measured from it)
+ */
+export const ADD_TO_CART_EVENT_TYPE = 'add_to_cart' satisfies CommerceEventType;
+
+/**
+ * Limits for custom events
+ * Property values must be flat primitives so they can be reported on;
+ * the property limits are enforced in processTrackingEvents.
+ */
+export const CUSTOM_EVENT_LIMITS = {
+  maxNameLength: 100,
+  maxProperties: 25,
+  maxPropertyKeyLength: 50,
+  maxPropertyStringLength: 255,
+} as const;
+
+/**
+ * Maximum events per request
+ * The browser limit matches the tracker's offline queue cap (maxStoredEvents);
+ * backend integrations send larger batches to POST /api/v1/events.
+ */
+export const BATCH_LIMITS = {
+  browser: 500,
+  server: 5000,
+} as const;
 
 /**
  * Position data for click events
@@ -13,6 +111,20 @@ export interface Position {
   y: number;
 }
 
+/**
+ * Campaign attribution captured on a session's landing pageview
+ */
+export interface Attribution {
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  utmCampaign?: string | null;
+  utmTerm?: string | null;
+  utmContent?: string | null;
+  gclid?: string | null;
+  fbclid?: string | null;
+  msclkid?: string | null;
+}
+
 /**
  * Event data structure - extensible with type-specific fields
  */
@@ -22,15 +134,24 @@ export interface EventData {
   referrer?: string | null;
   title?: string | null;
   path?: string | null;
+  webdriver?: boolean | null;
+  landing?: boolean | null;
+  attribution?: Attribution | null;
+  sampleRate?: number | null; // Share of the site's sessions tracked (absent when all are)
 
   // Click fields
-  selector?: string | null;
+  selector?: string | null; // Stable selector path (data-mf-id/data-testid/id anchor, nth-of-type)
+  urlTemplate?: string | null; // Page URL template, e.g. /products/:handle
   tagName?: string | null;
   text?: string | null;
   href?: string | null;
   x?: number | null;
   y?: number | null;
   position?: Position | null;
+  pageX?: number | null; // Document-relative click position (heatmaps)
+  pageY?: number | null;
+  vw?: number | null; // Viewport size when clicked
+  vh?: number | null;
 
   // Form fields
   formId?: string | null;
@@ -49,17 +170,158 @@ export interface EventData {
   // Time on page fields
   duration?: number | null;
   timeOnPage?: number | null;
+  ctaSeen?: boolean | null; // Add-to-cart area entered the viewport (absent when the page has none)
 
   // Extensible - allow additional fields
   [key: string]: unknown;
 }
 
+/**
+ * Product line item attached to commerce events
+ */
+export interface CommerceItem {
+  productId?: string | null;
+  variantId?: string | null;
+  name?: string | null;
+  category?: string | null;
+  price?: number | null;
+  quantity?: number | null;
+}
+
+/**
+ * Purchase event data (drives Session.converted and Session.orderValue)
+ * Order fields are optional because some platforms don't expose them on
+ * the confirmation page; the purchase still counts as a conversion.
+ */
+export interface PurchaseData extends EventData {
+  orderId?: string | null;
+  value?: number | null;
+  currency?: string | null;
+  items?: CommerceItem[] | null;
+  tax?: number | null;
+  shipping?: number | null;
+}
+
+/**
+ * Custom event data
+ */
+export interface CustomEventData extends EventData {
+  name: string;
+  properties?: Record<string, string | number | boolean | null> | null;
+}
+
+/**
+ * Identify event data: links the visitor to a known customer
+ * Traits follow the custom event property limits.
+ */
+export interface IdentifyEventData extends EventData {
+  customerId: string;
+  traits?: Record<string, string | number | boolean | null> | null;
+}
+
+/**
+ * Core Web Vitals reported by performance events
+ * (times in milliseconds; cls is the unitless layout shift score)
+ */
+export const WEB_VITALS = ['lcp', 'cls', 'inp', 'ttfb', 'fcp'] as const;
+
+export type WebVital = (typeof WEB_VITALS)[number];
+
+/**
+ * Performance event data: Web Vitals of one page load
+ * Metrics the browser doesn't support (or that never fired) are omitted.
+ */
+export interface PerformanceEventData extends EventData {
+  url: string;
+  lcp?: number | null;
+  cls?: number | null;
+  inp?: number | null;
+  ttfb?: number | null;
+  fcp?: number | null;
+}
+
+/**
+ * JavaScript error event data: an uncaught error or unhandled promise
+ * rejection, reported once per distinct error per page
+ */
+export interface ErrorEventData extends EventData {
+  kind: 'error' | 'unhandledrejection';
+  message: string;
+  source?: string | null; // Script URL, without query string
+  line?: number | null;
+  column?: number | null;
+  stack?: string | null; // Top frames, without query strings
+  url?: string | null; // Page the error occurred on
+}
+
+/**
+ * Limits for JavaScript error events
+ */
+export const ERROR_LIMITS = {
+  maxMessageLength: 500,
+  maxStackLength: 2000,
+} as const;
+
+/**
+ * Frustration event types, in schema order
+ */
+export const FRUSTRATION_EVENT_TYPES = ['rage_click', 'dead_click'] as const;
+
+/**
+ * Frustration event data
+ * - rage_click: several rapid clicks on the same element
+ * - dead_click: a click on a non-interactive element that changed nothing
+ *   (no navigation or DOM mutation shortly after)
+ */
+export interface FrustrationEventData extends EventData {
+  selector: string;
+  tagName?: string;
+  url?: string | null; // Page the click happened on
+  clicks?: number; // Clicks in the burst (rage_click)
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Impression event data: a `data-mf-impression` element was at least half
+ * visible for a second, reported once per name per page
+ */
+export interface ImpressionEventData extends EventData {
+  name: string; // Value of data-mf-impression, e.g. "trust-badges"
+  selector?: string | null;
+  url?: string | null; // Page the element was seen on
+}
+
+/**
+ * Limits for impression events
+ */
+export const IMPRESSION_LIMITS = {
+  maxNameLength: 100,
+} as const;
+
+/**
+ * Limits for visitor identity
+ */
+export const IDENTITY_LIMITS = {
+  maxVisitorIdLength: 100,
+  maxCustomerIdLength: 100,
+} as const;
+
 /**
  * Tracking event structure
  */
 export interface TrackingEvent {
   siteId: string;
   sessionId: string;
+  /** Per-event UUID generated by the tracker; retried/replayed events are stored once */
+  clientEventId: string;
+  /**
+   * Analytics consent: true when explicitly granted, false when withheld
+   * (dropped server-side), omitted when no decision was needed
+   */
+  consent?: boolean;
+  /** First-party visitor ID; persists across sessions (IDENTITY_LIMITS.maxVisitorIdLength) */
+  visitorId?: string;
   event: {
     type: EventType;
     timestamp: number;
@@ -74,6 +336,17 @@ export interface TrackingEventBatch {
   events: TrackingEvent[];
 }
 
+/**
+ * Server-side event structure (sent by backend integrations to POST /api/v1/events)
+ */
+export interface ServerEvent extends Omit<TrackingEvent, 'siteId' | 'sessionId'> {
+  siteId?: string;
+  /** Tracker session the event belongs to (MetricFortune.getSessionId()) */
+  sessionId?: string;
+  /** Site-defined visitor/customer identifier, for events outside a browser session */
+  visitorId?: string;
+}
+
 /**
  * Zod schema for position validation
  */
@@ -82,6 +355,20 @@ const positionSchema = z.object({
   y: z.number(),
 });
 
+/**
+ * Zod schema for landing page attribution
+ */
+const attributionSchema = z.object({
+  utmSource: z.string().max(255).nullish(),
+  utmMedium: z.string().max(255).nullish(),
+  utmCampaign: z.string().max(255).nullish(),
+  utmTerm: z.string().max(255).nullish(),
+  utmContent: z.string().max(255).nullish(),
+  gclid: z.string().max(255).nullish(),
+  fbclid: z.string().max(255).nullish(),
+  msclkid: z.string().max(255).nullish(),
+});
+
 /**
  * Zod schema for event data validation
  * Allows all fields to be optional, nullable, and extensible
@@ -92,15 +379,24 @@ const eventDataSchema = z.object({
   referrer: z.string().nullish(),
   title: z.string().nullish(),
   path: z.string().nullish(),
+  webdriver: z.boolean().nullish(),
+  landing: z.boolean().nullish(),
+  attribution: attributionSchema.nullish(),
+  sampleRate: z.number().gt(0).max(1).nullish(),
 
   // Click
   selector: z.string().nullish(),
+  urlTemplate: z.string().nullish(),
   tagName: z.string().nullish(),
   text: z.string().nullish(),
   href: z.string().nullish(),
   x: z.number().nullish(),
   y: z.number().nullish(),
   position: positionSchema.nullish(),
+  pageX: z.number().nullish(),
+  pageY: z.number().nullish(),
+  vw: z.number().nullish(),
+  vh: z.number().nullish(),
 
   // Form
   formId: z.string().nullish(),
@@ -119,26 +415,234 @@ const eventDataSchema = z.object({
   // Time
   duration: z.number().nullish(),
   timeOnPage: z.number().nullish(),
+  ctaSeen: z.boolean().nullish(),
 }).passthrough(); // Allow additional fields
 
+/**
+ * Zod schema for a product line item
+ * A line item must identify the product or the variant
+ */
+const commerceItemSchema = z
+  .object({
+    productId: z.string().min(1).nullish(),
+    variantId: z.string().min(1).nullish(),
+    name: z.string().nullish(),
+    category: z.string().nullish(),
+    price: z.number().nonnegative().nullish(),
+    quantity: z.number().int().positive().nullish(),
+  })
+  .passthrough()
+  .refine((item) => !!(item.productId || item.variantId), {
+    message: 'productId or variantId is required',
+  });
+
+/**
+ * Zod schemas for commerce event data, keyed by event type
+ */
+const currencySchema = z.string().length(3, { message: 'currency must be an ISO 4217 code' });
+
+const cartValueSchema = z.object({
+  items: z.array(commerceItemSchema).nullish(),
+  value: z.number().nonnegative().nullish(),
+  currency: currencySchema.nullish(),
+}).passthrough();
+
+const commerceDataSchemas = {
+  product_view: commerceItemSchema,
+  add_to_cart: commerceItemSchema,
+  remove_from_cart: commerceItemSchema,
+  begin_checkout: cartValueSchema,
+  add_payment_info: cartValueSchema.extend({
+    paymentType: z.string().nullish(),
+  }),
+  purchase: z.object({
+    orderId: z.string().min(1).nullish(),
+    value: z.number().nonnegative({ message: 'value must be non-negative' }).nullish(),
+    currency: currencySchema.nullish(),
+    items: z.array(commerceItemSchema).nullish(),
+    tax: z.number().nonnegative().nullish(),
+    shipping: z.number().nonnegative().nullish(),
+  }).passthrough(),
+} satisfies Record<CommerceEventType, z.ZodType>;
+
+/**
+ * Zod schema for custom event data
+ * Property types/counts are checked in processTrackingEvents so a single
+ * oversized event doesn't reject the whole batch.
+ */
+const customEventDataSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: 'custom event name is required' })
+    .max(CUSTOM_EVENT_LIMITS.maxNameLength),
+  properties: z.record(z.string(), z.unknown()).nullish(),
+}).passthrough();
+
+/**
+ * Zod schema for identify event data
+ * Traits are checked against CUSTOM_EVENT_LIMITS in processTrackingEvents.
+ */
+const identifyEventDataSchema = z.object({
+  customerId: z
+    .string()
+    .trim()
+    .min(1, { message: 'customerId is required' })
+    .max(IDENTITY_LIMITS.maxCustomerIdLength),
+  traits: z.record(z.string(), z.unknown()).nullish(),
+}).passthrough();
+
+/**
+ * Zod schema for performance event data
+ * Values above an hour (or a layout shift score above 100) are bogus.
+ */
+const vitalSchema = z.number().min(0).max(3_600_000).nullish();
+
+const performanceEventDataSchema = z.object({
+  url: z.string().min(1, { message: 'url is required' }),
+  lcp: vitalSchema,
+  cls: z.number().min(0).max(100).nullish(),
+  inp: vitalSchema,
+  ttfb: vitalSchema,
+  fcp: vitalSchema,
+}).passthrough();
+
+/**
+ * Zod schema for JavaScript error event data
+ */
+const errorEventDataSchema = z.object({
+  kind: z.enum(['error', 'unhandledrejection']),
+  message: z.string().min(1, { message: 'message is required' }).max(ERROR_LIMITS.maxMessageLength),
+  source: z.string().max(2048).nullish(),
+  line: z.number().int().min(0).nullish(),
+  column: z.number().int().min(0).nullish(),
+  stack: z.string().max(ERROR_LIMITS.maxStackLength).nullish(),
+  url: z.string().nullish(),
+}).passthrough();
+
+/**
+ * Zod schema for rage/dead click event data
+ */
+const frustrationEventDataSchema = z.object({
+  selector: z.string().min(1, { message: 'selector is required' }).max(500),
+  urlTemplate: z.string().nullish(),
+  tagName: z.string().max(50).optional(),
+  url: z.string().nullish(),
+  clicks: z.number().int().min(1).max(1000).optional(),
+  x: z.number().optional(),
+  y: z.number().optional(),
+}).passthrough();
+
+/**
+ * Zod schema for impression event data
+ */
+const impressionEventDataSchema = z.object({
+  name: z.string().trim().min(1, { message: 'name is required' }).max(IMPRESSION_LIMITS.maxNameLength),
+  selector: z.string().max(500).nullish(),
+  urlTemplate: z.string().nullish(),
+  url: z.string().nullish(),
+}).passthrough();
+
+const timestampSchema = z.number().positive({ message: 'timestamp must be positive' });
+
+/**
+ * Zod schema for the event payload, discriminated on event type
+ */
+const eventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.enum(BEHAVIOR_EVENT_TYPES),
+    timestamp: timestampSchema,
+    data: eventDataSchema,
+  }),
+  ...COMMERCE_EVENT_TYPES.map((type) =>
+    z.object({
+      type: z.literal(type),
+      timestamp: timestampSchema,
+      data: commerceDataSchemas[type],
+    })
+  ),
+  z.object({
+    type: z.literal('custom'),
+    timestamp: timestampSchema,
+    data: customEventDataSchema,
+  }),
+  z.object({
+    type: z.literal('identify'),
+    timestamp: timestampSchema,
+    data: identifyEventDataSchema,
+  }),
+  z.object({
+    type: z.literal('performance'),
+    timestamp: timestampSchema,
+    data: performanceEventDataSchema,
+  }),
+  z.object({
+    type: z.literal('error'),
+    timestamp: timestampSchema,
+    data: errorEventDataSchema,
+  }),
+  z.object({
+    type: z.enum(FRUSTRATION_EVENT_TYPES),
+    timestamp: timestampSchema,
+    data: frustrationEventDataSchema,
+  }),
+  z.object({
+    type: z.literal('impression'),
+    timestamp: timestampSchema,
+    data: impressionEventDataSchema,
+  }),
+]);
+
 /**
  * Zod schema for tracking event validation
  */
 export const trackingEventSchema = z.object({
   siteId: z.string().min(1, { message: 'siteId is required' }),
   sessionId: z.string().min(1, { message: 'sessionId is required' }),
-  event: z.object({
-    type: z.enum(['pageview', 'click', 'form', 'scroll', 'time']),
-    timestamp: z.number().positive({ message: 'timestamp must be positive' }),
-    data: eventDataSchema,
-  }),
+  clientEventId: z.uuid({ message: 'clientEventId must be a UUID' }),
+  consent: z.boolean().optional(),
+  visitorId: z.string().min(1).max(IDENTITY_LIMITS.maxVisitorIdLength).optional(),
+  event: eventSchema,
 });
 
 /**
  * Zod schema for batch tracking events
  */
 export const trackingEventBatchSchema = z.object({
-  events: z.array(trackingEventSchema).min(1, { message: 'At least one event is required' }),
+  events: z
+    .array(trackingEventSchema)
+    .min(1, { message: 'At least one event is required' })
+    .max(BATCH_LIMITS.browser, { message: `At most ${BATCH_LIMITS.browser} events per batch` }),
+  token: z.string().min(1, { message: 'token is required' }), // From GET /api/track/token
+  batchId: z.uuid({ message: 'batchId must be a UUID' }), // Unique per send, for replay rejection
+});
+
+/**
+ * Zod schema for a server-side event (POST /api/v1/events)
+ * Same shape as a tracking event, but the site comes from the API key and
+ * events are attributed to a tracker session, a visitor, or both.
+ */
+export const serverEventSchema = z
+  .object({
+    siteId: z.string().min(1).optional(), // Must match the API key's site when given
+    sessionId: z.string().min(1).max(100).optional(),
+    visitorId: z.string().min(1).max(IDENTITY_LIMITS.maxVisitorIdLength).optional(),
+    clientEventId: z.uuid({ message: 'clientEventId must be a UUID' }),
+    consent: z.boolean().optional(),
+    event: eventSchema,
+  })
+  .refine((event) => !!(event.sessionId || event.visitorId), {
+    message: 'sessionId or visitorId is required',
+  });
+
+/**
+ * Zod schema for server-side event batches
+ */
+export const serverEventBatchSchema = z.object({
+  events: z
+    .array(serverEventSchema)
+    .min(1, { message: 'At least one event is required' })
+    .max(BATCH_LIMITS.server, { message: `At most ${BATCH_LIMITS.server} events per batch` }),
 });
 
 /**
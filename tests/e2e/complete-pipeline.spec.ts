@@ -4,6 +4,7 @@
  * Tests 24-hour timeline constraint for recommendation generation
  */
 
+import { randomUUID } from 'crypto';
 import { test, expect } from '@playwright/test';
 import { generateBusiness } from '../fixtures/business-generator';
 import { generateSession } from '../fixtures/tracking-data-generator';
@@ -42,8 +43,13 @@ test.describe('Complete Data Pipeline E2E Test', () => {
       scenario: 'abandonment',
     });
 
+    const tokenResponse = await request.get('/api/track/token', {
+      params: { siteId: business.siteId, sessionId: events[0].sessionId },
+    });
+    const { data: tokenData } = await tokenResponse.json();
+
     const response = await request.post('/api/track', {
-      data: { events },
+      data: { events, token: tokenData.token, batchId: randomUUID() },
     });
 
     expect(response.status()).toBe(200);
@@ -92,8 +98,13 @@ test.describe('Complete Data Pipeline E2E Test', () => {
       scenario: 'conversion',
     });
 
+    const tokenResponse = await request.get('/api/track/token', {
+      params: { siteId: business.siteId, sessionId: events[0].sessionId },
+    });
+    const { data: tokenData } = await tokenResponse.json();
+
     const response = await request.post('/api/track', {
-      data: { events },
+      data: { events, token: tokenData.token, batchId: randomUUID() },
     });
 
     expect(response.status()).toBe(200);
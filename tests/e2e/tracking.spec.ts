@@ -117,7 +117,7 @@ test.describe('Tracking Script E2E', () => {
 
   test('should handle errors gracefully without breaking page', async ({ page }) => {
     // Block tracking endpoint to simulate network error
-    await page.route('**/api/track', route => route.abort());
+    await page.route('**/api/track*', route => route.abort());
 
     // Reload page
     await page.reload();
@@ -258,7 +258,21 @@ test.describe('Tracking Script E2E', () => {
 declare global {
   interface Window {
     MetricFortune: {
-      init: (config: { siteId: string }) => void;
+      init: (config: { siteId: string; requireConsent?: boolean; visitorLifetimeDays?: number }) => void;
+      page: () => void;
+      track: (name: string, properties?: Record<string, string | number | boolean | null>) => void;
+      identify: (customerId: string, traits?: Record<string, string | number | boolean | null>) => void;
+      consent: (options: { analytics: boolean }) => void;
+      optOut: () => void;
+      debug: (enabled?: boolean) => void;
+      getSessionId: () => string | null;
+      getVisitorId: () => string | null;
+      productView: (data?: Record<string, unknown>) => void;
+      addToCart: (data?: Record<string, unknown>) => void;
+      removeFromCart: (data?: Record<string, unknown>) => void;
+      beginCheckout: (data?: Record<string, unknown>) => void;
+      addPaymentInfo: (data?: Record<string, unknown>) => void;
+      purchase: (data?: Record<string, unknown>) => void;
       version: string;
     };
   }
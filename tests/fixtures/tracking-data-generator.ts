@@ -3,6 +3,7 @@
  * Generates synthetic tracking events with realistic user behavior patterns
  */
 
+import { randomUUID } from 'crypto';
 import { nanoid } from 'nanoid';
 import type { TrackingEvent, EventType, EventData } from '@/types/tracking';
 
@@ -70,6 +71,7 @@ function createEvent(
   return {
     siteId,
     sessionId,
+    clientEventId: randomUUID(),
     event: {
       type,
       timestamp,
@@ -3,10 +3,32 @@
  * Provides helper functions for making API requests in tests
  */
 
+import { randomUUID } from 'crypto';
 import type { TrackingEvent } from '@/types/tracking';
 
+/**
+ * Get a signed tracking token from the /api/track/token endpoint
+ */
+export async function getTrackingToken(
+  siteId: string,
+  sessionId: string,
+  baseUrl: string = 'http://localhost:3000'
+): Promise<string> {
+  const params = new URLSearchParams({ siteId, sessionId });
+  const response = await fetch(`${baseUrl}/api/track/token?${params}`);
+  const body = await response.json();
+
+  if (!response.ok || !body.data?.token) {
+    throw new Error(`Failed to get tracking token: ${body.error ?? response.status}`);
+  }
+
+  return body.data.token;
+}
+
 /**
  * Submit tracking event(s) to the /api/track endpoint
+ *
+ * All events must belong to the same session (one token per batch).
  */
 export async function submitTrackingEvent(
   siteId: string,
@@ -14,6 +36,7 @@ export async function submitTrackingEvent(
   baseUrl: string = 'http://localhost:3000'
 ): Promise<Response> {
   const eventArray = Array.isArray(events) ? events : [events];
+  const token = await getTrackingToken(siteId, eventArray[0].sessionId, baseUrl);
 
   return fetch(`${baseUrl}/api/track`, {
     method: 'POST',
@@ -22,6 +45,8 @@ export async function submitTrackingEvent(
     },
     body: JSON.stringify({
       events: eventArray,
+      token,
+      batchId: randomUUID(),
     }),
   });
 }
@@ -137,6 +162,7 @@ export function createTrackingEventBatch(
     events.push({
       siteId,
       sessionId,
+      clientEventId: randomUUID(),
       event: {
         type: 'pageview',
         timestamp,
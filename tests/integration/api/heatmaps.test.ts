@@ -0,0 +1,95 @@
+/**
+ * Integration tests for GET /api/heatmaps endpoint
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from '@/app/api/heatmaps/route';
+
+// Mock NextRequest
+class MockNextRequest {
+  nextUrl: URL;
+
+  constructor(params: Record<string, string>) {
+    this.nextUrl = new URL('http://localhost:3000/api/heatmaps');
+    Object.entries(params).forEach(([key, value]) => this.nextUrl.searchParams.set(key, value));
+  }
+}
+
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn(),
+}));
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    business: {
+      findUnique: vi.fn(),
+    },
+    clickHeatmap: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+const mockAuth = auth as unknown as ReturnType<typeof vi.fn>;
+const mockHeatmaps = prisma.clickHeatmap.findMany as ReturnType<typeof vi.fn>;
+
+describe('GET /api/heatmaps', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } });
+    (prisma.business.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ siteId: 'site-1' });
+    mockHeatmaps.mockResolvedValue([
+      { clicks: 3, sampleUrl: 'https://shop.example.com/products/a', cells: { '0:1': 2, '5:0': 1 } },
+      { clicks: 2, sampleUrl: null, cells: { '0:1': 2 } },
+    ]);
+  });
+
+  it('should merge the heatmap windows into tiles', async () => {
+    const request = new MockNextRequest({ urlTemplate: '/products/:handle', device: 'mobile', range: '7' }) as any;
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockHeatmaps).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ siteId: 'site-1', urlTemplate: '/products/:handle', deviceClass: 'mobile' }),
+      })
+    );
+    expect(data.data).toEqual({
+      urlTemplate: '/products/:handle',
+      deviceClass: 'mobile',
+      columns: 40,
+      rowHeight: 25,
+      viewportWidth: 390,
+      totalClicks: 5,
+      maxClicks: 4,
+      sampleUrl: 'https://shop.example.com/products/a',
+      tiles: [
+        { column: 5, row: 0, clicks: 1 },
+        { column: 0, row: 1, clicks: 4 },
+      ],
+    });
+  });
+
+  it('should require a signed-in user', async () => {
+    mockAuth.mockResolvedValue(null);
+
+    const response = await GET(new MockNextRequest({ urlTemplate: '/cart' }) as any);
+
+    expect(response.status).toBe(401);
+    expect(mockHeatmaps).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid parameters', async () => {
+    const missing = await GET(new MockNextRequest({}) as any);
+    const badDevice = await GET(new MockNextRequest({ urlTemplate: '/cart', device: 'watch' }) as any);
+
+    expect(missing.status).toBe(400);
+    expect(badDevice.status).toBe(400);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Integration tests for GET /api/live-events endpoint
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GET } from '@/app/api/live-events/route';
+
+// Mock NextRequest
+class MockNextRequest {
+  headers: Headers;
+  nextUrl: URL;
+  signal: AbortSignal;
+
+  constructor(headers: Record<string, string> = {}, signal = new AbortController().signal) {
+    this.headers = new Headers(headers);
+    this.nextUrl = new URL('http://localhost:3000/api/live-events');
+    this.signal = signal;
+  }
+}
+
+// Mock auth
+vi.mock('@/lib/auth', () => ({
+  auth: vi.fn(),
+}));
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    business: {
+      findUnique: vi.fn(),
+    },
+    eventOutbox: {
+      findMany: vi.fn(),
+    },
+    trackingEvent: {
+      findMany: vi.fn(),
+    },
+    rejectedEvent: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+const mockAuth = auth as unknown as ReturnType<typeof vi.fn>;
+const mockBusiness = prisma.business.findUnique as ReturnType<typeof vi.fn>;
+const mockOutbox = prisma.eventOutbox.findMany as ReturnType<typeof vi.fn>;
+const mockStored = prisma.trackingEvent.findMany as ReturnType<typeof vi.fn>;
+const mockRejected = prisma.rejectedEvent.findMany as ReturnType<typeof vi.fn>;
+
+const now = new Date('2025-12-05T10:00:00.000Z');
+
+const acceptedRow = {
+  clientEventId: 'event-1',
+  sessionId: 'session-1',
+  eventType: 'pageview',
+  data: { url: 'https://shop.example.com/' },
+  createdAt: new Date('2025-12-05T09:59:50.000Z'),
+};
+
+const rejectedRow = {
+  id: 'rejected-1',
+  siteId: 'test-site-123',
+  sessionId: 'session-1',
+  eventType: 'purchase',
+  errors: [{ path: 'event.data.value', message: 'Too small: expected number to be >=0' }],
+  createdAt: new Date('2025-12-05T09:59:55.000Z'),
+};
+
+// Read what the stream has sent so far
+async function readChunks(response: Response, count: number): Promise<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  for (let i = 0; i < count; i++) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+
+  await reader.cancel();
+  return text;
+}
+
+describe('GET /api/live-events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } });
+    mockBusiness.mockResolvedValue({ siteId: 'test-site-123' });
+    mockOutbox.mockResolvedValue([acceptedRow]);
+    mockStored.mockResolvedValue([]);
+    mockRejected.mockResolvedValue([rejectedRow]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stream accepted and rejected events with validation errors', async () => {
+    const response = await GET(new MockNextRequest() as any);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream; charset=utf-8');
+    expect(response.headers.get('Cache-Control')).toBe('no-cache, no-transform');
+
+    const text = await readChunks(response, 2);
+    const messages = text.split('\n\n').filter((message) => message.startsWith('id: '));
+
+    expect(text.startsWith('retry: 2000\n\n')).toBe(true);
+    expect(messages).toHaveLength(2);
+
+    const [accepted, rejected] = messages.map((message) => JSON.parse(message.split('\ndata: ')[1]));
+    expect(accepted).toEqual({
+      id: 'event-1',
+      status: 'accepted',
+      sessionId: 'session-1',
+      eventType: 'pageview',
+      url: 'https://shop.example.com/',
+      receivedAt: '2025-12-05T09:59:50.000Z',
+      errors: [],
+    });
+    expect(rejected).toMatchObject({
+      id: 'rejected-1',
+      status: 'rejected',
+      eventType: 'purchase',
+      errors: [{ path: 'event.data.value', message: 'Too small: expected number to be >=0' }],
+    });
+    expect(messages[1].startsWith('id: 2025-12-05T09:59:55.000Z\n')).toBe(true);
+  });
+
+  it('should start from the last 10 minutes, or from Last-Event-ID after a reconnect', async () => {
+    await readChunks(await GET(new MockNextRequest() as any), 2);
+    expect(mockOutbox).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { siteId: 'test-site-123', createdAt: { gt: new Date('2025-12-05T09:49:55.000Z') } },
+      })
+    );
+
+    mockOutbox.mockClear();
+    await readChunks(
+      await GET(new MockNextRequest({ 'last-event-id': '2025-12-05T09:59:00.000Z' }) as any),
+      2
+    );
+    expect(mockOutbox).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { siteId: 'test-site-123', createdAt: { gt: new Date('2025-12-05T09:58:55.000Z') } },
+      })
+    );
+  });
+
+  it('should send an event once when it is drained from the outbox', async () => {
+    const drained = { ...acceptedRow, createdAt: new Date('2025-12-05T09:59:58.000Z') };
+    mockStored.mockResolvedValue([drained]);
+    mockRejected.mockResolvedValue([]);
+
+    const text = await readChunks(await GET(new MockNextRequest() as any), 2);
+
+    expect(text.match(/"id":"event-1"/g)).toHaveLength(1);
+  });
+
+  it('should require a signed-in user with a business', async () => {
+    mockAuth.mockResolvedValue(null);
+    expect((await GET(new MockNextRequest() as any)).status).toBe(401);
+
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } });
+    mockBusiness.mockResolvedValue(null);
+    expect((await GET(new MockNextRequest() as any)).status).toBe(404);
+    expect(mockOutbox).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Integration tests for POST /api/v1/events endpoint
+ */
+
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { POST } from '@/app/api/v1/events/route';
+import { clearRateLimits, SERVER_EVENTS_RATE_LIMIT } from '@/lib/rate-limiter';
+import { BATCH_LIMITS } from '@/types/tracking';
+
+const API_KEY = 'mf_sk_test-key';
+
+// Mock NextRequest
+class MockNextRequest {
+  private bodyData: unknown;
+  headers: Headers;
+
+  constructor(body: unknown, key: string | null = API_KEY) {
+    this.bodyData = body;
+    this.headers = new Headers({ 'content-type': 'application/json' });
+    if (key) this.headers.set('authorization', `Bearer ${key}`);
+  }
+
+  async json() {
+    return this.bodyData;
+  }
+}
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    apiKey: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    eventOutbox: {
+      createMany: vi.fn(),
+    },
+    trackingEvent: {
+      groupBy: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+
+const mockFindKey = prisma.apiKey.findUnique as ReturnType<typeof vi.fn>;
+const mockCreateMany = prisma.eventOutbox.createMany as ReturnType<typeof vi.fn>;
+const mockGroupBy = prisma.trackingEvent.groupBy as ReturnType<typeof vi.fn>;
+
+function refund(overrides: Record<string, unknown> = {}) {
+  return {
+    sessionId: 'session-456',
+    clientEventId: randomUUID(),
+    event: {
+      type: 'custom',
+      timestamp: Date.now(),
+      data: { name: 'refund', properties: { orderId: '1001', amount: 25 } },
+    },
+    ...overrides,
+  };
+}
+
+describe('POST /api/v1/events', () => {
+  beforeEach(() => {
+    clearRateLimits();
+    vi.clearAllMocks();
+
+    mockFindKey.mockResolvedValue({
+      id: 'key-1',
+      revokedAt: null,
+      business: { id: 'business-1', siteId: 'test-site-123' },
+    });
+    mockCreateMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+    mockGroupBy.mockResolvedValue([]);
+  });
+
+  describe('Authentication', () => {
+    it('should require an API key', async () => {
+      const response = await POST(new MockNextRequest({ events: [refund()] }, null) as any);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe('Missing API key');
+      expect(mockFindKey).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown keys', async () => {
+      mockFindKey.mockResolvedValue(null);
+
+      const response = await POST(new MockNextRequest({ events: [refund()] }) as any);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toBe('Invalid API key');
+    });
+
+    it('should reject revoked keys', async () => {
+      mockFindKey.mockResolvedValue({
+        id: 'key-1',
+        revokedAt: new Date(),
+        business: { id: 'business-1', siteId: 'test-site-123' },
+      });
+
+      const response = await POST(new MockNextRequest({ events: [refund()] }) as any);
+
+      expect(response.status).toBe(401);
+      expect(mockCreateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject events for another site', async () => {
+      const response = await POST(
+        new MockNextRequest({ events: [refund({ siteId: 'other-site' })] }) as any
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockCreateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Ingestion', () => {
+    it('should stage events for the key\'s site', async () => {
+      const response = await POST(new MockNextRequest({ events: [refund()] }) as any);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data).toEqual({ stored: 1, duplicates: 0, rejected: 0, nonConsented: 0, unmatched: 0 });
+      expect(mockCreateMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            siteId: 'test-site-123',
+            sessionId: 'session-456',
+            eventType: 'custom',
+            botReason: null,
+          }),
+        ],
+        skipDuplicates: true,
+      });
+      expect(prisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('should attribute events without a session to the visitor\'s latest session', async () => {
+      mockGroupBy.mockResolvedValue([
+        { visitorId: 'customer-42', sessionId: 'session-old', _max: { timestamp: new Date('2025-11-01T10:00:00Z') } },
+        { visitorId: 'customer-42', sessionId: 'session-new', _max: { timestamp: new Date('2025-11-20T10:00:00Z') } },
+      ]);
+      const event = refund({ sessionId: undefined, visitorId: 'customer-42' });
+      event.event.timestamp = new Date('2025-11-20T10:20:00Z').getTime();
+
+      const response = await POST(new MockNextRequest({ events: [event] }) as any);
+
+      expect(response.status).toBe(200);
+      expect(mockGroupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            siteId: 'test-site-123',
+            visitorId: { in: ['customer-42'] },
+            timestamp: { gte: new Date('2025-11-20T09:50:00Z') },
+          },
+        })
+      );
+      expect(mockCreateMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            sessionId: 'session-new',
+            visitorId: 'customer-42',
+            data: expect.objectContaining({ visitorId: 'customer-42' }),
+          }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should not attach events to a visitor session outside the recency window', async () => {
+      mockGroupBy.mockResolvedValue([
+        { visitorId: 'customer-42', sessionId: 'session-old', _max: { timestamp: new Date('2025-11-01T10:00:00Z') } },
+      ]);
+      const event = refund({ sessionId: undefined, visitorId: 'customer-42' });
+      event.event.timestamp = new Date('2025-11-01T10:31:00Z').getTime();
+
+      const response = await POST(new MockNextRequest({ events: [refund(), event] }) as any);
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toMatchObject({ stored: 1, unmatched: 1 });
+      expect(mockCreateMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ sessionId: 'session-456' })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should drop events from visitors without a tracked session', async () => {
+      const response = await POST(
+        new MockNextRequest({ events: [refund(), refund({ sessionId: undefined, visitorId: 'unknown-visitor' })] }) as any
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toMatchObject({ stored: 1, unmatched: 1 });
+      expect(mockCreateMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ sessionId: 'session-456' })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should require a session or visitor identifier', async () => {
+      const response = await POST(
+        new MockNextRequest({ events: [refund({ sessionId: undefined })] }) as any
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('sessionId or visitorId is required');
+    });
+
+    it('should accept batches larger than the browser limit', async () => {
+      const events = Array.from({ length: BATCH_LIMITS.browser + 1 }, () => refund());
+
+      const response = await POST(new MockNextRequest({ events }) as any);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject batches over the server limit', async () => {
+      const events = Array.from({ length: BATCH_LIMITS.server + 1 }, () => refund());
+
+      const response = await POST(new MockNextRequest({ events }) as any);
+
+      expect(response.status).toBe(400);
+      expect(mockCreateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should use a per-business bucket', async () => {
+      for (let i = 0; i < SERVER_EVENTS_RATE_LIMIT.limit; i++) {
+        await POST(new MockNextRequest({ events: [refund()] }) as any);
+      }
+
+      const limited = await POST(new MockNextRequest({ events: [refund()] }) as any);
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('X-RateLimit-Remaining')).toBe('0');
+
+      mockFindKey.mockResolvedValue({
+        id: 'key-2',
+        revokedAt: null,
+        business: { id: 'business-2', siteId: 'other-site' },
+      });
+
+      const otherBusiness = await POST(new MockNextRequest({ events: [refund()] }) as any);
+      expect(otherBusiness.status).toBe(200);
+    });
+  });
+});
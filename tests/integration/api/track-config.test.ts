@@ -0,0 +1,143 @@
+/**
+ * Integration tests for GET /api/track/config endpoint
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from '@/app/api/track/config/route';
+import { DEFAULT_TRACKER_SETTINGS } from '@/types/tracker-config';
+
+// Mock NextRequest
+class MockNextRequest {
+  headers: Headers;
+  nextUrl: URL;
+
+  constructor(params: Record<string, string>, origin?: string) {
+    this.headers = new Headers();
+    if (origin) this.headers.set('origin', origin);
+    this.nextUrl = new URL('http://localhost:3000/api/track/config');
+    Object.entries(params).forEach(([key, value]) => this.nextUrl.searchParams.set(key, value));
+  }
+}
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    business: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+
+const mockBusiness = prisma.business.findUnique as ReturnType<typeof vi.fn>;
+
+describe('GET /api/track/config', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackerConfig: {},
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+  });
+
+  it('should serve the defaults to sites without saved settings', async () => {
+    const response = await GET(new MockNextRequest({ siteId: 'test-site-123' }) as any);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=300, stale-while-revalidate=3600');
+    expect(data.data).toEqual({
+      ...DEFAULT_TRACKER_SETTINGS,
+      masking: { selectors: [], patterns: [] },
+    });
+  });
+
+  it('should merge saved settings over the defaults', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackerConfig: { sampleRate: 0.25, modules: { clicks: false }, endpoint: 'https://shop.example.com/mf' },
+      maskSelectors: ['.account-name'],
+      maskPatterns: ['ORD-\\d+'],
+    });
+
+    const response = await GET(new MockNextRequest({ siteId: 'test-site-123' }) as any);
+    const data = await response.json();
+
+    expect(data.data).toMatchObject({
+      sampleRate: 0.25,
+      sessionTimeoutMinutes: 30,
+      endpoint: 'https://shop.example.com/mf',
+      masking: { selectors: ['.account-name'], patterns: ['ORD-\\d+'] },
+    });
+    expect(data.data.modules).toEqual({ ...DEFAULT_TRACKER_SETTINGS.modules, clicks: false });
+  });
+
+  it('should fall back to the defaults for invalid saved settings', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackerConfig: { sampleRate: 5, endpoint: 'http://insecure.example.com' },
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+
+    const response = await GET(new MockNextRequest({ siteId: 'test-site-123' }) as any);
+    const data = await response.json();
+
+    expect(data.data.sampleRate).toBe(1);
+    expect(data.data.endpoint).toBeNull();
+  });
+
+  it('should reject an invalid siteId', async () => {
+    const response = await GET(new MockNextRequest({ siteId: 'bad site!' }) as any);
+
+    expect(response.status).toBe(400);
+    expect(mockBusiness).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 without caching for an unknown siteId', async () => {
+    mockBusiness.mockResolvedValue(null);
+
+    const response = await GET(new MockNextRequest({ siteId: 'unknown' }) as any);
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+  });
+
+  it('should refuse disallowed origins', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: ['https://shop.example.com'],
+      trackerConfig: {},
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+
+    const response = await GET(
+      new MockNextRequest({ siteId: 'test-site-123' }, 'https://evil.example.net') as any
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(prisma.business.update).toHaveBeenCalled();
+  });
+
+  it('should echo allowed origins', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: ['https://shop.example.com'],
+      trackerConfig: {},
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+
+    const response = await GET(
+      new MockNextRequest({ siteId: 'test-site-123' }, 'https://shop.example.com') as any
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Integration tests for GET /api/track/token endpoint
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GET } from '@/app/api/track/token/route';
+import { clearRateLimits } from '@/lib/rate-limiter';
+import { verifyTrackingToken } from '@/services/tracking/tracking-token';
+
+process.env.TRACKING_TOKEN_SECRET = 'test-tracking-secret';
+
+// Mock NextRequest
+class MockNextRequest {
+  headers: Headers;
+  nextUrl: URL;
+
+  constructor(params: Record<string, string>, origin?: string) {
+    this.headers = new Headers();
+    if (origin) this.headers.set('origin', origin);
+    this.nextUrl = new URL('http://localhost:3000/api/track/token');
+    Object.entries(params).forEach(([key, value]) => this.nextUrl.searchParams.set(key, value));
+  }
+}
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    business: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+
+const mockBusiness = prisma.business.findUnique as ReturnType<typeof vi.fn>;
+
+describe('GET /api/track/token', () => {
+  beforeEach(() => {
+    clearRateLimits();
+    vi.clearAllMocks();
+
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackingTokenVersion: 3,
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+  });
+
+  it('should issue a token for the session', async () => {
+    const request = new MockNextRequest({ siteId: 'test-site-123', sessionId: 'session-456' }) as any;
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(data.data.expiresIn).toBeGreaterThan(0);
+
+    const verification = verifyTrackingToken(data.data.token);
+    expect(verification).toMatchObject({
+      valid: true,
+      payload: { siteId: 'test-site-123', sessionId: 'session-456', ver: 3 },
+    });
+  });
+
+  it('should deliver the site masking rules', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackingTokenVersion: 0,
+      maskSelectors: ['.account-name'],
+      maskPatterns: ['ORD-\\d+'],
+    });
+
+    const response = await GET(new MockNextRequest({ siteId: 'test-site-123', sessionId: 'session-456' }) as any);
+    const data = await response.json();
+
+    expect(data.data.masking).toEqual({ selectors: ['.account-name'], patterns: ['ORD-\\d+'] });
+  });
+
+  it('should not deliver patterns that fail validation', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackingTokenVersion: 0,
+      maskSelectors: [],
+      maskPatterns: ['(a+)+$', 'ORD-\\d+'],
+    });
+
+    const response = await GET(new MockNextRequest({ siteId: 'test-site-123', sessionId: 'session-456' }) as any);
+    const data = await response.json();
+
+    expect(data.data.masking.patterns).toEqual(['ORD-\\d+']);
+  });
+
+  it('should require siteId and sessionId', async () => {
+    const response = await GET(new MockNextRequest({ siteId: 'test-site-123' }) as any);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 401 for an unknown siteId', async () => {
+    mockBusiness.mockResolvedValue(null);
+
+    const response = await GET(
+      new MockNextRequest({ siteId: 'unknown', sessionId: 'session-456' }) as any
+    );
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should refuse disallowed origins', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: ['https://shop.example.com'],
+      trackingTokenVersion: 0,
+    });
+
+    const response = await GET(
+      new MockNextRequest(
+        { siteId: 'test-site-123', sessionId: 'session-456' },
+        'https://evil.example.net'
+      ) as any
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(prisma.business.update).toHaveBeenCalled();
+  });
+
+  it('should rate limit each client IP separately', async () => {
+    const request = (ip: string) => {
+      const mock = new MockNextRequest({ siteId: 'test-site-123', sessionId: 'session-456' });
+      mock.headers.set('x-real-ip', ip);
+      return mock as any;
+    };
+
+    for (let i = 0; i < 120; i++) {
+      await GET(request('203.0.113.7'));
+    }
+
+    expect((await GET(request('203.0.113.7'))).status).toBe(429);
+    expect((await GET(request('198.51.100.2'))).status).toBe(200);
+  });
+
+  it('should key on the proxy-added X-Forwarded-For hop, not the client-supplied ones', async () => {
+    const request = (spoofed: string) => {
+      const mock = new MockNextRequest({ siteId: 'test-site-123', sessionId: 'session-456' });
+      mock.headers.set('x-forwarded-for', `${spoofed}, 203.0.113.7`);
+      return mock as any;
+    };
+
+    for (let i = 0; i < 120; i++) {
+      await GET(request(`10.0.${Math.floor(i / 256)}.${i % 256}`));
+    }
+
+    expect((await GET(request('10.9.9.9'))).status).toBe(429);
+  });
+
+  it('should cap tokens per site across client IPs', async () => {
+    const request = (i: number) => {
+      const mock = new MockNextRequest({ siteId: 'test-site-123', sessionId: 'session-456' });
+      mock.headers.set('x-real-ip', `198.51.${Math.floor(i / 256)}.${i % 256}`);
+      return mock as any;
+    };
+
+    for (let i = 0; i < 1000; i++) {
+      await GET(request(i));
+    }
+
+    expect((await GET(request(1000))).status).toBe(429);
+  });
+
+  it('should echo allowed origins', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: ['https://shop.example.com'],
+      trackingTokenVersion: 0,
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+
+    const response = await GET(
+      new MockNextRequest(
+        { siteId: 'test-site-123', sessionId: 'session-456' },
+        'https://shop.example.com'
+      ) as any
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+  });
+});
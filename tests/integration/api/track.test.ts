@@ -2,23 +2,49 @@
  * Integration tests for POST /api/track endpoint
  */
 
+import { randomUUID } from 'crypto';
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { POST, OPTIONS } from '@/app/api/track/route';
 import { clearRateLimits } from '@/lib/rate-limiter';
-import { clearEventBuffer } from '@/services/tracking/event-processor';
-import type { TrackingEvent } from '@/types/tracking';
+import { clearSeenBatches, issueTrackingToken } from '@/services/tracking/tracking-token';
+import { BATCH_LIMITS, type TrackingEvent } from '@/types/tracking';
+
+process.env.TRACKING_TOKEN_SECRET = 'test-tracking-secret';
+
+// Build a request body with a token for the first event's session (as the tracking script does)
+function signedBatch(events: unknown[]) {
+  const first = events[0] as Partial<TrackingEvent> | undefined;
+
+  return {
+    events,
+    token: issueTrackingToken(first?.siteId ?? '', first?.sessionId ?? '', 0).token,
+    batchId: randomUUID(),
+  };
+}
 
 // Mock NextRequest
 class MockNextRequest {
   private bodyData: unknown;
+  headers: Headers;
+  nextUrl: URL;
 
-  constructor(body: unknown) {
+  constructor(body: unknown, contentType = 'application/json', origin?: string) {
     this.bodyData = body;
+    this.headers = new Headers({
+      'content-type': contentType,
+      'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+    });
+    if (origin) this.headers.set('origin', origin);
+    this.nextUrl = new URL('http://localhost:3000/api/track');
   }
 
   async json() {
     return this.bodyData;
   }
+
+  async text() {
+    return typeof this.bodyData === 'string' ? this.bodyData : JSON.stringify(this.bodyData);
+  }
 }
 
 // Mock Prisma
@@ -31,10 +57,15 @@ vi.mock('@/lib/prisma', () => {
     prisma: {
       business: {
         findUnique: mockBusiness,
+        update: vi.fn(),
       },
-      trackingEvent: {
+      eventOutbox: {
         createMany: mockCreateMany,
       },
+      rejectedEvent: {
+        createMany: vi.fn(),
+        deleteMany: vi.fn(),
+      },
       $queryRaw: mockQueryRaw,
     },
     // Export mocks so they can be imported in tests
@@ -47,22 +78,21 @@ vi.mock('@/lib/prisma', () => {
 import { prisma } from '@/lib/prisma';
 
 const mockBusiness = (prisma.business.findUnique as ReturnType<typeof vi.fn>);
-const mockCreateMany = (prisma.trackingEvent.createMany as ReturnType<typeof vi.fn>);
+const mockCreateMany = (prisma.eventOutbox.createMany as ReturnType<typeof vi.fn>);
 
 describe('POST /api/track', () => {
   beforeEach(() => {
     clearRateLimits();
-    clearEventBuffer();
+    clearSeenBatches();
     vi.clearAllMocks();
 
     // Default: business exists
-    mockBusiness.mockResolvedValue({ siteId: 'test-site-123' });
+    mockBusiness.mockResolvedValue({ siteId: 'test-site-123', allowedOrigins: [], trackingTokenVersion: 0 });
     mockCreateMany.mockResolvedValue({ count: 1 });
   });
 
   afterEach(() => {
     clearRateLimits();
-    clearEventBuffer();
   });
 
   describe('Schema Validation (AC#1)', () => {
@@ -70,6 +100,7 @@ describe('POST /api/track', () => {
       const validEvent: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -80,7 +111,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [validEvent] }) as any;
+      const request = new MockNextRequest(signedBatch([validEvent])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -88,6 +119,20 @@ describe('POST /api/track', () => {
       expect(data.success).toBe(true);
     });
 
+    it('should reject batches over the browser limit', async () => {
+      const events = Array.from({ length: BATCH_LIMITS.browser + 1 }, () => ({
+        siteId: 'test-site-123',
+        sessionId: 'session-456',
+        clientEventId: randomUUID(),
+        event: { type: 'pageview', timestamp: Date.now(), data: { url: 'https://example.com' } },
+      }));
+
+      const response = await POST(new MockNextRequest(signedBatch(events)) as any);
+
+      expect(response.status).toBe(400);
+      expect(mockCreateMany).not.toHaveBeenCalled();
+    });
+
     it('should accept all event types', async () => {
       const eventTypes: Array<'pageview' | 'click' | 'form' | 'scroll' | 'time'> = [
         'pageview',
@@ -101,6 +146,7 @@ describe('POST /api/track', () => {
         const event: TrackingEvent = {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type,
             timestamp: Date.now(),
@@ -108,7 +154,7 @@ describe('POST /api/track', () => {
           },
         };
 
-        const request = new MockNextRequest({ events: [event] }) as any;
+        const request = new MockNextRequest(signedBatch([event])) as any;
         const response = await POST(request);
         const data = await response.json();
 
@@ -117,9 +163,77 @@ describe('POST /api/track', () => {
       }
     });
 
+    it('should accept e-commerce event types', async () => {
+      const commerceEvents: Array<TrackingEvent['event']> = [
+        { type: 'product_view', timestamp: Date.now(), data: { productId: 'p-1', price: 25 } },
+        { type: 'add_to_cart', timestamp: Date.now(), data: { variantId: 'v-1', quantity: 2 } },
+        { type: 'remove_from_cart', timestamp: Date.now(), data: { productId: 'p-1' } },
+        { type: 'begin_checkout', timestamp: Date.now(), data: { value: 50, currency: 'USD' } },
+        { type: 'add_payment_info', timestamp: Date.now(), data: { paymentType: 'card' } },
+        { type: 'purchase', timestamp: Date.now(), data: { orderId: '1001', value: 50, currency: 'USD' } },
+      ];
+
+      const request = new MockNextRequest(
+        signedBatch(
+          commerceEvents.map((event) => ({
+            siteId: 'test-site-123',
+            sessionId: 'session-456',
+            clientEventId: randomUUID(),
+            event,
+          }))
+        )
+      ) as any;
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+    });
+
+    it('should reject add_to_cart without product or variant', async () => {
+      const invalidEvent = {
+        siteId: 'test-site-123',
+        sessionId: 'session-456',
+        clientEventId: randomUUID(),
+        event: {
+          type: 'add_to_cart',
+          timestamp: Date.now(),
+          data: { quantity: 1 },
+        },
+      };
+
+      const request = new MockNextRequest(signedBatch([invalidEvent])) as any;
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+    });
+
+    it('should reject purchase with negative value', async () => {
+      const invalidEvent = {
+        siteId: 'test-site-123',
+        sessionId: 'session-456',
+        clientEventId: randomUUID(),
+        event: {
+          type: 'purchase',
+          timestamp: Date.now(),
+          data: { orderId: '1001', value: -10, currency: 'USD' },
+        },
+      };
+
+      const request = new MockNextRequest(signedBatch([invalidEvent])) as any;
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+    });
+
     it('should reject missing siteId', async () => {
       const invalidEvent = {
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -127,7 +241,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [invalidEvent] }) as any;
+      const request = new MockNextRequest(signedBatch([invalidEvent])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -146,7 +260,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [invalidEvent] }) as any;
+      const request = new MockNextRequest(signedBatch([invalidEvent])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -159,6 +273,7 @@ describe('POST /api/track', () => {
       const invalidEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'invalid-type',
           timestamp: Date.now(),
@@ -166,7 +281,27 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [invalidEvent] }) as any;
+      const request = new MockNextRequest(signedBatch([invalidEvent])) as any;
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+    });
+
+    it('should reject events without a UUID clientEventId', async () => {
+      const invalidEvent = {
+        siteId: 'test-site-123',
+        sessionId: 'session-456',
+        clientEventId: 'not-a-uuid',
+        event: {
+          type: 'pageview',
+          timestamp: Date.now(),
+          data: {},
+        },
+      };
+
+      const request = new MockNextRequest(signedBatch([invalidEvent])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -178,6 +313,7 @@ describe('POST /api/track', () => {
       const invalidEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: -1,
@@ -185,7 +321,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [invalidEvent] }) as any;
+      const request = new MockNextRequest(signedBatch([invalidEvent])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -193,8 +329,61 @@ describe('POST /api/track', () => {
       expect(data.success).toBe(false);
     });
 
+    it('should record rejected events with their errors for the live events panel', async () => {
+      const valid = {
+        siteId: 'test-site-123',
+        sessionId: 'session-456',
+        clientEventId: randomUUID(),
+        event: { type: 'pageview', timestamp: Date.now(), data: {} },
+      };
+      const invalid = {
+        ...valid,
+        clientEventId: randomUUID(),
+        event: { type: 'purchase', timestamp: Date.now(), data: { orderId: '1001', value: -10, currency: 'USD' } },
+      };
+
+      const response = await POST(new MockNextRequest(signedBatch([valid, invalid])) as any);
+
+      expect(response.status).toBe(400);
+      expect(prisma.rejectedEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            siteId: 'test-site-123',
+            sessionId: 'session-456',
+            eventType: 'purchase',
+            errors: [expect.objectContaining({ path: 'event.data.value' })],
+          },
+        ],
+      });
+      expect(mockCreateMany).not.toHaveBeenCalled();
+      expect(prisma.rejectedEvent.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should not record rejected events for unknown sites', async () => {
+      mockBusiness.mockResolvedValue(null);
+
+      const response = await POST(new MockNextRequest(signedBatch([{ siteId: 'unknown-site' }])) as any);
+
+      expect(response.status).toBe(400);
+      expect(prisma.rejectedEvent.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should not record rejected events without a valid token for the site', async () => {
+      const invalid = { siteId: 'test-site-123', sessionId: 'session-456', event: { type: 'purchase' } };
+
+      await POST(new MockNextRequest({ ...signedBatch([invalid]), token: 'forged' }) as any);
+      await POST(new MockNextRequest({ events: [invalid], batchId: randomUUID() }) as any);
+
+      // Token issued before the site's tokens were revoked
+      mockBusiness.mockResolvedValue({ siteId: 'test-site-123', allowedOrigins: [], trackingTokenVersion: 1 });
+      const response = await POST(new MockNextRequest(signedBatch([invalid])) as any);
+
+      expect(response.status).toBe(400);
+      expect(prisma.rejectedEvent.createMany).not.toHaveBeenCalled();
+    });
+
     it('should reject empty events array', async () => {
-      const request = new MockNextRequest({ events: [] }) as any;
+      const request = new MockNextRequest(signedBatch([])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -203,8 +392,45 @@ describe('POST /api/track', () => {
       expect(data.error).toContain('Validation failed');
     });
 
+    it('should accept text/plain beacon bodies', async () => {
+      const event: TrackingEvent = {
+        siteId: 'test-site-123',
+        sessionId: 'session-456',
+        clientEventId: 'c0a8e3f2-5d1b-4a7e-9f3c-2b6d8e1f4a90',
+        event: {
+          type: 'pageview',
+          timestamp: Date.now(),
+          data: { url: 'https://example.com' },
+        },
+      };
+
+      const request = new MockNextRequest(
+        JSON.stringify(signedBatch([event])),
+        'text/plain;charset=UTF-8'
+      ) as any;
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(mockCreateMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ clientEventId: 'c0a8e3f2-5d1b-4a7e-9f3c-2b6d8e1f4a90' })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should reject malformed text/plain bodies', async () => {
+      const request = new MockNextRequest('{"events": [', 'text/plain') as any;
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+    });
+
     it('should handle malformed JSON gracefully', async () => {
       const request = {
+        headers: new Headers({ 'content-type': 'application/json' }),
         json: vi.fn().mockRejectedValue(new Error('Invalid JSON')),
       } as any;
 
@@ -218,11 +444,12 @@ describe('POST /api/track', () => {
 
   describe('Authentication (AC#6)', () => {
     it('should accept valid siteId', async () => {
-      mockBusiness.mockResolvedValue({ siteId: 'valid-site' });
+      mockBusiness.mockResolvedValue({ siteId: 'valid-site', allowedOrigins: [], trackingTokenVersion: 0 });
 
       const event: TrackingEvent = {
         siteId: 'valid-site',
         sessionId: 'session-123',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -230,7 +457,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -238,7 +465,7 @@ describe('POST /api/track', () => {
       expect(data.success).toBe(true);
       expect(mockBusiness).toHaveBeenCalledWith({
         where: { siteId: 'valid-site' },
-        select: { siteId: true },
+        select: { siteId: true, allowedOrigins: true, trackingTokenVersion: true },
       });
     });
 
@@ -248,6 +475,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'invalid-site',
         sessionId: 'session-123',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -255,7 +483,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -270,6 +498,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'invalid-site',
         sessionId: 'session-123',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -277,7 +506,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       await POST(request);
 
       // Should not call createMany if siteId is invalid
@@ -290,6 +519,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -299,7 +529,7 @@ describe('POST /api/track', () => {
 
       // Make 5 requests (well under limit of 1000)
       for (let i = 0; i < 5; i++) {
-        const request = new MockNextRequest({ events: [event] }) as any;
+        const request = new MockNextRequest(signedBatch([event])) as any;
         const response = await POST(request);
         const data = await response.json();
 
@@ -312,6 +542,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -319,7 +550,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
 
       const headers = response.headers;
@@ -335,6 +566,7 @@ describe('POST /api/track', () => {
       const event1: TrackingEvent = {
         siteId: 'site-1',
         sessionId: 'session-1',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -345,6 +577,7 @@ describe('POST /api/track', () => {
       const event2: TrackingEvent = {
         siteId: 'site-2',
         sessionId: 'session-2',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -352,12 +585,12 @@ describe('POST /api/track', () => {
         },
       };
 
-      mockBusiness.mockResolvedValue({ siteId: 'site-1' });
-      const request1 = new MockNextRequest({ events: [event1] }) as any;
+      mockBusiness.mockResolvedValue({ siteId: 'site-1', allowedOrigins: [], trackingTokenVersion: 0 });
+      const request1 = new MockNextRequest(signedBatch([event1])) as any;
       const response1 = await POST(request1);
 
-      mockBusiness.mockResolvedValue({ siteId: 'site-2' });
-      const request2 = new MockNextRequest({ events: [event2] }) as any;
+      mockBusiness.mockResolvedValue({ siteId: 'site-2', allowedOrigins: [], trackingTokenVersion: 0 });
+      const request2 = new MockNextRequest(signedBatch([event2])) as any;
       const response2 = await POST(request2);
 
       expect(response1.status).toBe(200);
@@ -371,6 +604,7 @@ describe('POST /api/track', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'pageview',
             timestamp: Date.now(),
@@ -380,6 +614,7 @@ describe('POST /api/track', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'click',
             timestamp: Date.now(),
@@ -389,6 +624,7 @@ describe('POST /api/track', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'scroll',
             timestamp: Date.now(),
@@ -397,7 +633,7 @@ describe('POST /api/track', () => {
         },
       ];
 
-      const request = new MockNextRequest({ events }) as any;
+      const request = new MockNextRequest(signedBatch(events)) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -409,6 +645,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -421,7 +658,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -433,6 +670,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'click',
           timestamp: Date.now(),
@@ -443,7 +681,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -455,6 +693,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'form',
           timestamp: Date.now(),
@@ -464,7 +703,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -476,6 +715,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'scroll',
           timestamp: Date.now(),
@@ -486,7 +726,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -498,6 +738,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'time',
           timestamp: Date.now(),
@@ -507,7 +748,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -517,32 +758,257 @@ describe('POST /api/track', () => {
   });
 
   describe('CORS (Cross-Origin)', () => {
-    it('should include CORS headers in response', async () => {
-      const event: TrackingEvent = {
-        siteId: 'test-site-123',
-        sessionId: 'session-456',
-        event: {
-          type: 'pageview',
-          timestamp: Date.now(),
-          data: {},
-        },
-      };
+    const event = (): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      event: {
+        type: 'pageview',
+        timestamp: Date.now(),
+        data: {},
+      },
+    });
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+    const preflight = (origin: string, siteId?: string) => {
+      const request = new MockNextRequest(null, 'application/json', origin);
+      if (siteId) request.nextUrl.searchParams.set('siteId', siteId);
+      return request as any;
+    };
+
+    it('should echo the Origin when the site has no allow-list', async () => {
+      const request = new MockNextRequest(signedBatch([event()]), 'application/json', 'https://shop.example.com') as any;
       const response = await POST(request);
 
       const headers = response.headers;
-      expect(headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(response.status).toBe(200);
+      expect(headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
       expect(headers.get('Access-Control-Allow-Methods')).toContain('POST');
+      expect(headers.get('Vary')).toBe('Origin');
     });
 
-    it('should handle OPTIONS preflight request', async () => {
-      const response = await OPTIONS();
+    it('should accept an allowed origin', async () => {
+      mockBusiness.mockResolvedValue({
+        siteId: 'test-site-123',
+        allowedOrigins: ['https://shop.example.com'],
+        trackingTokenVersion: 0,
+      });
+
+      const request = new MockNextRequest(signedBatch([event()]), 'application/json', 'https://shop.example.com') as any;
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+    });
+
+    it('should reject a disallowed origin and count the attempt', async () => {
+      mockBusiness.mockResolvedValue({
+        siteId: 'test-site-123',
+        allowedOrigins: ['https://shop.example.com'],
+        trackingTokenVersion: 0,
+      });
+
+      const request = new MockNextRequest(signedBatch([event()]), 'application/json', 'https://evil.example.net') as any;
+      const response = await POST(request);
       const data = await response.json();
 
+      expect(response.status).toBe(403);
+      expect(data.error).toBe('Origin not allowed');
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+      expect(mockCreateMany).not.toHaveBeenCalled();
+      expect(prisma.business.update).toHaveBeenCalledWith({
+        where: { siteId: 'test-site-123' },
+        data: expect.objectContaining({
+          rejectedOriginCount: { increment: 1 },
+          lastRejectedOrigin: 'https://evil.example.net',
+        }),
+      });
+    });
+
+    it('should accept requests without an Origin header', async () => {
+      mockBusiness.mockResolvedValue({
+        siteId: 'test-site-123',
+        allowedOrigins: ['https://shop.example.com'],
+        trackingTokenVersion: 0,
+      });
+
+      const request = new MockNextRequest(signedBatch([event()])) as any;
+      const response = await POST(request);
+
       expect(response.status).toBe(200);
-      const headers = response.headers;
-      expect(headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    });
+
+    it('should handle OPTIONS preflight request', async () => {
+      const response = await OPTIONS(preflight('https://shop.example.com'));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+      expect(mockBusiness).not.toHaveBeenCalled();
+    });
+
+    it('should check the preflight origin against the siteId query parameter', async () => {
+      mockBusiness.mockResolvedValue({ allowedOrigins: ['https://shop.example.com'] });
+
+      const allowed = await OPTIONS(preflight('https://shop.example.com', 'test-site-123'));
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+
+      const rejected = await OPTIONS(preflight('https://evil.example.net', 'test-site-123'));
+      expect(rejected.status).toBe(403);
+      expect(rejected.headers.get('Access-Control-Allow-Origin')).toBeNull();
+      expect(prisma.business.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Tracking Tokens', () => {
+    const event: TrackingEvent = {
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: 'c0a8e3f2-5d1b-4a7e-9f3c-2b6d8e1f4a90',
+      event: {
+        type: 'pageview',
+        timestamp: Date.now(),
+        data: {},
+      },
+    };
+
+    const post = async (body: unknown) => {
+      const response = await POST(new MockNextRequest(body) as any);
+      return { status: response.status, data: await response.json() };
+    };
+
+    it('should require a token and batchId', async () => {
+      const { status } = await post({ events: [event] });
+
+      expect(status).toBe(400);
+    });
+
+    it('should reject forged tokens', async () => {
+      const body = signedBatch([event]);
+      const [payload] = body.token.split('.');
+      const { status, data } = await post({ ...body, token: `${payload}.forged-signature` });
+
+      expect(status).toBe(401);
+      expect(data.error).toBe('Invalid tracking token');
+      expect(mockCreateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired tokens', async () => {
+      const issuedAt = Date.now() - 2 * 60 * 60 * 1000;
+      vi.spyOn(Date, 'now').mockReturnValueOnce(issuedAt);
+      const { token } = issueTrackingToken('test-site-123', 'session-456', 0);
+
+      const { status, data } = await post({ events: [event], token, batchId: randomUUID() });
+
+      expect(status).toBe(401);
+      expect(data.error).toBe('Tracking token expired');
+    });
+
+    it('should reject tokens issued for another session', async () => {
+      const { token } = issueTrackingToken('test-site-123', 'other-session', 0);
+
+      const { status, data } = await post({ events: [event], token, batchId: randomUUID() });
+
+      expect(status).toBe(401);
+      expect(data.error).toBe('Tracking token does not match events');
+    });
+
+    it('should reject tokens revoked by a siteId regeneration', async () => {
+      mockBusiness.mockResolvedValue({ siteId: 'test-site-123', allowedOrigins: [], trackingTokenVersion: 1 });
+
+      const { status, data } = await post(signedBatch([event]));
+
+      expect(status).toBe(401);
+      expect(data.error).toBe('Tracking token revoked');
+    });
+
+    it('should reject replayed batches', async () => {
+      const body = signedBatch([event]);
+
+      const first = await post(body);
+      const replay = await post(body);
+
+      expect(first.status).toBe(200);
+      expect(replay.status).toBe(409);
+      expect(replay.data.error).toBe('Batch already received');
+      expect(mockCreateMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Bot Filtering', () => {
+    const pageview = (): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      event: {
+        type: 'pageview',
+        timestamp: Date.now(),
+        data: { url: 'https://example.com' },
+      },
+    });
+
+    it('should store events from browsers untagged', async () => {
+      const response = await POST(new MockNextRequest(signedBatch([pageview()])) as any);
+
+      expect(response.status).toBe(200);
+      expect(mockCreateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: [expect.objectContaining({ botReason: null })] })
+      );
+    });
+
+    it('should accept and tag events from crawler user agents', async () => {
+      const request = new MockNextRequest(signedBatch([pageview()])) as any;
+      request.headers.set('user-agent', 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)');
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      expect(mockCreateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: [expect.objectContaining({ botReason: 'user_agent' })] })
+      );
+    });
+
+    it('should tag requests without a user agent', async () => {
+      const request = new MockNextRequest(signedBatch([pageview()])) as any;
+      request.headers.delete('user-agent');
+
+      await POST(request);
+
+      expect(mockCreateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: [expect.objectContaining({ botReason: 'user_agent' })] })
+      );
+    });
+  });
+
+  describe('Consent', () => {
+    const pageview = (consent?: boolean): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      consent,
+      event: {
+        type: 'pageview',
+        timestamp: Date.now(),
+        data: { url: 'https://example.com' },
+      },
+    });
+
+    it('should drop events flagged as non-consented', async () => {
+      const response = await POST(new MockNextRequest(signedBatch([pageview(false)])) as any);
+
+      expect(response.status).toBe(200);
+      expect(mockCreateMany).not.toHaveBeenCalled();
+    });
+
+    it('should require explicit consent from browsers sending Sec-GPC', async () => {
+      const request = new MockNextRequest(signedBatch([pageview(), pageview(true)])) as any;
+      request.headers.set('sec-gpc', '1');
+
+      await POST(request);
+
+      expect(mockCreateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: [expect.objectContaining({ eventType: 'pageview' })] })
+      );
     });
   });
 
@@ -553,6 +1019,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -560,7 +1027,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -569,7 +1036,7 @@ describe('POST /api/track', () => {
       expect(data.error).toBeDefined();
 
       // Reset mock for subsequent tests
-      mockBusiness.mockResolvedValue({ siteId: 'test-site-123' });
+      mockBusiness.mockResolvedValue({ siteId: 'test-site-123', allowedOrigins: [], trackingTokenVersion: 0 });
     });
 
     it('should not expose error details to client', async () => {
@@ -578,6 +1045,7 @@ describe('POST /api/track', () => {
       const event: TrackingEvent = {
         siteId: 'test-site-123',
         sessionId: 'session-456',
+        clientEventId: randomUUID(),
         event: {
           type: 'pageview',
           timestamp: Date.now(),
@@ -585,7 +1053,7 @@ describe('POST /api/track', () => {
         },
       };
 
-      const request = new MockNextRequest({ events: [event] }) as any;
+      const request = new MockNextRequest(signedBatch([event])) as any;
       const response = await POST(request);
       const data = await response.json();
 
@@ -0,0 +1,181 @@
+/**
+ * Integration tests for GET /t/<siteId>.js endpoint
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { GET } from '@/app/t/[script]/route';
+import { rolloutBucket } from '@/services/tracking/tracker-release';
+
+const bundledVersion = fs
+  .readFileSync(path.join(process.cwd(), 'public', 'tracking.js'), 'utf-8')
+  .match(/version: '([^']+)'/)![1];
+
+// Mock NextRequest
+class MockNextRequest {
+  headers: Headers;
+  nextUrl: URL;
+
+  constructor(params: Record<string, string> = {}, headers: Record<string, string> = {}) {
+    this.headers = new Headers(headers);
+    this.nextUrl = new URL('http://localhost:3000/t/test-site-123.js');
+    Object.entries(params).forEach(([key, value]) => this.nextUrl.searchParams.set(key, value));
+  }
+}
+
+const get = (request: MockNextRequest, script = 'test-site-123.js') =>
+  GET(request as any, { params: Promise.resolve({ script }) });
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    business: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    trackerRelease: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+
+const mockBusiness = prisma.business.findUnique as ReturnType<typeof vi.fn>;
+const mockRelease = prisma.trackerRelease.findUnique as ReturnType<typeof vi.fn>;
+const mockRollout = prisma.trackerRelease.findFirst as ReturnType<typeof vi.fn>;
+
+describe('GET /t/<siteId>.js', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackerConfig: { sampleRate: 0.5 },
+      trackerVersion: null,
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+    mockRelease.mockResolvedValue(null);
+    mockRollout.mockResolvedValue({ version: '2.0.0', script: 'console.log(MF_INLINE);' });
+  });
+
+  it('should serve the rolled-out build with the site config inlined', async () => {
+    const response = await get(new MockNextRequest());
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/javascript; charset=utf-8');
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=300, stale-while-revalidate=86400');
+    expect(response.headers.get('X-Tracker-Version')).toBe('2.0.0');
+    expect(body).toContain('(function (MF_INLINE) {\nconsole.log(MF_INLINE);\n})(');
+    expect(body).toContain('"siteId":"test-site-123"');
+    expect(body).toContain('"sampleRate":0.5');
+    expect(mockRollout).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { rolloutPercent: { gt: rolloutBucket('test-site-123') } },
+        orderBy: { createdAt: 'desc' },
+      })
+    );
+  });
+
+  it('should use the SRI hash of the body as a strong ETag', async () => {
+    const response = await get(new MockNextRequest());
+    const body = await response.text();
+    const integrity = `sha384-${crypto.createHash('sha384').update(body).digest('base64')}`;
+
+    expect(response.headers.get('ETag')).toBe(`"${integrity}"`);
+  });
+
+  it('should answer conditional requests for an unchanged script with 304', async () => {
+    const first = await get(new MockNextRequest());
+    const etag = first.headers.get('ETag')!;
+
+    const response = await get(new MockNextRequest({}, { 'if-none-match': `"stale", ${etag}` }));
+
+    expect(response.status).toBe(304);
+    expect(response.headers.get('ETag')).toBe(etag);
+    expect(await response.text()).toBe('');
+  });
+
+  it('should change the ETag when the site config changes', async () => {
+    const before = (await get(new MockNextRequest())).headers.get('ETag');
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackerConfig: { sampleRate: 0.25 },
+      trackerVersion: null,
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+
+    const after = (await get(new MockNextRequest())).headers.get('ETag');
+
+    expect(after).not.toBe(before);
+  });
+
+  it('should serve the version a site is pinned to', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: [],
+      trackerConfig: {},
+      trackerVersion: '1.9.0',
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+    mockRelease.mockResolvedValue({ version: '1.9.0', script: 'void 0;' });
+
+    const response = await get(new MockNextRequest());
+
+    expect(response.headers.get('X-Tracker-Version')).toBe('1.9.0');
+    expect(mockRollout).not.toHaveBeenCalled();
+  });
+
+  it('should serve the version requested in the URL and 404 unknown versions', async () => {
+    mockRelease.mockResolvedValue({ version: '1.9.0', script: 'void 0;' });
+    const pinned = await get(new MockNextRequest({ v: '1.9.0' }));
+    expect(pinned.headers.get('X-Tracker-Version')).toBe('1.9.0');
+
+    mockRelease.mockResolvedValue(null);
+    const unknown = await get(new MockNextRequest({ v: '0.0.1' }));
+    expect(unknown.status).toBe(404);
+    expect(unknown.headers.get('Cache-Control')).toBe('no-store');
+  });
+
+  it('should serve public/tracking.js before any release is published', async () => {
+    mockRollout.mockResolvedValue(null);
+
+    const response = await get(new MockNextRequest());
+    const body = await response.text();
+
+    expect(response.headers.get('X-Tracker-Version')).toBe(bundledVersion);
+    expect(body).toContain("typeof MF_INLINE === 'object'");
+  });
+
+  it('should return 404 for unknown sites and malformed script names', async () => {
+    mockBusiness.mockResolvedValue(null);
+    expect((await get(new MockNextRequest())).status).toBe(404);
+    expect((await get(new MockNextRequest(), 'bad site.js')).status).toBe(404);
+    expect((await get(new MockNextRequest(), 'test-site-123.css')).status).toBe(404);
+  });
+
+  it('should reject origins outside the allow-list and allow listed ones for integrity checks', async () => {
+    mockBusiness.mockResolvedValue({
+      allowedOrigins: ['https://shop.example.com'],
+      trackerConfig: {},
+      trackerVersion: null,
+      maskSelectors: [],
+      maskPatterns: [],
+    });
+
+    const rejected = await get(new MockNextRequest({}, { origin: 'https://evil.example.net' }));
+    expect(rejected.status).toBe(403);
+    expect(rejected.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(prisma.business.update).toHaveBeenCalled();
+
+    const allowed = await get(new MockNextRequest({}, { origin: 'https://shop.example.com' }));
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://shop.example.com');
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { prisma } from "@/lib/prisma";
 import { nanoid } from "nanoid";
+import { ADD_TO_CART_EVENT_TYPE } from "@/types/tracking";
 
 describe("Dashboard Home - Integration Tests", () => {
   let testUserId: string;
@@ -173,14 +174,14 @@ describe("Dashboard Home - Integration Tests", () => {
           {
             siteId: testSiteId,
             sessionId: session1.sessionId,
-            eventType: "ADD_TO_CART",
+            eventType: ADD_TO_CART_EVENT_TYPE,
             timestamp: new Date(),
             data: {},
           },
           {
             siteId: testSiteId,
             sessionId: session2.sessionId,
-            eventType: "ADD_TO_CART",
+            eventType: ADD_TO_CART_EVENT_TYPE,
             timestamp: new Date(),
             data: {},
           },
@@ -191,7 +192,7 @@ describe("Dashboard Home - Integration Tests", () => {
       const addToCartEvents = await prisma.trackingEvent.findMany({
         where: {
           siteId: testSiteId,
-          eventType: "ADD_TO_CART",
+          eventType: ADD_TO_CART_EVENT_TYPE,
         },
         select: { sessionId: true },
         distinct: ["sessionId"],
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for API Key Service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  API_KEY_PREFIX,
+  authenticateApiKey,
+  generateApiKey,
+  hashApiKey,
+  parseBearerKey,
+} from '@/services/tracking/api-keys';
+import { prisma } from '@/lib/prisma';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    apiKey: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+describe('API Keys', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('generateApiKey', () => {
+    it('should generate unique prefixed keys with their hash', () => {
+      const first = generateApiKey();
+      const second = generateApiKey();
+
+      expect(first.key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(first.key).not.toBe(second.key);
+      expect(first.keyHash).toBe(hashApiKey(first.key));
+      expect(first.keyHash).not.toContain(first.key);
+      expect(first.key.startsWith(first.keyPrefix)).toBe(true);
+    });
+  });
+
+  describe('parseBearerKey', () => {
+    it('should read bearer tokens', () => {
+      expect(parseBearerKey('Bearer mf_sk_abc')).toBe('mf_sk_abc');
+      expect(parseBearerKey('bearer  mf_sk_abc')).toBe('mf_sk_abc');
+    });
+
+    it('should ignore other schemes and missing headers', () => {
+      expect(parseBearerKey('Basic dXNlcjpwYXNz')).toBeNull();
+      expect(parseBearerKey(null)).toBeNull();
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    it('should look keys up by hash', async () => {
+      const { key, keyHash } = generateApiKey();
+      vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({
+        id: 'key-1',
+        revokedAt: null,
+        business: { id: 'business-1', siteId: 'site-1' },
+      } as never);
+
+      const owner = await authenticateApiKey(key);
+
+      expect(prisma.apiKey.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { keyHash } })
+      );
+      expect(owner).toEqual({ apiKeyId: 'key-1', businessId: 'business-1', siteId: 'site-1' });
+    });
+
+    it('should reject revoked keys', async () => {
+      vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({
+        id: 'key-1',
+        revokedAt: new Date(),
+        business: { id: 'business-1', siteId: 'site-1' },
+      } as never);
+
+      expect(await authenticateApiKey(generateApiKey().key)).toBeNull();
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('should skip the lookup for keys without the prefix', async () => {
+      expect(await authenticateApiKey('not-a-key')).toBeNull();
+      expect(prisma.apiKey.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should still authenticate when recording usage fails', async () => {
+      vi.mocked(prisma.apiKey.findUnique).mockResolvedValue({
+        id: 'key-1',
+        revokedAt: null,
+        business: { id: 'business-1', siteId: 'site-1' },
+      } as never);
+      vi.mocked(prisma.apiKey.update).mockRejectedValue(new Error('db down'));
+
+      expect(await authenticateApiKey(generateApiKey().key)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Attribution Flow Tests
+ *
+ * Runs public/tracking.js against a mocked browser and feeds the events it
+ * sends through session aggregation, checking each landing page source ends
+ * up as the session's channel.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { aggregateSessions } from '@/services/analytics/session-aggregator';
+import { prisma } from '@/lib/prisma';
+
+const trackingScript = fs.readFileSync(path.join(process.cwd(), 'public', 'tracking.js'), 'utf-8');
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    trackingEvent: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+interface SentEvent {
+  siteId: string;
+  sessionId: string;
+  clientEventId: string;
+  event: { type: string; timestamp: number; data: Record<string, unknown> };
+}
+
+// Browser with the requestIdleCallback deadline argument real browsers pass
+const setupBrowser = (url: string, referrer: string) => {
+  const storage = (): Storage => {
+    const items: Record<string, string> = {};
+    return {
+      getItem: (key: string) => items[key] ?? null,
+      setItem: (key: string, value: string) => {
+        items[key] = value;
+      },
+      removeItem: (key: string) => {
+        delete items[key];
+      },
+      clear: () => Object.keys(items).forEach((key) => delete items[key]),
+      key: () => null,
+      length: 0,
+    };
+  };
+  const location = new URL(url);
+
+  vi.stubGlobal('window', {
+    location: { href: location.href, pathname: location.pathname, search: location.search },
+    sessionStorage: storage(),
+    localStorage: storage(),
+    requestIdleCallback: (cb: (deadline: IdleDeadline) => void) =>
+      setTimeout(() => cb({ didTimeout: false, timeRemaining: () => 50 }), 0),
+    addEventListener: vi.fn(),
+    pageYOffset: 0,
+  });
+  vi.stubGlobal('document', {
+    referrer,
+    title: 'Shop',
+    documentElement: { scrollTop: 0, scrollHeight: 1000, clientHeight: 500 },
+    addEventListener: vi.fn(),
+    hidden: false,
+  });
+  vi.stubGlobal('navigator', { sendBeacon: vi.fn(() => true) });
+  vi.stubGlobal(
+    'fetch',
+    vi.fn((requestUrl: string) =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () =>
+          Promise.resolve(
+            requestUrl.includes('/api/track/token')
+              ? { success: true, data: { token: 'token', expiresIn: 3600 } }
+              : { success: true }
+          ),
+      })
+    )
+  );
+};
+
+// Events the tracker sent, as /api/track stores them
+const sentEvents = () =>
+  (fetch as ReturnType<typeof vi.fn>).mock.calls
+    .filter(([, init]) => init?.method === 'POST')
+    .flatMap(([, init]) => JSON.parse(init.body as string).events as SentEvent[])
+    .map((sent, index) => ({
+      id: String(index),
+      siteId: sent.siteId,
+      sessionId: sent.sessionId,
+      clientEventId: sent.clientEventId,
+      eventType: sent.event.type,
+      timestamp: new Date(sent.event.timestamp),
+      data: sent.event.data,
+      createdAt: new Date(sent.event.timestamp),
+      botReason: null,
+      visitorId: null,
+    }));
+
+// Load the page, leave it, and aggregate what was sent
+async function channelOf(url: string, referrer: string) {
+  setupBrowser(url, referrer);
+  eval(trackingScript);
+  window.MetricFortune.init({ siteId: 'test-site' });
+  await vi.advanceTimersByTimeAsync(5000);
+
+  vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue(sentEvents() as never);
+  const [session] = await aggregateSessions(new Date(0), new Date());
+
+  return session.attribution;
+}
+
+describe('Landing Page Attribution Flow', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should classify search engine referrers as organic search', async () => {
+    const attribution = await channelOf('https://shop.example.com/products/mug', 'https://www.google.com/');
+
+    expect(attribution).toMatchObject({ channel: 'organic_search', referrer: 'https://www.google.com/' });
+  });
+
+  it('should classify social referrers as social', async () => {
+    expect(await channelOf('https://shop.example.com/', 'https://t.co/abc')).toMatchObject({ channel: 'social' });
+  });
+
+  it('should classify other sites as referral and visits without a referrer as direct', async () => {
+    expect(await channelOf('https://shop.example.com/', 'https://blog.example.net/post')).toMatchObject({
+      channel: 'referral',
+    });
+
+    vi.unstubAllGlobals();
+    expect(await channelOf('https://shop.example.com/', '')).toMatchObject({ channel: 'direct', referrer: null });
+  });
+
+  it('should use the UTM parameters the tracker captured', async () => {
+    const attribution = await channelOf(
+      'https://shop.example.com/?utm_source=newsletter&utm_medium=email&utm_campaign=launch',
+      'https://mail.example.com/'
+    );
+
+    expect(attribution).toMatchObject({ channel: 'email', utmSource: 'newsletter', utmCampaign: 'launch' });
+  });
+});
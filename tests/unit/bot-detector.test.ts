@@ -0,0 +1,98 @@
+/**
+ * Unit tests for Bot Detector Service
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  classifyUserAgent,
+  classifySession,
+  hasHeadlessSignal,
+  hasImpossibleCadence,
+} from '@/services/tracking/bot-detector';
+
+const CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Events spaced `intervalMs` apart
+function events(eventType: string, count: number, intervalMs: number) {
+  const start = new Date('2025-11-25T10:00:00Z').getTime();
+  return Array.from({ length: count }, (_, i) => ({
+    eventType,
+    timestamp: new Date(start + i * intervalMs),
+    data: {},
+  }));
+}
+
+describe('Bot Detector', () => {
+  describe('classifyUserAgent', () => {
+    it('should pass real browsers', () => {
+      expect(classifyUserAgent(CHROME_UA)).toBeNull();
+      expect(
+        classifyUserAgent(
+          'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+        )
+      ).toBeNull();
+    });
+
+    it('should flag crawlers and monitors', () => {
+      expect(classifyUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe('user_agent');
+      expect(classifyUserAgent('Mozilla/5.0 (compatible; bingbot/2.0)')).toBe('user_agent');
+      expect(classifyUserAgent('Mozilla/5.0+(compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)')).toBe('user_agent');
+      expect(classifyUserAgent('facebookexternalhit/1.1')).toBe('user_agent');
+    });
+
+    it('should flag headless browsers and HTTP libraries', () => {
+      expect(classifyUserAgent(CHROME_UA.replace('Chrome/', 'HeadlessChrome/'))).toBe('user_agent');
+      expect(classifyUserAgent('curl/8.4.0')).toBe('user_agent');
+      expect(classifyUserAgent('python-requests/2.31.0')).toBe('user_agent');
+    });
+
+    it('should treat a missing user agent as a bot', () => {
+      expect(classifyUserAgent(null)).toBe('user_agent');
+      expect(classifyUserAgent('  ')).toBe('user_agent');
+    });
+  });
+
+  describe('hasHeadlessSignal', () => {
+    it('should detect the tracker webdriver flag', () => {
+      expect(hasHeadlessSignal({ url: '/', webdriver: true })).toBe(true);
+      expect(hasHeadlessSignal({ url: '/' })).toBe(false);
+      expect(hasHeadlessSignal(null)).toBe(false);
+    });
+  });
+
+  describe('hasImpossibleCadence', () => {
+    it('should pass normal browsing', () => {
+      expect(hasImpossibleCadence([...events('pageview', 10, 5000), ...events('click', 10, 800)])).toBe(false);
+    });
+
+    it('should flag runs of rapid-fire pageviews', () => {
+      expect(hasImpossibleCadence(events('pageview', 5, 200))).toBe(true);
+      expect(hasImpossibleCadence(events('pageview', 4, 200))).toBe(false);
+    });
+
+    it('should flag click bursts', () => {
+      expect(hasImpossibleCadence(events('click', 20, 40))).toBe(true);
+      expect(hasImpossibleCadence(events('click', 20, 100))).toBe(false);
+    });
+  });
+
+  describe('classifySession', () => {
+    it('should return null for human sessions', () => {
+      expect(classifySession(events('pageview', 3, 10000))).toBeNull();
+    });
+
+    it('should prefer the reason tagged at ingestion', () => {
+      const session = events('pageview', 5, 100).map((event) => ({ ...event, botReason: 'user_agent' }));
+      expect(classifySession(session)).toBe('user_agent');
+    });
+
+    it('should detect headless and cadence bots', () => {
+      const headless = events('pageview', 2, 10000);
+      headless[1].data = { webdriver: true };
+
+      expect(classifySession(headless)).toBe('headless');
+      expect(classifySession(events('pageview', 6, 100))).toBe('cadence');
+    });
+  });
+});
@@ -2,20 +2,19 @@
  * Unit tests for Event Processor Service
  */
 
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
-  processTrackingEvent,
   processTrackingEvents,
-  clearEventBuffer,
-  getBufferSize,
-  flushEventBuffer,
+  validateCustomEventProperties,
 } from '@/services/tracking/event-processor';
+import { prisma } from '@/lib/prisma';
 import type { TrackingEvent } from '@/types/tracking';
 
 // Mock Prisma
 vi.mock('@/lib/prisma', () => ({
   prisma: {
-    trackingEvent: {
+    eventOutbox: {
       createMany: vi.fn().mockResolvedValue({ count: 1 }),
     },
   },
@@ -23,71 +22,16 @@ vi.mock('@/lib/prisma', () => ({
 
 describe('Event Processor', () => {
   beforeEach(() => {
-    clearEventBuffer();
-  });
-
-  afterEach(() => {
-    clearEventBuffer();
-  });
-
-  describe('processTrackingEvent', () => {
-    it('should successfully buffer a single event', async () => {
-      const event: TrackingEvent = {
-        siteId: 'test-site-123',
-        sessionId: 'session-456',
-        event: {
-          type: 'pageview',
-          timestamp: Date.now(),
-          data: {
-            url: 'https://example.com',
-            referrer: 'https://google.com',
-          },
-        },
-      };
-
-      const result = await processTrackingEvent(event);
-
-      expect(result.success).toBe(true);
-      expect(result.buffered).toBe(true);
-      expect(getBufferSize()).toBe(1);
-    });
-
-    it('should buffer multiple events', async () => {
-      const events: TrackingEvent[] = [
-        {
-          siteId: 'test-site-123',
-          sessionId: 'session-456',
-          event: {
-            type: 'pageview',
-            timestamp: Date.now(),
-            data: { url: 'https://example.com/page1' },
-          },
-        },
-        {
-          siteId: 'test-site-123',
-          sessionId: 'session-456',
-          event: {
-            type: 'click',
-            timestamp: Date.now(),
-            data: { selector: 'button.cta', position: { x: 100, y: 200 } },
-          },
-        },
-      ];
-
-      for (const event of events) {
-        await processTrackingEvent(event);
-      }
-
-      expect(getBufferSize()).toBe(2);
-    });
+    vi.mocked(prisma.eventOutbox.createMany).mockClear();
   });
 
   describe('processTrackingEvents', () => {
-    it('should successfully buffer multiple events at once', async () => {
+    it('should stage multiple events in the outbox', async () => {
       const events: TrackingEvent[] = [
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'pageview',
             timestamp: Date.now(),
@@ -97,6 +41,7 @@ describe('Event Processor', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'click',
             timestamp: Date.now(),
@@ -106,6 +51,7 @@ describe('Event Processor', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'scroll',
             timestamp: Date.now(),
@@ -117,8 +63,14 @@ describe('Event Processor', () => {
       const result = await processTrackingEvents(events);
 
       expect(result.success).toBe(true);
-      expect(result.buffered).toBe(false); // Serverless-optimized: writes directly, no buffering
-      expect(getBufferSize()).toBe(0); // Buffer not used for batch events
+      expect(prisma.eventOutbox.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ eventType: 'pageview', siteId: 'test-site-123' }),
+          expect.objectContaining({ eventType: 'click' }),
+          expect.objectContaining({ eventType: 'scroll' }),
+        ]),
+        skipDuplicates: true,
+      });
     });
 
     it('should handle all event types', async () => {
@@ -126,6 +78,7 @@ describe('Event Processor', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'pageview',
             timestamp: Date.now(),
@@ -135,6 +88,7 @@ describe('Event Processor', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'click',
             timestamp: Date.now(),
@@ -144,6 +98,7 @@ describe('Event Processor', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'form',
             timestamp: Date.now(),
@@ -153,6 +108,7 @@ describe('Event Processor', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'scroll',
             timestamp: Date.now(),
@@ -162,6 +118,7 @@ describe('Event Processor', () => {
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
+          clientEventId: randomUUID(),
           event: {
             type: 'time',
             timestamp: Date.now(),
@@ -173,92 +130,257 @@ describe('Event Processor', () => {
       const result = await processTrackingEvents(events);
 
       expect(result.success).toBe(true);
-      expect(getBufferSize()).toBe(0); // Serverless-optimized: writes directly
     });
-  });
 
-  describe('flushEventBuffer', () => {
-    it('should flush buffer to database', async () => {
-      const events: TrackingEvent[] = [
+    it('should report failure when the outbox write fails', async () => {
+      vi.mocked(prisma.eventOutbox.createMany).mockRejectedValueOnce(new Error('Connection lost'));
+
+      const result = await processTrackingEvents([
         {
           siteId: 'test-site-123',
           sessionId: 'session-456',
-          event: {
-            type: 'pageview',
-            timestamp: Date.now(),
-            data: { url: 'https://example.com' },
-          },
+          clientEventId: randomUUID(),
+          event: { type: 'pageview', timestamp: Date.now(), data: {} },
         },
-      ];
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.stored).toBe(0);
+      expect(result.error).toBe('Connection lost');
+    });
+  });
 
-      await processTrackingEvents(events);
-      expect(getBufferSize()).toBe(0); // Serverless-optimized: no buffering
 
-      await flushEventBuffer();
+  describe('custom event limits', () => {
+    const customEvent = (properties: Record<string, unknown>): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      event: {
+        type: 'custom',
+        timestamp: Date.now(),
+        data: { name: 'coupon_applied', properties },
+      },
+    });
+
+    it('should accept flat primitive properties', () => {
+      expect(
+        validateCustomEventProperties({ code: 'SAVE10', amount: 10, firstOrder: true, note: null })
+      ).toBeNull();
+      expect(validateCustomEventProperties(undefined)).toBeNull();
+    });
 
-      // Buffer remains empty (nothing was buffered)
-      expect(getBufferSize()).toBe(0);
+    it('should reject nested objects and arrays', () => {
+      expect(validateCustomEventProperties({ cart: { total: 10 } })).toContain('"cart"');
+      expect(validateCustomEventProperties({ skus: ['a', 'b'] })).toContain('"skus"');
     });
 
-    it('should handle empty buffer gracefully', async () => {
-      expect(getBufferSize()).toBe(0);
+    it('should reject too many properties and oversized values', () => {
+      const tooMany = Object.fromEntries(Array.from({ length: 26 }, (_, i) => [`p${i}`, i]));
+
+      expect(validateCustomEventProperties(tooMany)).toContain('too many properties');
+      expect(validateCustomEventProperties({ text: 'x'.repeat(256) })).toContain('"text"');
+      expect(validateCustomEventProperties({ ['k'.repeat(51)]: 1 })).not.toBeNull();
+      expect(validateCustomEventProperties({ ratio: Infinity })).toContain('finite');
+    });
 
-      await expect(flushEventBuffer()).resolves.not.toThrow();
+    it('should drop invalid custom events and write the rest', async () => {
+      const result = await processTrackingEvents([
+        customEvent({ code: 'SAVE10' }),
+        customEvent({ cart: { total: 10 } }),
+      ]);
 
-      expect(getBufferSize()).toBe(0);
+      expect(result.success).toBe(true);
+      expect(result.rejected).toBe(1);
+      expect(prisma.eventOutbox.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ eventType: 'custom' })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should skip the database write when every event is rejected', async () => {
+      const result = await processTrackingEvents([customEvent({ skus: ['a'] })]);
+
+      expect(result.success).toBe(true);
+      expect(result.rejected).toBe(1);
+      expect(prisma.eventOutbox.createMany).not.toHaveBeenCalled();
     });
   });
 
-  describe('getBufferSize', () => {
-    it('should return correct buffer size', async () => {
-      expect(getBufferSize()).toBe(0);
-
-      const event: TrackingEvent = {
-        siteId: 'test-site-123',
-        sessionId: 'session-456',
-        event: {
-          type: 'pageview',
-          timestamp: Date.now(),
-          data: { url: 'https://example.com' },
-        },
-      };
+  describe('idempotency', () => {
+    const pageview = (clientEventId: string): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId,
+      event: {
+        type: 'pageview',
+        timestamp: Date.now(),
+        data: { url: 'https://example.com' },
+      },
+    });
+
+    it('should drop repeated client events within a batch', async () => {
+      const id = randomUUID();
+
+      await processTrackingEvents([pageview(id), pageview(id)]);
+
+      expect(prisma.eventOutbox.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ clientEventId: id })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should report events skipped by the outbox as duplicates', async () => {
+      vi.mocked(prisma.eventOutbox.createMany).mockResolvedValueOnce({ count: 1 });
 
-      await processTrackingEvent(event);
-      expect(getBufferSize()).toBe(1);
+      const result = await processTrackingEvents([pageview(randomUUID()), pageview(randomUUID())]);
 
-      await processTrackingEvent(event);
-      expect(getBufferSize()).toBe(2);
+      expect(result.success).toBe(true);
+      expect(result.stored).toBe(1);
+      expect(result.duplicates).toBe(1);
     });
   });
 
-  describe('clearEventBuffer', () => {
-    it('should clear all buffered events', async () => {
-      const events: TrackingEvent[] = [
-        {
-          siteId: 'test-site-123',
-          sessionId: 'session-456',
-          event: {
-            type: 'pageview',
-            timestamp: Date.now(),
-            data: { url: 'https://example.com' },
-          },
-        },
-        {
-          siteId: 'test-site-123',
-          sessionId: 'session-456',
-          event: {
-            type: 'click',
-            timestamp: Date.now(),
-            data: { selector: 'button' },
-          },
-        },
-      ];
+  describe('bot tagging', () => {
+    const pageview = (data: Record<string, unknown>): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      event: {
+        type: 'pageview',
+        timestamp: Date.now(),
+        data: { url: 'https://example.com', ...data },
+      },
+    });
+
+    it('should leave browser events untagged', async () => {
+      await processTrackingEvents([pageview({})]);
+
+      expect(prisma.eventOutbox.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ botReason: null })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should tag pageviews from automated browsers', async () => {
+      await processTrackingEvents([pageview({ webdriver: true })]);
+
+      expect(prisma.eventOutbox.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ botReason: 'headless' })],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should tag every event with the request-level bot reason', async () => {
+      await processTrackingEvents([pageview({}), pageview({ webdriver: true })], {
+        botReason: 'user_agent',
+      });
+
+      expect(prisma.eventOutbox.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ botReason: 'user_agent' }),
+          expect.objectContaining({ botReason: 'user_agent' }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe('consent', () => {
+    const pageview = (consent?: boolean): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      consent,
+      event: {
+        type: 'pageview',
+        timestamp: Date.now(),
+        data: { url: 'https://example.com' },
+      },
+    });
+
+    it('should drop events flagged as non-consented', async () => {
+      const result = await processTrackingEvents([pageview(false), pageview(), pageview(true)]);
+
+      expect(result.nonConsented).toBe(1);
+      expect(vi.mocked(prisma.eventOutbox.createMany).mock.calls[0][0]!.data).toHaveLength(2);
+    });
+
+    it('should keep only explicitly consented events from requests with a privacy signal', async () => {
+      const result = await processTrackingEvents([pageview(), pageview(true)], { privacySignal: true });
+
+      expect(result.nonConsented).toBe(1);
+      expect(vi.mocked(prisma.eventOutbox.createMany).mock.calls[0][0]!.data).toHaveLength(1);
+    });
+
+    it('should skip the database write when no event has consent', async () => {
+      const result = await processTrackingEvents([pageview(false)]);
+
+      expect(result).toMatchObject({ success: true, stored: 0, nonConsented: 1 });
+      expect(prisma.eventOutbox.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PII scrubbing', () => {
+    const event = (type: TrackingEvent['event']['type'], data: Record<string, unknown>): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      event: { type, timestamp: Date.now(), data } as TrackingEvent['event'],
+    });
+
+    const stagedData = () =>
+      (vi.mocked(prisma.eventOutbox.createMany).mock.calls[0][0]!.data as { data: unknown }[]).map((row) => row.data);
+
+    it('should redact PII that slipped past the tracker', async () => {
+      await processTrackingEvents([
+        event('click', { selector: '#contact', tagName: 'A', text: 'jane@example.com', href: 'mailto:jane@example.com' }),
+        event('custom', { name: 'newsletter', properties: { phone: '+1 555-123-4567' } }),
+      ]);
+
+      expect(stagedData()).toEqual([
+        { selector: '#contact', tagName: 'A', text: '[redacted]', href: 'mailto:[redacted]' },
+        { name: 'newsletter', properties: { phone: '[redacted]' } },
+      ]);
+    });
+
+    it('should leave site patterns to the tracker', async () => {
+      await processTrackingEvents([event('pageview', { url: 'https://example.com/orders/ORD-123' })]);
+
+      expect(stagedData()).toEqual([{ url: 'https://example.com/orders/ORD-123' }]);
+    });
+  });
+
+  describe('visitor identity', () => {
+    const identify = (traits: unknown, visitorId?: string): TrackingEvent => ({
+      siteId: 'test-site-123',
+      sessionId: 'session-456',
+      clientEventId: randomUUID(),
+      visitorId,
+      event: {
+        type: 'identify',
+        timestamp: Date.now(),
+        data: { customerId: 'customer-42', traits },
+      },
+    });
+
+    it('should stage the visitor ID with each event', async () => {
+      await processTrackingEvents([identify({ plan: 'pro' }, 'visitor-1'), identify({})]);
+
+      expect(prisma.eventOutbox.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ eventType: 'identify', visitorId: 'visitor-1' }),
+          expect.objectContaining({ visitorId: null }),
+        ],
+        skipDuplicates: true,
+      });
+    });
 
-      await processTrackingEvents(events);
-      expect(getBufferSize()).toBe(0); // Serverless-optimized: no buffering
+    it('should reject identify events with invalid traits', async () => {
+      const result = await processTrackingEvents([identify({ address: { city: 'Berlin' } }, 'visitor-1')]);
 
-      clearEventBuffer();
-      expect(getBufferSize()).toBe(0); // Buffer already empty
+      expect(result.rejected).toBe(1);
+      expect(prisma.eventOutbox.createMany).not.toHaveBeenCalled();
     });
   });
 });
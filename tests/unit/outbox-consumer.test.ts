@@ -0,0 +1,179 @@
+/**
+ * Unit tests for Outbox Consumer Service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { EventOutbox } from '@prisma/client';
+import {
+  drainEventOutbox,
+  getOutboxMetrics,
+  OUTBOX_CONFIG,
+} from '@/services/tracking/outbox-consumer';
+import { prisma } from '@/lib/prisma';
+
+// Mock Prisma ($transaction resolves the array of queued operations)
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    eventOutbox: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      deleteMany: vi.fn(),
+      update: vi.fn(),
+    },
+    trackingEvent: {
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+function outboxRow(id: string, overrides: Partial<EventOutbox> = {}): EventOutbox {
+  return {
+    id,
+    siteId: 'site1',
+    sessionId: 'session1',
+    clientEventId: `client-${id}`,
+    eventType: 'pageview',
+    timestamp: new Date('2025-11-20T10:00:00Z'),
+    data: { url: '/home' },
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: new Date('2025-11-20T10:00:00Z'),
+    deadLetteredAt: null,
+    botReason: null,
+    visitorId: null,
+    createdAt: new Date('2025-11-20T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Outbox Consumer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.eventOutbox.deleteMany).mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.eventOutbox.update).mockResolvedValue(outboxRow('updated'));
+  });
+
+  describe('drainEventOutbox', () => {
+    it('should move due rows into TrackingEvent and delete them from the outbox', async () => {
+      vi.mocked(prisma.eventOutbox.findMany).mockResolvedValueOnce([outboxRow('1'), outboxRow('2')]);
+      vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 2 });
+
+      const result = await drainEventOutbox();
+
+      expect(prisma.trackingEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ clientEventId: 'client-1', eventType: 'pageview' }),
+          expect.objectContaining({ clientEventId: 'client-2' }),
+        ],
+        skipDuplicates: true,
+      });
+      expect(prisma.eventOutbox.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['1', '2'] } },
+      });
+      expect(result).toMatchObject({ drained: 2, duplicates: 0, batches: 1 });
+    });
+
+    it('should count rows already in TrackingEvent as duplicates', async () => {
+      vi.mocked(prisma.eventOutbox.findMany).mockResolvedValueOnce([outboxRow('1'), outboxRow('2')]);
+      vi.mocked(prisma.trackingEvent.createMany).mockResolvedValue({ count: 1 });
+
+      const result = await drainEventOutbox();
+
+      expect(result.drained).toBe(1);
+      expect(result.duplicates).toBe(1);
+    });
+
+    it('should do nothing when the outbox is empty', async () => {
+      vi.mocked(prisma.eventOutbox.findMany).mockResolvedValueOnce([]);
+
+      const result = await drainEventOutbox();
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(result.batches).toBe(0);
+    });
+
+    it('should retry a failed batch row by row and reschedule failing rows', async () => {
+      vi.mocked(prisma.eventOutbox.findMany).mockResolvedValueOnce([outboxRow('1'), outboxRow('bad')]);
+      vi.mocked(prisma.trackingEvent.createMany).mockImplementation((args) => {
+        const data = args!.data as Array<{ clientEventId: string }>;
+        if (data.some((row) => row.clientEventId === 'client-bad')) {
+          return Promise.reject(new Error('invalid byte sequence')) as never;
+        }
+        return Promise.resolve({ count: data.length }) as never;
+      });
+
+      const result = await drainEventOutbox();
+
+      expect(result).toMatchObject({ drained: 1, retried: 1, deadLettered: 0 });
+      expect(prisma.eventOutbox.update).toHaveBeenCalledWith({
+        where: { id: 'bad' },
+        data: expect.objectContaining({
+          attempts: 1,
+          lastError: 'invalid byte sequence',
+          deadLetteredAt: null,
+        }),
+      });
+    });
+
+    it('should dead-letter rows that exhaust their attempts', async () => {
+      vi.mocked(prisma.eventOutbox.findMany).mockResolvedValueOnce([
+        outboxRow('bad', { attempts: OUTBOX_CONFIG.maxAttempts - 1 }),
+      ]);
+      vi.mocked(prisma.trackingEvent.createMany).mockRejectedValue(new Error('invalid byte sequence'));
+
+      const result = await drainEventOutbox();
+
+      expect(result.deadLettered).toBe(1);
+      expect(prisma.eventOutbox.update).toHaveBeenCalledWith({
+        where: { id: 'bad' },
+        data: expect.objectContaining({
+          attempts: OUTBOX_CONFIG.maxAttempts,
+          deadLetteredAt: expect.any(Date),
+        }),
+      });
+    });
+
+    it('should keep draining while batches are full', async () => {
+      const fullBatch = Array.from({ length: OUTBOX_CONFIG.batchSize }, (_, i) => outboxRow(`a${i}`));
+      vi.mocked(prisma.eventOutbox.findMany)
+        .mockResolvedValueOnce(fullBatch)
+        .mockResolvedValueOnce([outboxRow('b1')]);
+      vi.mocked(prisma.trackingEvent.createMany)
+        .mockResolvedValueOnce({ count: OUTBOX_CONFIG.batchSize })
+        .mockResolvedValueOnce({ count: 1 });
+
+      const result = await drainEventOutbox();
+
+      expect(result.batches).toBe(2);
+      expect(result.drained).toBe(OUTBOX_CONFIG.batchSize + 1);
+    });
+  });
+
+  describe('getOutboxMetrics', () => {
+    it('should report backlog size, dead letters and lag', async () => {
+      vi.mocked(prisma.eventOutbox.count)
+        .mockResolvedValueOnce(42)
+        .mockResolvedValueOnce(3);
+      vi.mocked(prisma.eventOutbox.findFirst).mockResolvedValue({
+        createdAt: new Date(Date.now() - 60000),
+      } as EventOutbox);
+
+      const metrics = await getOutboxMetrics();
+
+      expect(metrics.pending).toBe(42);
+      expect(metrics.deadLettered).toBe(3);
+      expect(metrics.oldestPendingAgeMs).toBeGreaterThanOrEqual(60000);
+    });
+
+    it('should report zero lag for an empty outbox', async () => {
+      vi.mocked(prisma.eventOutbox.count).mockResolvedValue(0);
+      vi.mocked(prisma.eventOutbox.findFirst).mockResolvedValue(null);
+
+      const metrics = await getOutboxMetrics();
+
+      expect(metrics.oldestPendingAgeMs).toBe(0);
+    });
+  });
+});
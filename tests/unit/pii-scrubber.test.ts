@@ -0,0 +1,89 @@
+/**
+ * Unit tests for PII Scrubber Service
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  scrubEventData,
+  scrubText,
+  usableMaskPatterns,
+  validateMaskPattern,
+  MASKING_LIMITS,
+} from '@/services/tracking/pii-scrubber';
+
+describe('PII Scrubber', () => {
+  describe('scrubText', () => {
+    it('should redact email addresses', () => {
+      expect(scrubText('Contact Jane.Doe+shop@Example.co.uk today')).toBe('Contact [redacted] today');
+    });
+
+    it('should redact phone numbers with separators', () => {
+      expect(scrubText('Call (555) 123-4567')).toBe('Call [redacted]');
+      expect(scrubText('Call +44 555.123.4567')).toBe('Call [redacted]');
+    });
+
+    it('should redact card numbers that pass the Luhn check', () => {
+      expect(scrubText('Card 4111 1111 1111 1111')).toBe('Card [redacted]');
+      expect(scrubText('Card 4111-1111-1111-1111')).toBe('Card [redacted]');
+      expect(scrubText('Order 1234567890123456')).toBe('Order 1234567890123456');
+    });
+
+    it('should leave plain numeric IDs alone', () => {
+      expect(scrubText('SKU 5551234567')).toBe('SKU 5551234567');
+    });
+
+    it('should only redact emails in URLs', () => {
+      const url = 'https://example.com/orders/4111111111111111?email=jane@example.com';
+      expect(scrubText(url, true)).toBe('https://example.com/orders/4111111111111111?email=[redacted]');
+    });
+
+    it('should scrub long strings without shortening them', () => {
+      const stack = `${'at render (https://shop.example.com/app.js:1:1)\n'.repeat(100)}by jane@example.com`;
+      const url = `https://shop.example.com/search?q=${'a'.repeat(3000)}&email=jane@example.com`;
+
+      expect(stack.length).toBeGreaterThan(MASKING_LIMITS.maxScrubLength);
+      expect(scrubText(stack)).toBe(stack.replace('jane@example.com', '[redacted]'));
+      expect(scrubText(url, true)).toBe(url.replace('jane@example.com', '[redacted]'));
+    });
+  });
+
+  describe('validateMaskPattern', () => {
+    it('should accept valid patterns', () => {
+      expect(validateMaskPattern('ORD-\\d+')).toBeNull();
+    });
+
+    it('should reject invalid and oversized patterns', () => {
+      expect(validateMaskPattern('(unclosed')).toMatch(/not a valid regular expression/);
+      expect(validateMaskPattern('a'.repeat(MASKING_LIMITS.maxPatternLength + 1))).toMatch(/exceeds/);
+    });
+
+    it('should reject patterns that can backtrack catastrophically', () => {
+      for (const pattern of ['(a+)+$', '(\\d*)*x', '(?:a|aa)+', '((ab)*c)+', '(\\w+\\s?){2,}', '(a)\\1']) {
+        expect(validateMaskPattern(pattern)).toMatch(/can make matching hang/);
+      }
+    });
+
+    it('should accept quantifiers outside repeated groups', () => {
+      for (const pattern of ['(?:Mr|Mrs)\\.? \\w+', '(ORD|INV)-\\d{6}', '[(a+)]+', '(\\d{3}-)?\\d{4}', 'LOY-\\d+?']) {
+        expect(validateMaskPattern(pattern)).toBeNull();
+      }
+    });
+
+    it('should drop unusable stored patterns', () => {
+      expect(usableMaskPatterns(['(unclosed', 'ORD-\\d+', '(a+)+$'])).toEqual(['ORD-\\d+']);
+    });
+  });
+
+  describe('scrubEventData', () => {
+    it('should scrub nested strings in behavioral and custom events', () => {
+      expect(
+        scrubEventData('custom', { name: 'signup', properties: { email: 'jane@example.com', plan: 'pro', seats: 3 } })
+      ).toEqual({ name: 'signup', properties: { email: '[redacted]', plan: 'pro', seats: 3 } });
+    });
+
+    it('should leave commerce events unchanged', () => {
+      const purchase = { orderId: 'jane@example.com', total: 10, currency: 'USD', items: [] };
+      expect(scrubEventData('purchase', purchase)).toBe(purchase);
+    });
+  });
+});
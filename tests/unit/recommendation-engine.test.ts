@@ -344,6 +344,174 @@ describe("Recommendation Engine Service", () => {
     });
   });
 
+  describe("generateRecommendations - PERFORMANCE patterns", () => {
+    it("should generate a loading speed recommendation for poor LCP", async () => {
+      const mockPatterns: Partial<Pattern>[] = [
+        {
+          id: "pat-perf",
+          siteId: "site1",
+          patternType: "PERFORMANCE",
+          description: "Slow product pages",
+          severity: 0.6,
+          sessionCount: 300,
+          confidenceScore: 0.8,
+          metadata: {
+            page: "/products/:handle",
+            poorVitals: ["lcp", "cls"],
+            lcp: 5200,
+            exitRate: 48,
+            siteExitRate: 30,
+          },
+          detectedAt: new Date(),
+        },
+      ];
+
+      vi.mocked(prisma.pattern.findMany).mockResolvedValue(
+        mockPatterns as Pattern[]
+      );
+      vi.mocked(prisma.business.findUnique).mockResolvedValue(null);
+
+      const recommendations = await generateRecommendations({
+        siteId: "site1",
+        businessId: "biz1",
+        includePeerData: false,
+      });
+
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0].title).toBe("Speed up main content loading on /products/:handle");
+      expect(recommendations[0].problemStatement).toContain("5200ms");
+      expect(recommendations[0].problemStatement).toContain("48%");
+    });
+  });
+
+  describe("generateRecommendations - ERROR patterns", () => {
+    it("should generate a checkout error recommendation", async () => {
+      const mockPatterns: Partial<Pattern>[] = [
+        {
+          id: "pat-error",
+          siteId: "site1",
+          patternType: "ERROR",
+          description: "Checkout script error",
+          severity: 0.5,
+          sessionCount: 400,
+          confidenceScore: 0.8,
+          metadata: {
+            fingerprint: "a1b2c3d4e5f60718",
+            errorMessage: "Cannot read properties of undefined",
+            page: "/checkout",
+            affectedSessions: 64,
+            conversionRate: 1.6,
+            baselineConversionRate: 12.4,
+            conversionImpact: 10.8,
+          },
+          detectedAt: new Date(),
+        },
+      ];
+
+      vi.mocked(prisma.pattern.findMany).mockResolvedValue(
+        mockPatterns as Pattern[]
+      );
+      vi.mocked(prisma.business.findUnique).mockResolvedValue(null);
+
+      const recommendations = await generateRecommendations({
+        siteId: "site1",
+        businessId: "biz1",
+        includePeerData: false,
+      });
+
+      expect(recommendations).toHaveLength(1);
+      expect(recommendations[0].title).toBe("Fix the script error on /checkout");
+      expect(recommendations[0].problemStatement).toContain("Cannot read properties of undefined");
+      expect(recommendations[0].problemStatement).toContain("64 sessions");
+    });
+  });
+
+  describe("generateRecommendations - FRUSTRATION patterns", () => {
+    const frustrationPattern = (rageClicks: number, deadClicks: number): Partial<Pattern> => ({
+      id: `pat-frustration-${rageClicks}`,
+      siteId: "site1",
+      patternType: "FRUSTRATION",
+      description: "Frustrating element",
+      severity: 0.3,
+      sessionCount: 150,
+      confidenceScore: 0.8,
+      metadata: {
+        page: "/products/:handle",
+        selector: "#add-to-cart",
+        frustrationRate: 8,
+        rageClicks,
+        deadClicks,
+        affectedSessions: 12,
+      },
+      detectedAt: new Date(),
+    });
+
+    it("should pick the rage click or dead click template", async () => {
+      vi.mocked(prisma.pattern.findMany).mockResolvedValue([
+        frustrationPattern(12, 2),
+        frustrationPattern(0, 9),
+      ] as Pattern[]);
+      vi.mocked(prisma.business.findUnique).mockResolvedValue(null);
+
+      const recommendations = await generateRecommendations({
+        siteId: "site1",
+        businessId: "biz1",
+        includePeerData: false,
+      });
+
+      expect(recommendations.map((r) => r.title)).toEqual([
+        "Fix the unresponsive #add-to-cart on /products/:handle",
+        "Make #add-to-cart on /products/:handle clickable",
+      ]);
+      expect(recommendations[1].problemStatement).toContain("9 dead clicks");
+    });
+  });
+
+  describe("generateRecommendations - BELOW_FOLD patterns", () => {
+    const belowFoldPattern = (
+      page: string,
+      convertingCtaSeenRate: number | null,
+      nonConvertingCtaSeenRate: number | null
+    ): Partial<Pattern> => ({
+      id: `pat-below-fold-${page}`,
+      siteId: "site1",
+      patternType: "BELOW_FOLD",
+      description: "Add-to-cart below the fold",
+      severity: 0.5,
+      sessionCount: 150,
+      confidenceScore: 0.6,
+      metadata: {
+        page,
+        ctaSeenRate: 30,
+        convertingCtaSeenRate,
+        nonConvertingCtaSeenRate,
+        averageScrollDepth: 38,
+      },
+      detectedAt: new Date(),
+    });
+
+    it("should use the fold comparison when buyers see the add-to-cart area more often", async () => {
+      vi.mocked(prisma.pattern.findMany).mockResolvedValue([
+        belowFoldPattern("/products/:handle", 100, 0),
+        belowFoldPattern("/collections/:handle", null, null),
+      ] as Pattern[]);
+      vi.mocked(prisma.business.findUnique).mockResolvedValue(null);
+
+      const recommendations = await generateRecommendations({
+        siteId: "site1",
+        businessId: "biz1",
+        includePeerData: false,
+      });
+
+      expect(recommendations.map((r) => r.title)).toEqual([
+        "Move the add-to-cart button above the fold on /products/:handle",
+        "Bring the add-to-cart area into view on /collections/:handle",
+      ]);
+      expect(recommendations[0].problemStatement).toContain("100% of buyers see it vs 0%");
+      expect(recommendations[1].problemStatement).toContain("average scroll depth 38%");
+    });
+  });
+
   describe("generateRecommendations - Prioritization (AC #4, #5)", () => {
     it("should prioritize recommendations by impact score (severity × conversion value)", async () => {
       // Arrange: Multiple patterns with varying severities and types
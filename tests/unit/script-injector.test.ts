@@ -11,23 +11,22 @@ describe('Shopify Script Injector', () => {
     it('should construct correct tracking script URL', () => {
       const siteId = 'shopify_abc123';
       const baseUrl = 'https://metricfortune.com';
-      const scriptUrl = `${baseUrl}/tracking.js?siteId=${siteId}`;
+      const scriptUrl = `${baseUrl}/t/${siteId}.js`;
 
-      expect(scriptUrl).toBe('https://metricfortune.com/tracking.js?siteId=shopify_abc123');
-      expect(scriptUrl).toContain('tracking.js');
+      expect(scriptUrl).toBe('https://metricfortune.com/t/shopify_abc123.js');
       expect(scriptUrl).toContain(siteId);
     });
 
     it('should create script tag with correct properties', () => {
       const scriptTagData = {
         event: 'onload',
-        src: 'https://metricfortune.com/tracking.js?siteId=shopify_123',
+        src: 'https://metricfortune.com/t/shopify_123.js',
         display_scope: 'all',
       };
 
       expect(scriptTagData.event).toBe('onload');
       expect(scriptTagData.display_scope).toBe('all');
-      expect(scriptTagData.src).toContain('tracking.js');
+      expect(scriptTagData.src).toContain('/t/shopify_123.js');
     });
 
     it('should return success with script tag ID', () => {
@@ -0,0 +1,88 @@
+/**
+ * Channel Classifier Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHANNEL_RULES,
+  classifyChannel,
+  parseAttribution,
+  segmentWhere,
+  type ChannelRule,
+} from '@/services/analytics/channel-classifier';
+
+const LANDING = 'https://shop.example.com/products/mug';
+
+describe('Channel Classifier Service', () => {
+  describe('classifyChannel', () => {
+    it('should classify sessions with an ad click ID as paid', () => {
+      const result = classifyChannel({
+        url: LANDING,
+        referrer: 'https://www.google.com/',
+        attribution: { gclid: 'abc123', utmCampaign: 'spring_sale' },
+      });
+
+      expect(result).toMatchObject({
+        channel: 'paid',
+        clickIdType: 'gclid',
+        utmCampaign: 'spring_sale',
+        referrer: 'https://www.google.com/',
+      });
+    });
+
+    it('should classify by UTM medium and source', () => {
+      expect(classifyChannel({ attribution: { utmSource: 'google', utmMedium: 'cpc' } }).channel).toBe('paid');
+      expect(classifyChannel({ attribution: { utmSource: 'weekly', utmMedium: 'email' } }).channel).toBe('email');
+      expect(classifyChannel({ attribution: { utmSource: 'instagram' } }).channel).toBe('social');
+      expect(classifyChannel({ attribution: { utmSource: 'partner-blog' } }).channel).toBe('referral');
+    });
+
+    it('should classify by referrer host', () => {
+      expect(classifyChannel({ url: LANDING, referrer: 'https://www.bing.com/search?q=mug' }).channel).toBe(
+        'organic_search'
+      );
+      expect(classifyChannel({ url: LANDING, referrer: 'https://t.co/xyz' }).channel).toBe('social');
+      expect(classifyChannel({ url: LANDING, referrer: 'https://blog.example.org/post' }).channel).toBe('referral');
+    });
+
+    it('should treat internal referrers and missing sources as direct', () => {
+      expect(classifyChannel({ url: LANDING, referrer: 'https://shop.example.com/cart' })).toMatchObject({
+        channel: 'direct',
+        referrer: null,
+      });
+      expect(classifyChannel({ url: LANDING })).toMatchObject({ channel: 'direct', clickIdType: null });
+    });
+
+    it('should apply custom rules in order', () => {
+      const rules: ChannelRule[] = [{ channel: 'email', source: /^crm$/ }, ...CHANNEL_RULES];
+
+      expect(classifyChannel({ attribution: { utmSource: 'crm' } }, rules).channel).toBe('email');
+    });
+  });
+
+  describe('parseAttribution', () => {
+    it('should read UTM parameters and click IDs from the landing URL', () => {
+      expect(parseAttribution(`${LANDING}?utm_source=newsletter&utm_campaign=launch&fbclid=xyz`)).toEqual({
+        utmSource: 'newsletter',
+        utmCampaign: 'launch',
+        fbclid: 'xyz',
+      });
+    });
+
+    it('should return null for URLs without attribution', () => {
+      expect(parseAttribution(LANDING)).toBeNull();
+      expect(parseAttribution('/relative?utm_source=x')).toBeNull();
+      expect(parseAttribution(null)).toBeNull();
+    });
+  });
+
+  describe('segmentWhere', () => {
+    it('should map a segment to Session filters', () => {
+      expect(segmentWhere({ channel: 'paid', campaign: 'spring_sale' })).toEqual({
+        channel: 'paid',
+        utmCampaign: 'spring_sale',
+      });
+      expect(segmentWhere()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Custom Event Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateCustomEventStats } from '@/services/analytics/custom-event-calculator';
+
+describe('Custom Event Calculator Service', () => {
+  describe('calculateCustomEventStats', () => {
+    it('should group events by name with counts and unique sessions', () => {
+      const stats = calculateCustomEventStats(
+        [
+          { sessionId: 's1', data: { name: 'size_guide_opened' } },
+          { sessionId: 's1', data: { name: 'size_guide_opened' } },
+          { sessionId: 's2', data: { name: 'size_guide_opened' } },
+          { sessionId: 's2', data: { name: 'coupon_applied', properties: { code: 'SAVE10' } } },
+        ],
+        []
+      );
+
+      expect(stats).toEqual([
+        { name: 'size_guide_opened', count: 3, uniqueSessions: 2, convertedSessions: 0, conversionRate: 0 },
+        { name: 'coupon_applied', count: 1, uniqueSessions: 1, convertedSessions: 0, conversionRate: 0 },
+      ]);
+    });
+
+    it('should calculate conversion rate from sessions that fired the event', () => {
+      const stats = calculateCustomEventStats(
+        [
+          { sessionId: 's1', data: { name: 'coupon_applied' } },
+          { sessionId: 's2', data: { name: 'coupon_applied' } },
+          { sessionId: 's3', data: { name: 'coupon_applied' } },
+        ],
+        [
+          { sessionId: 's1', converted: true },
+          { sessionId: 's2', converted: false },
+          { sessionId: 'unrelated', converted: true },
+        ]
+      );
+
+      expect(stats[0].convertedSessions).toBe(1);
+      expect(stats[0].conversionRate).toBe(33.3);
+    });
+
+    it('should upscale events and sessions of sampled sessions', () => {
+      const stats = calculateCustomEventStats(
+        [
+          { sessionId: 's1', data: { name: 'coupon_applied' } },
+          { sessionId: 's1', data: { name: 'coupon_applied' } },
+          { sessionId: 's2', data: { name: 'coupon_applied' } },
+          { sessionId: 'unaggregated', data: { name: 'coupon_applied' } },
+        ],
+        [
+          { sessionId: 's1', converted: true, sampleRate: 0.25 },
+          { sessionId: 's2', converted: false, sampleRate: 0.5 },
+        ]
+      );
+
+      expect(stats).toEqual([
+        { name: 'coupon_applied', count: 11, uniqueSessions: 7, convertedSessions: 4, conversionRate: 57.1 },
+      ]);
+    });
+
+    it('should ignore events without a name', () => {
+      const stats = calculateCustomEventStats(
+        [
+          { sessionId: 's1', data: {} },
+          { sessionId: 's1', data: null },
+        ],
+        []
+      );
+
+      expect(stats).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Error Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateErrorImpact,
+  fingerprintError,
+  normalizeErrorMessage,
+} from '@/services/analytics/error-calculator';
+
+const errorEvent = (sessionId: string, message: string, source = 'https://shop.example.com/app.js') => ({
+  sessionId,
+  data: { kind: 'error', message, source, line: 10, url: 'https://shop.example.com/products/mug?variant=2' },
+});
+
+describe('Error Calculator Service', () => {
+  describe('fingerprintError', () => {
+    it('should group messages that differ only in variable parts', () => {
+      expect(normalizeErrorMessage('Uncaught Error: Item 123 not found')).toBe('Error: Item <n> not found');
+      expect(fingerprintError({ kind: 'error', message: 'Item 123 not found' })).toBe(
+        fingerprintError({ kind: 'error', message: 'Item 456 not found' })
+      );
+    });
+
+    it('should ignore build hashes and query strings in the script URL', () => {
+      const a = fingerprintError({ kind: 'error', message: 'x is undefined', source: 'https://cdn.example.com/app.3f2a91c.js?v=1' });
+      const b = fingerprintError({ kind: 'error', message: 'x is undefined', source: 'https://cdn.example.com/app.8bd0e47.js' });
+      const other = fingerprintError({ kind: 'error', message: 'x is undefined', source: 'https://cdn.example.com/vendor.js' });
+
+      expect(a).toBe(b);
+      expect(a).not.toBe(other);
+      expect(a).toMatch(/^[0-9a-f]{16}$/);
+    });
+  });
+
+  describe('calculateErrorImpact', () => {
+    const sessions = Array.from({ length: 100 }, (_, i) => ({
+      sessionId: `s${i}`,
+      converted: i >= 30 && i % 2 === 0,
+    }));
+
+    it('should compare conversion of affected sessions with the rest', () => {
+      const events = [
+        ...Array.from({ length: 30 }, (_, i) => errorEvent(`s${i}`, `Cart ${i} failed`)),
+        errorEvent('s0', 'Cart 0 failed'),
+        errorEvent('unaggregated', 'Cart 99 failed'),
+      ];
+
+      const [group] = calculateErrorImpact(events, sessions);
+
+      expect(group).toMatchObject({
+        kind: 'error',
+        message: 'Cart 99 failed',
+        page: '/products/:handle',
+        occurrences: 32,
+        affectedSessions: 30,
+        observedSessions: 30,
+        conversionRate: 0,
+        baselineConversionRate: 50,
+        conversionImpact: 50,
+        significant: true,
+      });
+    });
+
+    it('should not mark small or harmless groups as significant', () => {
+      const groups = calculateErrorImpact(
+        [
+          ...Array.from({ length: 5 }, (_, i) => errorEvent(`s${i}`, 'Rare failure')),
+          ...Array.from({ length: 40 }, (_, i) => errorEvent(`s${i + 40}`, 'Harmless warning')),
+        ],
+        sessions
+      );
+
+      expect(groups.map((g) => [g.message, g.significant])).toEqual([
+        ['Harmless warning', false],
+        ['Rare failure', false],
+      ]);
+    });
+
+    it('should upscale affected sessions but keep the observed count', () => {
+      const sampled = sessions.map((session) => ({ ...session, sampleRate: 0.5 }));
+
+      const [group] = calculateErrorImpact(
+        Array.from({ length: 30 }, (_, i) => errorEvent(`s${i}`, 'Cart failed')),
+        sampled
+      );
+
+      expect(group).toMatchObject({ affectedSessions: 60, observedSessions: 30 });
+    });
+
+    it('should skip events without a message', () => {
+      expect(calculateErrorImpact([{ sessionId: 's1', data: { kind: 'error' } }], sessions)).toEqual([]);
+    });
+  });
+});
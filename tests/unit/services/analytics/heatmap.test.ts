@@ -0,0 +1,42 @@
+/**
+ * Click Heatmap Service Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { binClick, deviceClass, mergeHeatmapCells } from '@/services/analytics/heatmap';
+
+describe('Click Heatmap Service', () => {
+  describe('deviceClass', () => {
+    it('should classify viewports by breakpoint', () => {
+      expect(deviceClass(390)).toBe('mobile');
+      expect(deviceClass(768)).toBe('tablet');
+      expect(deviceClass(1023)).toBe('tablet');
+      expect(deviceClass(1920)).toBe('desktop');
+    });
+  });
+
+  describe('binClick', () => {
+    it('should bin by viewport fraction and document row', () => {
+      expect(binClick({ pageX: 0, pageY: 0, vw: 1280 })).toBe('0:0');
+      expect(binClick({ pageX: 640, pageY: 60, vw: 1280 })).toBe('20:2');
+      expect(binClick({ pageX: 195, pageY: 60, vw: 390 })).toBe('20:2');
+      expect(binClick({ pageX: 1280, pageY: 0, vw: 1280 })).toBe('39:0');
+    });
+
+    it('should skip clicks without heatmap fields or outside the grid', () => {
+      expect(binClick({ pageX: 10, pageY: 10 })).toBeNull();
+      expect(binClick({ pageX: -1, pageY: 10, vw: 1280 })).toBeNull();
+      expect(binClick({ pageX: 10, pageY: 50_000, vw: 1280 })).toBeNull();
+    });
+  });
+
+  describe('mergeHeatmapCells', () => {
+    it('should sum cells across windows in reading order', () => {
+      expect(mergeHeatmapCells([{ '3:1': 2, '0:0': 1 }, { '3:1': 3, '1:0': 4 }])).toEqual([
+        { column: 0, row: 0, clicks: 1 },
+        { column: 1, row: 0, clicks: 4 },
+        { column: 3, row: 1, clicks: 5 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Impression Calculator Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateImpressionStats } from '@/services/analytics/impression-calculator';
+
+const impression = (sessionId: string, name: string, path = '/products/mug') => ({
+  sessionId,
+  data: { name, selector: '#badges', url: `https://shop.example.com${path}` },
+});
+
+const session = (sessionId: string, journeyPath: string[], converted: boolean) => ({
+  sessionId,
+  journeyPath,
+  converted,
+});
+
+describe('Impression Calculator Service', () => {
+  describe('calculateImpressionStats', () => {
+    const sessions = [
+      session('saw-buyer', ['/', '/products/mug'], true),
+      session('saw-browser', ['/products/cup'], false),
+      session('missed-buyer', ['/products/vase'], true),
+      session('missed-1', ['/products/mug'], false),
+      session('missed-2', ['/products/mug'], false),
+      session('missed-3', ['/products/mug'], false),
+      session('home-only', ['/'], true),
+    ];
+
+    it('should compare sessions that saw the element with those that visited its pages', () => {
+      const [badges] = calculateImpressionStats(
+        [
+          impression('saw-buyer', 'trust-badges'),
+          impression('saw-buyer', 'trust-badges', '/products/cup'),
+          impression('saw-browser', 'trust-badges', '/products/cup'),
+          impression('unaggregated', 'trust-badges'),
+        ],
+        sessions
+      );
+
+      expect(badges).toEqual({
+        name: 'trust-badges',
+        pages: ['/products/:handle'],
+        impressions: 4,
+        exposedSessions: 6,
+        seenSessions: 2,
+        impressionRate: 33.3,
+        seenConversionRate: 50,
+        notSeenConversionRate: 25,
+      });
+    });
+
+    it('should group by name and report no not-seen rate when every visitor saw it', () => {
+      const stats = calculateImpressionStats(
+        [
+          impression('home-only', 'shipping-banner', '/'),
+          impression('saw-buyer', 'shipping-banner', '/'),
+          impression('missed-1', 'upsell'),
+          { sessionId: 'missed-2', data: { selector: '#unnamed' } },
+        ],
+        sessions
+      );
+
+      expect(stats.map((s) => s.name)).toEqual(['shipping-banner', 'upsell']);
+      expect(stats[0]).toMatchObject({ pages: ['/'], impressionRate: 100, notSeenConversionRate: null });
+      expect(stats[1]).toMatchObject({ exposedSessions: 6, seenSessions: 1, seenConversionRate: 0 });
+    });
+
+    it('should scale counts up by each session\'s sample rate', () => {
+      const [badges] = calculateImpressionStats(
+        [impression('saw-buyer', 'trust-badges'), impression('unaggregated', 'trust-badges')],
+        [
+          { ...session('saw-buyer', ['/products/mug'], true), sampleRate: 0.5 },
+          { ...session('missed-1', ['/products/mug'], false), sampleRate: 0.25 },
+          session('missed-2', ['/products/mug'], false),
+        ]
+      );
+
+      expect(badges).toMatchObject({
+        impressions: 3,
+        exposedSessions: 7,
+        seenSessions: 2,
+        impressionRate: 28.6,
+        seenConversionRate: 100,
+        notSeenConversionRate: 0,
+      });
+    });
+  });
+});
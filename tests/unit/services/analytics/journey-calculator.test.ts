@@ -26,6 +26,21 @@ function createSession(overrides: Partial<Session> = {}): Session {
     pageCount: 3,
     bounced: false,
     converted: false,
+    orderValue: null,
+    currency: null,
+    isBot: false,
+    botReason: null,
+    visitorId: null,
+    isReturning: false,
+    channel: null,
+    referrer: null,
+    utmSource: null,
+    utmMedium: null,
+    utmCampaign: null,
+    utmTerm: null,
+    utmContent: null,
+    clickIdType: null,
+    sampleRate: 1,
     journeyPath: ['/'],
     createdAt: new Date(),
     ...overrides,
@@ -110,6 +125,29 @@ describe('Journey Calculator Service', () => {
       expect(result.stages[2].conversionRate).toBe(0); // 0 of 1 reached Checkout
     });
 
+    it('should upscale counts of sampled sessions by the inverse sample rate', () => {
+      const sessions: Session[] = [
+        createSession({
+          journeyPath: ['/', '/products/item-1'],
+          sampleRate: 0.25,
+        }),
+        createSession({
+          journeyPath: ['/', '/products/item-1', '/cart', '/checkout', '/success'],
+          converted: true,
+          sampleRate: 0.25,
+        }),
+      ];
+
+      const result = calculateFunnelStages(sessions, 30, 'all');
+
+      expect(result.totalSessions).toBe(8);
+      expect(result.stages[0].count).toBe(8);
+      expect(result.stages[1].count).toBe(8);
+      expect(result.stages[2].count).toBe(4);
+      expect(result.stages[2].dropOffRate).toBe(50);
+      expect(result.overallConversion).toBe(50);
+    });
+
     it('should handle empty session data', () => {
       const result = calculateFunnelStages([], 30, 'all');
 
@@ -0,0 +1,50 @@
+/**
+ * Sampling Service Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sessionWeight, weightedCount, lowestSampleRate } from '@/services/analytics/sampling';
+
+describe('Sampling Service', () => {
+  describe('sessionWeight', () => {
+    it('should weight a sampled session by the inverse sample rate', () => {
+      expect(sessionWeight({ sampleRate: 0.25 })).toBe(4);
+      expect(sessionWeight({ sampleRate: 1 })).toBe(1);
+    });
+
+    it('should count sessions without a valid rate once', () => {
+      expect(sessionWeight({})).toBe(1);
+      expect(sessionWeight({ sampleRate: null })).toBe(1);
+      expect(sessionWeight({ sampleRate: 0 })).toBe(1);
+      expect(sessionWeight({ sampleRate: 2 })).toBe(1);
+    });
+  });
+
+  describe('weightedCount', () => {
+    const sessions = [
+      { sampleRate: 0.5, converted: true },
+      { sampleRate: 0.5, converted: false },
+      { sampleRate: 1, converted: true },
+    ];
+
+    it('should sum session weights', () => {
+      expect(weightedCount(sessions)).toBe(5);
+    });
+
+    it('should only count sessions matching the predicate', () => {
+      expect(weightedCount(sessions, (session) => session.converted)).toBe(3);
+      expect(weightedCount([], (session: { converted: boolean }) => session.converted)).toBe(0);
+    });
+  });
+
+  describe('lowestSampleRate', () => {
+    it('should return the lowest rate below 1', () => {
+      expect(lowestSampleRate([{ sampleRate: 1 }, { sampleRate: 0.5 }, { sampleRate: 0.1 }])).toBe(0.1);
+    });
+
+    it('should return null when every session was tracked', () => {
+      expect(lowestSampleRate([{ sampleRate: 1 }, {}])).toBeNull();
+      expect(lowestSampleRate([])).toBeNull();
+    });
+  });
+});
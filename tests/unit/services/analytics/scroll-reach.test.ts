@@ -0,0 +1,78 @@
+/**
+ * Scroll Reach Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateScrollReach } from '@/services/analytics/scroll-reach';
+
+const timeEvent = (sessionId: string, path: string, scrollDepth?: number, ctaSeen?: boolean) => ({
+  sessionId,
+  data: { duration: 30000, url: `https://shop.example.com${path}`, scrollDepth, ctaSeen },
+});
+
+describe('Scroll Reach Service', () => {
+  describe('calculateScrollReach', () => {
+    it('should build a reach curve per URL template', () => {
+      const [page] = calculateScrollReach(
+        [
+          timeEvent('s1', '/products/mug', 10),
+          timeEvent('s2', '/products/cup', 30),
+          timeEvent('s3', '/products/mug?variant=2', 60),
+          timeEvent('s3', '/products/mug', 100),
+        ],
+        []
+      );
+
+      expect(page).toMatchObject({
+        urlTemplate: '/products/:handle',
+        pageviews: 4,
+        sessions: 3,
+        reach: { 25: 75, 50: 50, 75: 25, 100: 25 },
+        averageDepth: 50,
+        ctaPageviews: 0,
+        ctaSeenRate: null,
+      });
+    });
+
+    it('should compare converting and non-converting sessions', () => {
+      const [page] = calculateScrollReach(
+        [
+          timeEvent('buyer1', '/products/mug', 90, true),
+          timeEvent('buyer2', '/products/mug', 70, true),
+          timeEvent('browser1', '/products/mug', 20, false),
+          timeEvent('browser2', '/products/mug', 40, true),
+          timeEvent('unaggregated', '/products/mug', 0, false),
+        ],
+        [
+          { sessionId: 'buyer1', converted: true },
+          { sessionId: 'buyer2', converted: true },
+          { sessionId: 'browser1', converted: false },
+          { sessionId: 'browser2', converted: false },
+        ]
+      );
+
+      expect(page.pageviews).toBe(5);
+      expect(page.ctaSeenRate).toBe(60);
+      expect(page.converting).toMatchObject({ pageviews: 2, averageDepth: 80, ctaSeenRate: 100 });
+      expect(page.nonConverting).toMatchObject({ pageviews: 2, averageDepth: 30, ctaSeenRate: 50 });
+    });
+
+    it('should skip time events without a scroll depth and sort by pageviews', () => {
+      const pages = calculateScrollReach(
+        [
+          timeEvent('s1', '/cart', 100),
+          timeEvent('s1', '/', 50),
+          timeEvent('s2', '/', 150),
+          timeEvent('s3', '/'),
+        ],
+        []
+      );
+
+      expect(pages.map((page) => [page.urlTemplate, page.pageviews])).toEqual([
+        ['/', 2],
+        ['/cart', 1],
+      ]);
+      expect(pages[0].reach[100]).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * URL Template Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toUrlTemplate } from '@/services/analytics/url-template';
+
+describe('URL Template Service', () => {
+  describe('toUrlTemplate', () => {
+    it('should drop the origin, query string and hash', () => {
+      expect(toUrlTemplate('https://shop.example.com/Cart/?step=2#summary')).toBe('/cart');
+      expect(toUrlTemplate('https://shop.example.com')).toBe('/');
+    });
+
+    it('should collapse product and collection handles', () => {
+      expect(toUrlTemplate('https://shop.example.com/products/blue-mug?variant=3')).toBe('/products/:handle');
+      expect(toUrlTemplate('/collections/summer/products/red-mug')).toBe('/collections/:handle/products/:handle');
+    });
+
+    it('should collapse ID segments', () => {
+      expect(toUrlTemplate('/orders/10452/status')).toBe('/orders/:id/status');
+      expect(toUrlTemplate('/account/3f2b8c1e-9a4d-4c6e-8f1a-2b3c4d5e6f70')).toBe('/account/:id');
+      expect(toUrlTemplate('/checkouts/c1a2b3c4d5e6f708a9b0')).toBe('/checkouts/:id');
+      expect(toUrlTemplate('/pages/about-us')).toBe('/pages/about-us');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Web Vitals Histogram Service Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addVitalSample,
+  emptyVitalsHistogram,
+  histogramP75,
+  mergeVitalsHistograms,
+  vitalBucket,
+  vitalSampleCount,
+} from '@/services/analytics/vitals';
+
+describe('Web Vitals Histogram Service', () => {
+  describe('vitalBucket', () => {
+    it('should round values up to a whole bucket', () => {
+      expect(vitalBucket('lcp', 4000)).toBe(400);
+      expect(vitalBucket('lcp', 4001)).toBe(401);
+      expect(vitalBucket('lcp', 0)).toBe(0);
+    });
+
+    it('should not let float noise move layout shift scores up a bucket', () => {
+      expect(vitalBucket('cls', 0.07)).toBe(7);
+      expect(vitalBucket('cls', 0.25)).toBe(25);
+      expect(vitalBucket('cls', 0.251)).toBe(26);
+    });
+  });
+
+  describe('mergeVitalsHistograms', () => {
+    it('should sum bucket counts across windows', () => {
+      const first = emptyVitalsHistogram();
+      const second = emptyVitalsHistogram();
+      addVitalSample(first, 'lcp', 1000);
+      addVitalSample(second, 'lcp', 1000);
+      addVitalSample(second, 'inp', 300);
+
+      const merged = mergeVitalsHistograms([first, second, {}]);
+
+      expect(merged.lcp).toEqual({ '100': 2 });
+      expect(merged.inp).toEqual({ '30': 1 });
+      expect(vitalSampleCount(merged, 'cls')).toBe(0);
+    });
+  });
+
+  describe('histogramP75', () => {
+    it('should return the nearest-rank p75 of the pooled samples', () => {
+      const histogram = emptyVitalsHistogram();
+      for (const value of [1000, 2000, 3000, 4000]) addVitalSample(histogram, 'lcp', value);
+
+      expect(histogramP75(histogram, 'lcp')).toBe(3000);
+    });
+
+    it('should rate values on a threshold as at the threshold', () => {
+      const histogram = emptyVitalsHistogram();
+      addVitalSample(histogram, 'cls', 0.25);
+
+      expect(histogramP75(histogram, 'cls')).toBe(0.25);
+    });
+
+    it('should return null without samples', () => {
+      expect(histogramP75(emptyVitalsHistogram(), 'fcp')).toBeNull();
+    });
+  });
+});
@@ -17,8 +17,14 @@ import {
   aggregateSessions,
   createSessions,
   calculateJourneyFunnels,
+  resolveVisitors,
+  aggregatePageVitals,
+  storePageVitals,
+  aggregateClickHeatmaps,
+  storeClickHeatmaps,
 } from "@/services/analytics/session-aggregator";
 import { prisma } from "@/lib/prisma";
+import type { SessionData } from "@/types/session";
 
 // Mock Prisma
 vi.mock("@/lib/prisma", () => ({
@@ -29,16 +35,29 @@ vi.mock("@/lib/prisma", () => ({
     session: {
       createMany: vi.fn(),
       upsert: vi.fn(),
+      update: vi.fn(),
       findMany: vi.fn(),
       count: vi.fn(),
       aggregate: vi.fn(),
     },
+    visitor: {
+      findMany: vi.fn(),
+      groupBy: vi.fn(),
+      upsert: vi.fn(),
+    },
+    pageVitals: {
+      createMany: vi.fn(),
+    },
+    clickHeatmap: {
+      createMany: vi.fn(),
+    },
   },
 }));
 
 describe("Session Aggregator Service", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(prisma.session.findMany).mockResolvedValue([]);
   });
 
   describe("aggregateSessions - Session Grouping (AC #1)", () => {
@@ -49,28 +68,37 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:01:00Z"),
           data: { url: "/products" },
           createdAt: new Date("2025-11-01T10:01:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "3",
           siteId: "site1",
           sessionId: "session2",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/about" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -109,19 +137,25 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site2",
           sessionId: "session2",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/about" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -140,6 +174,50 @@ describe("Session Aggregator Service", () => {
     });
   });
 
+  describe("aggregateSessions - Late Events", () => {
+    it("should re-aggregate sessions from all their events when late events are ingested", async () => {
+      const event = (id: string, url: string, timestamp: string, createdAt: string) => ({
+        id,
+        siteId: "site1",
+        sessionId: "session1",
+        clientEventId: null,
+        eventType: "pageview",
+        timestamp: new Date(timestamp),
+        data: { url },
+        createdAt: new Date(createdAt),
+        botReason: null,
+        visitorId: null,
+      });
+      const start = new Date("2025-11-02T10:00:00Z");
+      const end = new Date("2025-11-02T10:15:00Z");
+
+      // An offline replay ingested a day after the session's first pageview
+      vi.mocked(prisma.trackingEvent.findMany)
+        .mockResolvedValueOnce([{ sessionId: "session1" }] as never)
+        .mockResolvedValueOnce([
+          event("1", "/home", "2025-11-01T10:00:00Z", "2025-11-01T10:00:05Z"),
+          event("2", "/products", "2025-11-01T10:01:00Z", "2025-11-02T10:05:00Z"),
+        ]);
+
+      const [session] = await aggregateSessions(start, end);
+
+      expect(prisma.trackingEvent.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ where: { createdAt: { gte: start, lt: end } } })
+      );
+      expect(prisma.trackingEvent.findMany).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ where: { sessionId: { in: ["session1"] } } })
+      );
+      expect(session).toMatchObject({
+        journeyPath: ["/home", "/products"],
+        pageCount: 2,
+        bounced: false,
+        createdAt: new Date("2025-11-01T10:00:05Z"),
+      });
+    });
+  });
+
   describe("aggregateSessions - Journey Extraction (AC #2)", () => {
     it("should extract journey path from pageview events", async () => {
       // Arrange: Session with multiple pageviews
@@ -148,28 +226,37 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:01:00Z"),
           data: { url: "/products" },
           createdAt: new Date("2025-11-01T10:01:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "3",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:02:00Z"),
           data: { url: "/cart" },
           createdAt: new Date("2025-11-01T10:02:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -195,28 +282,37 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "click",
           timestamp: new Date("2025-11-01T10:00:30Z"),
           data: { button: "signup" },
           createdAt: new Date("2025-11-01T10:00:30Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "3",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:01:00Z"),
           data: { url: "/signup" },
           createdAt: new Date("2025-11-01T10:01:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -240,10 +336,13 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/landing" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -270,19 +369,25 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:02:00Z"),
           data: { url: "/about" },
           createdAt: new Date("2025-11-01T10:02:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -305,10 +410,13 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -331,28 +439,37 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/page1" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:01:00Z"),
           data: { url: "/page2" },
           createdAt: new Date("2025-11-01T10:01:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "3",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:02:00Z"),
           data: { url: "/page3" },
           createdAt: new Date("2025-11-01T10:02:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -375,10 +492,13 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/landing" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -402,19 +522,25 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:01:00Z"),
           data: { url: "/about" },
           createdAt: new Date("2025-11-01T10:01:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -437,19 +563,25 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "conversion",
           timestamp: new Date("2025-11-01T10:05:00Z"),
           data: { value: 99.99 },
           createdAt: new Date("2025-11-01T10:05:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -472,10 +604,97 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
+        },
+      ];
+
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue(mockEvents);
+
+      // Act
+      const sessions = await aggregateSessions(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-02T00:00:00Z")
+      );
+
+      // Assert
+      expect(sessions[0].converted).toBe(false);
+    });
+
+    it("should detect purchase event as conversion and record order value", async () => {
+      // Arrange: Purchase reported twice for the same order (e.g. thank-you page reload)
+      const mockEvents = [
+        {
+          id: "1",
+          siteId: "site1",
+          sessionId: "session1",
+          clientEventId: null,
+          eventType: "pageview",
+          timestamp: new Date("2025-11-01T10:00:00Z"),
+          data: { url: "/checkout" },
+          createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
+        },
+        {
+          id: "2",
+          siteId: "site1",
+          sessionId: "session1",
+          clientEventId: null,
+          eventType: "purchase",
+          timestamp: new Date("2025-11-01T10:05:00Z"),
+          data: { orderId: "1001", value: 59.5, currency: "USD" },
+          createdAt: new Date("2025-11-01T10:05:00Z"),
+          botReason: null,
+          visitorId: null,
+        },
+        {
+          id: "3",
+          siteId: "site1",
+          sessionId: "session1",
+          clientEventId: null,
+          eventType: "purchase",
+          timestamp: new Date("2025-11-01T10:06:00Z"),
+          data: { orderId: "1001", value: 59.5, currency: "USD" },
+          createdAt: new Date("2025-11-01T10:06:00Z"),
+          botReason: null,
+          visitorId: null,
+        },
+      ];
+
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue(mockEvents);
+
+      // Act
+      const sessions = await aggregateSessions(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-02T00:00:00Z")
+      );
+
+      // Assert
+      expect(sessions[0].converted).toBe(true);
+      expect(sessions[0].orderValue).toBe(59.5);
+      expect(sessions[0].currency).toBe("USD");
+    });
+
+    it("should not be converted by add_to_cart alone", async () => {
+      // Arrange
+      const mockEvents = [
+        {
+          id: "1",
+          siteId: "site1",
+          sessionId: "session1",
+          clientEventId: null,
+          eventType: "add_to_cart",
+          timestamp: new Date("2025-11-01T10:00:00Z"),
+          data: { variantId: "42", quantity: 1 },
+          createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -489,6 +708,154 @@ describe("Session Aggregator Service", () => {
 
       // Assert
       expect(sessions[0].converted).toBe(false);
+      expect(sessions[0].orderValue).toBeNull();
+    });
+
+    it("should not be converted by server-side refund events", async () => {
+      // Arrange
+      const mockEvents = [
+        {
+          id: "1",
+          siteId: "site1",
+          sessionId: "session1",
+          clientEventId: null,
+          eventType: "pageview",
+          timestamp: new Date("2025-11-01T10:00:00Z"),
+          data: { url: "/" },
+          createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: "customer-42",
+        },
+        {
+          id: "2",
+          siteId: "site1",
+          sessionId: "session1",
+          clientEventId: null,
+          eventType: "custom",
+          timestamp: new Date("2025-11-01T10:10:00Z"),
+          data: { name: "refund", properties: { orderId: "1001", amount: 25 }, visitorId: "customer-42" },
+          createdAt: new Date("2025-11-01T10:10:00Z"),
+          botReason: null,
+          visitorId: "customer-42",
+        },
+      ];
+
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue(mockEvents);
+
+      // Act
+      const sessions = await aggregateSessions(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-02T00:00:00Z")
+      );
+
+      // Assert
+      expect(sessions[0].converted).toBe(false);
+      expect(sessions[0].orderValue).toBeNull();
+    });
+
+    it("should flag sessions tagged as bots at ingestion", async () => {
+      // Arrange
+      const mockEvents = [
+        {
+          id: "1",
+          siteId: "site1",
+          sessionId: "session1",
+          clientEventId: null,
+          eventType: "pageview",
+          timestamp: new Date("2025-11-01T10:00:00Z"),
+          data: { url: "/home" },
+          createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: "user_agent",
+          visitorId: null,
+        },
+        {
+          id: "2",
+          siteId: "site1",
+          sessionId: "session2",
+          clientEventId: null,
+          eventType: "pageview",
+          timestamp: new Date("2025-11-01T10:00:00Z"),
+          data: { url: "/home" },
+          createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
+        },
+      ];
+
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue(mockEvents);
+
+      // Act
+      const sessions = await aggregateSessions(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-02T00:00:00Z")
+      );
+
+      // Assert
+      const bot = sessions.find((s) => s.sessionId === "session1");
+      const human = sessions.find((s) => s.sessionId === "session2");
+      expect(bot?.isBot).toBe(true);
+      expect(bot?.botReason).toBe("user_agent");
+      expect(human?.isBot).toBe(false);
+      expect(human?.botReason).toBeNull();
+    });
+
+    it("should flag sessions with impossible pageview cadence", async () => {
+      // Arrange: 6 pageviews 100ms apart
+      const mockEvents = Array.from({ length: 6 }, (_, i) => ({
+        id: String(i + 1),
+        siteId: "site1",
+        sessionId: "session1",
+        clientEventId: null,
+        eventType: "pageview",
+        timestamp: new Date(Date.UTC(2025, 10, 1, 10, 0, 0, i * 100)),
+        data: { url: `/page-${i}` },
+        createdAt: new Date("2025-11-01T10:00:00Z"),
+        botReason: null,
+        visitorId: null,
+      }));
+
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue(mockEvents);
+
+      // Act
+      const sessions = await aggregateSessions(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-02T00:00:00Z")
+      );
+
+      // Assert
+      expect(sessions[0].isBot).toBe(true);
+      expect(sessions[0].botReason).toBe("cadence");
+    });
+    it("should record the lowest sample rate reported by the session's pageviews", async () => {
+      // Arrange
+      const pageview = (id: string, sessionId: string, data: object) => ({
+        id,
+        siteId: "site1",
+        sessionId,
+        clientEventId: null,
+        eventType: "pageview",
+        timestamp: new Date(`2025-11-01T10:0${id}:00Z`),
+        data,
+        createdAt: new Date("2025-11-01T10:00:00Z"),
+        botReason: null,
+        visitorId: null,
+      });
+
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        pageview("1", "sampled", { url: "/home", sampleRate: 0.5 }),
+        pageview("2", "sampled", { url: "/cart", sampleRate: 0.25 }),
+        pageview("3", "unsampled", { url: "/home" }),
+      ]);
+
+      // Act
+      const sessions = await aggregateSessions(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-02T00:00:00Z")
+      );
+
+      // Assert
+      expect(sessions.find((s) => s.sessionId === "sampled")?.sampleRate).toBe(0.25);
+      expect(sessions.find((s) => s.sessionId === "unsampled")?.sampleRate).toBe(1);
     });
   });
 
@@ -505,6 +872,11 @@ describe("Session Aggregator Service", () => {
           pageCount: 2,
           bounced: false,
           converted: false,
+          orderValue: null,
+          currency: null,
+          isBot: false,
+          botReason: null,
+          visitorId: null,
           journeyPath: ["/home", "/about"],
           createdAt: new Date(),
         },
@@ -541,6 +913,11 @@ describe("Session Aggregator Service", () => {
           pageCount: 1,
           bounced: true,
           converted: false,
+          orderValue: null,
+          currency: null,
+          isBot: false,
+          botReason: null,
+          visitorId: null,
           journeyPath: ["/home"],
           createdAt: new Date(),
         },
@@ -562,6 +939,21 @@ describe("Session Aggregator Service", () => {
         pageCount: 1,
         bounced: true,
         converted: false,
+        orderValue: null,
+        currency: null,
+        isBot: false,
+        botReason: null,
+        visitorId: null,
+        isReturning: false,
+        channel: null,
+        referrer: null,
+        utmSource: null,
+        utmMedium: null,
+        utmCampaign: null,
+        utmTerm: null,
+        utmContent: null,
+        clickIdType: null,
+        sampleRate: 1,
         journeyPath: ["/home"],
         createdAt: new Date(),
       });
@@ -573,6 +965,440 @@ describe("Session Aggregator Service", () => {
       expect(prisma.session.upsert).toHaveBeenCalled();
       expect(result.created).toBe(1);
     });
+
+    it("should update sessions stored by an earlier run", async () => {
+      const session = {
+        siteId: "site1",
+        sessionId: "session1",
+        entryPage: "/home",
+        exitPage: "/products",
+        duration: 60,
+        pageCount: 2,
+        bounced: false,
+        converted: false,
+        orderValue: null,
+        currency: null,
+        isBot: false,
+        botReason: null,
+        visitorId: null,
+        journeyPath: ["/home", "/products"],
+        createdAt: new Date(),
+      };
+
+      vi.mocked(prisma.session.findMany).mockResolvedValue([{ sessionId: "session1" }] as never);
+      vi.mocked(prisma.session.createMany).mockResolvedValue({ count: 0 });
+
+      const result = await createSessions([session]);
+
+      expect(prisma.session.createMany).toHaveBeenCalledWith({ data: [], skipDuplicates: true });
+      expect(prisma.session.update).toHaveBeenCalledWith({
+        where: { sessionId: "session1" },
+        data: expect.objectContaining({ pageCount: 2, bounced: false, journeyPath: ["/home", "/products"] }),
+      });
+      expect(vi.mocked(prisma.session.update).mock.calls[0][0].data).not.toHaveProperty("createdAt");
+      expect(result).toEqual({ created: 0, updated: 1, errors: [] });
+    });
+  });
+
+  describe("Visitor identity", () => {
+    const session = (overrides: Partial<SessionData> = {}): SessionData => ({
+      siteId: "site1",
+      sessionId: "session1",
+      entryPage: "/home",
+      exitPage: null,
+      duration: null,
+      pageCount: 1,
+      bounced: true,
+      converted: false,
+      orderValue: null,
+      currency: null,
+      journeyPath: ["/home"],
+      isBot: false,
+      botReason: null,
+      visitorId: "visitor1",
+      createdAt: new Date("2025-11-10T10:00:00Z"),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.mocked(prisma.visitor.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.visitor.groupBy).mockResolvedValue([] as never);
+    });
+
+    it("should extract the visitor ID and identified customer", async () => {
+      const event = (id: string, eventType: string, data: object, visitorId: string | null) => ({
+        id,
+        siteId: "site1",
+        sessionId: "session1",
+        clientEventId: null,
+        eventType,
+        timestamp: new Date(`2025-11-01T10:00:0${id}Z`),
+        data,
+        createdAt: new Date("2025-11-01T10:00:00Z"),
+        botReason: null,
+        visitorId,
+      });
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        event("1", "pageview", { url: "/home" }, null),
+        event("2", "identify", { customerId: "customer-42", traits: { plan: "pro" } }, "visitor1"),
+      ]);
+
+      const [result] = await aggregateSessions(new Date("2025-11-01"), new Date("2025-11-02"));
+
+      expect(result).toMatchObject({
+        visitorId: "visitor1",
+        customerId: "customer-42",
+        customerTraits: { plan: "pro" },
+      });
+    });
+
+    it("should flag sessions of visitors seen before as returning", async () => {
+      vi.mocked(prisma.visitor.findMany).mockResolvedValue([
+        {
+          visitorId: "visitor1",
+          customerId: null,
+          traits: null,
+          firstSeenAt: new Date("2025-11-01T10:00:00Z"),
+          lastSeenAt: new Date("2025-11-01T10:00:00Z"),
+        },
+      ] as never);
+
+      const returning = await resolveVisitors([
+        session(),
+        session({ sessionId: "session2", visitorId: "visitor2" }),
+      ]);
+
+      expect([...returning]).toEqual(["session1"]);
+      expect(prisma.visitor.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { siteId_visitorId: { siteId: "site1", visitorId: "visitor1" } },
+          update: expect.objectContaining({
+            firstSeenAt: new Date("2025-11-01T10:00:00Z"),
+            lastSeenAt: new Date("2025-11-10T10:00:00Z"),
+          }),
+        })
+      );
+    });
+
+    it("should count a visitor's later sessions in the same batch as returning", async () => {
+      const returning = await resolveVisitors([
+        session({ sessionId: "later", createdAt: new Date("2025-11-10T12:00:00Z") }),
+        session(),
+      ]);
+
+      expect([...returning]).toEqual(["later"]);
+      expect(prisma.visitor.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stitch identified customers across visitor IDs", async () => {
+      vi.mocked(prisma.visitor.groupBy).mockResolvedValue([
+        { customerId: "customer-42", _min: { firstSeenAt: new Date("2025-10-01T10:00:00Z") } },
+      ] as never);
+
+      const returning = await resolveVisitors([
+        session({ visitorId: "new-device", customerId: "customer-42", customerTraits: { plan: "pro" } }),
+      ]);
+
+      expect([...returning]).toEqual(["session1"]);
+      expect(prisma.visitor.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ customerId: "customer-42", traits: { plan: "pro" } }),
+        })
+      );
+    });
+
+    it("should store the visitor link and returning flag", async () => {
+      vi.mocked(prisma.session.createMany).mockResolvedValue({ count: 2 });
+
+      await createSessions([
+        session({ sessionId: "first" }),
+        session({ sessionId: "second", createdAt: new Date("2025-11-11T10:00:00Z") }),
+      ]);
+
+      expect(prisma.session.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ sessionId: "first", visitorId: "visitor1", isReturning: false }),
+          expect.objectContaining({ sessionId: "second", visitorId: "visitor1", isReturning: true }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it("should store sessions without their visitor link if visitors can't be stored", async () => {
+      vi.mocked(prisma.visitor.findMany).mockRejectedValue(new Error("connection lost"));
+      vi.mocked(prisma.session.createMany).mockResolvedValue({ count: 1 });
+
+      const result = await createSessions([session()]);
+
+      expect(result.errors[0]).toContain("Visitor upsert failed");
+      expect(prisma.session.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ visitorId: null, isReturning: false })],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe("Attribution", () => {
+    const pageview = (id: string, data: object) => ({
+      id,
+      siteId: "site1",
+      sessionId: "session1",
+      clientEventId: null,
+      eventType: "pageview",
+      timestamp: new Date(`2025-11-01T10:00:0${id}Z`),
+      data,
+      createdAt: new Date("2025-11-01T10:00:00Z"),
+      botReason: null,
+      visitorId: null,
+    });
+
+    it("should attribute the session to the landing pageview's source", async () => {
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        pageview("1", {
+          url: "https://shop.example.com/?utm_source=google",
+          referrer: "https://www.google.com/",
+          attribution: { utmSource: "google", utmMedium: "cpc", utmCampaign: "spring_sale" },
+        }),
+        pageview("2", { url: "https://shop.example.com/cart", referrer: "https://t.co/xyz" }),
+      ]);
+
+      const [result] = await aggregateSessions(new Date("2025-11-01"), new Date("2025-11-02"));
+
+      expect(result.attribution).toEqual({
+        channel: "paid",
+        referrer: "https://www.google.com/",
+        utmSource: "google",
+        utmMedium: "cpc",
+        utmCampaign: "spring_sale",
+        utmTerm: null,
+        utmContent: null,
+        clickIdType: null,
+      });
+    });
+
+    it("should fall back to the landing URL's query string", async () => {
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        pageview("1", { url: "https://shop.example.com/?gclid=abc&utm_campaign=launch" }),
+      ]);
+
+      const [result] = await aggregateSessions(new Date("2025-11-01"), new Date("2025-11-02"));
+
+      expect(result.attribution).toMatchObject({ channel: "paid", clickIdType: "gclid", utmCampaign: "launch" });
+    });
+
+    it("should store the channel and campaign columns", async () => {
+      vi.mocked(prisma.visitor.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.visitor.groupBy).mockResolvedValue([] as never);
+      vi.mocked(prisma.session.createMany).mockResolvedValue({ count: 1 });
+
+      await createSessions([
+        {
+          siteId: "site1",
+          sessionId: "session1",
+          entryPage: "/home",
+          exitPage: null,
+          duration: null,
+          pageCount: 1,
+          bounced: true,
+          converted: false,
+          orderValue: null,
+          currency: null,
+          journeyPath: ["/home"],
+          isBot: false,
+          botReason: null,
+          visitorId: null,
+          attribution: {
+            channel: "email",
+            referrer: null,
+            utmSource: "newsletter",
+            utmMedium: "email",
+            utmCampaign: "launch",
+            utmTerm: null,
+            utmContent: null,
+            clickIdType: null,
+          },
+          createdAt: new Date("2025-11-10T10:00:00Z"),
+        },
+      ]);
+
+      expect(prisma.session.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ channel: "email", utmSource: "newsletter", utmCampaign: "launch" })],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe("Page vitals", () => {
+    const perfEvent = (url: string, data: object, siteId = "site1", sessionId = "human") =>
+      ({ siteId, sessionId, data: { url, ...data } }) as never;
+    const windowSessions = [
+      { sessionId: "human", isBot: false },
+      { sessionId: "bot", isBot: true },
+    ];
+
+    it("should compute p75 vitals per site and URL template", async () => {
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        perfEvent("https://shop.example.com/products/blue-mug", { lcp: 1000, cls: 0.01 }),
+        perfEvent("https://shop.example.com/products/red-mug?variant=2", { lcp: 2000, cls: 0.3 }),
+        perfEvent("https://shop.example.com/products/green-mug", { lcp: 3000 }),
+        perfEvent("https://shop.example.com/products/mug-4", { lcp: 4000, inp: 120 }),
+        perfEvent("https://shop.example.com/cart", { ttfb: 300 }),
+        perfEvent("https://other.example.com/cart", { ttfb: 900 }, "site2"),
+        perfEvent("https://shop.example.com/cart", { ttfb: 5000 }, "site1", "bot"),
+      ]);
+      const start = new Date("2025-11-01T00:00:00Z");
+      const end = new Date("2025-11-01T04:00:00Z");
+
+      const vitals = await aggregatePageVitals(start, end, windowSessions);
+
+      expect(prisma.trackingEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ eventType: "performance", botReason: null }),
+        })
+      );
+      expect(vitals).toEqual([
+        {
+          siteId: "site1",
+          urlTemplate: "/products/:handle",
+          periodStart: start,
+          periodEnd: end,
+          sampleSize: 4,
+          lcp: 3000,
+          cls: 0.3,
+          inp: 120,
+          ttfb: null,
+          fcp: null,
+          histogram: {
+            lcp: { "100": 1, "200": 1, "300": 1, "400": 1 },
+            cls: { "1": 1, "30": 1 },
+            inp: { "12": 1 },
+            ttfb: {},
+            fcp: {},
+          },
+        },
+        expect.objectContaining({ siteId: "site1", urlTemplate: "/cart", sampleSize: 1, ttfb: 300 }),
+        expect.objectContaining({ siteId: "site2", urlTemplate: "/cart", ttfb: 900 }),
+      ]);
+    });
+
+    it("should report storage failures without throwing", async () => {
+      vi.mocked(prisma.pageVitals.createMany).mockRejectedValue(new Error("connection lost"));
+
+      const result = await storePageVitals([
+        {
+          siteId: "site1",
+          urlTemplate: "/cart",
+          periodStart: new Date(),
+          periodEnd: new Date(),
+          sampleSize: 1,
+          lcp: null,
+          cls: null,
+          inp: null,
+          ttfb: 300,
+          fcp: null,
+          histogram: { lcp: {}, cls: {}, inp: {}, ttfb: { "30": 1 }, fcp: {} },
+        },
+      ]);
+
+      expect(result).toEqual({ created: 0, errors: ["Page vitals insert failed: connection lost"] });
+    });
+  });
+
+  describe("Click heatmaps", () => {
+    const click = (data: object, siteId = "site1") => ({ siteId, sessionId: "human", data }) as never;
+
+    it("should bin clicks per site, URL template and device class", async () => {
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        click({ urlTemplate: "/products/:handle", url: "https://shop.example.com/products/a", pageX: 10, pageY: 30, vw: 1280 }),
+        click({ urlTemplate: "/products/:handle", url: "https://shop.example.com/products/b", pageX: 20, pageY: 40, vw: 1440 }),
+        click({ urlTemplate: "/products/:handle", pageX: 640, pageY: 1000, vw: 1280 }),
+        click({ urlTemplate: "/products/:handle", pageX: 100, pageY: 10, vw: 390 }),
+        click({ url: "https://shop.example.com/cart", pageX: 5, pageY: 5, vw: 800 }),
+        click({ selector: "#legacy", x: 5, y: 5 }),
+      ]);
+      const start = new Date("2025-11-01T00:00:00Z");
+      const end = new Date("2025-11-01T04:00:00Z");
+
+      const heatmaps = await aggregateClickHeatmaps(start, end, [
+        { sessionId: "human", sampleRate: 1, isBot: false },
+      ]);
+
+      expect(prisma.trackingEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ eventType: "click", botReason: null }),
+        })
+      );
+      expect(heatmaps).toEqual([
+        {
+          siteId: "site1",
+          urlTemplate: "/products/:handle",
+          deviceClass: "desktop",
+          periodStart: start,
+          periodEnd: end,
+          clicks: 3,
+          sampleUrl: "https://shop.example.com/products/b",
+          cells: { "0:1": 2, "20:40": 1 },
+        },
+        expect.objectContaining({ urlTemplate: "/products/:handle", deviceClass: "mobile", cells: { "10:0": 1 } }),
+        expect.objectContaining({ urlTemplate: "/cart", deviceClass: "tablet", clicks: 1 }),
+      ]);
+    });
+
+    it("should weight clicks of sampled sessions by the inverse sample rate", async () => {
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        { siteId: "site1", sessionId: "sampled", data: { urlTemplate: "/cart", pageX: 10, pageY: 30, vw: 1280 } },
+        { siteId: "site1", sessionId: "unsampled", data: { urlTemplate: "/cart", pageX: 10, pageY: 30, vw: 1280 } },
+      ] as never);
+
+      const heatmaps = await aggregateClickHeatmaps(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-01T04:00:00Z"),
+        [
+          { sessionId: "sampled", sampleRate: 0.1, isBot: false },
+          { sessionId: "unsampled", sampleRate: 1, isBot: false },
+        ]
+      );
+
+      expect(heatmaps[0]).toEqual(expect.objectContaining({ clicks: 11, cells: { "0:1": 11 } }));
+    });
+
+    it("should skip clicks of sessions classified as bots", async () => {
+      vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue([
+        { siteId: "site1", sessionId: "human", data: { urlTemplate: "/cart", pageX: 10, pageY: 30, vw: 1280 } },
+        { siteId: "site1", sessionId: "fast-bot", data: { urlTemplate: "/cart", pageX: 10, pageY: 30, vw: 1280 } },
+        { siteId: "site1", sessionId: "fast-bot", data: { urlTemplate: "/cart", pageX: 640, pageY: 30, vw: 1280 } },
+      ] as never);
+
+      const heatmaps = await aggregateClickHeatmaps(
+        new Date("2025-11-01T00:00:00Z"),
+        new Date("2025-11-01T04:00:00Z"),
+        [
+          { sessionId: "human", sampleRate: 1, isBot: false },
+          { sessionId: "fast-bot", sampleRate: 1, isBot: true },
+        ]
+      );
+
+      expect(heatmaps).toEqual([expect.objectContaining({ clicks: 1, cells: { "0:1": 1 } })]);
+    });
+
+    it("should report storage failures without throwing", async () => {
+      vi.mocked(prisma.clickHeatmap.createMany).mockRejectedValue(new Error("connection lost"));
+
+      const result = await storeClickHeatmaps([
+        {
+          siteId: "site1",
+          urlTemplate: "/cart",
+          deviceClass: "desktop",
+          periodStart: new Date(),
+          periodEnd: new Date(),
+          clicks: 1,
+          sampleUrl: null,
+          cells: { "0:0": 1 },
+        },
+      ]);
+
+      expect(result).toEqual({ created: 0, errors: ["Click heatmap insert failed: connection lost"] });
+    });
   });
 
   describe("calculateJourneyFunnels - Visualization (AC #6)", () => {
@@ -625,6 +1451,18 @@ describe("Session Aggregator Service", () => {
       expect(funnelData.conversionRate).toBe(0);
       expect(funnelData.funnels).toHaveLength(0);
     });
+
+    it("should slice funnels by channel and campaign", async () => {
+      vi.mocked(prisma.session.findMany).mockResolvedValue([]);
+
+      await calculateJourneyFunnels("site1", { channel: "paid", campaign: "spring_sale" });
+
+      expect(prisma.session.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { siteId: "site1", isBot: false, channel: "paid", utmCampaign: "spring_sale" },
+        })
+      );
+    });
   });
 
   describe("Edge Cases", () => {
@@ -635,10 +1473,13 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "click",
           timestamp: new Date("2025-11-01T10:00:00Z"),
           data: { button: "subscribe" },
           createdAt: new Date("2025-11-01T10:00:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -663,19 +1504,25 @@ describe("Session Aggregator Service", () => {
           id: "1",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-01T23:59:00Z"),
           data: { url: "/home" },
           createdAt: new Date("2025-11-01T23:59:00Z"),
+          botReason: null,
+          visitorId: null,
         },
         {
           id: "2",
           siteId: "site1",
           sessionId: "session1",
+          clientEventId: null,
           eventType: "pageview",
           timestamp: new Date("2025-11-02T00:01:00Z"),
           data: { url: "/about" },
           createdAt: new Date("2025-11-02T00:01:00Z"),
+          botReason: null,
+          visitorId: null,
         },
       ];
 
@@ -698,10 +1545,13 @@ describe("Session Aggregator Service", () => {
         id: `${i + 1}`,
         siteId: "site1",
         sessionId: "session1",
+        clientEventId: null,
         eventType: "pageview",
         timestamp: new Date(`2025-11-01T10:${String(i).padStart(2, "0")}:00Z`),
         data: { url: `/page${i}` },
         createdAt: new Date(`2025-11-01T10:${String(i).padStart(2, "0")}:00Z`),
+        botReason: null,
+        visitorId: null,
       }));
 
       vi.mocked(prisma.trackingEvent.findMany).mockResolvedValue(mockEvents);